@@ -9,6 +9,9 @@ module.exports = {
     '!src/**/*.d.ts',
     '!src/index.ts',
     '!src/config/runMigrations.ts',
+    '!src/config/importCatalog.ts',
+    '!src/config/importYugioh.ts',
+    '!src/config/importRates.ts',
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
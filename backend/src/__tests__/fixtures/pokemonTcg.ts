@@ -0,0 +1,82 @@
+/**
+ * Pokémon TCG API Fixtures
+ *
+ * Trimmed card objects in the shape returned by https://api.pokemontcg.io/v2
+ */
+
+import { PokemonTcgCard } from '../../types';
+
+export const charizardBase: PokemonTcgCard = {
+  id: 'base1-4',
+  name: 'Charizard',
+  supertype: 'Pokémon',
+  subtypes: ['Stage 2'],
+  hp: '120',
+  types: ['Fire'],
+  attacks: [{ name: 'Fire Spin', cost: ['Fire', 'Fire', 'Fire', 'Fire'], damage: '100', text: 'Discard 2 Energy cards.' }],
+  number: '4',
+  rarity: 'Rare Holo',
+  set: { id: 'base1', name: 'Base', series: 'Base', releaseDate: '1999/01/09' },
+  images: {
+    small: 'https://images.pokemontcg.io/base1/4.png',
+    large: 'https://images.pokemontcg.io/base1/4_hires.png',
+  },
+  tcgplayer: { prices: { holofoil: { low: 250, mid: 380, market: 359.99 } } },
+  cardmarket: { prices: { averageSellPrice: 310.5, trendPrice: 320 } },
+};
+
+export const charizardEvolutions: PokemonTcgCard = {
+  id: 'xy12-11',
+  name: 'Charizard',
+  supertype: 'Pokémon',
+  subtypes: ['Stage 2'],
+  hp: '150',
+  types: ['Fire'],
+  number: '11',
+  rarity: 'Rare Holo',
+  set: { id: 'xy12', name: 'Evolutions', series: 'XY', releaseDate: '2016/11/02' },
+  images: {
+    small: 'https://images.pokemontcg.io/xy12/11.png',
+    large: 'https://images.pokemontcg.io/xy12/11_hires.png',
+  },
+  tcgplayer: {
+    prices: {
+      holofoil: { market: 12.5 },
+      reverseHolofoil: { market: 18.25 },
+    },
+  },
+};
+
+export const charmander: PokemonTcgCard = {
+  id: 'base1-46',
+  name: 'Charmander',
+  supertype: 'Pokémon',
+  subtypes: ['Basic'],
+  hp: '50',
+  types: ['Fire'],
+  number: '46',
+  rarity: 'Common',
+  set: { id: 'base1', name: 'Base', series: 'Base', releaseDate: '1999/01/09' },
+  tcgplayer: { prices: { normal: { market: 3.1 } } },
+};
+
+export const professorsResearch: PokemonTcgCard = {
+  id: 'swsh1-178',
+  name: "Professor's Research",
+  supertype: 'Trainer',
+  subtypes: ['Supporter'],
+  rules: ['Discard your hand and draw 7 cards.'],
+  number: '178',
+  rarity: 'Rare Holo',
+  set: { id: 'swsh1', name: 'Sword & Shield', series: 'Sword & Shield', releaseDate: '2020/02/07' },
+};
+
+/**
+ * Every fixture card, newest set first (the order the service asks for)
+ */
+export const pokemonTcgCards: PokemonTcgCard[] = [
+  professorsResearch,
+  charizardEvolutions,
+  charizardBase,
+  charmander,
+];
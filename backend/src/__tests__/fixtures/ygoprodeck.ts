@@ -0,0 +1,55 @@
+/**
+ * YGOPRODeck Fixtures
+ *
+ * Trimmed entries in the shape of https://db.ygoprodeck.com/api/v7/cardinfo.php
+ */
+
+import { YgoProDeckCard } from '../../types';
+
+export const blueEyes: YgoProDeckCard = {
+  id: 89631139,
+  name: 'Blue-Eyes White Dragon',
+  type: 'Normal Monster',
+  frameType: 'normal',
+  desc: 'This legendary dragon is a powerful engine of destruction.',
+  atk: 3000,
+  def: 2500,
+  level: 8,
+  race: 'Dragon',
+  attribute: 'LIGHT',
+  card_sets: [
+    { set_name: 'Legend of Blue Eyes White Dragon', set_code: 'LOB-EN001', set_rarity: 'Ultra Rare', set_rarity_code: '(UR)', set_price: '98.50' },
+    { set_name: 'Legendary Collection', set_code: 'LC01-EN004', set_rarity: 'Ultra Rare', set_rarity_code: '(UR)', set_price: '0' },
+    { set_name: 'Legendary Collection', set_code: 'LC01-EN004', set_rarity: 'Secret Rare', set_rarity_code: '', set_price: '24.10' },
+  ],
+  card_images: [
+    {
+      id: 89631139,
+      image_url: 'https://images.ygoprodeck.com/images/cards/89631139.jpg',
+      image_url_small: 'https://images.ygoprodeck.com/images/cards_small/89631139.jpg',
+      image_url_cropped: 'https://images.ygoprodeck.com/images/cards_cropped/89631139.jpg',
+    },
+  ],
+  card_prices: [{ cardmarket_price: '0.15', tcgplayer_price: '0.32' }],
+};
+
+export const decodeTalker: YgoProDeckCard = {
+  id: 1861629,
+  name: 'Decode Talker',
+  type: 'Link Monster',
+  frameType: 'link',
+  desc: '2+ Effect Monsters',
+  atk: 2300,
+  linkval: 3,
+  race: 'Cyberse',
+  attribute: 'DARK',
+  card_sets: [{ set_name: 'Starter Deck: Codebreaker', set_code: 'YS18-EN043', set_rarity: 'Common', set_rarity_code: '(C)', set_price: '1.05' }],
+};
+
+export const unreleasedSpell: YgoProDeckCard = {
+  id: 12345678,
+  name: 'Unreleased Spell',
+  type: 'Spell Card',
+  race: 'Quick-Play',
+  desc: 'Draw 1 card.',
+};
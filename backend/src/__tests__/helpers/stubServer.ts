@@ -0,0 +1,80 @@
+/**
+ * Stub HTTP Server Helpers
+ *
+ * Local HTTP server that stands in for external card APIs (Scryfall, etc.)
+ * so service tests exercise real fetch calls without touching the network.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Request recorded by the stub server
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+/**
+ * Response returned by a stub route handler
+ */
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type StubHandler = (request: RecordedRequest) => StubResponse | Promise<StubResponse>;
+
+export interface StubServer {
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a stub server on a random local port
+ *
+ * Every request is recorded (with its parsed JSON body) before the
+ * handler runs, so tests can assert on what the service sent.
+ */
+export async function startStubServer(handler: StubHandler): Promise<StubServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', async () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const recorded: RecordedRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(recorded);
+
+      try {
+        const response = await handler(recorded);
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': 'application/json',
+          ...response.headers,
+        });
+        res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: String(error) }));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -5,9 +5,10 @@
  * - Creating test users
  * - Cleaning up between tests
  * - Mocking database queries
+ * - Queueing query results for service tests
  */
 
-import { QueryResult } from 'pg';
+import { Pool, QueryResult } from 'pg';
 
 /**
  * Mock database pool for testing
@@ -74,6 +75,13 @@ export class MockPool {
     return this;
   }
 
+  /**
+   * Pool clients are released after a transaction; the mock is its own client
+   */
+  release() {
+    // No-op for tests
+  }
+
   async end() {
     return;
   }
@@ -121,3 +129,15 @@ export function createTestUser(
 export function cleanupTestDatabase(mockPool: MockPool) {
   mockPool.clear();
 }
+
+/**
+ * Queue results for the next queries on a (mocked) pool, one rows array per
+ * query; returns the spy to inspect the SQL and parameters sent
+ */
+export function mockQueries(db: Pool, ...results: object[][]) {
+  const spy = jest.spyOn(db, 'query');
+  for (const rows of results) {
+    spy.mockResolvedValueOnce({ rows } as never);
+  }
+  return spy;
+}
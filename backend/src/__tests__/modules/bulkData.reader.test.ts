@@ -0,0 +1,70 @@
+/**
+ * Bulk Data Reader Tests
+ *
+ * Tests for bulkData.reader.ts covering:
+ * - Reading array elements one at a time
+ * - Elements split across chunk boundaries
+ * - Brackets, quotes and escapes inside strings
+ * - Arrays wrapped in an object ({ "data": [...] })
+ * - Truncated input
+ */
+
+import { readJsonArray } from '../../modules/cards/bulkData.reader';
+
+/**
+ * Split text into fixed-size chunks, like a file stream would
+ */
+async function* chunked(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+async function readAll<T>(text: string, chunkSize: number): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of readJsonArray<T>(chunked(text, chunkSize))) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('readJsonArray', () => {
+  const cards = [
+    { id: '1', name: 'Lightning Bolt', prices: { usd: '1.00' } },
+    { id: '2', name: 'Fire // Ice', card_faces: [{ name: 'Fire' }, { name: 'Ice' }] },
+    { id: '3', name: 'Tricky "quoted" {name} [with] \\ brackets', oracle_text: '}]' },
+  ];
+  const text = `[\n${cards.map((card) => JSON.stringify(card)).join(',\n')}\n]\n`;
+
+  it('should read every element of the array', async () => {
+    const items = await readAll(text, 1024 * 1024);
+
+    expect(items).toEqual(cards);
+  });
+
+  it('should handle elements split across any chunk boundary', async () => {
+    for (const size of [1, 2, 3, 7, 16]) {
+      const items = await readAll(text, size);
+      expect(items).toEqual(cards);
+    }
+  });
+
+  it('should read the data array of a wrapped document', async () => {
+    const wrapped = `{"data": ${text.trim()}, "meta": {"total": [3]}}`;
+
+    for (const size of [1, 5, 1024]) {
+      const items = await readAll(wrapped, size);
+      expect(items).toEqual(cards);
+    }
+  });
+
+  it('should read an empty array', async () => {
+    const items = await readAll('[]', 1);
+
+    expect(items).toEqual([]);
+  });
+
+  it('should throw when the input ends mid-element', async () => {
+    await expect(readAll('[{"id": "1"}, {"id": "2"', 4)).rejects.toThrow('Unexpected end of JSON input');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Card Data Provider Tests
+ *
+ * Tests for cardDataProvider.ts covering:
+ * - One lookup per game for printings of several games
+ * - Stored card data used for a game whose provider fails
+ */
+
+import { TcgType } from '../../types';
+
+jest.mock('../../modules/cards/scryfall.service', () => ({
+  getCardsByIds: jest.fn(),
+  getStoredCards: jest.fn(),
+}));
+jest.mock('../../modules/cards/pokemonTcg.service', () => ({
+  getCardsByIds: jest.fn(),
+  getStoredCards: jest.fn(),
+}));
+jest.mock('../../modules/cards/ygoprodeck.service', () => ({
+  getCardsByIds: jest.fn(),
+  getStoredCards: jest.fn(),
+}));
+
+// Import after mocking
+import scryfallService from '../../modules/cards/scryfall.service';
+import pokemonTcgService from '../../modules/cards/pokemonTcg.service';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+
+describe('getCardsWithFallback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should ask each game\'s provider once for its distinct printings', async () => {
+    (scryfallService.getCardsByIds as jest.Mock).mockResolvedValue(new Map([['sf-1', { name: 'Sol Ring' }]]));
+    (pokemonTcgService.getCardsByIds as jest.Mock).mockResolvedValue(new Map([['pk-1', { name: 'Pikachu' }]]));
+
+    const cards = await getCardsWithFallback([
+      { tcg_type: TcgType.MAGIC, scryfall_id: 'sf-1' },
+      { tcg_type: TcgType.POKEMON, scryfall_id: 'pk-1' },
+      { tcg_type: TcgType.MAGIC, scryfall_id: 'sf-1' },
+    ]);
+
+    expect(scryfallService.getCardsByIds).toHaveBeenCalledWith(['sf-1']);
+    expect(pokemonTcgService.getCardsByIds).toHaveBeenCalledWith(['pk-1']);
+    expect([...cards].map(([id, card]) => [id, card.name])).toEqual([['sf-1', 'Sol Ring'], ['pk-1', 'Pikachu']]);
+  });
+
+  it('should use stored card data for a game whose provider fails', async () => {
+    (scryfallService.getCardsByIds as jest.Mock).mockResolvedValue(new Map([['sf-1', { name: 'Sol Ring' }]]));
+    (pokemonTcgService.getCardsByIds as jest.Mock).mockRejectedValue(new Error('down'));
+    (pokemonTcgService.getStoredCards as jest.Mock).mockResolvedValue(new Map([['pk-1', { name: 'Pikachu' }]]));
+
+    const cards = await getCardsWithFallback([
+      { tcg_type: TcgType.MAGIC, scryfall_id: 'sf-1' },
+      { tcg_type: TcgType.POKEMON, scryfall_id: 'pk-1' },
+    ]);
+
+    expect(scryfallService.getStoredCards).not.toHaveBeenCalled();
+    expect(pokemonTcgService.getStoredCards).toHaveBeenCalledWith(['pk-1']);
+    expect(cards.get('pk-1')?.name).toBe('Pikachu');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Card Prices Tests
+ *
+ * Tests for cardPrices.ts covering:
+ * - Extraction of the stored price columns
+ * - Default finish for new copies
+ * - Finish-correct price SQL
+ */
+
+import { cardPriceColumns, defaultFinish, effectiveEurPriceSql, effectivePriceSql } from '../../modules/cards/cardPrices';
+import { CardFinish, ScryfallCard } from '../../types';
+
+function card(overrides: Partial<ScryfallCard>): ScryfallCard {
+  return { id: 'card-1', name: 'Test Card', set: 'tst', set_name: 'Test Set', rarity: 'rare', ...overrides };
+}
+
+describe('cardPriceColumns', () => {
+  it('should keep every finish and currency separately', () => {
+    const prices = cardPriceColumns(card({
+      prices: { usd: '0.50', usd_foil: '2.10', usd_etched: '3.00', eur: '0.40', eur_foil: '1.80' },
+    }));
+
+    expect(prices).toEqual({
+      price_usd: 0.5,
+      price_usd_foil: 2.1,
+      price_usd_etched: 3,
+      price_eur: 0.4,
+      price_eur_foil: 1.8,
+    });
+  });
+
+  it('should leave missing prices null instead of borrowing another finish', () => {
+    const prices = cardPriceColumns(card({ prices: { usd: null, usd_foil: '2.10' } }));
+
+    expect(prices.price_usd).toBeNull();
+    expect(prices.price_usd_foil).toBe(2.1);
+    expect(prices.price_eur).toBeNull();
+  });
+});
+
+describe('defaultFinish', () => {
+  it('should default to non-foil when the card has a non-foil printing', () => {
+    expect(defaultFinish(card({ finishes: ['nonfoil', 'foil'] }))).toBe(CardFinish.NONFOIL);
+  });
+
+  it('should use the only finish of foil-only and etched-only printings', () => {
+    expect(defaultFinish(card({ finishes: ['foil'] }))).toBe(CardFinish.FOIL);
+    expect(defaultFinish(card({ finishes: ['etched'] }))).toBe(CardFinish.ETCHED);
+  });
+
+  it('should infer foil from prices when finishes are unknown', () => {
+    expect(defaultFinish(card({ prices: { usd: null, usd_foil: '18.25' } }))).toBe(CardFinish.FOIL);
+    expect(defaultFinish(card({ prices: { usd: '12.50', usd_foil: '18.25' } }))).toBe(CardFinish.NONFOIL);
+  });
+});
+
+describe('effectivePriceSql', () => {
+  it('should pick the price column from the finish', () => {
+    const sql = effectivePriceSql('ca');
+
+    expect(sql).toContain("WHEN 'foil' THEN ca.price_usd_foil");
+    expect(sql).toContain("WHEN 'etched' THEN ca.price_usd_etched");
+    expect(sql).toContain('ELSE ca.price_usd');
+  });
+});
+
+describe('effectiveEurPriceSql', () => {
+  it('should use native EUR prices and leave etched copies to conversion', () => {
+    const sql = effectiveEurPriceSql('ca');
+
+    expect(sql).toContain("WHEN 'foil' THEN ca.price_eur_foil");
+    expect(sql).toContain("WHEN 'nonfoil' THEN ca.price_eur");
+    expect(sql).not.toContain('etched');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Cards Service Tests
+ *
+ * Tests for cards.service.ts covering:
+ * - Merging added copies into an identical row
+ * - Counting added copies towards the wishlist
+ * - Consolidating a collection's duplicate rows
+ * - Previewing a deck list import (cards found, not found with
+ *   suggestions, and deck sections)
+ */
+
+import { CardFinish, DeckBoard, ScryfallCard, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/collections/collections.service', () => ({
+  getCollectionById: jest.fn(),
+}));
+jest.mock('../../modules/owners/owners.service', () => ({
+  getOwnerById: jest.fn(),
+}));
+jest.mock('../../modules/wishlist/wishlist.service', () => ({
+  recordAcquired: jest.fn(),
+}));
+jest.mock('../../modules/cards/scryfall.service', () => ({
+  getCardsByPrintings: jest.fn(),
+}));
+
+const provider = {
+  getCardById: jest.fn(),
+  getCardsByIds: jest.fn(),
+  getStoredCards: jest.fn(),
+  getCardsByNames: jest.fn(),
+  getPrintings: jest.fn(),
+  autocomplete: jest.fn(),
+};
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardDataProvider: () => provider,
+  getCardsWithFallback: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+import collectionsService from '../../modules/collections/collections.service';
+import ownersService from '../../modules/owners/owners.service';
+import wishlistService from '../../modules/wishlist/wishlist.service';
+import scryfallService from '../../modules/cards/scryfall.service';
+import cardsService from '../../modules/cards/cards.service';
+
+const bolt: ScryfallCard = {
+  id: 'bolt-m10',
+  name: 'Lightning Bolt',
+  set: 'm10',
+  set_name: 'Magic 2010',
+  rarity: 'common',
+  finishes: ['nonfoil', 'foil'],
+  prices: { usd: '2.00', usd_foil: '8.00', eur: '1.50' },
+};
+
+const row = {
+  id: 'card-1',
+  collection_id: 'col-1',
+  scryfall_id: 'bolt-m10',
+  owner_id: 'owner-1',
+  deck_id: null,
+  board: DeckBoard.MAIN,
+  is_borrowed: false,
+  finish: CardFinish.NONFOIL,
+  quantity: 4,
+};
+
+describe('CardsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (collectionsService.getCollectionById as jest.Mock).mockResolvedValue({
+      id: 'col-1',
+      tcg_type: TcgType.MAGIC,
+    });
+    (ownersService.getOwnerById as jest.Mock).mockResolvedValue({ id: 'owner-1', name: 'Ana' });
+    provider.getCardById.mockResolvedValue(bolt);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('addCard', () => {
+    it('should add the copies to an identical row', async () => {
+      const spy = mockQueries(pool, [{ ...row, quantity: 6 }]);
+
+      const card = await cardsService.addCard('col-1', 'user-1', {
+        scryfall_id: 'bolt-m10',
+        owner_id: 'owner-1',
+        quantity: 2,
+      });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toContain('deck_id IS NOT DISTINCT FROM $5');
+      expect(spy.mock.calls[0][1]).toEqual([
+        'col-1', 'bolt-m10', CardFinish.NONFOIL, 'owner-1', null, DeckBoard.MAIN, false, 2,
+      ]);
+      expect(card).toMatchObject({ id: 'card-1', quantity: 6, owner_name: 'Ana', merged: true });
+    });
+
+    it('should insert a row when no copy matches', async () => {
+      const spy = mockQueries(pool, [], [{ ...row, id: 'card-2', finish: CardFinish.FOIL, quantity: 1 }]);
+
+      const card = await cardsService.addCard('col-1', 'user-1', {
+        scryfall_id: 'bolt-m10',
+        owner_id: 'owner-1',
+        finish: CardFinish.FOIL,
+      });
+
+      expect(spy.mock.calls[0][1]?.[2]).toBe(CardFinish.FOIL);
+      expect(spy.mock.calls[1][0]).toContain('INSERT INTO cards');
+      expect(card).toMatchObject({ id: 'card-2', merged: false });
+    });
+
+    it('should count the added copies towards the wishlist', async () => {
+      mockQueries(pool, [{ ...row, quantity: 6 }]);
+
+      await cardsService.addCard('col-1', 'user-1', { scryfall_id: 'bolt-m10', owner_id: 'owner-1', quantity: 2 });
+
+      expect(wishlistService.recordAcquired).toHaveBeenCalledWith(
+        {
+          collectionId: 'col-1',
+          scryfallId: 'bolt-m10',
+          name: 'Lightning Bolt',
+          finish: CardFinish.NONFOIL,
+          quantity: 2,
+        },
+        pool
+      );
+    });
+
+    it('should not count borrowed copies towards the wishlist', async () => {
+      mockQueries(pool, [{ ...row, is_borrowed: true }]);
+
+      await cardsService.addCard('col-1', 'user-1', { scryfall_id: 'bolt-m10', owner_id: 'owner-1', is_borrowed: true });
+
+      expect(wishlistService.recordAcquired).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consolidateDuplicates', () => {
+    it('should keep the oldest row with the summed quantity', async () => {
+      const spy = mockQueries(
+        pool,
+        [],
+        [{ ...row, set_code: 'm10', ids: ['card-1', 'card-5', 'card-9'], quantity: 7 }],
+        [],
+        [],
+        [],
+        []
+      );
+      (getCardsWithFallback as jest.Mock).mockResolvedValue(new Map([['bolt-m10', bolt]]));
+
+      const report = await cardsService.consolidateDuplicates('col-1', 'user-1');
+
+      expect(spy.mock.calls[2][1]).toEqual(['card-1', 7]);
+      expect(spy.mock.calls[3]).toEqual([
+        'UPDATE card_loans SET card_id = $1 WHERE card_id = ANY($2)', ['card-1', ['card-5', 'card-9']],
+      ]);
+      expect(spy.mock.calls[4][1]).toEqual([['card-5', 'card-9']]);
+      expect(spy.mock.calls[5][0]).toBe('COMMIT');
+      expect(report.merged_rows).toBe(2);
+      expect(report.cards[0]).toMatchObject({
+        card_id: 'card-1',
+        merged_card_ids: ['card-5', 'card-9'],
+        name: 'Lightning Bolt',
+        quantity: 7,
+      });
+    });
+
+    it('should roll back when a merge fails', async () => {
+      const spy = mockQueries(pool, [], [{ ...row, ids: ['card-1', 'card-5'], quantity: 5 }]);
+      spy.mockRejectedValueOnce(new Error('deadlock detected') as never);
+
+      await expect(cardsService.consolidateDuplicates('col-1', 'user-1')).rejects.toThrow('deadlock detected');
+      expect(spy.mock.calls[3][0]).toBe('ROLLBACK');
+    });
+  });
+
+  describe('previewDeckImport', () => {
+    beforeEach(() => {
+      provider.getCardsByNames.mockResolvedValue(new Map([['lightning bolt', bolt]]));
+      provider.autocomplete.mockResolvedValue({ object: 'catalog', total_values: 1, data: ['Lightning Bolt'] });
+      (scryfallService.getCardsByPrintings as jest.Mock).mockResolvedValue(new Map());
+    });
+
+    it('should price the cards found for their finish', async () => {
+      const preview = await cardsService.previewDeckImport('col-1', 'user-1', '4 Lightning Bolt\n1 Lightning Bolt *F*');
+
+      expect(preview.entries.map(({ finish, price_usd, price_eur, reason }) => ({ finish, price_usd, price_eur, reason })))
+        .toEqual([
+          { finish: CardFinish.NONFOIL, price_usd: 2, price_eur: 1.5, reason: null },
+          { finish: CardFinish.FOIL, price_usd: 8, price_eur: null, reason: null },
+        ]);
+      expect(preview.entries[0].card).toBe(bolt);
+      expect(provider.autocomplete).not.toHaveBeenCalled();
+    });
+
+    it('should suggest names for entries not found, once per name', async () => {
+      const preview = await cardsService.previewDeckImport(
+        'col-1', 'user-1', '1 Lightnig Bolt\n2 Lightnig Bolt\n1 Lightning Bolt (M10) 999'
+      );
+
+      expect(preview.entries.map(({ card, reason, suggestions }) => ({ card, reason, suggestions }))).toEqual([
+        { card: null, reason: 'Carta não encontrada', suggestions: ['Lightning Bolt'] },
+        { card: null, reason: 'Carta não encontrada', suggestions: ['Lightning Bolt'] },
+        { card: null, reason: 'Impressão não encontrada (M10 999)', suggestions: [] },
+      ]);
+      expect(new Set(provider.autocomplete.mock.calls.map((call) => call[0])).size)
+        .toBe(provider.autocomplete.mock.calls.length);
+    });
+
+    it('should keep each entry in its deck section', async () => {
+      const preview = await cardsService.previewDeckImport(
+        'col-1', 'user-1', 'Commander\n1 Lightning Bolt\n\nDeck\n3 Lightning Bolt\n\nSideboard\n2 Lightning Bolt'
+      );
+
+      expect(preview.entries.map(({ quantity, board }) => ({ quantity, board }))).toEqual([
+        { quantity: 1, board: DeckBoard.COMMANDER },
+        { quantity: 3, board: DeckBoard.MAIN },
+        { quantity: 2, board: DeckBoard.SIDEBOARD },
+      ]);
+    });
+
+    it('should preview corrected entries again', async () => {
+      const preview = await cardsService.previewDeckImport('col-1', 'user-1', [
+        { line: 3, name: ' Lightning Bolt ', quantity: 2, board: DeckBoard.SIDEBOARD },
+      ]);
+
+      expect(preview.entries[0]).toMatchObject({
+        line: 3, name: 'Lightning Bolt', quantity: 2, board: DeckBoard.SIDEBOARD, card: bolt,
+      });
+    });
+
+    it('should reject a list without cards', async () => {
+      await expect(cardsService.previewDeckImport('col-1', 'user-1', '// Sideboard\n')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Catalog Service Tests
+ *
+ * Tests for catalog.service.ts covering:
+ * - Search by text (one printing per card) and by exact name (every printing)
+ * - Exact-name lookups, front faces of double-faced cards included
+ * - Lookups by set code and collector number
+ * - Offline Scryfall lookups answered by the catalog, online ones by the API
+ */
+
+import { startStubServer, StubServer } from '../helpers/stubServer';
+import { AppError, ScryfallCard } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import catalogService from '../../modules/cards/catalog.service';
+import { ScryfallService } from '../../modules/cards/scryfall.service';
+import { RequestScheduler } from '../../modules/cards/requestScheduler';
+
+function makeCard(id: string, name: string, set = 'm11', collectorNumber = '146'): ScryfallCard {
+  return { id, name, set, set_name: 'Test Set', rarity: 'common', collector_number: collectorNumber };
+}
+
+describe('CatalogService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('searchCards', () => {
+    it('should list every printing of an exact name', async () => {
+      const spy = mockQueries(pool, [{ data: makeCard('bolt-m11', 'Lightning Bolt') }]);
+
+      const result = await catalogService.searchCards('!"Lightning Bolt" unique:prints');
+
+      expect(spy.mock.calls[0][0]).toContain("LOWER(split_part(name, ' // ', 1)) = LOWER($1)");
+      expect(spy.mock.calls[0][0]).toContain('ORDER BY released_at DESC');
+      expect(spy.mock.calls[0][0]).not.toContain('DISTINCT ON');
+      expect(spy.mock.calls[0][1]).toEqual(['Lightning Bolt']);
+      expect(result.data.map((card) => card.id)).toEqual(['bolt-m11']);
+    });
+
+    it('should list one printing per card containing the text, wildcards escaped', async () => {
+      const rows = Array.from({ length: 176 }, (_, i) => ({ data: makeCard(`c-${i}`, `Bolt ${i}`) }));
+      const spy = mockQueries(pool, rows);
+
+      const result = await catalogService.searchCards('100%_bolt');
+
+      expect(spy.mock.calls[0][0]).toContain('DISTINCT ON (COALESCE(oracle_id, id))');
+      expect(spy.mock.calls[0][1]).toEqual(['%100\\%\\_bolt%']);
+      expect(result.data).toHaveLength(175);
+      expect(result.has_more).toBe(true);
+    });
+
+    it('should not query the catalog for an empty search', async () => {
+      const spy = jest.spyOn(pool, 'query');
+
+      const result = await catalogService.searchCards('unique:prints');
+
+      expect(result.total_cards).toBe(0);
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCardByName', () => {
+    it('should find the newest printing of a name, case-insensitively', async () => {
+      const spy = mockQueries(pool, [{ key: 'lightning bolt', data: makeCard('bolt-m11', 'Lightning Bolt') }]);
+
+      const card = await catalogService.getCardByName('  LIGHTNING Bolt ');
+
+      expect(spy.mock.calls[0][0]).toContain('ORDER BY key, released_at DESC NULLS LAST');
+      expect(spy.mock.calls[0][1]).toEqual([['lightning bolt']]);
+      expect(card.id).toBe('bolt-m11');
+    });
+
+    it('should match the front face of double-faced cards', async () => {
+      const delver = makeCard('delver', 'Delver of Secrets // Insectile Aberration', 'isd', '51');
+      const spy = mockQueries(pool, [{ key: 'delver of secrets', data: delver }]);
+
+      const card = await catalogService.getCardByName('Delver of Secrets');
+
+      expect(spy.mock.calls[0][0]).toContain("WHERE name LIKE '% // %'");
+      expect(card.name).toBe('Delver of Secrets // Insectile Aberration');
+    });
+
+    it('should throw a 404 AppError for names not in the catalog', async () => {
+      mockQueries(pool, []);
+
+      const error = await catalogService.getCardByName('Unknown Card').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe('getCardsByPrintings', () => {
+    it('should key printings by lowercased set and collector number', async () => {
+      const spy = mockQueries(pool, [{ data: makeCard('bolt-m11', 'Lightning Bolt') }]);
+
+      const cards = await catalogService.getCardsByPrintings([
+        { set: ' M11 ', collector_number: '146 ' },
+        { set: 'm11', collector_number: '999' },
+      ]);
+
+      expect(spy.mock.calls[0][1]).toEqual([['m11', 'm11'], ['146', '999']]);
+      expect(cards.get('m11|146')?.id).toBe('bolt-m11');
+      expect(cards.size).toBe(1);
+    });
+
+    it('should not query the catalog for an empty list', async () => {
+      const spy = jest.spyOn(pool, 'query');
+
+      const cards = await catalogService.getCardsByPrintings([]);
+
+      expect(cards.size).toBe(0);
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Scryfall lookups', () => {
+    let stub: StubServer;
+
+    beforeEach(async () => {
+      stub = await startStubServer(() => ({
+        body: { object: 'list', not_found: [], data: [makeCard('bolt-m11', 'Lightning Bolt')] },
+      }));
+    });
+
+    afterEach(async () => {
+      await stub.close();
+    });
+
+    it('should be answered by the catalog in offline mode', async () => {
+      const lookup = jest.spyOn(catalogService, 'getCardsByPrintings')
+        .mockResolvedValue(new Map([['m11|146', makeCard('bolt-m11', 'Lightning Bolt')]]));
+      const service = new ScryfallService(stub.url, true, new RequestScheduler({ minIntervalMs: 0 }));
+
+      const cards = await service.getCardsByPrintings([{ set: 'm11', collector_number: '146' }]);
+
+      expect(lookup).toHaveBeenCalledWith([{ set: 'm11', collector_number: '146' }]);
+      expect(cards.get('m11|146')?.id).toBe('bolt-m11');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should go to the API when not offline', async () => {
+      const lookup = jest.spyOn(catalogService, 'getCardsByPrintings');
+      const service = new ScryfallService(stub.url, false, new RequestScheduler({ minIntervalMs: 0 }));
+
+      const cards = await service.getCardsByPrintings([{ set: 'm11', collector_number: '146' }]);
+
+      expect(lookup).not.toHaveBeenCalled();
+      expect(stub.requests[0].body.identifiers).toEqual([{ set: 'm11', collector_number: '146' }]);
+      expect(cards.get('m11|146')?.id).toBe('bolt-m11');
+    });
+  });
+});
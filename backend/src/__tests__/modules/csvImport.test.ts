@@ -0,0 +1,118 @@
+/**
+ * CSV Import Tests
+ *
+ * Tests for csvImport.ts covering:
+ * - CSV parsing (quotes, escaped quotes, line breaks, BOM, delimiters)
+ * - Export detection from the header row
+ * - Column mapping per export: set code, collector number, foil, Scryfall ID
+ * - Invalid rows reported with their line number
+ */
+
+import { detectCsvFormat, parseCollectionCsv, parseCsv } from '../../modules/cards/csvImport';
+import { AppError, CardFinish, CsvImportFormat } from '../../types';
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and line breaks', () => {
+    const rows = parseCsv('\uFEFFName,Count\r\n"Fire // Ice",2\r\n\r\n"""Ach! Hans, Run!""",1\n"Multi\nline",3');
+
+    expect(rows).toEqual([
+      { line: 1, fields: ['Name', 'Count'] },
+      { line: 2, fields: ['Fire // Ice', '2'] },
+      { line: 4, fields: ['"Ach! Hans, Run!"', '1'] },
+      { line: 5, fields: ['Multi\nline', '3'] },
+    ]);
+  });
+});
+
+describe('detectCsvFormat', () => {
+  it('should recognize each export by its headers', () => {
+    expect(detectCsvFormat([
+      'Count', 'Tradelist Count', 'Name', 'Edition', 'Condition', 'Language', 'Foil', 'Collector Number',
+    ])).toBe(CsvImportFormat.MOXFIELD);
+    expect(detectCsvFormat([
+      'Count', 'Tradelist Count', 'Name', 'Edition', 'Card Number', 'Condition', 'Language', 'Foil', 'My Price',
+    ])).toBe(CsvImportFormat.DECKBOX);
+    expect(detectCsvFormat([
+      'Quantity', 'Name', 'Simple Name', 'Set', 'Card Number', 'Set Code', 'Printing', 'Condition', 'Language',
+    ])).toBe(CsvImportFormat.TCGPLAYER);
+    expect(detectCsvFormat([
+      'Name', 'Edition', 'Edition code', "Collector's number", 'Quantity', 'Foil', 'Scryfall ID',
+    ])).toBe(CsvImportFormat.DELVER_LENS);
+    expect(detectCsvFormat([
+      'Name', 'Set code', 'Set name', 'Collector number', 'Foil', 'Quantity', 'ManaBox ID', 'Scryfall ID',
+    ])).toBe(CsvImportFormat.MANABOX);
+    expect(detectCsvFormat(['Card', 'Amount'])).toBeNull();
+  });
+});
+
+describe('parseCollectionCsv', () => {
+  it('should map Moxfield columns, including our own export', () => {
+    const { format, rows } = parseCollectionCsv([
+      '"Count","Name","Edition","Collector Number","Foil","Board"',
+      '"4","Lightning Bolt","M11","146","",""',
+      '"1","Sol Ring","c21","263","etched","main"',
+    ].join('\n'));
+
+    expect(format).toBe(CsvImportFormat.MOXFIELD);
+    expect(rows).toEqual([
+      {
+        line: 2, name: 'Lightning Bolt', quantity: 4, set_code: 'm11', set_name: null,
+        collector_number: '146', finish: null, scryfall_id: null,
+      },
+      {
+        line: 3, name: 'Sol Ring', quantity: 1, set_code: 'c21', set_name: null,
+        collector_number: '263', finish: CardFinish.ETCHED, scryfall_id: null,
+      },
+    ]);
+  });
+
+  it('should read TCGplayer simple names and printing', () => {
+    const { rows } = parseCollectionCsv([
+      'Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition',
+      '2,Lightning Bolt (Borderless),Lightning Bolt,Secret Lair Drop,123,SLD,Foil,Near Mint',
+      '1,Counterspell,Counterspell,Masters 25,45,A25,Normal,Near Mint',
+    ].join('\n'));
+
+    expect(rows.map((row) => [row.name, row.set_code, row.collector_number, row.finish])).toEqual([
+      ['Lightning Bolt', 'sld', '123', CardFinish.FOIL],
+      ['Counterspell', 'a25', '45', CardFinish.NONFOIL],
+    ]);
+  });
+
+  it('should read ManaBox Scryfall IDs and semicolon-separated Delver Lens files', () => {
+    const manabox = parseCollectionCsv([
+      'Name,Set code,Set name,Collector number,Foil,Rarity,Quantity,ManaBox ID,Scryfall ID',
+      'Sol Ring,C21,Commander 2021,263,normal,uncommon,3,1234,abc-123',
+    ].join('\n'));
+    const delver = parseCollectionCsv([
+      "Name;Edition;Edition code;Collector's number;Quantity;Foil",
+      'Brainstorm;Ice Age;ice;61;2;',
+    ].join('\n'));
+
+    expect(manabox.rows[0]).toMatchObject({ scryfall_id: 'abc-123', quantity: 3, finish: CardFinish.NONFOIL });
+    expect(delver.format).toBe(CsvImportFormat.DELVER_LENS);
+    expect(delver.rows[0]).toMatchObject({ name: 'Brainstorm', set_code: 'ice', set_name: 'Ice Age', collector_number: '61' });
+  });
+
+  it('should report invalid quantities and skip rows without a name', () => {
+    const { rows, errors } = parseCollectionCsv([
+      'Count,Name,Edition',
+      'two,Lightning Bolt,m11',
+      '1,,m11',
+      '0,Shock,m19',
+      '1,Opt,xln',
+    ].join('\n'));
+
+    expect(rows.map((row) => row.name)).toEqual(['Opt']);
+    expect(errors).toEqual([
+      { name: 'Lightning Bolt', line: 2, reason: 'Quantidade inválida: two' },
+      { name: 'Shock', line: 4, reason: 'Quantidade inválida: 0' },
+    ]);
+  });
+
+  it('should reject empty and unrecognized files unless a format is given', () => {
+    expect(() => parseCollectionCsv('Count,Name,Edition\n')).toThrow(AppError);
+    expect(() => parseCollectionCsv('Card,Amount\nOpt,1')).toThrow('Formato de CSV não reconhecido');
+    expect(() => parseCollectionCsv('Quantity,Name\n1,Opt', CsvImportFormat.MANABOX)).not.toThrow();
+  });
+});
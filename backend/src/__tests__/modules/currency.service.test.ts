@@ -0,0 +1,117 @@
+/**
+ * Currency Service Tests
+ *
+ * Tests for currency.service.ts and the admin middleware covering:
+ * - Rates files quoted against USD or another base
+ * - Exchange rate updates and validation
+ * - Admin-only access
+ */
+
+import { AppError, AuthenticatedRequest, Currency } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import currencyService, { parseRatesFile } from '../../modules/currency/currency.service';
+import { requireAdmin } from '../../middleware/auth';
+
+describe('parseRatesFile', () => {
+  it('should read rates quoted per 1 USD and ignore other currencies', () => {
+    const rates = parseRatesFile(JSON.stringify({
+      base: 'USD',
+      rates: { BRL: 5.4, EUR: 0.92, JPY: 150 },
+    }));
+
+    expect(rates).toEqual({ USD: 1, BRL: 5.4, EUR: 0.92 });
+  });
+
+  it('should rebase rates quoted against another currency', () => {
+    const rates = parseRatesFile(JSON.stringify({
+      base: 'BRL',
+      rates: { USD: 0.2, EUR: 0.18 },
+    }));
+
+    expect(rates[Currency.USD]).toBe(1);
+    expect(rates[Currency.BRL]).toBeCloseTo(5);
+    expect(rates[Currency.EUR]).toBeCloseTo(0.9);
+  });
+
+  it('should reject invalid files', () => {
+    expect(() => parseRatesFile('not json')).toThrow(AppError);
+    expect(() => parseRatesFile(JSON.stringify({ base: 'JPY', rates: {} }))).toThrow(AppError);
+    expect(() => parseRatesFile(JSON.stringify({ base: 'BRL', rates: { EUR: 0.18 } }))).toThrow(
+      'Arquivo de câmbio sem taxa para USD'
+    );
+  });
+});
+
+describe('CurrencyService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should parse stored rates into numbers', async () => {
+    mockQueries(pool, [{ currency: 'BRL', rate_per_usd: '5.400000', updated_at: new Date() }]);
+
+    const [rate] = await currencyService.getRates();
+
+    expect(rate.currency).toBe(Currency.BRL);
+    expect(rate.rate_per_usd).toBe(5.4);
+  });
+
+  it('should upsert the given rates in one statement', async () => {
+    const spy = mockQueries(pool, [], [
+      { currency: 'BRL', rate_per_usd: '5.400000', updated_at: new Date() },
+      { currency: 'EUR', rate_per_usd: '0.920000', updated_at: new Date() },
+      { currency: 'USD', rate_per_usd: '1.000000', updated_at: new Date() },
+    ]);
+
+    const rates = await currencyService.updateRates({ BRL: 5.4, EUR: 0.92 });
+
+    expect(spy.mock.calls[0][0]).toContain('ON CONFLICT (currency) DO UPDATE');
+    expect(spy.mock.calls[0][1]).toEqual([['BRL', 'EUR'], [5.4, 0.92]]);
+    expect(rates).toHaveLength(3);
+  });
+
+  it('should reject invalid rates and a USD rate other than 1', async () => {
+    const spy = jest.spyOn(pool, 'query');
+
+    await expect(currencyService.updateRates({})).rejects.toThrow('Nenhuma taxa para atualizar');
+    await expect(currencyService.updateRates({ BRL: -1 })).rejects.toThrow(AppError);
+    await expect(currencyService.updateRates({ USD: 2 })).rejects.toThrow('A taxa do USD é fixa em 1');
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe('requireAdmin', () => {
+  const request = { user: { userId: 'user-1', email: 'a@example.com' } } as AuthenticatedRequest;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let admins through', async () => {
+    mockQueries(pool, [{ is_admin: true }]);
+    const next = jest.fn();
+
+    await requireAdmin(request, {} as never, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should reject other users with 403', async () => {
+    mockQueries(pool, [{ is_admin: false }]);
+    const next = jest.fn();
+
+    await requireAdmin(request, {} as never, next);
+
+    expect(next.mock.calls[0][0]).toBeInstanceOf(AppError);
+    expect(next.mock.calls[0][0].statusCode).toBe(403);
+  });
+});
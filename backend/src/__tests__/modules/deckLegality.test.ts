@@ -0,0 +1,212 @@
+/**
+ * Deck Legality Tests
+ *
+ * Tests for deckLegality.ts covering:
+ * - Banned, restricted and not legal cards
+ * - Deck size and copy limits, with basic land and "any number" exemptions
+ * - Sideboard copies and the commander board
+ * - Commander selection and color identity
+ */
+
+import { canBeCommander, copyLimitFor, validateDeckLegality } from '../../modules/decks/deckLegality';
+import { CardFinish, CardWithDetails, DeckBoard, DeckFormat, ScryfallCard } from '../../types';
+
+const LEGAL_EVERYWHERE = Object.fromEntries(
+  Object.values(DeckFormat).map((format) => [format, 'legal' as const])
+);
+
+function scryfall(name: string, overrides: Partial<ScryfallCard> = {}): ScryfallCard {
+  return {
+    id: name,
+    name,
+    set: 'tst',
+    set_name: 'Test Set',
+    rarity: 'common',
+    type_line: 'Instant',
+    color_identity: [],
+    legalities: LEGAL_EVERYWHERE,
+    ...overrides,
+  };
+}
+
+function entry(data: ScryfallCard | null, quantity = 1, board = DeckBoard.MAIN): CardWithDetails {
+  return {
+    id: `row-${data?.id ?? 'missing'}`,
+    collection_id: 'col-1',
+    scryfall_id: data?.id ?? 'missing-id',
+    owner_id: 'owner-1',
+    owner_name: 'Me',
+    deck_id: 'deck-1',
+    deck_name: 'Test',
+    board,
+    is_borrowed: false,
+    finish: CardFinish.NONFOIL,
+    quantity,
+    set_code: null,
+    set_name: null,
+    price_usd: null,
+    price_usd_foil: null,
+    price_usd_etched: null,
+    price_eur: null,
+    price_eur_foil: null,
+    added_at: new Date(),
+    scryfall_data: data,
+  };
+}
+
+const mountain = scryfall('Mountain', { type_line: 'Basic Land — Mountain', color_identity: ['R'] });
+
+describe('copyLimitFor', () => {
+  it('should exempt basic lands and "any number" cards', () => {
+    expect(copyLimitFor(mountain, 4)).toBe(Infinity);
+    expect(copyLimitFor(scryfall('Snow-Covered Island', { type_line: 'Basic Snow Land — Island' }), 1)).toBe(Infinity);
+    expect(copyLimitFor(scryfall('Relentless Rats', {
+      oracle_text: 'A deck can have any number of cards named Relentless Rats.',
+    }), 4)).toBe(Infinity);
+  });
+
+  it('should raise the limit for "up to seven" cards', () => {
+    const dwarves = scryfall('Seven Dwarves', { oracle_text: 'A deck can have up to seven cards named Seven Dwarves.' });
+
+    expect(copyLimitFor(dwarves, 4)).toBe(7);
+    expect(copyLimitFor(dwarves, 1)).toBe(7);
+    expect(copyLimitFor(scryfall('Lightning Bolt'), 4)).toBe(4);
+  });
+});
+
+describe('canBeCommander', () => {
+  it('should accept legendary creatures and cards that say so', () => {
+    expect(canBeCommander(scryfall('Atraxa', { type_line: 'Legendary Creature — Phyrexian Angel' }))).toBe(true);
+    expect(canBeCommander(scryfall('Teferi', {
+      type_line: 'Legendary Planeswalker — Teferi',
+      oracle_text: 'Teferi, Temporal Archmage can be your commander.',
+    }))).toBe(true);
+    expect(canBeCommander(scryfall('Sol Ring', { type_line: 'Artifact' }))).toBe(false);
+  });
+});
+
+describe('validateDeckLegality', () => {
+  it('should accept a legal 60-card deck', () => {
+    const report = validateDeckLegality(
+      [entry(scryfall('Lightning Bolt'), 4), entry(mountain, 56)],
+      DeckFormat.MODERN
+    );
+
+    expect(report).toEqual({
+      format: DeckFormat.MODERN,
+      legal: true,
+      card_count: 60,
+      commanders: [],
+      violations: [],
+    });
+  });
+
+  it('should report banned, not legal and restricted cards', () => {
+    const report = validateDeckLegality(
+      [
+        entry(scryfall('Oko', { legalities: { ...LEGAL_EVERYWHERE, modern: 'banned' } }), 1),
+        entry(scryfall('Black Lotus', { legalities: { ...LEGAL_EVERYWHERE, modern: 'not_legal' } }), 1),
+        entry(mountain, 58),
+      ],
+      DeckFormat.MODERN
+    );
+    const vintage = validateDeckLegality(
+      [entry(scryfall('Black Lotus', { legalities: { vintage: 'restricted' } }), 2), entry(mountain, 58)],
+      DeckFormat.VINTAGE
+    );
+
+    expect(report.legal).toBe(false);
+    expect(report.violations.map((v) => [v.code, v.card_name])).toEqual([
+      ['banned', 'Oko'],
+      ['not_legal', 'Black Lotus'],
+    ]);
+    expect(vintage.violations).toEqual([
+      expect.objectContaining({ code: 'restricted', card_name: 'Black Lotus', count: 2, limit: 1 }),
+    ]);
+  });
+
+  it('should count copies by name across printings and report the deck size', () => {
+    const bolt = scryfall('Lightning Bolt');
+    const report = validateDeckLegality(
+      [entry(bolt, 3), entry({ ...bolt, id: 'bolt-reprint' }, 2), entry(mountain, 20)],
+      DeckFormat.MODERN
+    );
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ code: 'deck_size', count: 25, limit: 60 }),
+      expect.objectContaining({ code: 'too_many_copies', card_name: 'Lightning Bolt', count: 5, limit: 4 }),
+    ]);
+  });
+
+  it('should count sideboard copies toward the copy limit but not the deck size', () => {
+    const bolt = scryfall('Lightning Bolt');
+    const report = validateDeckLegality(
+      [entry(bolt, 3), entry(bolt, 2, DeckBoard.SIDEBOARD), entry(mountain, 57)],
+      DeckFormat.MODERN
+    );
+
+    expect(report.card_count).toBe(60);
+    expect(report.violations).toEqual([
+      expect.objectContaining({ code: 'too_many_copies', card_name: 'Lightning Bolt', count: 5 }),
+    ]);
+  });
+
+  it('should report cards without card data', () => {
+    const report = validateDeckLegality([entry(null), entry(mountain, 59)], DeckFormat.MODERN);
+
+    expect(report.card_count).toBe(60);
+    expect(report.violations).toEqual([
+      expect.objectContaining({ code: 'missing_card_data', card_name: 'missing-id' }),
+    ]);
+  });
+
+  describe('commander', () => {
+    const atraxa = scryfall('Atraxa, Praetors\' Voice', {
+      type_line: 'Legendary Creature — Phyrexian Angel Horror',
+      color_identity: ['W', 'U', 'B', 'G'],
+    });
+    const island = scryfall('Island', { type_line: 'Basic Land — Island', color_identity: ['U'] });
+
+    it('should infer the only legendary creature and enforce singleton and color identity', () => {
+      const report = validateDeckLegality(
+        [entry(atraxa), entry(scryfall('Sol Ring'), 2), entry(mountain, 1), entry(island, 96)],
+        DeckFormat.COMMANDER
+      );
+
+      expect(report.commanders).toEqual(['Atraxa, Praetors\' Voice']);
+      expect(report.violations).toEqual([
+        expect.objectContaining({ code: 'too_many_copies', card_name: 'Sol Ring', count: 2, limit: 1 }),
+        expect.objectContaining({ code: 'color_identity', card_name: 'Mountain', colors: ['R'] }),
+      ]);
+    });
+
+    it('should require exactly 100 cards', () => {
+      const report = validateDeckLegality([entry(atraxa), entry(island, 100)], DeckFormat.COMMANDER);
+
+      expect(report.violations).toEqual([
+        expect.objectContaining({ code: 'deck_size', count: 101, limit: 100 }),
+      ]);
+    });
+
+    it('should check the named commanders', () => {
+      const sisay = scryfall('Sisay', { type_line: 'Legendary Creature — Human', color_identity: ['G', 'W'] });
+      const cards = [entry(atraxa), entry(sisay), entry(scryfall('Sol Ring')), entry(island, 97)];
+
+      expect(validateDeckLegality(cards, DeckFormat.COMMANDER).violations).toEqual([
+        expect.objectContaining({ code: 'commander_missing' }),
+      ]);
+      expect(validateDeckLegality(cards, DeckFormat.COMMANDER, ['sisay']).violations).toEqual([
+        expect.objectContaining({ code: 'color_identity', card_name: 'Atraxa, Praetors\' Voice', colors: ['U', 'B'] }),
+        expect.objectContaining({ code: 'color_identity', card_name: 'Island', colors: ['U'] }),
+      ]);
+      expect(validateDeckLegality(
+        [entry(atraxa), entry(sisay, 1, DeckBoard.COMMANDER), entry(scryfall('Sol Ring')), entry(island, 97)],
+        DeckFormat.COMMANDER
+      ).commanders).toEqual(['Sisay']);
+      expect(validateDeckLegality(cards, DeckFormat.COMMANDER, ['Sol Ring', 'Ghost']).violations).toEqual([
+        expect.objectContaining({ code: 'invalid_commander', card_name: 'Sol Ring' }),
+        expect.objectContaining({ code: 'commander_not_in_deck', card_name: 'Ghost' }),
+      ]);
+    });
+  });
+});
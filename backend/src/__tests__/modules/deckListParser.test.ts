@@ -0,0 +1,115 @@
+/**
+ * Deck List Parser Tests
+ *
+ * Tests for deckListParser.ts covering:
+ * - Quantities, set codes and collector numbers, foil/etched markers
+ * - Arena, MTGO, Moxfield and Archidekt syntaxes
+ * - Section headers and the deck zone each card goes to
+ * - Comments, metadata and skipped (Maybeboard) cards
+ */
+
+import { parseDeckList } from '../../modules/cards/deckListParser';
+import { CardFinish, DeckBoard } from '../../types';
+
+describe('parseDeckList', () => {
+  it('should read quantities, printings and finish markers', () => {
+    const { entries, errors } = parseDeckList([
+      '4 Lightning Bolt (M10) 146 *F*',
+      '1 Sol Ring [C21]',
+      '2x Counterspell',
+      'Brainstorm',
+      '1 Sol Ring (C21) 263 *E*',
+      '1 Fire // Ice (MH2) 290',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(entries.map((entry) => [entry.quantity, entry.name, entry.set_code, entry.collector_number, entry.finish]))
+      .toEqual([
+        [4, 'Lightning Bolt', 'm10', '146', CardFinish.FOIL],
+        [1, 'Sol Ring', 'c21', null, null],
+        [2, 'Counterspell', null, null, null],
+        [1, 'Brainstorm', null, null, null],
+        [1, 'Sol Ring', 'c21', '263', CardFinish.ETCHED],
+        [1, 'Fire // Ice', 'mh2', '290', null],
+      ]);
+  });
+
+  it('should assign Arena sections and skip its metadata', () => {
+    const { entries } = parseDeckList([
+      'About',
+      'Name Boros Burn',
+      '',
+      'Commander',
+      '1 Akroma, Angel of Fury (TSR) 143',
+      '',
+      'Companion',
+      '1 Lurrus of the Dream-Den (IKO) 226',
+      '',
+      'Deck',
+      '20 Mountain (ZNR) 381',
+      '',
+      'Sideboard',
+      '2 Abrade (HOU) 83',
+    ].join('\r\n'));
+
+    expect(entries.map((entry) => [entry.name, entry.board, entry.line])).toEqual([
+      ['Akroma, Angel of Fury', DeckBoard.COMMANDER, 5],
+      ['Lurrus of the Dream-Den', DeckBoard.SIDEBOARD, 8],
+      ['Mountain', DeckBoard.MAIN, 11],
+      ['Abrade', DeckBoard.SIDEBOARD, 14],
+    ]);
+  });
+
+  it('should read Moxfield headers and MTGO sideboards', () => {
+    const moxfield = parseDeckList('1 Sol Ring (C21) 263\n\nSIDEBOARD:\n1 Pyroblast (ICE) 212 *F*');
+    const mtgoPrefix = parseDeckList('4 Opt\n// Sideboard comment\nSB: 2 Abrade');
+    const mtgoBlank = parseDeckList('4 Opt\n4 Island\n\n2 Abrade');
+
+    expect(moxfield.entries.map((entry) => entry.board)).toEqual([DeckBoard.MAIN, DeckBoard.SIDEBOARD]);
+    expect(mtgoPrefix.entries.map((entry) => [entry.name, entry.board])).toEqual([
+      ['Opt', DeckBoard.MAIN],
+      ['Abrade', DeckBoard.SIDEBOARD],
+    ]);
+    expect(mtgoBlank.entries.map((entry) => entry.board)).toEqual([
+      DeckBoard.MAIN,
+      DeckBoard.MAIN,
+      DeckBoard.SIDEBOARD,
+    ]);
+  });
+
+  it('should read Archidekt categories and skip the maybeboard', () => {
+    const { entries, errors } = parseDeckList([
+      '1x Atraxa, Praetors\' Voice (c16) 28 [Commander{top}]',
+      '1x Sol Ring (cmr) 472 *F* [Ramp]',
+      '1x Duress (m19) 94 [Sideboard]',
+      '1x Opt (xln) 65 [Maybeboard{noDeck}{noPrice}]',
+    ].join('\n'));
+
+    expect(entries.map((entry) => [entry.name, entry.set_code, entry.collector_number, entry.board, entry.finish]))
+      .toEqual([
+        ['Atraxa, Praetors\' Voice', 'c16', '28', DeckBoard.COMMANDER, null],
+        ['Sol Ring', 'cmr', '472', DeckBoard.MAIN, CardFinish.FOIL],
+        ['Duress', 'm19', '94', DeckBoard.SIDEBOARD, null],
+      ]);
+    expect(errors).toEqual([{ name: 'Opt', line: 4, reason: 'Carta fora do deck (Maybeboard) ignorada' }]);
+  });
+
+  it('should not import headers or comments as cards', () => {
+    const { entries, errors } = parseDeckList([
+      '# Burn',
+      'Commander:',
+      '1 Krenko, Mob Boss',
+      'Mainboard (2)',
+      '0 Shock',
+      '1 Lightning Bolt',
+      'Maybeboard',
+      '1 Opt',
+    ].join('\n'));
+
+    expect(entries.map((entry) => [entry.name, entry.board])).toEqual([
+      ['Krenko, Mob Boss', DeckBoard.COMMANDER],
+      ['Lightning Bolt', DeckBoard.MAIN],
+    ]);
+    expect(errors.map((error) => [error.name, error.line])).toEqual([['Shock', 5], ['Opt', 8]]);
+  });
+});
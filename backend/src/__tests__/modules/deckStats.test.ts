@@ -0,0 +1,120 @@
+/**
+ * Deck Stats Tests
+ *
+ * Tests for deckStats.ts covering:
+ * - Type classification and the face double-faced cards are played as
+ * - Colored pip counting (hybrid, Phyrexian, colorless)
+ * - Mana curve, average mana value and land ratio (sideboard left out)
+ */
+
+import { cardType, computeDeckStats, countPips, playedFace } from '../../modules/decks/deckStats';
+import { CardFinish, CardWithDetails, DeckBoard, ScryfallCard } from '../../types';
+
+function scryfall(name: string, overrides: Partial<ScryfallCard> = {}): ScryfallCard {
+  return { id: name, name, set: 'tst', set_name: 'Test Set', rarity: 'common', ...overrides };
+}
+
+function entry(data: ScryfallCard | null, quantity = 1, board = DeckBoard.MAIN): CardWithDetails {
+  return {
+    id: `row-${data?.id ?? 'missing'}`,
+    collection_id: 'col-1',
+    scryfall_id: data?.id ?? 'missing-id',
+    owner_id: 'owner-1',
+    owner_name: 'Me',
+    deck_id: 'deck-1',
+    deck_name: 'Test',
+    board,
+    is_borrowed: false,
+    finish: CardFinish.NONFOIL,
+    quantity,
+    set_code: null,
+    set_name: null,
+    price_usd: null,
+    price_usd_foil: null,
+    price_usd_etched: null,
+    price_eur: null,
+    price_eur_foil: null,
+    added_at: new Date(),
+    scryfall_data: data,
+  };
+}
+
+const bolt = scryfall('Lightning Bolt', { cmc: 1, mana_cost: '{R}', type_line: 'Instant' });
+const mountain = scryfall('Mountain', { cmc: 0, mana_cost: '', type_line: 'Basic Land — Mountain' });
+
+// Modal double-faced card: a sorcery with a land on its back
+const valakut = scryfall('Valakut Awakening // Valakut Stoneforge', {
+  cmc: 3,
+  type_line: 'Instant // Land',
+  card_faces: [
+    { name: 'Valakut Awakening', mana_cost: '{2}{R}', type_line: 'Instant' },
+    { name: 'Valakut Stoneforge', mana_cost: '', type_line: 'Land' },
+  ],
+});
+
+describe('cardType', () => {
+  it('should classify each card under one type by priority', () => {
+    expect(cardType('Artifact Creature — Golem')).toBe('creature');
+    expect(cardType('Artifact Land')).toBe('land');
+    expect(cardType('Legendary Planeswalker — Jace')).toBe('planeswalker');
+    expect(cardType('Kindred Instant — Elf')).toBe('instant');
+    expect(cardType('Legendary Enchantment')).toBe('enchantment');
+    expect(cardType('Conspiracy')).toBe('other');
+  });
+});
+
+describe('playedFace', () => {
+  it('should use the front face of double-faced cards', () => {
+    expect(playedFace(valakut)).toEqual({ typeLine: 'Instant', manaCost: '{2}{R}' });
+  });
+
+  it('should keep the combined cost of split cards', () => {
+    const fireIce = scryfall('Fire // Ice', {
+      mana_cost: '{1}{R} // {1}{U}',
+      type_line: 'Instant // Instant',
+      card_faces: [
+        { name: 'Fire', mana_cost: '{1}{R}', type_line: 'Instant' },
+        { name: 'Ice', mana_cost: '{1}{U}', type_line: 'Instant' },
+      ],
+    });
+
+    expect(playedFace(fireIce)).toEqual({ typeLine: 'Instant', manaCost: '{1}{R} // {1}{U}' });
+  });
+});
+
+describe('countPips', () => {
+  it('should count colored, hybrid, Phyrexian and colorless symbols', () => {
+    expect(countPips('{X}{2}{W}{W}{W/U}{G/P}{2/B}{C}')).toEqual({ W: 3, U: 1, B: 1, R: 0, G: 1, C: 1 });
+  });
+});
+
+describe('computeDeckStats', () => {
+  it('should build the curve, pips, types and ratios weighted by quantity', () => {
+    const stats = computeDeckStats([
+      entry(bolt, 4),
+      entry(scryfall('Emrakul', { cmc: 15, mana_cost: '{15}', type_line: 'Legendary Creature — Eldrazi' }), 1),
+      entry(valakut, 2),
+      entry(mountain, 10),
+      entry(null, 3),
+      entry(bolt, 2, DeckBoard.SIDEBOARD),
+    ]);
+
+    expect(stats.card_count).toBe(20);
+    expect(stats.unknown_count).toBe(3);
+    expect(stats.land_count).toBe(10);
+    expect(stats.spell_count).toBe(7);
+    expect(stats.types).toMatchObject({ land: 10, instant: 6, creature: 1, sorcery: 0 });
+    expect(stats.color_pips).toMatchObject({ R: 6, U: 0 });
+    expect(stats.mana_curve.map((bucket) => bucket.count)).toEqual([0, 4, 0, 2, 0, 0, 0, 1]);
+    expect(stats.average_cmc).toBe(3.57);
+    expect(stats.land_to_spell_ratio).toBe(1.43);
+  });
+
+  it('should leave averages null for a deck without spells', () => {
+    const stats = computeDeckStats([entry(mountain, 20)]);
+
+    expect(stats.average_cmc).toBeNull();
+    expect(stats.land_to_spell_ratio).toBeNull();
+    expect(stats.types.land).toBe(20);
+  });
+});
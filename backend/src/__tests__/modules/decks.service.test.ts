@@ -0,0 +1,155 @@
+/**
+ * Decks Service Tests
+ *
+ * Tests for decks.service.ts covering:
+ * - Deck name normalization and case-insensitive uniqueness
+ * - Deck updates and ownership
+ * - Deck cards enriched through each collection's provider
+ * - Legality checks against the deck's format
+ */
+
+import { AppError, DeckFormat, ScryfallCard, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Providers are replaced per test through getCardsByIds
+const getCardsByIds = new Map<TcgType, jest.Mock>();
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardDataProvider: (tcgType: TcgType) => ({ getCardsByIds: getCardsByIds.get(tcgType) }),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import decksService, { normalizeDeckName } from '../../modules/decks/decks.service';
+
+function card(id: string): ScryfallCard {
+  return { id, name: id, set: 'tst', set_name: 'Test Set', rarity: 'rare' };
+}
+
+const deck = {
+  id: 'deck-1',
+  user_id: 'user-1',
+  name: 'Atraxa',
+  format: 'commander',
+  description: null,
+  created_at: new Date(),
+  card_count: 3,
+};
+
+describe('normalizeDeckName', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(normalizeDeckName('  Atraxa   Superfriends ')).toBe('Atraxa Superfriends');
+  });
+});
+
+describe('DecksService', () => {
+  beforeEach(() => {
+    getCardsByIds.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createDeck', () => {
+    it('should store the normalized name', async () => {
+      const spy = mockQueries(pool, [], [{ ...deck, card_count: undefined }]);
+
+      await decksService.createDeck('user-1', { name: ' Atraxa ', format: DeckFormat.COMMANDER });
+
+      expect(spy.mock.calls[0][1]).toEqual(['user-1', 'Atraxa', null]);
+      expect(spy.mock.calls[1][1]).toEqual(['user-1', 'Atraxa', 'commander', null]);
+    });
+
+    it('should reject a name the user already has, ignoring case', async () => {
+      const spy = mockQueries(pool, [{ id: 'deck-1' }]);
+
+      await expect(decksService.createDeck('user-1', { name: 'atraxa ' })).rejects.toThrow(
+        'Já existe um deck com esse nome'
+      );
+      expect(spy.mock.calls[0][0]).toContain('LOWER(name) = LOWER($2)');
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('updateDeck', () => {
+    it('should allow keeping the deck\'s own name', async () => {
+      const spy = mockQueries(pool, [deck], [], [{ ...deck, name: 'ATRAXA' }]);
+
+      const updated = await decksService.updateDeck('deck-1', 'user-1', { name: 'ATRAXA' });
+
+      expect(spy.mock.calls[1][1]).toEqual(['user-1', 'ATRAXA', 'deck-1']);
+      expect(updated.name).toBe('ATRAXA');
+    });
+
+    it('should clear format and description with null', async () => {
+      const spy = mockQueries(pool, [deck], [deck]);
+
+      await decksService.updateDeck('deck-1', 'user-1', { format: null, description: null });
+
+      expect(spy.mock.calls[1][0]).toContain('format = $1, description = $2');
+      expect(spy.mock.calls[1][1]).toEqual([null, null, 'deck-1']);
+    });
+
+    it('should throw 404 for a deck of another user', async () => {
+      mockQueries(pool, []);
+
+      await expect(decksService.updateDeck('deck-1', 'user-2', { name: 'Mine' })).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should require a field to update', async () => {
+      mockQueries(pool, [deck]);
+
+      await expect(decksService.updateDeck('deck-1', 'user-1', {})).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('getDeckLegality', () => {
+    it('should check the deck\'s own format when none is given', async () => {
+      mockQueries(pool, [deck], [deck], []);
+
+      const report = await decksService.getDeckLegality('deck-1', 'user-1');
+
+      expect(report.format).toBe(DeckFormat.COMMANDER);
+      expect(report.violations.map((v) => v.code)).toEqual(['deck_size', 'commander_missing']);
+    });
+
+    it('should require a format when the deck has none', async () => {
+      const spy = mockQueries(pool, [{ ...deck, format: null }]);
+
+      await expect(decksService.getDeckLegality('deck-1', 'user-1')).rejects.toThrow(
+        'Informe o formato para verificar o deck'
+      );
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getDeckCards', () => {
+    it('should look cards up once per TCG and name the deck', async () => {
+      mockQueries(pool, [deck], [
+        { id: 'c1', scryfall_id: 'bolt', tcg_type: TcgType.MAGIC },
+        { id: 'c2', scryfall_id: 'sol-ring', tcg_type: TcgType.MAGIC },
+        { id: 'c3', scryfall_id: 'base1-4', tcg_type: TcgType.POKEMON },
+      ]);
+      const magic = jest.fn().mockResolvedValue(new Map([['bolt', card('bolt')], ['sol-ring', card('sol-ring')]]));
+      const pokemon = jest.fn().mockResolvedValue(new Map([['base1-4', card('base1-4')]]));
+      getCardsByIds.set(TcgType.MAGIC, magic);
+      getCardsByIds.set(TcgType.POKEMON, pokemon);
+
+      const cards = await decksService.getDeckCards('deck-1', 'user-1');
+
+      expect(magic).toHaveBeenCalledWith(['bolt', 'sol-ring']);
+      expect(pokemon).toHaveBeenCalledWith(['base1-4']);
+      expect(cards.map((c) => c.scryfall_data?.id)).toEqual(['bolt', 'sol-ring', 'base1-4']);
+      expect(cards[0].deck_name).toBe('Atraxa');
+      expect(cards[0]).not.toHaveProperty('tcg_type');
+    });
+  });
+});
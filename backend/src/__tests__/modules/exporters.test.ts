@@ -0,0 +1,157 @@
+/**
+ * Exporters Tests
+ *
+ * Tests for exporters.ts covering:
+ * - Arena lists with sections and (SET) number
+ * - MTGO .dek XML with the commander in the sideboard
+ * - Moxfield-compatible CSV quoting
+ * - JSON export keeping cards without card data
+ */
+
+import {
+  exportCards,
+  exportFilename,
+  toArena,
+  toExportEntries,
+  toJson,
+  toMoxfieldCsv,
+  toMtgo,
+} from '../../modules/export/exporters';
+import { CardFinish, CardWithDetails, DeckBoard, ExportFormat, ScryfallCard } from '../../types';
+
+function scryfall(name: string, overrides: Partial<ScryfallCard> = {}): ScryfallCard {
+  return { id: name, name, set: 'tst', set_name: 'Test Set', rarity: 'common', collector_number: '1', ...overrides };
+}
+
+function entry(
+  data: ScryfallCard | null,
+  quantity = 1,
+  board = DeckBoard.MAIN,
+  finish = CardFinish.NONFOIL
+): CardWithDetails {
+  return {
+    id: `row-${data?.id ?? 'missing'}-${board}`,
+    collection_id: 'col-1',
+    scryfall_id: data?.id ?? 'missing-id',
+    owner_id: 'owner-1',
+    owner_name: 'Me',
+    deck_id: 'deck-1',
+    deck_name: 'Test',
+    board,
+    is_borrowed: false,
+    finish,
+    quantity,
+    set_code: data?.set ?? null,
+    set_name: null,
+    price_usd: null,
+    price_usd_foil: null,
+    price_usd_etched: null,
+    price_eur: null,
+    price_eur_foil: null,
+    added_at: new Date(),
+    scryfall_data: data,
+  };
+}
+
+const atraxa = scryfall('Atraxa, Praetors\' Voice', { set: 'one', collector_number: '196', mtgo_id: 105448 });
+const bolt = scryfall('Lightning Bolt', { set: 'm11', collector_number: '146' });
+const fireIce = scryfall('Fire // Ice', { set: 'mh2', collector_number: '290', layout: 'split' });
+const valakut = scryfall('Valakut Awakening // Valakut Stoneforge', {
+  set: 'znr', collector_number: '174', layout: 'modal_dfc',
+});
+
+const deck = [
+  entry(bolt, 3),
+  entry(bolt, 1),
+  entry(fireIce, 2),
+  entry(valakut, 1, DeckBoard.SIDEBOARD),
+  entry(atraxa, 1, DeckBoard.COMMANDER),
+  entry(null, 1),
+];
+
+describe('toExportEntries', () => {
+  it('should merge copies of a printing and order sections', () => {
+    const entries = toExportEntries(deck);
+
+    expect(entries.map((e) => [e.board, e.name, e.quantity])).toEqual([
+      [DeckBoard.COMMANDER, 'Atraxa, Praetors\' Voice', 1],
+      [DeckBoard.MAIN, null, 1],
+      [DeckBoard.MAIN, 'Fire // Ice', 2],
+      [DeckBoard.MAIN, 'Lightning Bolt', 4],
+      [DeckBoard.SIDEBOARD, 'Valakut Awakening // Valakut Stoneforge', 1],
+    ]);
+  });
+});
+
+describe('toArena', () => {
+  it('should write sections with set and collector number', () => {
+    expect(toArena(toExportEntries(deck))).toBe([
+      'Commander',
+      '1 Atraxa, Praetors\' Voice (ONE) 196',
+      '',
+      'Deck',
+      '2 Fire // Ice (MH2) 290',
+      '4 Lightning Bolt (M11) 146',
+      '',
+      'Sideboard',
+      '1 Valakut Awakening (ZNR) 174',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toMtgo', () => {
+  it('should write escaped names, MTGO IDs and the commander in the sideboard', () => {
+    const xml = toMtgo(toExportEntries(deck));
+
+    expect(xml).toContain('<Cards CatID="105448" Quantity="1" Sideboard="true" Name="Atraxa, Praetors&apos; Voice" Annotation="0" />');
+    expect(xml).toContain('<Cards Quantity="2" Sideboard="false" Name="Fire/Ice" Annotation="0" />');
+    expect(xml).toContain('Quantity="1" Sideboard="true" Name="Valakut Awakening"');
+    expect(xml.startsWith('<?xml')).toBe(true);
+  });
+});
+
+describe('toMoxfieldCsv', () => {
+  it('should quote fields and keep finish and board', () => {
+    const csv = toMoxfieldCsv(toExportEntries([
+      entry(atraxa, 1, DeckBoard.COMMANDER, CardFinish.FOIL),
+      entry(scryfall('"Ach! Hans, Run!"', { set: 'unh', collector_number: '116' })),
+    ]));
+
+    expect(csv.split('\n')).toEqual([
+      '"Count","Name","Edition","Collector Number","Foil","Board"',
+      '"1","Atraxa, Praetors\' Voice","one","196","foil","commander"',
+      '"1","""Ach! Hans, Run!""","unh","116","","main"',
+      '',
+    ]);
+  });
+});
+
+describe('toJson', () => {
+  it('should keep every card, including ones without card data', () => {
+    const json = JSON.parse(toJson('Atraxa', toExportEntries(deck), new Date('2024-01-01T00:00:00Z')));
+
+    expect(json).toMatchObject({ format_version: 1, name: 'Atraxa', exported_at: '2024-01-01T00:00:00.000Z' });
+    expect(json.commander).toHaveLength(1);
+    expect(json.mainboard).toContainEqual(expect.objectContaining({ name: null, scryfall_id: 'missing-id' }));
+    expect(json.sideboard[0]).toEqual({
+      quantity: 1,
+      name: 'Valakut Awakening // Valakut Stoneforge',
+      set: 'znr',
+      collector_number: '174',
+      finish: CardFinish.NONFOIL,
+      scryfall_id: valakut.id,
+    });
+  });
+});
+
+describe('exportCards', () => {
+  it('should name the file after the deck', () => {
+    expect(exportFilename('Ação Rápida!', ExportFormat.MTGO)).toBe('acao-rapida.dek');
+    expect(exportFilename('???', ExportFormat.JSON)).toBe('deck.json');
+
+    const file = exportCards('Burn', deck, ExportFormat.MOXFIELD);
+    expect(file.filename).toBe('burn.csv');
+    expect(file.contentType).toContain('text/csv');
+  });
+});
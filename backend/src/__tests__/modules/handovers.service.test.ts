@@ -0,0 +1,252 @@
+/**
+ * Handovers Service Tests
+ *
+ * Tests for handovers.service.ts covering:
+ * - Previewing an owner's cards, in one deck or in any deck
+ * - Clearing decks, returning and moving cards with a record of the handover
+ * - Closing the loans of returned cards while keeping their history
+ * - Merging moved cards into identical rows, refusing moves to another game
+ * - Naming cards before the transaction locks them
+ */
+
+import { CardFinish, DeckBoard, HandoverAction, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/owners/owners.service', () => ({
+  getOwnerById: jest.fn(),
+}));
+jest.mock('../../modules/decks/decks.service', () => ({
+  getDeckById: jest.fn(),
+}));
+jest.mock('../../modules/collections/collections.service', () => ({
+  getCollectionById: jest.fn(),
+}));
+
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardsWithFallback: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+import collectionsService from '../../modules/collections/collections.service';
+import decksService from '../../modules/decks/decks.service';
+import ownersService from '../../modules/owners/owners.service';
+import handoversService from '../../modules/handovers/handovers.service';
+
+function cardRow(overrides: object = {}) {
+  return {
+    card_id: 'card-1',
+    collection_id: 'col-1',
+    scryfall_id: 'sf-1',
+    set_code: 'm11',
+    finish: CardFinish.NONFOIL,
+    quantity: 2,
+    collection_name: 'Binder',
+    tcg_type: TcgType.MAGIC,
+    deck_name: 'Burn',
+    board: DeckBoard.MAIN,
+    open_loans: 0,
+    ...overrides,
+  };
+}
+
+describe('HandoversService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ownersService.getOwnerById as jest.Mock).mockResolvedValue({ id: 'owner-1', name: 'João' });
+    (decksService.getDeckById as jest.Mock).mockResolvedValue({ id: 'deck-1', name: 'Burn' });
+    (collectionsService.getCollectionById as jest.Mock).mockResolvedValue({
+      id: 'col-9',
+      name: 'Returned',
+      tcg_type: TcgType.MAGIC,
+    });
+    (getCardsWithFallback as jest.Mock).mockResolvedValue(new Map([
+      ['sf-1', { name: 'Lightning Bolt' }],
+      ['sf-2', { name: 'Counterspell' }],
+    ]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('previewHandover', () => {
+    it('should list the owner\'s cards in the deck, named and sorted', async () => {
+      const spy = mockQueries(pool, [cardRow(), cardRow({ card_id: 'card-2', scryfall_id: 'sf-2', quantity: 1 })]);
+
+      const preview = await handoversService.previewHandover('user-1', 'owner-1', HandoverAction.RETURN, 'deck-1');
+
+      expect(spy.mock.calls[0][0]).toContain('ca.deck_id = $3');
+      expect(spy.mock.calls[0][1]).toEqual(['user-1', 'owner-1', 'deck-1']);
+      expect(preview.deck).toEqual({ id: 'deck-1', name: 'Burn' });
+      expect(preview.items.map((item) => item.card_name)).toEqual(['Counterspell', 'Lightning Bolt']);
+      expect(preview.card_count).toBe(3);
+    });
+
+    it('should only list cards in a deck when clearing decks without one', async () => {
+      const spy = mockQueries(pool, []);
+
+      await handoversService.previewHandover('user-1', 'owner-1', HandoverAction.CLEAR_DECK);
+
+      expect(spy.mock.calls[0][0]).toContain('ca.deck_id IS NOT NULL');
+      expect(spy.mock.calls[0][0]).not.toContain('FOR UPDATE');
+      expect(decksService.getDeckById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createHandover', () => {
+    it('should record the cards and move them out of their decks to the target collection', async () => {
+      const spy = mockQueries(
+        pool,
+        [cardRow()],
+        [],
+        [cardRow()],
+        [{ id: 'handover-1', owner_name: 'João' }],
+        [],
+        [],
+        [],
+        [{ scryfall_id: 'sf-1', ids: ['card-0', 'card-1'], quantity: 5 }],
+        [],
+        [],
+        [],
+        []
+      );
+
+      const handover = await handoversService.createHandover('user-1', {
+        owner_id: 'owner-1',
+        action: HandoverAction.MOVE,
+        collection_id: 'col-9',
+      });
+
+      expect(spy.mock.calls[2][0]).toContain('FOR UPDATE OF ca');
+      expect(spy.mock.calls[3][1]).toEqual([
+        'user-1', 'owner-1', 'João', 'move', null, null, 'col-9', 'Returned', null,
+      ]);
+      expect(spy.mock.calls[4][1]).toEqual([
+        'handover-1', ['card-1'], ['sf-1'], ['Lightning Bolt'], ['m11'], ['nonfoil'], [2], ['Binder'], ['Burn'], ['main'],
+      ]);
+      expect(spy.mock.calls[5][1]).toEqual([['card-1'], DeckBoard.MAIN, 'col-9']);
+      expect(spy.mock.calls[6][0]).toContain('UPDATE card_loans SET collection_id = $2');
+      expect(spy.mock.calls[6][1]).toEqual([['card-1'], 'col-9']);
+      expect(spy.mock.calls[11][0]).toBe('COMMIT');
+      expect(handover.card_count).toBe(2);
+      expect(handover.items[0]).not.toHaveProperty('open_loans');
+    });
+
+    it('should merge moved cards into the identical rows already there', async () => {
+      const spy = mockQueries(
+        pool,
+        [cardRow()],
+        [],
+        [cardRow()],
+        [{ id: 'handover-1' }],
+        [],
+        [],
+        [],
+        [{ scryfall_id: 'sf-1', ids: ['card-0', 'card-1'], quantity: 5 }],
+        [],
+        [],
+        [],
+        []
+      );
+
+      await handoversService.createHandover('user-1', {
+        owner_id: 'owner-1',
+        action: HandoverAction.MOVE,
+        collection_id: 'col-9',
+      });
+
+      expect(spy.mock.calls[7][0]).toContain('GROUP BY collection_id, scryfall_id, finish, owner_id, deck_id');
+      expect(spy.mock.calls[7][1]).toEqual(['owner-1', ['card-1']]);
+      expect(spy.mock.calls[8][1]).toEqual(['card-0', 5]);
+      expect(spy.mock.calls[10]).toEqual(['DELETE FROM cards WHERE id = ANY($1)', [['card-1']]]);
+    });
+
+    it('should close the loans of returned cards and keep their history', async () => {
+      const spy = mockQueries(
+        pool,
+        [cardRow({ open_loans: 1 })],
+        [],
+        [cardRow({ open_loans: 1 })],
+        [{ id: 'handover-1' }],
+        [],
+        [],
+        [],
+        []
+      );
+
+      await handoversService.createHandover('user-1', { owner_id: 'owner-1', action: HandoverAction.RETURN });
+
+      expect(spy.mock.calls[5][0]).toContain('UPDATE card_loans SET returned_date = GREATEST(CURRENT_DATE, start_date)');
+      expect(spy.mock.calls[5][1]).toEqual([['card-1']]);
+      expect(spy.mock.calls[6]).toEqual(['DELETE FROM cards WHERE id = ANY($1)', [['card-1']]]);
+      expect(spy.mock.calls[7][0]).toBe('COMMIT');
+      expect(spy.mock.calls.some(([sql]) => /DELETE FROM card_loans/.test(String(sql)))).toBe(false);
+      expect(collectionsService.getCollectionById).not.toHaveBeenCalled();
+    });
+
+    it('should name the cards before locking them', async () => {
+      const spy = mockQueries(pool, [cardRow()], [], [cardRow()], [{ id: 'handover-1' }], [], [], [], []);
+      (getCardsWithFallback as jest.Mock).mockImplementation(async () => {
+        expect(spy).toHaveBeenCalledTimes(1);
+        return new Map([['sf-1', { name: 'Lightning Bolt' }]]);
+      });
+
+      const handover = await handoversService.createHandover('user-1', {
+        owner_id: 'owner-1',
+        action: HandoverAction.RETURN,
+      });
+
+      expect(spy.mock.calls[0][0]).not.toContain('FOR UPDATE');
+      expect(spy.mock.calls[1][0]).toBe('BEGIN');
+      expect(handover.items[0].card_name).toBe('Lightning Bolt');
+    });
+
+    it('should refuse to move cards to a collection of another game', async () => {
+      const spy = mockQueries(pool, [], [], [cardRow({ tcg_type: TcgType.POKEMON })], []);
+
+      await expect(
+        handoversService.createHandover('user-1', {
+          owner_id: 'owner-1',
+          action: HandoverAction.MOVE,
+          collection_id: 'col-9',
+        })
+      ).rejects.toMatchObject({ statusCode: 400, message: 'A coleção de destino é de outro jogo' });
+      expect(spy.mock.calls[3][0]).toBe('ROLLBACK');
+    });
+
+    it('should require a target collection to move cards', async () => {
+      const spy = jest.spyOn(pool, 'query');
+
+      await expect(
+        handoversService.createHandover('user-1', { owner_id: 'owner-1', action: HandoverAction.MOVE })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a handover without cards', async () => {
+      mockQueries(pool, [], [], [], []);
+
+      await expect(
+        handoversService.createHandover('user-1', { owner_id: 'owner-1', action: HandoverAction.CLEAR_DECK })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('getHandoverById', () => {
+    it('should throw 404 for another user\'s handover', async () => {
+      mockQueries(pool, []);
+
+      await expect(handoversService.getHandoverById('handover-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
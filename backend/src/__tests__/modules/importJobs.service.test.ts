@@ -0,0 +1,326 @@
+/**
+ * Import Jobs Service Tests
+ *
+ * Tests for importJobs.service.ts covering:
+ * - Job creation from a deck list
+ * - Batched processing that resumes from the saved progress
+ * - Transactional processing: cards resolved first, running counts, rolled
+ *   back when cancelled or failed
+ * - Leasing claimed jobs, and requeueing the ones whose lease expired
+ *   with the lines the parser skipped
+ * - Rejecting an atomic import with cards not found
+ * - Cancelling a finished job
+ */
+
+import { CsvImportFormat, ImportJob, ImportJobKind, ImportJobMode, ImportJobStatus, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/collections/collections.service', () => ({
+  getCollectionById: jest.fn(),
+}));
+jest.mock('../../modules/decks/decks.service', () => ({
+  getDeckById: jest.fn(),
+}));
+jest.mock('../../modules/owners/owners.service', () => ({
+  getOwnerById: jest.fn(),
+}));
+jest.mock('../../modules/cards/cards.service', () => ({
+  importCsvRows: jest.fn(),
+  resolveDeckList: jest.fn(),
+  importResolvedEntries: jest.fn(),
+  resolveReviewedCards: jest.fn(),
+  importReviewedCards: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import collectionsService from '../../modules/collections/collections.service';
+import ownersService from '../../modules/owners/owners.service';
+import cardsService from '../../modules/cards/cards.service';
+import importJobsService, { IMPORT_BATCH_SIZE, IMPORT_JOB_LEASE_SECONDS } from '../../modules/imports/importJobs.service';
+
+const collection = { id: 'col-1', user_id: 'user-1', name: 'Binder', tcg_type: TcgType.MAGIC };
+const owner = { id: 'owner-1', user_id: 'user-1', name: 'Ana' };
+
+/**
+ * A deck list with one line per card
+ */
+function deckList(count: number): string {
+  return Array.from({ length: count }, (_, i) => `1 Card ${i + 1}`).join('\n');
+}
+
+/**
+ * A Moxfield CSV with one row per card
+ */
+function csvList(count: number): string {
+  return ['Count,Name,Edition', ...Array.from({ length: count }, (_, i) => `1,Card ${i + 1},m11`)].join('\n');
+}
+
+function job(overrides: Partial<ImportJob> = {}): ImportJob {
+  return {
+    id: 'job-1',
+    user_id: 'user-1',
+    collection_id: 'col-1',
+    kind: ImportJobKind.DECK_LIST,
+    mode: ImportJobMode.TRANSACTION,
+    status: ImportJobStatus.RUNNING,
+    format: null,
+    total: 0,
+    processed: 0,
+    imported: 0,
+    failed: 0,
+    failures: [],
+    error: null,
+    created_at: new Date(),
+    started_at: new Date(),
+    finished_at: null,
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('ImportJobsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (collectionsService.getCollectionById as jest.Mock).mockResolvedValue(collection);
+    (ownersService.getOwnerById as jest.Mock).mockResolvedValue(owner);
+    (cardsService.resolveDeckList as jest.Mock).mockImplementation(
+      async (_tcg: TcgType, entries: unknown[]) => ({ resolved: entries.map((entry) => ({ entry })), failed: [] })
+    );
+    (cardsService.importResolvedEntries as jest.Mock).mockImplementation(
+      async (_id: string, resolved: unknown[]) => ({ imported: resolved, failed: [] })
+    );
+    (cardsService.importCsvRows as jest.Mock).mockImplementation(
+      async (_id: string, rows: unknown[]) => ({ imported: rows, failed: [] })
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createDeckListJob', () => {
+    it('should store the card count and the lines the parser skipped', async () => {
+      const spy = mockQueries(pool, [job({ status: ImportJobStatus.PENDING })]);
+
+      await importJobsService.createDeckListJob('col-1', 'user-1', '4 Lightning Bolt\n0 Island', 'owner-1');
+
+      const params = spy.mock.calls[0][1] as unknown[];
+      expect(params.slice(2, 7)).toEqual([
+        ImportJobKind.DECK_LIST, ImportJobMode.TRANSACTION, expect.any(String), 1, 1,
+      ]);
+      expect(JSON.parse(params[7] as string)).toEqual([
+        { name: 'Island', line: 2, reason: 'Quantidade inválida: 0' },
+      ]);
+    });
+
+    it('should store the atomic mode when asked', async () => {
+      const spy = mockQueries(pool, [job({ status: ImportJobStatus.PENDING, mode: ImportJobMode.ATOMIC })]);
+
+      await importJobsService.createDeckListJob('col-1', 'user-1', '4 Lightning Bolt', 'owner-1', null, true);
+
+      expect((spy.mock.calls[0][1] as unknown[])[3]).toBe(ImportJobMode.ATOMIC);
+    });
+
+    it('should reject a list without cards', async () => {
+      const spy = mockQueries(pool);
+
+      await expect(
+        importJobsService.createDeckListJob('col-1', 'user-1', '// Sideboard\n', 'owner-1')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processJob', () => {
+    it('should resume a batched job after the last saved batch', async () => {
+      const total = IMPORT_BATCH_SIZE * 2 + 10;
+      const spy = mockQueries(
+        pool,
+        [{ input: { owner_id: 'owner-1', csv: csvList(total), format: CsvImportFormat.MOXFIELD } }],
+        [{ status: ImportJobStatus.RUNNING }],
+        [{ status: ImportJobStatus.RUNNING }],
+        []
+      );
+
+      await importJobsService.processJob(job({
+        kind: ImportJobKind.CSV,
+        mode: ImportJobMode.BATCHED,
+        total,
+        processed: IMPORT_BATCH_SIZE,
+      }));
+
+      const batches = (cardsService.importCsvRows as jest.Mock).mock.calls.map((call) => call[1]);
+      expect(batches.map((rows) => rows.length)).toEqual([IMPORT_BATCH_SIZE, 10]);
+      expect(batches[0][0].name).toBe(`Card ${IMPORT_BATCH_SIZE + 1}`);
+      expect((spy.mock.calls[2][1] as unknown[]).slice(0, 3)).toEqual(['job-1', total, 10]);
+      expect((spy.mock.calls[3][1] as unknown[]).slice(0, 5)).toEqual([
+        'job-1', ImportJobStatus.COMPLETED, null, ImportJobStatus.RUNNING, 0,
+      ]);
+    });
+
+    it('should resolve the cards before the transaction and save running counts', async () => {
+      const failed = [{ name: 'Card 3', line: 3, reason: 'Carta não encontrada' }];
+      (cardsService.resolveDeckList as jest.Mock).mockResolvedValueOnce({
+        resolved: [{ entry: { name: 'Card 1' } }, { entry: { name: 'Card 2' } }],
+        failed,
+      });
+      const spy = mockQueries(
+        pool,
+        [{ input: { owner_id: 'owner-1', text: deckList(3) } }],
+        [{ status: ImportJobStatus.RUNNING }],
+        [],
+        [{ status: ImportJobStatus.RUNNING }],
+        [],
+        []
+      );
+
+      await importJobsService.processJob(job({ total: 3 }));
+
+      expect((cardsService.resolveDeckList as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan(spy.mock.invocationCallOrder[2]);
+      expect((cardsService.importResolvedEntries as jest.Mock).mock.calls[0][2]).toBe(owner);
+      expect((cardsService.importResolvedEntries as jest.Mock).mock.calls[0][4]).toBe(pool);
+      expect(spy.mock.calls.map((call) => call[0]).slice(1, 5)).toEqual([
+        expect.stringContaining('SET processed'), 'BEGIN', expect.stringContaining('SET processed'), 'COMMIT',
+      ]);
+      expect(spy.mock.calls[1][1]).toEqual(['job-1', 1, 0, 1, JSON.stringify(failed)]);
+      expect(spy.mock.calls[3][1]).toEqual(['job-1', 3, 2, 0, '[]']);
+      expect((spy.mock.calls[5][1] as unknown[]).slice(1, 6)).toEqual([
+        ImportJobStatus.COMPLETED, null, ImportJobStatus.RUNNING, 0, 0,
+      ]);
+    });
+
+    it('should roll back after the batch in which the job was cancelled', async () => {
+      const spy = mockQueries(
+        pool,
+        [{ input: { owner_id: 'owner-1', text: deckList(IMPORT_BATCH_SIZE * 3) } }],
+        [],
+        [{ status: ImportJobStatus.CANCELLED }],
+        [],
+        []
+      );
+
+      await importJobsService.processJob(job({ total: IMPORT_BATCH_SIZE * 3 }));
+
+      expect(cardsService.importResolvedEntries).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledTimes(5);
+      expect(spy.mock.calls[3][0]).toBe('ROLLBACK');
+      expect(spy.mock.calls[4][0]).toContain('SET imported = 0');
+    });
+
+    it('should roll back and mark the job failed when a batch throws', async () => {
+      (cardsService.importResolvedEntries as jest.Mock).mockRejectedValueOnce(new Error('Conexão perdida'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const spy = mockQueries(pool, [{ input: { owner_id: 'owner-1', text: deckList(3) } }], [], [], [], []);
+
+      await importJobsService.processJob(job({ total: 3 }));
+
+      expect(spy.mock.calls[2][0]).toBe('ROLLBACK');
+      expect(spy.mock.calls[3][0]).toContain('SET imported = 0');
+      expect((spy.mock.calls[4][1] as unknown[]).slice(0, 4)).toEqual([
+        'job-1', ImportJobStatus.FAILED, 'Conexão perdida', ImportJobStatus.RUNNING,
+      ]);
+    });
+
+    it('should fail a reviewed import with an unknown printing before opening the transaction', async () => {
+      (cardsService.resolveReviewedCards as jest.Mock).mockRejectedValueOnce(new Error('Cartas não encontradas: x'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const spy = mockQueries(
+        pool,
+        [{ input: { owner_id: 'owner-1', cards: [{ scryfall_id: 'x', quantity: 1 }] } }],
+        []
+      );
+
+      await importJobsService.processJob(job({ kind: ImportJobKind.COMMIT, mode: ImportJobMode.ATOMIC, total: 1 }));
+
+      expect(cardsService.importReviewedCards).not.toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect((spy.mock.calls[1][1] as unknown[]).slice(1, 3)).toEqual([
+        ImportJobStatus.FAILED, 'Cartas não encontradas: x',
+      ]);
+    });
+
+    it('should import nothing from an atomic list with cards not found', async () => {
+      const failed = [{ name: 'Card 2', line: 2, reason: 'Carta não encontrada' }];
+      (cardsService.resolveDeckList as jest.Mock).mockResolvedValueOnce({ resolved: [], failed });
+      const spy = mockQueries(pool, [{ input: { owner_id: 'owner-1', text: deckList(3) } }], []);
+
+      await importJobsService.processJob(job({ mode: ImportJobMode.ATOMIC, total: 3 }));
+
+      expect(cardsService.importResolvedEntries).not.toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.mock.calls[1][1]).toEqual([
+        'job-1', ImportJobStatus.FAILED, 'Nada foi importado: 1 carta(s) não encontrada(s)',
+        ImportJobStatus.RUNNING, 0, 1, JSON.stringify(failed),
+      ]);
+    });
+  });
+
+  describe('claimNextJob', () => {
+    it('should lease the job it claims', async () => {
+      const spy = mockQueries(pool, [job()]);
+
+      await importJobsService.claimNextJob();
+
+      expect(spy.mock.calls[0][0]).toContain("claimed_until = NOW() + $3 * INTERVAL '1 second'");
+      expect((spy.mock.calls[0][1] as unknown[])[2]).toBe(IMPORT_JOB_LEASE_SECONDS);
+    });
+  });
+
+  describe('requeueInterruptedJobs', () => {
+    it('should only requeue running jobs whose lease expired', async () => {
+      const spy = mockQueries(pool, []);
+
+      await importJobsService.requeueInterruptedJobs();
+
+      expect(spy.mock.calls[0][0]).toContain('WHERE status = $2 AND (claimed_until IS NULL OR claimed_until < NOW())');
+      expect(spy.mock.calls[0][1]).toEqual([
+        ImportJobStatus.PENDING, ImportJobStatus.RUNNING, ImportJobMode.BATCHED,
+      ]);
+    });
+
+    it('should restart a transactional job with the lines the parser skipped', async () => {
+      const spy = mockQueries(pool, [job({ status: ImportJobStatus.PENDING })], []);
+
+      await importJobsService.createDeckListJob('col-1', 'user-1', '4 Lightning Bolt\n0 Island', 'owner-1');
+      await importJobsService.requeueInterruptedJobs();
+
+      // The skipped lines are stored apart from the failures processing adds
+      expect(spy.mock.calls[0][0]).toContain('VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)');
+      expect(JSON.parse((spy.mock.calls[0][1] as string[])[7])).toEqual([
+        { name: 'Island', line: 2, reason: 'Quantidade inválida: 0' },
+      ]);
+
+      const sql = spy.mock.calls[1][0] as string;
+      expect(sql).toContain('processed = CASE WHEN mode = $3 THEN processed ELSE 0 END');
+      expect(sql).toContain('imported = CASE WHEN mode = $3 THEN imported ELSE 0 END');
+      expect(sql).toContain('failed = CASE WHEN mode = $3 THEN failed ELSE jsonb_array_length(parse_failures) END');
+      expect(sql).toContain('failures = CASE WHEN mode = $3 THEN failures ELSE parse_failures END');
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should throw 409 for a finished job', async () => {
+      mockQueries(pool, [], [job({ status: ImportJobStatus.COMPLETED })]);
+
+      await expect(importJobsService.cancelJob('job-1', 'user-1')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('should throw 404 for a job of another user', async () => {
+      mockQueries(pool, [], []);
+
+      await expect(importJobsService.cancelJob('job-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
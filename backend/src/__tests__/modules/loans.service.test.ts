@@ -0,0 +1,310 @@
+/**
+ * Loans Service Tests
+ *
+ * Tests for loans.service.ts covering:
+ * - Opening loans within the copies not already on loan
+ * - Borrowed copies split to a row of their own, merged back once returned
+ * - Returning and extending only open loans
+ * - Listing a collection's loans with card names, removed cards included
+ */
+
+import { CardLoan, LoanDirection, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/collections/collections.service', () => ({
+  getCollectionById: jest.fn(),
+}));
+jest.mock('../../modules/cards/cards.service', () => ({
+  getCardById: jest.fn(),
+}));
+
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardsWithFallback: jest.fn(),
+}));
+jest.mock('../../modules/cards/cardDuplicates', () => ({
+  mergeDuplicateRows: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+import { mergeDuplicateRows } from '../../modules/cards/cardDuplicates';
+import collectionsService from '../../modules/collections/collections.service';
+import loansService from '../../modules/loans/loans.service';
+
+function loan(overrides: Partial<CardLoan> = {}): CardLoan {
+  return {
+    id: 'loan-1',
+    card_id: 'card-1',
+    collection_id: 'col-1',
+    quantity: 1,
+    direction: LoanDirection.LENT,
+    counterparty: 'Bruno',
+    start_date: '2024-03-01',
+    due_date: '2024-03-15',
+    returned_date: null,
+    notes: null,
+    is_overdue: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Locked card row openLoan reads
+ */
+function copies(quantity: number, onLoan = 0, today = '2024-03-01') {
+  return {
+    id: 'card-1',
+    collection_id: 'col-1',
+    scryfall_id: 'bolt-m10',
+    set_code: 'm10',
+    finish: 'nonfoil',
+    owner_name: 'Ana',
+    quantity,
+    on_loan: onLoan,
+    today,
+  };
+}
+
+describe('LoansService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mergeDuplicateRows as jest.Mock).mockResolvedValue([]);
+    (collectionsService.getCollectionById as jest.Mock).mockResolvedValue({
+      id: 'col-1',
+      tcg_type: TcgType.MAGIC,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('openLoan', () => {
+    it('should move borrowed copies to a borrowed row of their own', async () => {
+      const spy = mockQueries(
+        pool,
+        [],
+        [copies(4, 1)],
+        [],
+        [{ id: 'card-2' }],
+        [loan({ card_id: 'card-2', direction: LoanDirection.BORROWED, quantity: 2 })],
+        []
+      );
+
+      const opened = await loansService.openLoan('card-1', 'user-1', {
+        direction: LoanDirection.BORROWED,
+        counterparty: 'Bruno',
+        quantity: 2,
+        start_date: '2024-03-01',
+      });
+
+      expect(opened.card_id).toBe('card-2');
+      expect(spy.mock.calls[2][1]).toEqual(['card-1', 2]);
+      expect(spy.mock.calls[3][0]).toContain('INSERT INTO cards');
+      expect(mergeDuplicateRows).toHaveBeenCalledWith(expect.anything(), { collectionId: 'col-1', cardIds: ['card-2'] });
+      expect(spy.mock.calls[4][1]).toEqual([
+        'card-2', 2, LoanDirection.BORROWED, 'Bruno', '2024-03-01', null, null,
+        'col-1', 'bolt-m10', 'm10', 'nonfoil', 'Ana',
+      ]);
+      expect(spy.mock.calls[5][0]).toBe('COMMIT');
+    });
+
+    it('should mark a row borrowed when all its copies are borrowed', async () => {
+      (mergeDuplicateRows as jest.Mock).mockResolvedValueOnce([{ ids: ['card-0', 'card-1'] }]);
+      const spy = mockQueries(
+        pool,
+        [],
+        [copies(3)],
+        [],
+        [loan({ card_id: 'card-0', direction: LoanDirection.BORROWED, quantity: 3 })],
+        []
+      );
+
+      await loansService.openLoan('card-1', 'user-1', {
+        direction: LoanDirection.BORROWED,
+        counterparty: 'Bruno',
+        quantity: 3,
+      });
+
+      expect(spy.mock.calls[2][0]).toBe('UPDATE cards SET is_borrowed = true WHERE id = $1');
+      // An identical borrowed row already held copies: the loan goes to it
+      expect((spy.mock.calls[3][1] as unknown[])[0]).toBe('card-0');
+    });
+
+    it('should leave the rows alone when lending', async () => {
+      const spy = mockQueries(pool, [], [copies(1)], [loan()], []);
+
+      await loansService.openLoan('card-1', 'user-1', { direction: LoanDirection.LENT, counterparty: 'Bruno' });
+
+      expect(spy).toHaveBeenCalledTimes(4);
+      expect((spy.mock.calls[2][1] as unknown[])[0]).toBe('card-1');
+      expect(spy.mock.calls[3][0]).toBe('COMMIT');
+      expect(mergeDuplicateRows).not.toHaveBeenCalled();
+    });
+
+    it('should start the loan on the database\'s date', async () => {
+      const spy = mockQueries(pool, [], [copies(1)], [loan()], []);
+
+      await loansService.openLoan('card-1', 'user-1', { direction: LoanDirection.LENT, counterparty: 'Bruno' });
+
+      expect(spy.mock.calls[1][0]).toContain('CURRENT_DATE::text AS today');
+      expect((spy.mock.calls[2][1] as unknown[])[4]).toBe('2024-03-01');
+    });
+
+    it('should reject a due date before the database\'s date when no start date is given', async () => {
+      const spy = mockQueries(pool, [], [copies(1, 0, '2024-03-10')], []);
+
+      await expect(
+        loansService.openLoan('card-1', 'user-1', {
+          direction: LoanDirection.LENT,
+          counterparty: 'Bruno',
+          due_date: '2024-03-09',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(spy.mock.calls[2][0]).toBe('ROLLBACK');
+    });
+
+    it('should reject more copies than are not on loan', async () => {
+      const spy = mockQueries(pool, [], [copies(4, 3)], []);
+
+      await expect(
+        loansService.openLoan('card-1', 'user-1', {
+          direction: LoanDirection.LENT,
+          counterparty: 'Bruno',
+          quantity: 2,
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(spy.mock.calls[2][0]).toBe('ROLLBACK');
+    });
+
+    it('should reject a due date before the start date', async () => {
+      const spy = mockQueries(pool, [], [copies(1)], []);
+
+      await expect(
+        loansService.openLoan('card-1', 'user-1', {
+          direction: LoanDirection.LENT,
+          counterparty: 'Bruno',
+          start_date: '2024-03-10',
+          due_date: '2024-03-01',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(spy.mock.calls[2][0]).toBe('ROLLBACK');
+    });
+  });
+
+  describe('returnLoan', () => {
+    it('should clear the borrowed status and merge the row back with the returned loan', async () => {
+      const spy = mockQueries(
+        pool,
+        [loan({ direction: LoanDirection.BORROWED })],
+        [],
+        [loan({ direction: LoanDirection.BORROWED, returned_date: '2024-03-20' })],
+        [{ is_borrowed: false }],
+        []
+      );
+
+      const returned = await loansService.returnLoan('loan-1', 'user-1', '2024-03-20');
+
+      expect(returned.returned_date).toBe('2024-03-20');
+      expect(spy.mock.calls[2][1]).toEqual(['loan-1', '2024-03-20']);
+      expect(spy.mock.calls[3][1]).toEqual(['card-1', LoanDirection.BORROWED]);
+      expect(mergeDuplicateRows).toHaveBeenCalledWith(expect.anything(), { collectionId: 'col-1', cardIds: ['card-1'] });
+      expect(spy.mock.calls[4][0]).toBe('COMMIT');
+    });
+
+    it('should keep the row borrowed while it has other open borrowed loans', async () => {
+      mockQueries(
+        pool,
+        [loan({ direction: LoanDirection.BORROWED })],
+        [],
+        [loan({ direction: LoanDirection.BORROWED, returned_date: '2024-03-20' })],
+        [{ is_borrowed: true }],
+        []
+      );
+
+      await loansService.returnLoan('loan-1', 'user-1', '2024-03-20');
+
+      expect(mergeDuplicateRows).not.toHaveBeenCalled();
+    });
+
+    it('should return a loan whose card was removed', async () => {
+      const spy = mockQueries(
+        pool,
+        [loan({ card_id: null, direction: LoanDirection.BORROWED })],
+        [],
+        [loan({ card_id: null, direction: LoanDirection.BORROWED, returned_date: '2024-03-20' })],
+        []
+      );
+
+      await loansService.returnLoan('loan-1', 'user-1', '2024-03-20');
+
+      expect(spy.mock.calls[0][0]).toContain('INNER JOIN collections col ON col.id = l.collection_id');
+      expect(spy.mock.calls[3][0]).toBe('COMMIT');
+    });
+
+    it('should let the database date a return without a date', async () => {
+      const spy = mockQueries(pool, [loan()], [], [loan({ returned_date: '2024-03-20' })], []);
+
+      await loansService.returnLoan('loan-1', 'user-1');
+
+      expect(spy.mock.calls[2][0]).toContain('COALESCE($2::date, GREATEST(CURRENT_DATE, l.start_date))');
+      expect(spy.mock.calls[2][1]).toEqual(['loan-1', null]);
+    });
+
+    it('should throw 409 for a loan already returned', async () => {
+      mockQueries(pool, [loan({ returned_date: '2024-03-10' })]);
+
+      await expect(loansService.returnLoan('loan-1', 'user-1')).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should throw 404 for a loan of another user', async () => {
+      mockQueries(pool, []);
+
+      await expect(loansService.returnLoan('loan-1', 'user-2')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('extendLoan', () => {
+    it('should set the new due date of an open loan', async () => {
+      const spy = mockQueries(pool, [loan()], [loan({ due_date: '2024-04-01' })]);
+
+      const extended = await loansService.extendLoan('loan-1', 'user-1', '2024-04-01');
+
+      expect(extended.due_date).toBe('2024-04-01');
+      expect(spy.mock.calls[1][1]).toEqual(['loan-1', '2024-04-01']);
+    });
+  });
+
+  describe('getCollectionLoans', () => {
+    it('should name each loan after its card', async () => {
+      const spy = mockQueries(pool, [{ ...loan({ is_overdue: true }), scryfall_id: 'bolt-m10' }]);
+      (getCardsWithFallback as jest.Mock).mockResolvedValue(new Map([['bolt-m10', { name: 'Lightning Bolt' }]]));
+
+      const loans = await loansService.getCollectionLoans('col-1', 'user-1', 'open');
+
+      expect(spy.mock.calls[0][0]).toContain('l.returned_date IS NULL');
+      expect(loans[0]).toMatchObject({ id: 'loan-1', card_name: 'Lightning Bolt', is_overdue: true });
+    });
+
+    it('should list the loans of removed cards with their copied details', async () => {
+      const spy = mockQueries(pool, [{ ...loan({ card_id: null }), scryfall_id: 'bolt-m10', owner_name: 'Ana' }]);
+      (getCardsWithFallback as jest.Mock).mockResolvedValue(new Map([['bolt-m10', { name: 'Lightning Bolt' }]]));
+
+      const loans = await loansService.getCollectionLoans('col-1', 'user-1');
+
+      expect(spy.mock.calls[0][0]).toContain('LEFT JOIN cards ca ON ca.id = l.card_id');
+      expect(spy.mock.calls[0][0]).toContain('COALESCE(ca.scryfall_id, l.scryfall_id)');
+      expect(spy.mock.calls[0][1]).toEqual(['col-1']);
+      expect(loans[0]).toMatchObject({ card_id: null, card_name: 'Lightning Bolt', owner_name: 'Ana' });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Name Suggestions Tests
+ *
+ * Tests for nameSuggestions.ts covering:
+ * - Edit distance
+ * - Autocomplete queries derived from a misspelled name
+ * - Ranking and filtering of candidate names
+ * - Suggestions gathered from autocomplete, failures skipped
+ */
+
+import {
+  editDistance,
+  rankSuggestions,
+  suggestCardNames,
+  suggestionQueries,
+} from '../../modules/cards/nameSuggestions';
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('bolt', 'bolt')).toBe(0);
+    expect(editDistance('lightnig bolt', 'lightning bolt')).toBe(1);
+    expect(editDistance('counterspel', 'counterspell')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'opt')).toBe(3);
+  });
+});
+
+describe('suggestionQueries', () => {
+  it('should try the whole name, its long words and its first letters', () => {
+    expect(suggestionQueries('  Lightnig   Bolt ')).toEqual(['Lightnig Bolt', 'Lightnig', 'Bolt', 'Lig']);
+    expect(suggestionQueries('Opt')).toEqual(['Opt']);
+  });
+});
+
+describe('rankSuggestions', () => {
+  it('should order close names first and drop unrelated ones', () => {
+    expect(rankSuggestions('Lightnig Bolt', [
+      'Lightning Axe',
+      'Lightning Bolt',
+      'Lightning Helix',
+      'Lightning Bolt',
+      'Bolt Bend',
+      'Chain Lightning',
+    ])).toEqual(['Lightning Bolt', 'Lightning Axe', 'Lightning Helix']);
+  });
+
+  it('should match the front face of double-faced cards', () => {
+    expect(rankSuggestions('Delver of Secret', ['Delver of Secrets // Insectile Aberration']))
+      .toEqual(['Delver of Secrets // Insectile Aberration']);
+  });
+});
+
+describe('suggestCardNames', () => {
+  it('should rank autocomplete results and stop at a close match', async () => {
+    const autocomplete = jest.fn(async (query: string) =>
+      query === 'Lightnig' ? ['Lightning Bolt', 'Lightning Helix'] : []
+    );
+
+    await expect(suggestCardNames('Lightnig Bolt', autocomplete)).resolves.toEqual(['Lightning Bolt', 'Lightning Helix']);
+    expect(autocomplete.mock.calls.map(([query]) => query)).toEqual(['Lightnig Bolt', 'Lightnig']);
+  });
+
+  it('should skip failed autocomplete calls', async () => {
+    const autocomplete = jest.fn(async (query: string) => {
+      if (query === 'Counterspel') throw new Error('Service unavailable');
+      return query === 'Cou' ? ['Counterspell', 'Courser of Kruphix'] : [];
+    });
+
+    await expect(suggestCardNames('Counterspel', autocomplete)).resolves.toEqual(['Counterspell']);
+  });
+});
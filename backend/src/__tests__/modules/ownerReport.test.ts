@@ -0,0 +1,101 @@
+/**
+ * Owner Report Tests
+ *
+ * Tests for ownerReport.ts covering:
+ * - Grouping card rows by owner with totals, decks and lent copies
+ * - Owners without cards
+ * - CSV lines per card row
+ */
+
+import { buildOwnerReports, OwnerReportRow, toOwnerReportCsv } from '../../modules/owners/ownerReport';
+import { CardFinish, DeckBoard, Owner } from '../../types';
+
+function owner(id: string, name: string): Owner {
+  return {
+    id,
+    user_id: 'user-1',
+    name,
+    contact: null,
+    color: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+function row(overrides: Partial<OwnerReportRow> = {}): OwnerReportRow {
+  return {
+    owner_id: 'owner-1',
+    card_id: 'card-1',
+    scryfall_id: 'sf-1',
+    card_name: 'Lightning Bolt',
+    set_code: 'M11',
+    finish: CardFinish.NONFOIL,
+    quantity: 1,
+    collection_id: 'col-1',
+    collection_name: 'Binder',
+    deck_id: null,
+    deck_name: null,
+    board: DeckBoard.MAIN,
+    unit_price: 1.5,
+    unit_price_eur: 1.25,
+    lent_quantity: 0,
+    lent_to: null,
+    ...overrides,
+  };
+}
+
+describe('buildOwnerReports', () => {
+  it('should total each owner\'s cards, value, decks and lent copies', () => {
+    const [ana, joao] = buildOwnerReports(
+      [owner('owner-1', 'Ana'), owner('owner-2', 'João')],
+      [
+        row({ card_id: 'card-1', card_name: 'Sol Ring', quantity: 2, unit_price: 2.1, deck_id: 'deck-1', deck_name: 'Atraxa' }),
+        row({ card_id: 'card-2', card_name: 'Counterspell', quantity: 3, unit_price: null, unit_price_eur: null }),
+        row({ card_id: 'card-3', quantity: 1, deck_id: 'deck-1', deck_name: 'Atraxa', lent_quantity: 1, lent_to: 'Bia' }),
+        row({ owner_id: 'owner-2', card_id: 'card-4', quantity: 4, unit_price: 0.25 }),
+      ]
+    );
+
+    expect(ana.cards.map((card) => card.card_name)).toEqual(['Counterspell', 'Lightning Bolt', 'Sol Ring']);
+    expect(ana).toMatchObject({
+      card_count: 6,
+      total_value: 5.7,
+      total_value_eur: 3.75,
+      lent_count: 1,
+      decks: [{ deck_id: 'deck-1', deck_name: 'Atraxa', card_count: 3 }],
+    });
+    expect(ana.cards[0]).not.toHaveProperty('owner_id');
+    expect(joao).toMatchObject({ card_count: 4, total_value: 1, lent_count: 0, decks: [] });
+  });
+
+  it('should give owners without cards an empty report', () => {
+    const [report] = buildOwnerReports([owner('owner-3', 'Caio')], [row()]);
+
+    expect(report).toMatchObject({ card_count: 0, total_value: 0, total_value_eur: 0, cards: [] });
+  });
+});
+
+describe('toOwnerReportCsv', () => {
+  it('should write one line per card row with its deck, loan and values', () => {
+    const reports = buildOwnerReports([owner('owner-1', 'Ana')], [
+      row({
+        quantity: 2,
+        finish: CardFinish.FOIL,
+        deck_id: 'deck-1',
+        deck_name: 'Burn "Big"',
+        board: DeckBoard.SIDEBOARD,
+        lent_quantity: 1,
+        lent_to: 'Bia',
+      }),
+      row({ card_id: 'card-2', card_name: null, scryfall_id: 'sf-2', unit_price: null, unit_price_eur: null }),
+    ]);
+
+    expect(toOwnerReportCsv(reports).split('\n')).toEqual([
+      '"Owner","Quantity","Name","Edition","Foil","Collection","Deck","Board","Lent Quantity","Lent To",' +
+        '"Unit Price (USD)","Value (USD)","Value (EUR)"',
+      '"Ana","1","sf-2","m11","","Binder","","","","","","",""',
+      '"Ana","2","Lightning Bolt","m11","foil","Binder","Burn ""Big""","sideboard","1","Bia","1.50","3.00","2.50"',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Owners Service Tests
+ *
+ * Tests for owners.service.ts covering:
+ * - Owner name keys ignoring case, accents and spacing
+ * - Rejecting names that match an existing owner's key
+ * - Duplicate suggestions
+ * - Merging owners and deleting owners with cards
+ * - Owner reports naming cards per game
+ */
+
+import { OwnerWithStats, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardsWithFallback: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import ownersService, { ownerNameKey } from '../../modules/owners/owners.service';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+
+function owner(overrides: Partial<OwnerWithStats> = {}): OwnerWithStats {
+  return {
+    id: 'owner-1',
+    user_id: 'user-1',
+    name: 'João',
+    contact: null,
+    color: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    card_count: 0,
+    ...overrides,
+  };
+}
+
+describe('ownerNameKey', () => {
+  it('should ignore case, accents and spacing', () => {
+    expect(ownerNameKey('  João   Pedro ')).toBe('joao pedro');
+    expect(ownerNameKey('JOAO pedro')).toBe('joao pedro');
+  });
+});
+
+describe('OwnersService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createOwner', () => {
+    it('should store the normalized name and lower-case color', async () => {
+      const spy = mockQueries(pool, [], [owner({ name: 'Ana Clara', color: '#ff8800' })]);
+
+      await ownersService.createOwner('user-1', { name: ' Ana   Clara ', color: '#FF8800' });
+
+      expect(spy.mock.calls[1][1]).toEqual(['user-1', 'Ana Clara', null, '#ff8800']);
+    });
+
+    it('should reject a name matching an owner without accents', async () => {
+      const spy = mockQueries(pool, [{ id: 'owner-1', name: 'João' }]);
+
+      await expect(ownersService.createOwner('user-1', { name: 'joao' })).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Já existe um dono com esse nome (João)',
+      });
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getDuplicateSuggestions', () => {
+    it('should group spellings of one name, the owner with most cards first', async () => {
+      mockQueries(pool, [
+        owner({ id: 'owner-1', name: 'Ana', card_count: 4 }),
+        owner({ id: 'owner-2', name: 'Joao', card_count: 2 }),
+        owner({ id: 'owner-3', name: 'João', card_count: 9 }),
+        owner({ id: 'owner-4', name: 'joão ', card_count: 0 }),
+      ]);
+
+      const groups = await ownersService.getDuplicateSuggestions('user-1');
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].owners.map((o) => o.id)).toEqual(['owner-3', 'owner-2', 'owner-4']);
+      expect(groups[0].suggested_target_id).toBe('owner-3');
+    });
+  });
+
+  describe('mergeOwners', () => {
+    it('should move the cards to the target and delete the merged owners', async () => {
+      const spy = mockQueries(
+        pool,
+        [owner({ id: 'owner-3', card_count: 9 })],
+        [],
+        [{ id: 'owner-2' }, { id: 'owner-4' }],
+        [{ id: 'card-1' }, { id: 'card-2' }, { id: 'card-3' }],
+        [],
+        [],
+        [],
+        [],
+        [owner({ id: 'owner-3', card_count: 11 })]
+      );
+
+      const result = await ownersService.mergeOwners('owner-3', 'user-1', ['owner-2', 'owner-4', 'owner-2']);
+
+      expect(spy.mock.calls[3]).toEqual([
+        'UPDATE cards SET owner_id = $1 WHERE owner_id = ANY($2) RETURNING id', ['owner-3', ['owner-2', 'owner-4']],
+      ]);
+      expect(spy.mock.calls[6][1]).toEqual([['owner-2', 'owner-4']]);
+      expect(spy.mock.calls[7][0]).toBe('COMMIT');
+      expect(result).toMatchObject({ merged_owner_ids: ['owner-2', 'owner-4'], moved_cards: 3 });
+      expect(result.owner.card_count).toBe(11);
+    });
+
+    it('should merge moved cards into the target\'s identical rows', async () => {
+      const spy = mockQueries(
+        pool,
+        [owner({ id: 'owner-3' })],
+        [],
+        [{ id: 'owner-2' }],
+        [{ id: 'card-2' }],
+        [{ scryfall_id: 'sf-1', ids: ['card-1', 'card-2'], quantity: 3 }],
+        [],
+        [],
+        [],
+        [],
+        [],
+        [],
+        [owner({ id: 'owner-3' })]
+      );
+
+      await ownersService.mergeOwners('owner-3', 'user-1', ['owner-2']);
+
+      expect(spy.mock.calls[4][0]).toContain('GROUP BY collection_id, scryfall_id');
+      expect(spy.mock.calls[4][1]).toEqual(['owner-3', ['card-2']]);
+      expect(spy.mock.calls[5][1]).toEqual(['card-1', 3]);
+      expect(spy.mock.calls[6][1]).toEqual(['card-1', ['card-2']]);
+      expect(spy.mock.calls[7]).toEqual(['DELETE FROM cards WHERE id = ANY($1)', [['card-2']]]);
+      expect(spy.mock.calls[10][0]).toBe('COMMIT');
+    });
+
+    it('should point import jobs still to run at the target owner', async () => {
+      const spy = mockQueries(
+        pool,
+        [owner({ id: 'owner-3' })],
+        [],
+        [{ id: 'owner-2' }],
+        [],
+        [],
+        [],
+        [],
+        [],
+        [owner({ id: 'owner-3' })]
+      );
+
+      await ownersService.mergeOwners('owner-3', 'user-1', ['owner-2']);
+
+      expect(spy.mock.calls[5][0]).toContain("jsonb_set(input, '{owner_id}', to_jsonb($1::text))");
+      expect(spy.mock.calls[5][0]).toContain("status IN ('pending', 'running')");
+      expect(spy.mock.calls[5][1]).toEqual(['owner-3', 'user-1', ['owner-2']]);
+      expect(spy.mock.calls[6][0]).toBe('DELETE FROM owners WHERE id = ANY($1)');
+    });
+
+    it('should roll back when a merged owner is not the user\'s', async () => {
+      const spy = mockQueries(pool, [owner({ id: 'owner-3' })], [], [{ id: 'owner-2' }], []);
+
+      await expect(
+        ownersService.mergeOwners('owner-3', 'user-1', ['owner-2', 'owner-9'])
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(spy.mock.calls[3][0]).toBe('ROLLBACK');
+    });
+
+    it('should reject merging an owner into itself', async () => {
+      await expect(
+        ownersService.mergeOwners('owner-3', 'user-1', ['owner-3'])
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('getOwnerReport', () => {
+    it('should report one owner, naming cards of every game', async () => {
+      const spy = mockQueries(
+        pool,
+        [owner({ id: 'owner-1', card_count: 3 })],
+        [
+          { card_id: 'card-1', owner_id: 'owner-1', scryfall_id: 'sf-1', tcg_type: TcgType.MAGIC, quantity: 2, unit_price: 1, unit_price_eur: 1, lent_quantity: 0 },
+          { card_id: 'card-2', owner_id: 'owner-1', scryfall_id: 'pk-1', tcg_type: TcgType.POKEMON, quantity: 1, unit_price: 3, unit_price_eur: 2, lent_quantity: 1 },
+        ]
+      );
+      (getCardsWithFallback as jest.Mock).mockResolvedValueOnce(new Map([
+        ['sf-1', { name: 'Sol Ring' }],
+        ['pk-1', { name: 'Pikachu' }],
+      ]));
+
+      const [report] = await ownersService.getOwnerReport('user-1', 'owner-1');
+
+      expect(spy.mock.calls[1][0]).toContain('AND ca.owner_id = $3');
+      expect(spy.mock.calls[1][1]).toEqual(['user-1', 'lent', 'owner-1']);
+      expect(getCardsWithFallback).toHaveBeenCalledWith([
+        expect.objectContaining({ scryfall_id: 'sf-1', tcg_type: TcgType.MAGIC }),
+        expect.objectContaining({ scryfall_id: 'pk-1', tcg_type: TcgType.POKEMON }),
+      ]);
+      expect(report.cards.map((card) => card.card_name)).toEqual(['Pikachu', 'Sol Ring']);
+      expect(report.cards[0]).not.toHaveProperty('tcg_type');
+      expect(report).toMatchObject({ card_count: 3, total_value: 5, lent_count: 1 });
+    });
+  });
+
+  describe('deleteOwner', () => {
+    it('should throw 409 for an owner with cards', async () => {
+      const spy = mockQueries(pool, [owner({ card_count: 2 })]);
+
+      await expect(ownersService.deleteOwner('owner-1', 'user-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Pokémon TCG Service Tests
+ *
+ * Tests for pokemonTcg.service.ts against a local fixture server standing in
+ * for https://api.pokemontcg.io/v2:
+ * - Conversion to the app's card shape (images, prices, type line)
+ * - Search (one result per card name), autocomplete and printings
+ * - Expired search results dropped from memory
+ * - Lookups by ID and name, single and batched (reading every page)
+ * - Provider selection by collection TCG type
+ */
+
+import { startStubServer, StubServer, RecordedRequest } from '../helpers/stubServer';
+import { pokemonTcgCards, charizardBase, charizardEvolutions, charmander, professorsResearch } from '../fixtures/pokemonTcg';
+import { AppError, PokemonTcgCard, TcgType } from '../../types';
+
+// Mock the database module - imported through the Scryfall provider
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import { PokemonTcgService, toCardData } from '../../modules/cards/pokemonTcg.service';
+import { RequestScheduler } from '../../modules/cards/requestScheduler';
+import { getCardDataProvider } from '../../modules/cards/cardDataProvider';
+
+/**
+ * Evaluate the subset of the API query syntax the service sends:
+ * `name:"prefix*"`, `!name:"exact"` and `id:"x"` terms joined with OR
+ */
+function matches(card: PokemonTcgCard, q: string): boolean {
+  return q.split(' OR ').some((term) => {
+    const [, exact, field, value] = term.match(/^(!?)(\w+):"(.*)"$/) ?? [];
+    if (field === 'id') return card.id === value;
+    if (field !== 'name') return false;
+    const name = card.name.toLowerCase();
+    if (exact) return name === value.toLowerCase();
+    return value.endsWith('*') ? name.startsWith(value.slice(0, -1).toLowerCase()) : name.includes(value.toLowerCase());
+  });
+}
+
+/**
+ * Serve the given cards, paging query results like the API
+ */
+function cardsHandler(cards: PokemonTcgCard[]) {
+  return (request: RecordedRequest) => {
+    const url = new URL(request.path, 'http://fixture');
+
+    if (url.pathname === '/cards') {
+      const q = url.searchParams.get('q') ?? '';
+      const page = Number(url.searchParams.get('page') ?? 1);
+      const pageSize = Number(url.searchParams.get('pageSize') ?? 250);
+      const matching = cards.filter((card) => matches(card, q));
+      const data = matching.slice((page - 1) * pageSize, page * pageSize);
+      return { body: { data, page, pageSize, count: data.length, totalCount: matching.length } };
+    }
+
+    const card = cards.find((c) => url.pathname === `/cards/${c.id}`);
+    return card ? { body: { data: card } } : { status: 404, body: { error: { message: 'Not Found', code: 404 } } };
+  };
+}
+
+const fixtureHandler = cardsHandler(pokemonTcgCards);
+
+describe('PokemonTcgService', () => {
+  let stub: StubServer;
+  let service: PokemonTcgService;
+
+  beforeEach(async () => {
+    stub = await startStubServer(fixtureHandler);
+    service = new PokemonTcgService(stub.url, 'test-key', new RequestScheduler({ minIntervalMs: 0 }));
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  const queries = () => stub.requests.map((r) => new URL(r.path, 'http://fixture').searchParams.get('q'));
+
+  describe('toCardData', () => {
+    it('should map a Pokémon card to the app card shape', () => {
+      const card = toCardData(charizardBase);
+
+      expect(card).toMatchObject({
+        id: 'base1-4',
+        name: 'Charizard',
+        type_line: 'Pokémon — Stage 2',
+        set: 'base1',
+        set_name: 'Base',
+        collector_number: '4',
+        rarity: 'Rare Holo',
+        image_uris: { small: charizardBase.images!.small, normal: charizardBase.images!.large },
+        prices: { usd: '359.99', usd_foil: null, eur: '310.50' },
+      });
+      expect(card.oracle_text).toContain('Fire Spin — 100');
+    });
+
+    it('should treat the reverse holo as the foil price', () => {
+      expect(toCardData(charizardEvolutions).prices).toMatchObject({ usd: '12.50', usd_foil: '18.25' });
+    });
+
+    it('should keep trainer rules text and tolerate missing prices', () => {
+      const card = toCardData(professorsResearch);
+
+      expect(card.oracle_text).toBe('Discard your hand and draw 7 cards.');
+      expect(card.prices).toEqual({ usd: null, usd_foil: null, eur: null, eur_foil: null });
+    });
+  });
+
+  describe('searchCards', () => {
+    it('should return one result per card name', async () => {
+      const result = await service.searchCards('char');
+
+      expect(result.data.map((card) => card.name)).toEqual(['Charizard', 'Charmander']);
+      // The newest printing represents the card
+      expect(result.data[0].id).toBe('xy12-11');
+      expect(queries()).toEqual(['name:"char*"']);
+    });
+
+    it('should send the API key header', async () => {
+      let apiKey: string | undefined;
+      const original = global.fetch;
+      jest.spyOn(global, 'fetch').mockImplementation((input, init) => {
+        apiKey = (init?.headers as Record<string, string>)?.['X-Api-Key'];
+        return original(input, init);
+      });
+
+      await service.searchCards('char');
+      jest.restoreAllMocks();
+
+      expect(apiKey).toBe('test-key');
+    });
+  });
+
+  describe('autocomplete', () => {
+    it('should return distinct names', async () => {
+      const result = await service.autocomplete('Char');
+
+      expect(result.data).toEqual(['Charizard', 'Charmander']);
+    });
+
+    it('should drop expired results when caching a new one', async () => {
+      let failing = false;
+      await stub.close();
+      stub = await startStubServer((request) => (failing ? { status: 400, body: {} } : fixtureHandler(request)));
+      service = new PokemonTcgService(stub.url, 'test-key', new RequestScheduler({ minIntervalMs: 0 }));
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await service.autocomplete('Char');
+      clock.mockReturnValue(now + 25 * 60 * 60 * 1000);
+      await service.autocomplete('Prof');
+
+      // The expired result is gone, so there is nothing to fall back on
+      failing = true;
+      await expect(service.autocomplete('Char')).rejects.toBeInstanceOf(AppError);
+      clock.mockRestore();
+    });
+  });
+
+  describe('getPrintings', () => {
+    it('should return every printing of the exact name', async () => {
+      const printings = await service.getPrintings('Charizard');
+
+      expect(printings.map((card) => card.id)).toEqual(['xy12-11', 'base1-4']);
+      expect(queries()).toEqual(['!name:"Charizard"']);
+    });
+  });
+
+  describe('getCardById', () => {
+    it('should fetch a card by ID', async () => {
+      const card = await service.getCardById('base1-4');
+
+      expect(card.name).toBe('Charizard');
+      expect(stub.requests[0].path).toBe('/cards/base1-4');
+    });
+
+    it('should serve repeated lookups from the cache', async () => {
+      await service.getCardById('base1-4');
+      await service.getCardById('base1-4');
+
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should throw a 404 AppError for unknown IDs', async () => {
+      const error = await service.getCardById('nope-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe('getCardsByIds', () => {
+    it('should fetch all IDs in one OR query', async () => {
+      const result = await service.getCardsByIds(['base1-4', 'base1-46', 'base1-4', 'nope-1']);
+
+      expect(Array.from(result.keys()).sort()).toEqual(['base1-4', 'base1-46']);
+      expect(queries()).toEqual(['id:"base1-4" OR id:"base1-46" OR id:"nope-1"']);
+    });
+
+    it('should split large lookups into batches of 50', async () => {
+      await service.getCardsByIds(Array.from({ length: 120 }, (_, i) => `set-${i}`));
+
+      expect(queries().map((q) => q!.split(' OR ').length)).toEqual([50, 50, 20]);
+    });
+  });
+
+  describe('getCardsByNames', () => {
+    it('should key results by lowercased requested name, newest printing first', async () => {
+      const result = await service.getCardsByNames(['charizard', "Professor's Research", 'Unknown']);
+
+      expect(result.get('charizard')?.id).toBe('xy12-11');
+      expect(result.get("professor's research")?.id).toBe('swsh1-178');
+      expect(result.has('unknown')).toBe(false);
+    });
+
+    it('should read every page of a batch whose results span two pages', async () => {
+      const printings = Array.from({ length: 250 }, (_, i) => ({ ...charizardEvolutions, id: `xy12-${i + 100}` }));
+      await stub.close();
+      stub = await startStubServer(cardsHandler([...printings, charmander]));
+      service = new PokemonTcgService(stub.url, 'test-key', new RequestScheduler({ minIntervalMs: 0 }));
+
+      const cards = await service.getCardsByNames(['Charizard', 'Charmander']);
+
+      expect(cards.get('charizard')?.id).toBe('xy12-100');
+      expect(cards.get('charmander')?.id).toBe('base1-46');
+      expect(stub.requests.map((r) => new URL(r.path, 'http://fixture').searchParams.get('page'))).toEqual(['1', '2']);
+    });
+
+    it('should throw a 404 AppError from getCardByName for unknown names', async () => {
+      await expect(service.getCardByName('Unknown')).rejects.toThrow(AppError);
+    });
+  });
+});
+
+describe('getCardDataProvider', () => {
+  it('should pick the provider from the TCG type', () => {
+    expect(getCardDataProvider(TcgType.MAGIC).tcgType).toBe(TcgType.MAGIC);
+    expect(getCardDataProvider(TcgType.POKEMON).tcgType).toBe(TcgType.POKEMON);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Prices Service Tests
+ *
+ * Tests for prices.service.ts and priceSnapshot.job.ts covering:
+ * - Snapshots grouped by TCG provider, with failures counted per batch
+ * - Price history parsing and the finish-correct price
+ * - Collection value series by day/week/month
+ * - Top gainers and losers
+ * - Snapshot runs never overlapping
+ */
+
+import { AppError, CardFinish, ScryfallCard, TcgType } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Providers are replaced per test through refreshCards / getCardsByIds
+const refreshCards = new Map<TcgType, jest.Mock>();
+const getCardsByIds = jest.fn();
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardDataProvider: (tcgType: TcgType) => ({ refreshCards: refreshCards.get(tcgType), getCardsByIds }),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import pricesService from '../../modules/prices/prices.service';
+import { PriceSnapshotJob } from '../../modules/prices/priceSnapshot.job';
+
+function card(id: string, prices: ScryfallCard['prices']): ScryfallCard {
+  return { id, name: id, set: 'tst', set_name: 'Test Set', rarity: 'rare', prices };
+}
+
+describe('PricesService', () => {
+  beforeEach(() => {
+    refreshCards.clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('snapshotPrices', () => {
+    it('should refresh each TCG through its provider and record the prices', async () => {
+      refreshCards.set(TcgType.MAGIC, jest.fn().mockResolvedValue(new Map([
+        ['bolt', card('bolt', { usd: '0.50', usd_foil: '2.10', eur: '0.40' })],
+      ])));
+      refreshCards.set(TcgType.POKEMON, jest.fn().mockResolvedValue(new Map([
+        ['base1-4', card('base1-4', { usd: '359.99' })],
+      ])));
+      const spy = mockQueries(
+        pool,
+        [
+          { scryfall_id: 'bolt', tcg_type: TcgType.MAGIC },
+          { scryfall_id: 'gone', tcg_type: TcgType.MAGIC },
+          { scryfall_id: 'base1-4', tcg_type: TcgType.POKEMON },
+        ],
+        [],
+        []
+      );
+
+      const result = await pricesService.snapshotPrices();
+
+      expect(result).toEqual({ cards: 3, recorded: 2, failed: 1 });
+      expect(refreshCards.get(TcgType.MAGIC)).toHaveBeenCalledWith(['bolt', 'gone']);
+      expect(refreshCards.get(TcgType.POKEMON)).toHaveBeenCalledWith(['base1-4']);
+
+      const [sql, params] = spy.mock.calls[1] as unknown as [string, string[]];
+      expect(sql).toContain('INSERT INTO card_price_history');
+      expect(sql).toContain('UPDATE cards');
+      expect(JSON.parse(params[0])).toEqual([{
+        scryfall_id: 'bolt',
+        price_usd: 0.5,
+        price_usd_foil: 2.1,
+        price_usd_etched: null,
+        price_eur: 0.4,
+        price_eur_foil: null,
+      }]);
+    });
+
+    it('should count a failing provider as failed and keep going', async () => {
+      refreshCards.set(TcgType.MAGIC, jest.fn().mockRejectedValue(new AppError('Scryfall indisponível', 503)));
+      refreshCards.set(TcgType.POKEMON, jest.fn().mockResolvedValue(new Map([
+        ['base1-4', card('base1-4', { usd: '359.99' })],
+      ])));
+      mockQueries(
+        pool,
+        [
+          { scryfall_id: 'bolt', tcg_type: TcgType.MAGIC },
+          { scryfall_id: 'base1-4', tcg_type: TcgType.POKEMON },
+        ],
+        []
+      );
+
+      const result = await pricesService.snapshotPrices();
+
+      expect(result).toEqual({ cards: 2, recorded: 1, failed: 1 });
+    });
+  });
+
+  describe('getCardPriceHistory', () => {
+    it('should parse stored prices and pick the price for the card finish', async () => {
+      mockQueries(
+        pool,
+        [{ scryfall_id: 'bolt', finish: CardFinish.FOIL }],
+        [
+          { date: '2024-01-01', price_usd: '0.50', price_usd_foil: '2.10', price_usd_etched: null, price_eur: '0.40', price_eur_foil: null },
+          { date: '2024-01-02', price_usd: '0.55', price_usd_foil: null, price_usd_etched: null, price_eur: '0.45', price_eur_foil: null },
+        ]
+      );
+
+      const history = await pricesService.getCardPriceHistory('card-1', 'user-1', 30);
+
+      expect(history[0]).toEqual({
+        date: '2024-01-01',
+        price_usd: 0.5,
+        price_usd_foil: 2.1,
+        price_usd_etched: null,
+        price_eur: 0.4,
+        price_eur_foil: null,
+        price: 2.1,
+      });
+      // No foil price that day: the foil copy is unpriced, not valued as non-foil
+      expect(history[1].price).toBeNull();
+    });
+
+    it('should throw a 404 AppError for cards of other users', async () => {
+      mockQueries(pool, []);
+
+      const error = await pricesService.getCardPriceHistory('card-1', 'user-2', 30).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe('getCollectionValueHistory', () => {
+    it('should return numeric daily totals', async () => {
+      mockQueries(
+        pool,
+        [{ id: 'col-1', user_id: 'user-1' }],
+        [
+          { date: '2024-01-01', total_value: '412.37', card_count: '150' },
+          { date: '2024-01-02', total_value: '418.02', card_count: '151' },
+        ]
+      );
+
+      const history = await pricesService.getCollectionValueHistory('col-1', 'user-1', 30);
+
+      expect(history).toEqual([
+        { date: '2024-01-01', total_value: 412.37, card_count: 150 },
+        { date: '2024-01-02', total_value: 418.02, card_count: 151 },
+      ]);
+    });
+
+    it('should bucket the series by the requested interval', async () => {
+      const spy = mockQueries(pool, [{ id: 'col-1', user_id: 'user-1' }], []);
+
+      await pricesService.getCollectionValueHistory('col-1', 'user-1', 365, 'month');
+
+      const [sql, params] = spy.mock.calls[1] as unknown as [string, unknown[]];
+      expect(sql).toContain('DISTINCT ON (date_trunc($3, recorded_on))');
+      expect(params).toEqual(['col-1', 365, 'month']);
+    });
+  });
+
+  describe('getCollectionMovers', () => {
+    const moverRow = (direction: string, cardId: string, scryfallId: string, start: string, end: string, pct: string | null) => ({
+      direction,
+      card_id: cardId,
+      scryfall_id: scryfallId,
+      set_code: 'tst',
+      finish: CardFinish.NONFOIL,
+      quantity: 2,
+      start_price: start,
+      end_price: end,
+      change: (parseFloat(end) - parseFloat(start)).toFixed(2),
+      change_pct: pct,
+      value_change: ((parseFloat(end) - parseFloat(start)) * 2).toFixed(2),
+    });
+
+    it('should split gainers and losers and name them through the provider', async () => {
+      getCardsByIds.mockResolvedValue(new Map([
+        ['bolt', card('Lightning Bolt', {})],
+        ['ring', card('The One Ring', {})],
+      ]));
+      mockQueries(
+        pool,
+        [{ id: 'col-1', user_id: 'user-1', tcg_type: TcgType.MAGIC }],
+        [
+          moverRow('gainer', 'card-1', 'ring', '50.00', '62.50', '25.00'),
+          moverRow('loser', 'card-2', 'bolt', '2.00', '1.50', '-25.00'),
+        ]
+      );
+
+      const movers = await pricesService.getCollectionMovers('col-1', 'user-1', 30);
+
+      expect(movers.gainers).toEqual([{
+        card_id: 'card-1',
+        scryfall_id: 'ring',
+        name: 'The One Ring',
+        set_code: 'tst',
+        finish: CardFinish.NONFOIL,
+        quantity: 2,
+        start_price: 50,
+        end_price: 62.5,
+        change: 12.5,
+        change_pct: 25,
+        value_change: 25,
+      }]);
+      expect(movers.losers.map((mover) => [mover.name, mover.value_change])).toEqual([['Lightning Bolt', -1]]);
+      expect(getCardsByIds).toHaveBeenCalledWith(['ring', 'bolt']);
+    });
+
+    it('should rank by percent change when asked', async () => {
+      getCardsByIds.mockResolvedValue(new Map());
+      const spy = mockQueries(pool, [{ id: 'col-1', user_id: 'user-1', tcg_type: TcgType.MAGIC }], []);
+
+      const movers = await pricesService.getCollectionMovers('col-1', 'user-1', 7, 'percent', 5);
+
+      const [sql, params] = spy.mock.calls[1] as unknown as [string, unknown[]];
+      expect(sql).toContain('ORDER BY change_pct DESC');
+      expect(sql).not.toContain('ORDER BY value_change');
+      expect(params).toEqual(['col-1', 7, 5]);
+      expect(movers).toEqual({ days: 7, sort: 'percent', gainers: [], losers: [] });
+    });
+
+    it('should still return movers without names when the provider fails', async () => {
+      getCardsByIds.mockRejectedValue(new Error('offline'));
+      mockQueries(
+        pool,
+        [{ id: 'col-1', user_id: 'user-1', tcg_type: TcgType.MAGIC }],
+        [moverRow('gainer', 'card-1', 'ring', '50.00', '62.50', '25.00')]
+      );
+
+      const movers = await pricesService.getCollectionMovers('col-1', 'user-1', 30);
+
+      expect(movers.gainers[0].name).toBeNull();
+    });
+  });
+});
+
+describe('PriceSnapshotJob', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should join a snapshot already in progress instead of starting another', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const snapshot = jest.spyOn(pricesService, 'snapshotPrices').mockResolvedValue({ cards: 1, recorded: 1, failed: 0 });
+    const job = new PriceSnapshotJob();
+
+    const [first, second] = await Promise.all([job.run(), job.run()]);
+
+    expect(first).toBe(second);
+    expect(snapshot).toHaveBeenCalledTimes(1);
+
+    await job.run();
+    expect(snapshot).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Request Scheduler Tests
+ *
+ * Tests for requestScheduler.ts against a local stub server:
+ * - Minimum interval between requests
+ * - Retrying 429 / 503 with backoff and Retry-After
+ * - Circuit breaker (fail fast, a single trial request, recovery)
+ * - Stale results served by ScryfallService while the circuit is open
+ */
+
+import { startStubServer, StubServer, StubHandler } from '../helpers/stubServer';
+import { AppError } from '../../types';
+
+// Mock the database module - the card store starts empty for every test
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import {
+  RequestScheduler,
+  RequestSchedulerOptions,
+  CircuitOpenError,
+  parseRetryAfter,
+} from '../../modules/cards/requestScheduler';
+import { ScryfallService } from '../../modules/cards/scryfall.service';
+
+describe('RequestScheduler', () => {
+  let stub: StubServer;
+  let sleeps: number[];
+
+  async function setup(handler: StubHandler, options: Partial<RequestSchedulerOptions> = {}) {
+    stub = await startStubServer(handler);
+    sleeps = [];
+    return new RequestScheduler({
+      minIntervalMs: 0,
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      ...options,
+    });
+  }
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  describe('spacing', () => {
+    it('should wait the minimum interval between requests', async () => {
+      const started: number[] = [];
+      jest.spyOn(global, 'fetch').mockImplementation(async () => {
+        started.push(Date.now());
+        return new Response('{}');
+      });
+      const scheduler = new RequestScheduler({ minIntervalMs: 50 });
+
+      await Promise.all([1, 2, 3].map(() => scheduler.schedule('http://scryfall.test/x')));
+      jest.restoreAllMocks();
+
+      expect(started).toHaveLength(3);
+      // Timers may fire a millisecond early
+      expect(started[1] - started[0]).toBeGreaterThanOrEqual(49);
+      expect(started[2] - started[1]).toBeGreaterThanOrEqual(49);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry 429 and 503 until the request succeeds', async () => {
+      const statuses = [429, 503, 200];
+      const scheduler = await setup(() => ({ status: statuses.shift(), body: { ok: true } }));
+
+      const response = await scheduler.schedule(`${stub.url}/x`);
+
+      expect(response.status).toBe(200);
+      expect(stub.requests).toHaveLength(3);
+      expect(scheduler.getStats()).toMatchObject({ requests: 3, retries: 2, rateLimited: 1 });
+    });
+
+    it('should keep backoff delays within the exponential step', async () => {
+      const scheduler = await setup(() => ({ status: 503 }), { maxRetries: 3 });
+
+      await scheduler.schedule(`${stub.url}/x`);
+
+      expect(sleeps).toHaveLength(3);
+      sleeps.forEach((delay, attempt) => {
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(100 * 2 ** attempt);
+      });
+    });
+
+    it('should wait for Retry-After when the API sends it', async () => {
+      let calls = 0;
+      const scheduler = await setup(() =>
+        calls++ === 0 ? { status: 429, headers: { 'Retry-After': '2' } } : { body: {} }
+      );
+
+      await scheduler.schedule(`${stub.url}/x`);
+
+      expect(sleeps).toEqual([2000]);
+    });
+
+    it('should give up when Retry-After is longer than maxDelayMs', async () => {
+      const scheduler = await setup(() => ({ status: 429, headers: { 'Retry-After': '120' } }));
+
+      const response = await scheduler.schedule(`${stub.url}/x`);
+
+      expect(response.status).toBe(429);
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should return the last response once retries run out', async () => {
+      const scheduler = await setup(() => ({ status: 503 }), { maxRetries: 2 });
+
+      const response = await scheduler.schedule(`${stub.url}/x`);
+
+      expect(response.status).toBe(503);
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should not retry other errors', async () => {
+      const scheduler = await setup(() => ({ status: 500 }));
+
+      const response = await scheduler.schedule(`${stub.url}/x`);
+
+      expect(response.status).toBe(500);
+      expect(stub.requests).toHaveLength(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should open after consecutive failures and fail fast', async () => {
+      const scheduler = await setup(() => ({ status: 500 }), { failureThreshold: 3 });
+
+      for (let i = 0; i < 3; i++) {
+        await scheduler.schedule(`${stub.url}/x`);
+      }
+
+      expect(scheduler.getCircuitState()).toBe('open');
+      await expect(scheduler.schedule(`${stub.url}/x`)).rejects.toThrow(CircuitOpenError);
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should not count client errors as failures', async () => {
+      const scheduler = await setup(() => ({ status: 404 }), { failureThreshold: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        await scheduler.schedule(`${stub.url}/x`);
+      }
+
+      expect(scheduler.getCircuitState()).toBe('closed');
+    });
+
+    it('should close again after a successful trial request', async () => {
+      let healthy = false;
+      const scheduler = await setup(() => ({ status: healthy ? 200 : 500, body: {} }), {
+        failureThreshold: 1,
+        resetTimeoutMs: 20,
+      });
+
+      await scheduler.schedule(`${stub.url}/x`);
+      expect(scheduler.getCircuitState()).toBe('open');
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(scheduler.getCircuitState()).toBe('half-open');
+
+      healthy = true;
+      await scheduler.schedule(`${stub.url}/x`);
+      expect(scheduler.getCircuitState()).toBe('closed');
+    });
+
+    it('should re-open when the trial request fails', async () => {
+      const scheduler = await setup(() => ({ status: 500 }), {
+        failureThreshold: 1,
+        resetTimeoutMs: 20,
+      });
+
+      await scheduler.schedule(`${stub.url}/x`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await scheduler.schedule(`${stub.url}/x`);
+
+      expect(scheduler.getCircuitState()).toBe('open');
+    });
+
+    it('should fail fast while the trial request is in flight', async () => {
+      let release = () => {};
+      const held = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      let healthy = false;
+      const scheduler = await setup(async () => {
+        if (!healthy) return { status: 500 };
+        await held;
+        return { status: 200, body: {} };
+      }, { failureThreshold: 1, resetTimeoutMs: 20 });
+
+      await scheduler.schedule(`${stub.url}/x`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      healthy = true;
+
+      const trial = scheduler.schedule(`${stub.url}/x`);
+      while (stub.requests.length < 2) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      expect(scheduler.getCircuitState()).toBe('half-open');
+      expect(scheduler.isOpen()).toBe(true);
+      await expect(scheduler.schedule(`${stub.url}/x`)).rejects.toThrow(CircuitOpenError);
+
+      release();
+      await trial;
+      expect(scheduler.getCircuitState()).toBe('closed');
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should hold requests queued behind the trial until it settles', async () => {
+      const scheduler = await setup(() => ({ status: 500 }), {
+        failureThreshold: 1,
+        resetTimeoutMs: 20,
+      });
+
+      await scheduler.schedule(`${stub.url}/x`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      const [trial, queued] = await Promise.allSettled([
+        scheduler.schedule(`${stub.url}/x`),
+        scheduler.schedule(`${stub.url}/x`),
+      ]);
+
+      expect(trial.status).toBe('fulfilled');
+      expect(queued).toMatchObject({ status: 'rejected', reason: expect.any(CircuitOpenError) });
+      expect(stub.requests).toHaveLength(2);
+      expect(scheduler.getCircuitState()).toBe('open');
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter(null, now)).toBeNull();
+      expect(parseRetryAfter('soon', now)).toBeNull();
+    });
+  });
+
+  describe('ScryfallService while the circuit is open', () => {
+    it('should serve an expired search result instead of failing', async () => {
+      let healthy = true;
+      const scheduler = await setup(() =>
+        healthy
+          ? { body: { object: 'list', total_cards: 0, has_more: false, data: [] } }
+          : { status: 500 },
+        { failureThreshold: 1 }
+      );
+      const service = new ScryfallService(stub.url, false, scheduler);
+      const first = await service.searchCards('bolt');
+
+      // Expire the cached entry, then take Scryfall down
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 48 * 60 * 60 * 1000);
+      healthy = false;
+      const second = await service.searchCards('bolt');
+      jest.restoreAllMocks();
+
+      expect(second).toEqual(first);
+      expect(service.getSchedulerStats()).toMatchObject({ staleServed: 1, circuit: 'open' });
+    });
+
+    it('should answer 503 when nothing stale is available', async () => {
+      const scheduler = await setup(() => ({ status: 500 }), { failureThreshold: 1 });
+      const service = new ScryfallService(stub.url, false, scheduler);
+      await service.getCardsByIds(['a']).catch(() => undefined);
+
+      const error = await service.getCardsByIds(['b']).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+    });
+  });
+});
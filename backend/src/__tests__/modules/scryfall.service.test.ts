@@ -0,0 +1,268 @@
+/**
+ * Scryfall Service Tests
+ *
+ * Tests for scryfall.service.ts lookups against a local stub server
+ * standing in for the Scryfall API:
+ * - getCardById read-through the scryfall_cards table (hit, miss and
+ *   upsert, stale hit refreshed in the background)
+ * - getCardsByIds (de-duplication, 75-identifier batches, not_found handling)
+ * - getCardsByNames (case-insensitive and double-faced name matching)
+ * - getCardsByPrintings (set code and collector number)
+ * - Expired search results dropped from memory
+ */
+
+import { startStubServer, StubServer, RecordedRequest } from '../helpers/stubServer';
+import { AppError, ScryfallCard } from '../../types';
+
+// Mock the database module - the card store starts empty for every test
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import { ScryfallService } from '../../modules/cards/scryfall.service';
+
+function makeCard(id: string, name = `Card ${id}`): ScryfallCard {
+  return { id, name, set: 'tst', set_name: 'Test Set', rarity: 'common' };
+}
+
+/**
+ * Wait until a condition holds (for work the service runs in the background)
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Stub for POST /cards/collection, GET /cards/autocomplete and
+ * GET /cards/:id - ids starting with "missing" are not found
+ */
+function collectionHandler(request: RecordedRequest) {
+  if (request.method === 'GET' && request.path.startsWith('/cards/autocomplete')) {
+    return { body: { object: 'catalog', total_values: 1, data: ['Lightning Bolt'] } };
+  }
+
+  if (request.method === 'GET' && request.path.startsWith('/cards/')) {
+    const id = request.path.slice('/cards/'.length);
+    return id.startsWith('missing') ? { status: 404, body: { object: 'error' } } : { body: makeCard(id) };
+  }
+
+  if (request.method !== 'POST' || request.path !== '/cards/collection') {
+    return { status: 404, body: { object: 'error' } };
+  }
+
+  const identifiers: { id?: string; name?: string; set?: string; collector_number?: string }[] =
+    request.body.identifiers;
+  const data: ScryfallCard[] = [];
+  const notFound: typeof identifiers = [];
+
+  for (const identifier of identifiers) {
+    if (identifier.id) {
+      if (identifier.id.startsWith('missing')) notFound.push(identifier);
+      else data.push(makeCard(identifier.id));
+    } else if (identifier.set === 'm11' && identifier.collector_number === '146') {
+      data.push({ ...makeCard('bolt-m11', 'Lightning Bolt'), set: 'm11', collector_number: '146' });
+    } else if (identifier.name?.toLowerCase() === 'delver of secrets') {
+      data.push({
+        ...makeCard('delver', 'Delver of Secrets // Insectile Aberration'),
+        card_faces: [{ name: 'Delver of Secrets' }, { name: 'Insectile Aberration' }],
+      });
+    } else if (identifier.name?.toLowerCase() === 'lightning bolt') {
+      data.push(makeCard('bolt', 'Lightning Bolt'));
+    } else {
+      notFound.push(identifier);
+    }
+  }
+
+  return { body: { object: 'list', not_found: notFound, data } };
+}
+
+describe('ScryfallService', () => {
+  let stub: StubServer;
+  let service: ScryfallService;
+
+  beforeEach(async () => {
+    stub = await startStubServer(collectionHandler);
+    service = new ScryfallService(stub.url);
+  });
+
+  afterEach(async () => {
+    await stub.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('getCardById', () => {
+    it('should serve a fresh stored card without calling the API', async () => {
+      mockQueries(pool, [{ id: 'a', data: makeCard('a', 'Stored card'), fetched_at: new Date() }]);
+
+      const card = await service.getCardById('a');
+
+      expect(card.name).toBe('Stored card');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should fetch a card that is not stored and upsert it', async () => {
+      const spy = mockQueries(pool, [], []);
+
+      const card = await service.getCardById('a');
+
+      expect(card.name).toBe('Card a');
+      expect(stub.requests.map((r) => r.path)).toEqual(['/cards/a']);
+      expect(spy.mock.calls[1][0]).toContain('INSERT INTO scryfall_cards');
+      expect(JSON.parse((spy.mock.calls[1][1] as string[])[0])).toEqual([makeCard('a')]);
+    });
+
+    it('should serve a stale stored card and refresh it in the background', async () => {
+      const fetchedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      const spy = mockQueries(pool, [{ id: 'a', data: makeCard('a', 'Stale card'), fetched_at: fetchedAt }], []);
+
+      const card = await service.getCardById('a');
+
+      expect(card.name).toBe('Stale card');
+      expect(stub.requests).toHaveLength(0);
+
+      await waitFor(() => spy.mock.calls.length === 2);
+
+      expect(stub.requests[0].body.identifiers).toEqual([{ id: 'a' }]);
+      expect(spy.mock.calls[1][0]).toContain('INSERT INTO scryfall_cards');
+      expect(JSON.parse((spy.mock.calls[1][1] as string[])[0])).toEqual([makeCard('a')]);
+    });
+  });
+
+  describe('getCardsByIds', () => {
+    it('should return a map keyed by Scryfall ID', async () => {
+      const result = await service.getCardsByIds(['a', 'b']);
+
+      expect(result.size).toBe(2);
+      expect(result.get('a')?.name).toBe('Card a');
+      expect(result.get('b')?.name).toBe('Card b');
+    });
+
+    it('should de-duplicate ids before requesting them', async () => {
+      await service.getCardsByIds(['a', 'b', 'a', 'b', 'a']);
+
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].body.identifiers).toEqual([{ id: 'a' }, { id: 'b' }]);
+    });
+
+    it('should split ids into batches of 75 identifiers', async () => {
+      const ids = Array.from({ length: 160 }, (_, i) => `card-${i}`);
+
+      const result = await service.getCardsByIds(ids);
+
+      expect(result.size).toBe(160);
+      expect(stub.requests.map((r) => r.body.identifiers.length)).toEqual([75, 75, 10]);
+    });
+
+    it('should send batches one at a time', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      await stub.close();
+      stub = await startStubServer(async (request) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        return collectionHandler(request);
+      });
+      service = new ScryfallService(stub.url);
+
+      await service.getCardsByIds(Array.from({ length: 200 }, (_, i) => `card-${i}`));
+
+      expect(maxInFlight).toBe(1);
+    });
+
+    it('should leave ids Scryfall does not know out of the map', async () => {
+      const result = await service.getCardsByIds(['a', 'missing-1']);
+
+      expect(result.has('a')).toBe(true);
+      expect(result.has('missing-1')).toBe(false);
+    });
+
+    it('should not call the API for an empty list', async () => {
+      const result = await service.getCardsByIds([]);
+
+      expect(result.size).toBe(0);
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should throw AppError when Scryfall fails', async () => {
+      await stub.close();
+      stub = await startStubServer(() => ({ status: 500, body: { object: 'error' } }));
+      service = new ScryfallService(stub.url);
+
+      await expect(service.getCardsByIds(['a'])).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('getCardsByNames', () => {
+    it('should match names case-insensitively', async () => {
+      const result = await service.getCardsByNames(['LIGHTNING BOLT']);
+
+      expect(result.get('lightning bolt')?.id).toBe('bolt');
+    });
+
+    it('should match the front face name of double-faced cards', async () => {
+      const result = await service.getCardsByNames(['Delver of Secrets']);
+
+      expect(result.get('delver of secrets')?.id).toBe('delver');
+    });
+
+    it('should send each distinct name once', async () => {
+      await service.getCardsByNames(['Lightning Bolt', 'lightning bolt ', 'Unknown Card']);
+
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].body.identifiers).toEqual([
+        { name: 'Lightning Bolt' },
+        { name: 'Unknown Card' },
+      ]);
+    });
+
+    it('should leave unknown names out of the map', async () => {
+      const result = await service.getCardsByNames(['Unknown Card']);
+
+      expect(result.size).toBe(0);
+    });
+  });
+
+  describe('getCardsByPrintings', () => {
+    it('should key printings by lowercased set and collector number', async () => {
+      const result = await service.getCardsByPrintings([
+        { set: 'M11', collector_number: '146' },
+        { set: 'm11', collector_number: '146' },
+        { set: 'm11', collector_number: '999' },
+      ]);
+
+      expect(stub.requests[0].body.identifiers).toEqual([
+        { set: 'm11', collector_number: '146' },
+        { set: 'm11', collector_number: '999' },
+      ]);
+      expect(result.get('m11|146')?.id).toBe('bolt-m11');
+      expect(result.size).toBe(1);
+    });
+  });
+
+  describe('autocomplete', () => {
+    it('should drop expired results when caching a new one', async () => {
+      let failing = false;
+      await stub.close();
+      stub = await startStubServer((request) => (failing ? { status: 400, body: { object: 'error' } } : collectionHandler(request)));
+      service = new ScryfallService(stub.url);
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await service.autocomplete('Light');
+      clock.mockReturnValue(now + 25 * 60 * 60 * 1000);
+      await service.autocomplete('Bolt');
+
+      // The expired result is gone, so there is nothing to fall back on
+      failing = true;
+      await expect(service.autocomplete('Light')).rejects.toBeInstanceOf(AppError);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Wishlist Service Tests
+ *
+ * Tests for wishlist.service.ts covering:
+ * - Pricing the wishlist and the cost of the copies still missing
+ * - Merging a card added twice into one item
+ * - Counting acquired copies towards matching items and fulfilling them
+ */
+
+import { CardFinish, Currency, ScryfallCard, TcgType, WishlistItem, WishlistPriority } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+jest.mock('../../modules/currency/currency.service', () => ({
+  getRates: jest.fn(),
+}));
+
+const provider = {
+  getCardById: jest.fn(),
+};
+jest.mock('../../modules/cards/cardDataProvider', () => ({
+  getCardDataProvider: () => provider,
+  getCardsWithFallback: jest.fn(),
+}));
+
+// Import after mocking
+import pool from '../../config/database';
+import { mockQueries } from '../helpers/testDatabase';
+import { getCardsWithFallback } from '../../modules/cards/cardDataProvider';
+import currencyService from '../../modules/currency/currency.service';
+import wishlistService from '../../modules/wishlist/wishlist.service';
+
+const bolt: ScryfallCard = {
+  id: 'bolt-m10',
+  name: 'Lightning Bolt',
+  set: 'm10',
+  set_name: 'Magic 2010',
+  rarity: 'common',
+  finishes: ['nonfoil', 'foil', 'etched'],
+  prices: { usd: '2.00', usd_foil: '8.00', usd_etched: '5.00', eur: '1.50' },
+};
+
+function item(overrides: Partial<WishlistItem> = {}): WishlistItem {
+  return {
+    id: 'item-1',
+    user_id: 'user-1',
+    tcg_type: TcgType.MAGIC,
+    scryfall_id: 'bolt-m10',
+    card_name: 'Lightning Bolt',
+    any_printing: true,
+    finish: null,
+    quantity: 4,
+    acquired_quantity: 0,
+    max_price: null,
+    priority: WishlistPriority.MEDIUM,
+    notes: null,
+    fulfilled_at: null,
+    created_at: new Date('2024-03-01'),
+    updated_at: new Date('2024-03-01'),
+    ...overrides,
+  };
+}
+
+describe('WishlistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (currencyService.getRates as jest.Mock).mockResolvedValue([
+      { currency: Currency.USD, rate_per_usd: 1 },
+      { currency: Currency.EUR, rate_per_usd: 0.9 },
+    ]);
+    provider.getCardById.mockResolvedValue(bolt);
+    (getCardsWithFallback as jest.Mock).mockResolvedValue(new Map([['bolt-m10', bolt]]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getWishlist', () => {
+    it('should price the copies still missing in the wanted finish', async () => {
+      mockQueries(pool, [
+        item({ acquired_quantity: 1 }),
+        item({ id: 'item-2', finish: CardFinish.ETCHED, quantity: 2 }),
+      ]);
+
+      const wishlist = await wishlistService.getWishlist('user-1');
+
+      expect(wishlist.items.map((i) => [i.unit_price, i.unit_price_eur])).toEqual([[2, 1.5], [5, 4.5]]);
+      expect(wishlist.open_count).toBe(5);
+      expect(wishlist.total_cost).toBe(16);
+      expect(wishlist.total_cost_eur).toBe(13.5);
+    });
+
+    it('should leave fulfilled items out of the cost', async () => {
+      const spy = mockQueries(pool, [item({ acquired_quantity: 4, fulfilled_at: new Date('2024-03-02') })]);
+
+      const wishlist = await wishlistService.getWishlist('user-1', 'all');
+
+      expect(spy.mock.calls[0][0]).toMatch(/WHERE w.user_id = \$1\s+ORDER BY/);
+      expect(wishlist.open_count).toBe(0);
+      expect(wishlist.total_cost).toBe(0);
+    });
+
+    it('should look each card up in its own game', async () => {
+      mockQueries(pool, [item({ quantity: 1 })]);
+
+      const wishlist = await wishlistService.getWishlist('user-1');
+
+      expect(getCardsWithFallback).toHaveBeenCalledWith([
+        expect.objectContaining({ scryfall_id: 'bolt-m10', tcg_type: TcgType.MAGIC }),
+      ]);
+      expect(wishlist.items[0].scryfall_data?.name).toBe('Lightning Bolt');
+      expect(wishlist.total_cost).toBe(2);
+    });
+  });
+
+  describe('addItem', () => {
+    it('should add the quantity to an identical open item', async () => {
+      const spy = mockQueries(pool, [item({ quantity: 6 })]);
+
+      const added = await wishlistService.addItem('user-1', { scryfall_id: 'bolt-m10', quantity: 2 });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][1]).toEqual(['user-1', TcgType.MAGIC, 'bolt-m10', true, 2, null]);
+      expect(added).toMatchObject({ quantity: 6, merged: true });
+    });
+
+    it('should insert an item named after the card', async () => {
+      const spy = mockQueries(pool, [], [item({ max_price: 1.5, priority: WishlistPriority.HIGH })]);
+
+      const added = await wishlistService.addItem('user-1', {
+        scryfall_id: 'bolt-m10',
+        any_printing: false,
+        max_price: 1.5,
+        priority: WishlistPriority.HIGH,
+      });
+
+      expect(spy.mock.calls[1][1]).toEqual([
+        'user-1', TcgType.MAGIC, 'bolt-m10', 'Lightning Bolt', false, null, 1, 1.5, WishlistPriority.HIGH, null,
+      ]);
+      expect(added.merged).toBe(false);
+    });
+  });
+
+  describe('updateItem', () => {
+    it('should re-check fulfilment against the new quantity', async () => {
+      const spy = mockQueries(pool, [item({ acquired_quantity: 2 })], [item({ quantity: 2, acquired_quantity: 2 })]);
+
+      await wishlistService.updateItem('item-1', 'user-1', { quantity: 2 });
+
+      expect(spy.mock.calls[1][0]).toContain('COALESCE($2::int, w.quantity)');
+      expect(spy.mock.calls[1][1]).toEqual([2, 2, 'item-1']);
+    });
+
+    it('should throw 404 for another user\'s item', async () => {
+      mockQueries(pool, []);
+
+      await expect(wishlistService.updateItem('item-1', 'user-2', { priority: WishlistPriority.LOW }))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('recordAcquired', () => {
+    const acquired = {
+      collectionId: 'col-1',
+      scryfallId: 'bolt-m10',
+      name: 'Lightning Bolt',
+      finish: CardFinish.NONFOIL,
+      quantity: 3,
+    };
+
+    it('should spread the copies over matching items in order and fulfil the complete ones', async () => {
+      const spy = mockQueries(
+        pool,
+        [item({ quantity: 2, acquired_quantity: 1 }), item({ id: 'item-2', quantity: 4 })],
+        [
+          item({ quantity: 2, acquired_quantity: 2, fulfilled_at: new Date() }),
+          item({ id: 'item-2', quantity: 4, acquired_quantity: 2 }),
+        ]
+      );
+
+      const fulfilled = await wishlistService.recordAcquired(acquired);
+
+      expect(spy.mock.calls[0][0]).toContain('w.any_printing AND LOWER(w.card_name) = LOWER($3)');
+      expect(spy.mock.calls[0][0]).toContain('FOR UPDATE OF w');
+      expect(spy.mock.calls[0][1]).toEqual(['col-1', 'bolt-m10', 'Lightning Bolt', CardFinish.NONFOIL]);
+      expect(spy.mock.calls[1][1]).toEqual([['item-1', 'item-2'], [2, 2]]);
+      expect(fulfilled.map((i) => i.id)).toEqual(['item-1']);
+    });
+
+    it('should change nothing when no item matches', async () => {
+      const spy = mockQueries(pool, []);
+
+      const fulfilled = await wishlistService.recordAcquired(acquired);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(fulfilled).toEqual([]);
+    });
+  });
+});
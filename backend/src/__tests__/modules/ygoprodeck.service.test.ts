@@ -0,0 +1,148 @@
+/**
+ * YGOPRODeck Service Tests
+ *
+ * Tests for ygoprodeck.service.ts covering:
+ * - Printing IDs (passcode:SETCODE:RARITY)
+ * - Conversion to the app card shape (stats, per-printing prices)
+ * - Printing and ID lookups against rows read from ygo_cards
+ */
+
+import { blueEyes, decodeTalker, unreleasedSpell } from '../fixtures/ygoprodeck';
+import { AppError } from '../../types';
+
+// Mock the database module
+jest.mock('../../config/database', () => {
+  const { MockPool } = jest.requireActual('../helpers/testDatabase');
+  return new MockPool();
+});
+
+// Import after mocking
+import pool from '../../config/database';
+import { YgoProDeckService, toCardData, printingId, parsePrintingId } from '../../modules/cards/ygoprodeck.service';
+
+describe('YgoProDeckService', () => {
+  const service = new YgoProDeckService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Answer the next ygo_cards query with the given cards
+   */
+  function mockRows(...cards: typeof blueEyes[]) {
+    jest.spyOn(pool, 'query').mockResolvedValueOnce({
+      rows: cards.map((card) => ({ id: card.id, key: card.name.toLowerCase(), data: card })),
+    } as never);
+  }
+
+  describe('printing IDs', () => {
+    it('should combine passcode, set code and rarity code', () => {
+      expect(printingId(blueEyes, blueEyes.card_sets![0])).toBe('89631139:LOB-EN001:UR');
+    });
+
+    it('should fall back to the rarity name when the code is missing', () => {
+      expect(printingId(blueEyes, blueEyes.card_sets![2])).toBe('89631139:LC01-EN004:SecretRare');
+    });
+
+    it('should parse printing IDs and bare passcodes', () => {
+      expect(parsePrintingId('89631139:LOB-EN001:UR')).toEqual({ passcode: 89631139, setCode: 'LOB-EN001', rarity: 'UR' });
+      expect(parsePrintingId('89631139')).toEqual({ passcode: 89631139, setCode: undefined, rarity: undefined });
+      expect(parsePrintingId('f2b9983e-20d4')).toBeNull();
+    });
+  });
+
+  describe('toCardData', () => {
+    it('should map a printing with its set, rarity and price', () => {
+      const card = toCardData(blueEyes, blueEyes.card_sets![0]);
+
+      expect(card).toMatchObject({
+        id: '89631139:LOB-EN001:UR',
+        name: 'Blue-Eyes White Dragon',
+        type_line: 'Normal Monster — Dragon',
+        set: 'LOB',
+        set_name: 'Legend of Blue Eyes White Dragon',
+        collector_number: 'LOB-EN001',
+        rarity: 'Ultra Rare',
+        prices: { usd: '98.50', eur: '0.15' },
+        atk: 3000,
+        def: 2500,
+        level: 8,
+        attribute: 'LIGHT',
+      });
+      expect(card.image_uris?.small).toContain('cards_small');
+    });
+
+    it('should fall back to the card price when the set has none', () => {
+      expect(toCardData(blueEyes, blueEyes.card_sets![1]).prices?.usd).toBe('0.32');
+    });
+
+    it('should leave DEF and level empty for link monsters', () => {
+      const card = toCardData(decodeTalker, decodeTalker.card_sets![0]);
+
+      expect(card).toMatchObject({ atk: 2300, def: null, level: null, attribute: 'DARK' });
+    });
+
+    it('should describe the card itself without a printing', () => {
+      expect(toCardData(unreleasedSpell)).toMatchObject({ id: '12345678', set: '', set_name: '', atk: null });
+    });
+  });
+
+  describe('getPrintings', () => {
+    it('should return one entry per set/rarity', async () => {
+      mockRows(blueEyes);
+
+      const printings = await service.getPrintings('blue-eyes white dragon');
+
+      expect(printings.map((p) => p.id)).toEqual([
+        '89631139:LOB-EN001:UR',
+        '89631139:LC01-EN004:UR',
+        '89631139:LC01-EN004:SecretRare',
+      ]);
+    });
+
+    it('should return the card itself when it has no printings', async () => {
+      mockRows(unreleasedSpell);
+
+      const printings = await service.getPrintings('Unreleased Spell');
+
+      expect(printings.map((p) => p.id)).toEqual(['12345678']);
+    });
+  });
+
+  describe('getCardsByIds', () => {
+    it('should resolve printing IDs and passcodes in one query', async () => {
+      mockRows(blueEyes, unreleasedSpell);
+
+      const cards = await service.getCardsByIds(['89631139:LC01-EN004:SecretRare', '12345678', '89631139:XXX-EN001:UR']);
+
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(cards.get('89631139:LC01-EN004:SecretRare')?.prices?.usd).toBe('24.10');
+      expect(cards.get('12345678')?.name).toBe('Unreleased Spell');
+      expect(cards.has('89631139:XXX-EN001:UR')).toBe(false);
+    });
+
+    it('should not query for IDs that are not passcodes', async () => {
+      const spy = jest.spyOn(pool, 'query');
+
+      const cards = await service.getCardsByIds(['not-a-passcode']);
+
+      expect(cards.size).toBe(0);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should throw a 404 AppError from getCardById for unknown printings', async () => {
+      await expect(service.getCardById('99999999:LOB-EN001:UR')).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('getCardsByNames', () => {
+    it('should pick the first listed printing', async () => {
+      mockRows(blueEyes);
+
+      const cards = await service.getCardsByNames(['Blue-Eyes White Dragon']);
+
+      expect(cards.get('blue-eyes white dragon')?.id).toBe('89631139:LOB-EN001:UR');
+    });
+  });
+});
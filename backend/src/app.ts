@@ -4,11 +4,19 @@ import dotenv from 'dotenv';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
+import scryfallService from './modules/cards/scryfall.service';
 
 // Import routes
 import authRoutes from './modules/auth/auth.routes';
 import collectionsRoutes from './modules/collections/collections.routes';
 import cardsRoutes from './modules/cards/cards.routes';
+import currencyRoutes from './modules/currency/currency.routes';
+import decksRoutes from './modules/decks/decks.routes';
+import importJobsRoutes from './modules/imports/importJobs.routes';
+import loansRoutes from './modules/loans/loans.routes';
+import ownersRoutes from './modules/owners/owners.routes';
+import handoversRoutes from './modules/handovers/handovers.routes';
+import wishlistRoutes from './modules/wishlist/wishlist.routes';
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +47,8 @@ app.use(
   cors({
     origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
     credentials: true,
+    // Lets the frontend read export file names
+    exposedHeaders: ['Content-Disposition'],
   })
 );
 
@@ -46,7 +56,8 @@ app.use(
  * Body Parsers
  * Parse JSON and URL-encoded request bodies
  */
-app.use(express.json());
+// Collection CSV imports are sent as JSON, so allow more than the 100kb default
+app.use(express.json({ limit: '5mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 /**
@@ -64,13 +75,18 @@ app.use((req, _res, next) => {
 
 /**
  * Health Check Endpoint
- * Useful for monitoring and load balancers
+ * Useful for monitoring and load balancers; also reports the Scryfall card
+ * cache and request queue
  */
-app.get('/health', (_req, res) => {
+app.get('/health', async (_req, res) => {
   res.status(200).json({
     success: true,
     message: 'Server is running',
     timestamp: new Date().toISOString(),
+    scryfall: {
+      cache: await scryfallService.getCacheStats(),
+      scheduler: scryfallService.getSchedulerStats(),
+    },
   });
 });
 
@@ -80,6 +96,13 @@ app.get('/health', (_req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/collections', collectionsRoutes);
 app.use('/api/cards', cardsRoutes);
+app.use('/api/exchange-rates', currencyRoutes);
+app.use('/api/decks', decksRoutes);
+app.use('/api/import-jobs', importJobsRoutes);
+app.use('/api/loans', loansRoutes);
+app.use('/api/owners', ownersRoutes);
+app.use('/api/handovers', handoversRoutes);
+app.use('/api/wishlist', wishlistRoutes);
 
 /**
  * 404 Handler
@@ -0,0 +1,37 @@
+import catalogService from '../modules/cards/catalog.service';
+import pool from './database';
+
+/**
+ * Card Catalog Import Runner
+ *
+ * Loads a downloaded Scryfall bulk-data file into the card_catalog table.
+ * Download `default_cards` from https://scryfall.com/docs/api/bulk-data
+ * and run migrations first.
+ *
+ * Run with: npm run import:catalog -- path/to/default-cards.json
+ */
+async function main(): Promise<void> {
+  const filePath = process.argv[2];
+
+  if (!filePath) {
+    console.error('❌ Usage: npm run import:catalog -- <path/to/default-cards.json>');
+    process.exitCode = 1;
+    await pool.end();
+    return;
+  }
+
+  try {
+    console.log(`🚀 Importing card catalog from ${filePath}...`);
+    const { imported, skipped } = await catalogService.importBulkData(filePath, (count) => {
+      if (count % 10000 === 0) console.log(`   ${count} cards imported`);
+    });
+    console.log(`✅ Card catalog import completed: ${imported} imported, ${skipped} skipped`);
+  } catch (error) {
+    console.error('❌ Card catalog import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,38 @@
+import currencyService from '../modules/currency/currency.service';
+import pool from './database';
+
+/**
+ * Exchange Rates Import Runner
+ *
+ * Sets exchange rates from a local JSON file, e.g.
+ * {"base": "USD", "rates": {"BRL": 5.4, "EUR": 0.92}}
+ * Rates quoted against BRL or EUR are converted to rates per 1 USD.
+ *
+ * Run with: npm run import:rates -- path/to/rates.json
+ */
+async function main(): Promise<void> {
+  const filePath = process.argv[2];
+
+  if (!filePath) {
+    console.error('❌ Usage: npm run import:rates -- <path/to/rates.json>');
+    process.exitCode = 1;
+    await pool.end();
+    return;
+  }
+
+  try {
+    console.log(`🚀 Importing exchange rates from ${filePath}...`);
+    const rates = await currencyService.importRatesFile(filePath);
+    for (const rate of rates) {
+      console.log(`   1 USD = ${rate.rate_per_usd} ${rate.currency}`);
+    }
+    console.log('✅ Exchange rates import completed');
+  } catch (error) {
+    console.error('❌ Exchange rates import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,37 @@
+import ygoProDeckService from '../modules/cards/ygoprodeck.service';
+import pool from './database';
+
+/**
+ * Yu-Gi-Oh! Card Database Import Runner
+ *
+ * Loads a downloaded YGOPRODeck cardinfo dump into the ygo_cards table.
+ * Save https://db.ygoprodeck.com/api/v7/cardinfo.php to a file and run
+ * migrations first.
+ *
+ * Run with: npm run import:yugioh -- path/to/cardinfo.json
+ */
+async function main(): Promise<void> {
+  const filePath = process.argv[2];
+
+  if (!filePath) {
+    console.error('❌ Usage: npm run import:yugioh -- <path/to/cardinfo.json>');
+    process.exitCode = 1;
+    await pool.end();
+    return;
+  }
+
+  try {
+    console.log(`🚀 Importing Yu-Gi-Oh! cards from ${filePath}...`);
+    const { imported } = await ygoProDeckService.importCardInfo(filePath, (count) => {
+      if (count % 5000 === 0) console.log(`   ${count} cards imported`);
+    });
+    console.log(`✅ Yu-Gi-Oh! import completed: ${imported} cards`);
+  } catch (error) {
+    console.error('❌ Yu-Gi-Oh! import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
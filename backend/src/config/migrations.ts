@@ -42,6 +42,15 @@ export async function runMigrations(): Promise<void> {
     `);
     console.log('✅ Users email index created');
 
+    // Display currency and admin flag (added after initial schema)
+    await client.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS display_currency VARCHAR(3) NOT NULL DEFAULT 'USD'
+          CHECK (display_currency IN ('USD', 'BRL', 'EUR')),
+        ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT false;
+    `);
+    console.log('✅ Users display_currency and is_admin columns ensured');
+
     // Create collections table
     await client.query(`
       CREATE TABLE IF NOT EXISTS collections (
@@ -66,8 +75,6 @@ export async function runMigrations(): Promise<void> {
         id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
         collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
         scryfall_id VARCHAR(255) NOT NULL,
-        owner_name VARCHAR(255) NOT NULL,
-        current_deck VARCHAR(255),
         quantity INTEGER DEFAULT 1,
         is_borrowed BOOLEAN DEFAULT false,
         added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -119,11 +126,480 @@ export async function runMigrations(): Promise<void> {
     `);
     console.log('✅ Cards price_usd column ensured');
 
-    // Add is_foil column to cards table (idempotent)
+    // Add per-finish and EUR price columns to cards table (idempotent)
+    await client.query(`
+      ALTER TABLE cards
+        ADD COLUMN IF NOT EXISTS price_usd_foil NUMERIC(10,2),
+        ADD COLUMN IF NOT EXISTS price_usd_etched NUMERIC(10,2),
+        ADD COLUMN IF NOT EXISTS price_eur NUMERIC(10,2),
+        ADD COLUMN IF NOT EXISTS price_eur_foil NUMERIC(10,2);
+    `);
+    console.log('✅ Cards per-finish price columns ensured');
+
+    // Add finish column to cards table (idempotent)
+    await client.query(`
+      ALTER TABLE cards ADD COLUMN IF NOT EXISTS finish VARCHAR(10) NOT NULL DEFAULT 'nonfoil'
+        CHECK (finish IN ('nonfoil', 'foil', 'etched'));
+    `);
+    console.log('✅ Cards finish column ensured');
+
+    // Create scryfall_cards table (persistent card data cache shared by all instances)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS scryfall_cards (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        data JSONB NOT NULL,
+        fetched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log('✅ Scryfall cards table created');
+
+    // Index for exact-name lookups (getCardByName, deck imports)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_scryfall_cards_name ON scryfall_cards(LOWER(name));
+    `);
+    console.log('✅ Scryfall cards name index created');
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_scryfall_cards_fetched_at ON scryfall_cards(fetched_at);
+    `);
+    console.log('✅ Scryfall cards fetched_at index created');
+
+    // Index for printing lookups by set and collector number (CSV imports)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_scryfall_cards_set_number
+        ON scryfall_cards((data->>'set'), (data->>'collector_number'));
+    `);
+    console.log('✅ Scryfall cards printing index created');
+
+    // Replace the old is_foil flag with finish (runs once, while is_foil
+    // exists). The single legacy price_usd was the price of the row's own
+    // copies, so foil rows move it to price_usd_foil; the next price
+    // snapshot fills every finish's price from the provider.
+    await client.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'cards' AND column_name = 'is_foil'
+        ) THEN
+          UPDATE cards SET finish = 'foil', price_usd_foil = price_usd, price_usd = NULL WHERE is_foil;
+
+          ALTER TABLE cards DROP COLUMN is_foil;
+        END IF;
+      END $$;
+    `);
+    console.log('✅ Cards is_foil migrated to finish');
+
+    // Create card_catalog table (offline copy of Scryfall bulk data)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS card_catalog (
+        id VARCHAR(255) PRIMARY KEY,
+        oracle_id VARCHAR(255),
+        name VARCHAR(255) NOT NULL,
+        set_code VARCHAR(20) NOT NULL,
+        collector_number VARCHAR(20),
+        released_at DATE,
+        data JSONB NOT NULL,
+        imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log('✅ Card catalog table created');
+
+    // Indexes for exact-name, front-face-name and printing lookups
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_catalog_name ON card_catalog(LOWER(name));
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_catalog_front_face ON card_catalog(LOWER(split_part(name, ' // ', 1)));
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_catalog_oracle_id ON card_catalog(oracle_id);
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_catalog_set_number ON card_catalog(set_code, collector_number);
+    `);
+    console.log('✅ Card catalog indexes created');
+
+    // Create ygo_cards table (local copy of the YGOPRODeck cardinfo dump)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ygo_cards (
+        id INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        data JSONB NOT NULL,
+        imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log('✅ Yu-Gi-Oh! cards table created');
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_ygo_cards_name ON ygo_cards(LOWER(name));
+    `);
+    console.log('✅ Yu-Gi-Oh! cards name index created');
+
+    // Create card_price_history table (one price snapshot per card per day)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS card_price_history (
+        scryfall_id VARCHAR(255) NOT NULL,
+        recorded_on DATE NOT NULL DEFAULT CURRENT_DATE,
+        price_usd NUMERIC(10,2),
+        price_usd_foil NUMERIC(10,2),
+        price_usd_etched NUMERIC(10,2),
+        price_eur NUMERIC(10,2),
+        price_eur_foil NUMERIC(10,2),
+        PRIMARY KEY (scryfall_id, recorded_on)
+      );
+    `);
+    console.log('✅ Card price history table created');
+
+    // Index for collection value series (all cards on a range of days)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_price_history_recorded_on ON card_price_history(recorded_on);
+    `);
+    console.log('✅ Card price history recorded_on index created');
+
+    // Create exchange_rates table (units of each currency per 1 USD)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        currency VARCHAR(3) PRIMARY KEY CHECK (currency IN ('USD', 'BRL', 'EUR')),
+        rate_per_usd NUMERIC(12,6) NOT NULL CHECK (rate_per_usd > 0),
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      INSERT INTO exchange_rates (currency, rate_per_usd)
+      VALUES ('USD', 1)
+      ON CONFLICT (currency) DO NOTHING;
+    `);
+    console.log('✅ Exchange rates table created');
+
+    // Create decks table (deck names are unique per user, ignoring case)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS decks (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        format VARCHAR(50),
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_decks_user_name ON decks(user_id, LOWER(name));
+    `);
+    console.log('✅ Decks table created');
+
+    // Cards reference their deck; removing a deck leaves its cards unassigned
+    await client.query(`
+      ALTER TABLE cards ADD COLUMN IF NOT EXISTS deck_id UUID REFERENCES decks(id) ON DELETE SET NULL;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_cards_deck_id ON cards(deck_id);
+    `);
+    console.log('✅ Cards deck_id column ensured');
+
+    // Convert free-text current_deck values into decks (once, while the column exists).
+    // Names are trimmed with inner whitespace collapsed and compared ignoring case;
+    // each deck keeps the spelling of its earliest card.
+    await client.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'cards' AND column_name = 'current_deck'
+        ) THEN
+          INSERT INTO decks (user_id, name)
+          SELECT DISTINCT ON (col.user_id, LOWER(normalized.name))
+                 col.user_id, normalized.name
+          FROM cards ca
+          INNER JOIN collections col ON col.id = ca.collection_id
+          CROSS JOIN LATERAL (
+            SELECT regexp_replace(TRIM(ca.current_deck), '\\s+', ' ', 'g') AS name
+          ) normalized
+          WHERE normalized.name <> ''
+          ORDER BY col.user_id, LOWER(normalized.name), ca.added_at
+          ON CONFLICT (user_id, LOWER(name)) DO NOTHING;
+
+          UPDATE cards ca
+          SET deck_id = d.id
+          FROM collections col, decks d
+          WHERE col.id = ca.collection_id
+            AND d.user_id = col.user_id
+            AND LOWER(d.name) = LOWER(regexp_replace(TRIM(ca.current_deck), '\\s+', ' ', 'g'));
+
+          ALTER TABLE cards DROP COLUMN current_deck;
+        END IF;
+      END $$;
+    `);
+    console.log('✅ Cards current_deck migrated to decks');
+
+    // Deck section of each card (kept by deck exports)
+    await client.query(`
+      ALTER TABLE cards ADD COLUMN IF NOT EXISTS board VARCHAR(20) NOT NULL DEFAULT 'main'
+        CHECK (board IN ('main', 'sideboard', 'commander'));
+    `);
+    console.log('✅ Cards board column ensured');
+
+    // Background import jobs: the input is kept so an interrupted job can
+    // resume from the last processed entry
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS import_jobs (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        kind VARCHAR(20) NOT NULL CHECK (kind IN ('deck_list', 'csv', 'commit')),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+        input JSONB NOT NULL,
+        total INTEGER NOT NULL DEFAULT 0,
+        processed INTEGER NOT NULL DEFAULT 0,
+        imported INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        failures JSONB NOT NULL DEFAULT '[]',
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_import_jobs_user ON import_jobs(user_id, created_at DESC);
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_import_jobs_pending ON import_jobs(created_at) WHERE status = 'pending';
+    `);
+    console.log('✅ Import jobs table created');
+
+    // How an import job writes its cards: batched (each batch committed on
+    // its own), transaction (one transaction, unmatched entries skipped) or
+    // atomic (one transaction, any unmatched entry rejects the import)
+    await client.query(`
+      ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS mode VARCHAR(20)
+        CHECK (mode IN ('batched', 'transaction', 'atomic'));
+    `);
+    await client.query(`
+      UPDATE import_jobs
+      SET mode = CASE kind WHEN 'csv' THEN 'batched' WHEN 'commit' THEN 'atomic' ELSE 'transaction' END
+      WHERE mode IS NULL;
+    `);
+    await client.query(`
+      ALTER TABLE import_jobs ALTER COLUMN mode SET NOT NULL;
+    `);
+    console.log('✅ Import jobs mode column ensured');
+
+    // Lease of the instance running a job (renewed while it runs; a running
+    // job whose lease expired is requeued), and the input lines skipped when
+    // the job was created (kept when a restarted job clears its counts)
+    await client.query(`
+      ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP;
+    `);
+    await client.query(`
+      ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS parse_failures JSONB NOT NULL DEFAULT '[]';
+    `);
+    console.log('✅ Import jobs lease and parse failures columns ensured');
+
+    // Card loans: who a card was lent to or borrowed from, and until when
+    // (returned_date stays null while the loan is open)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS card_loans (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        card_id UUID REFERENCES cards(id) ON DELETE SET NULL,
+        quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+        direction VARCHAR(10) NOT NULL CHECK (direction IN ('lent', 'borrowed')),
+        counterparty VARCHAR(255) NOT NULL,
+        start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+        due_date DATE,
+        returned_date DATE,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (due_date IS NULL OR due_date >= start_date),
+        CHECK (returned_date IS NULL OR returned_date >= start_date)
+      );
+    `);
+    // Loans outlive their card (a card returned to its owner is removed, its
+    // loan history is not)
+    await client.query(`
+      ALTER TABLE card_loans ALTER COLUMN card_id DROP NOT NULL;
+      ALTER TABLE card_loans DROP CONSTRAINT IF EXISTS card_loans_card_id_fkey;
+      ALTER TABLE card_loans ADD CONSTRAINT card_loans_card_id_fkey
+        FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE SET NULL;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_loans_card_id ON card_loans(card_id);
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_loans_open ON card_loans(due_date) WHERE returned_date IS NULL;
+    `);
+    console.log('✅ Card loans table created');
+
+    // Create owners table: the people the physical cards belong to
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS owners (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        contact VARCHAR(255),
+        color VARCHAR(7),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_owners_user_name ON owners(user_id, name);
+    `);
+    console.log('✅ Owners table created');
+
+    // Cards reference their owner; an owner with cards cannot be removed
+    await client.query(`
+      ALTER TABLE cards ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES owners(id) ON DELETE RESTRICT;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_cards_owner_id ON cards(owner_id);
+    `);
+
+    // Convert free-text owner_name values into owners (once, while the column exists).
+    // Names are trimmed with inner whitespace collapsed; spellings differing in case or
+    // accents ("Joao", "João") stay separate owners, listed by GET /api/owners/duplicates
+    // for the user to merge. Queued import jobs get the owner ID in their input.
+    await client.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'cards' AND column_name = 'owner_name'
+        ) THEN
+          INSERT INTO owners (user_id, name)
+          SELECT DISTINCT col.user_id, regexp_replace(TRIM(ca.owner_name), '\\s+', ' ', 'g')
+          FROM cards ca
+          INNER JOIN collections col ON col.id = ca.collection_id
+          ON CONFLICT (user_id, name) DO NOTHING;
+
+          UPDATE cards ca
+          SET owner_id = o.id
+          FROM collections col, owners o
+          WHERE col.id = ca.collection_id
+            AND o.user_id = col.user_id
+            AND o.name = regexp_replace(TRIM(ca.owner_name), '\\s+', ' ', 'g');
+
+          INSERT INTO owners (user_id, name)
+          SELECT DISTINCT ij.user_id, regexp_replace(TRIM(ij.input->>'owner_name'), '\\s+', ' ', 'g')
+          FROM import_jobs ij
+          WHERE ij.input ? 'owner_name' AND ij.status IN ('pending', 'running')
+          ON CONFLICT (user_id, name) DO NOTHING;
+
+          UPDATE import_jobs ij
+          SET input = (ij.input - 'owner_name') || jsonb_build_object('owner_id', o.id)
+          FROM owners o
+          WHERE ij.input ? 'owner_name'
+            AND o.user_id = ij.user_id
+            AND o.name = regexp_replace(TRIM(ij.input->>'owner_name'), '\\s+', ' ', 'g');
+
+          ALTER TABLE cards DROP COLUMN owner_name;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      ALTER TABLE cards ALTER COLUMN owner_id SET NOT NULL;
+    `);
+    console.log('✅ Cards owner_name migrated to owners');
+
+    // Loans copy their card's collection, printing and owner name, so an open
+    // loan stays listed (and can be returned) after its card is removed
+    await client.query(`
+      ALTER TABLE card_loans
+        ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS scryfall_id VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS set_code VARCHAR(20),
+        ADD COLUMN IF NOT EXISTS finish VARCHAR(10),
+        ADD COLUMN IF NOT EXISTS owner_name VARCHAR(255);
+    `);
+    await client.query(`
+      UPDATE card_loans l
+      SET collection_id = ca.collection_id, scryfall_id = ca.scryfall_id, set_code = ca.set_code,
+          finish = ca.finish, owner_name = o.name
+      FROM cards ca
+      INNER JOIN owners o ON o.id = ca.owner_id
+      WHERE ca.id = l.card_id AND l.collection_id IS NULL;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_card_loans_collection_id ON card_loans(collection_id);
+    `);
+    console.log('✅ Card loans card details ensured');
+
+    // Create handovers table: cards given back to their owner in one go. Names are
+    // copied so the record still reads right after the cards, deck or owner are gone
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS handovers (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        owner_id UUID REFERENCES owners(id) ON DELETE SET NULL,
+        owner_name VARCHAR(255) NOT NULL,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('clear_deck', 'return', 'move')),
+        deck_id UUID REFERENCES decks(id) ON DELETE SET NULL,
+        deck_name VARCHAR(255),
+        target_collection_id UUID REFERENCES collections(id) ON DELETE SET NULL,
+        target_collection_name VARCHAR(255),
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_handovers_user_id ON handovers(user_id, created_at DESC);
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS handover_items (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        handover_id UUID NOT NULL REFERENCES handovers(id) ON DELETE CASCADE,
+        card_id UUID,
+        scryfall_id VARCHAR(255) NOT NULL,
+        card_name TEXT,
+        set_code VARCHAR(20),
+        finish VARCHAR(10) NOT NULL,
+        quantity INTEGER NOT NULL,
+        collection_name VARCHAR(255) NOT NULL,
+        deck_name VARCHAR(255),
+        board VARCHAR(20) NOT NULL
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_handover_items_handover_id ON handover_items(handover_id);
+    `);
+    console.log('✅ Handovers tables created');
+
+    // Create wishlist_items table: cards the user wants, matched against the
+    // copies added to any collection (acquired_quantity counts them up, and
+    // fulfilled_at is set once it reaches quantity). finish NULL means any
+    // finish; max_price is in USD
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS wishlist_items (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        tcg_type VARCHAR(50) NOT NULL,
+        scryfall_id VARCHAR(255) NOT NULL,
+        card_name VARCHAR(255) NOT NULL,
+        any_printing BOOLEAN NOT NULL DEFAULT TRUE,
+        finish VARCHAR(10) CHECK (finish IN ('nonfoil', 'foil', 'etched')),
+        quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+        acquired_quantity INTEGER NOT NULL DEFAULT 0 CHECK (acquired_quantity >= 0),
+        max_price NUMERIC(10,2) CHECK (max_price >= 0),
+        priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+        notes TEXT,
+        fulfilled_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_wishlist_items_user_id ON wishlist_items(user_id);
+    `);
+    // Open items are looked up by name whenever copies are added
     await client.query(`
-      ALTER TABLE cards ADD COLUMN IF NOT EXISTS is_foil BOOLEAN DEFAULT false;
+      CREATE INDEX IF NOT EXISTS idx_wishlist_items_open_name
+        ON wishlist_items(user_id, LOWER(card_name)) WHERE fulfilled_at IS NULL;
     `);
-    console.log('✅ Cards is_foil column ensured');
+    console.log('✅ Wishlist items table created');
 
     console.log('🎉 All migrations completed successfully!');
   } catch (error) {
@@ -143,6 +619,18 @@ export async function rollbackMigrations(): Promise<void> {
   try {
     console.log('🔄 Rolling back migrations...');
 
+    await client.query('DROP TABLE IF EXISTS wishlist_items CASCADE;');
+    await client.query('DROP TABLE IF EXISTS handover_items CASCADE;');
+    await client.query('DROP TABLE IF EXISTS handovers CASCADE;');
+    await client.query('DROP TABLE IF EXISTS card_loans CASCADE;');
+    await client.query('DROP TABLE IF EXISTS import_jobs CASCADE;');
+    await client.query('DROP TABLE IF EXISTS decks CASCADE;');
+    await client.query('DROP TABLE IF EXISTS owners CASCADE;');
+    await client.query('DROP TABLE IF EXISTS exchange_rates CASCADE;');
+    await client.query('DROP TABLE IF EXISTS card_price_history CASCADE;');
+    await client.query('DROP TABLE IF EXISTS ygo_cards CASCADE;');
+    await client.query('DROP TABLE IF EXISTS card_catalog CASCADE;');
+    await client.query('DROP TABLE IF EXISTS scryfall_cards CASCADE;');
     await client.query('DROP TABLE IF EXISTS cards CASCADE;');
     await client.query('DROP TABLE IF EXISTS collections CASCADE;');
     await client.query('DROP TABLE IF EXISTS users CASCADE;');
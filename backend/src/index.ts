@@ -1,5 +1,7 @@
 import app from './app';
 import pool from './config/database';
+import priceSnapshotJob from './modules/prices/priceSnapshot.job';
+import importJobWorker from './modules/imports/importJobs.worker';
 
 /**
  * Server Entry Point
@@ -27,6 +29,14 @@ const server = app.listen(PORT, () => {
   console.log(`   GET  http://localhost:${PORT}/api/collections`);
   console.log(`   POST http://localhost:${PORT}/api/collections`);
   console.log('');
+
+  if (process.env.PRICE_SNAPSHOT_ENABLED !== 'false') {
+    priceSnapshotJob.start();
+  }
+
+  if (process.env.IMPORT_JOBS_ENABLED !== 'false') {
+    importJobWorker.start();
+  }
 });
 
 /**
@@ -38,6 +48,9 @@ const server = app.listen(PORT, () => {
 const gracefulShutdown = async (signal: string): Promise<void> => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
 
+  priceSnapshotJob.stop();
+  importJobWorker.stop();
+
   // Close server
   server.close(async () => {
     console.log('✅ HTTP server closed');
@@ -1,5 +1,6 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import pool from '../config/database';
 import { AppError, AuthenticatedRequest, AuthTokenPayload } from '../types';
 
 /**
@@ -59,4 +60,39 @@ export const authenticate = (
       next(error);
     }
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Admin Authorization Middleware
+ *
+ * Allows the request only when the authenticated user is an admin.
+ * Must run after `authenticate`. The flag is read from the database so
+ * granting or revoking admin takes effect without a new token.
+ *
+ * Usage:
+ * router.put('/admin-only', authenticate, requireAdmin, handler);
+ */
+export const requireAdmin = async (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('Não autenticado', 401);
+    }
+
+    const result = await pool.query<{ is_admin: boolean }>(
+      'SELECT is_admin FROM users WHERE id = $1',
+      [req.user.userId]
+    );
+
+    if (!result.rows[0]?.is_admin) {
+      throw new AppError('Acesso restrito a administradores', 403);
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -68,6 +68,23 @@ class AuthController {
       data: user,
     });
   }
+
+  /**
+   * PATCH /api/auth/me
+   * Update current user's settings
+   * Requires authentication
+   */
+  async updateCurrentUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { display_currency } = req.body;
+
+    const user = await authService.updateSettings(userId, { display_currency });
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  }
 }
 
 export default new AuthController();
\ No newline at end of file
@@ -4,6 +4,7 @@ import authController from './auth.controller';
 import { authenticate } from '../../middleware/auth';
 import { validateRequest } from '../../middleware/validation';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { Currency } from '../../types';
 
 const router = Router();
 
@@ -16,6 +17,7 @@ const router = Router();
  * 
  * Protected routes:
  * - GET /api/auth/me - Get current user (requires JWT)
+ * - PATCH /api/auth/me - Update current user's settings (requires JWT)
  */
 
 /**
@@ -74,4 +76,24 @@ router.get(
   asyncHandler(authController.getCurrentUser.bind(authController))
 );
 
+/**
+ * PATCH /api/auth/me
+ * Update current user's settings
+ * 
+ * Requires: Authorization header with Bearer token
+ * 
+ * Body:
+ * - display_currency: Currency prices are shown in (USD, BRL, EUR)
+ */
+router.patch(
+  '/me',
+  authenticate,
+  validateRequest([
+    body('display_currency')
+      .isIn(Object.values(Currency))
+      .withMessage(`Moeda inválida (${Object.values(Currency).join(', ')})`),
+  ]),
+  asyncHandler(authController.updateCurrentUser.bind(authController))
+);
+
 export default router;
\ No newline at end of file
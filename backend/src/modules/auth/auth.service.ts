@@ -5,6 +5,7 @@ import {
   UserCreateDto,
   UserLoginDto,
   UserResponseDto,
+  UpdateUserSettingsDto,
   AuthResponse,
   AuthTokenPayload,
   AppError,
@@ -49,7 +50,7 @@ class AuthService {
     const result = await pool.query(
       `INSERT INTO users (email, password_hash)
        VALUES ($1, $2)
-       RETURNING id, email, created_at`,
+       RETURNING id, email, display_currency, is_admin, created_at`,
       [email, passwordHash]
     );
 
@@ -66,6 +67,8 @@ class AuthService {
       user: {
         id: user.id,
         email: user.email,
+        display_currency: user.display_currency,
+        is_admin: user.is_admin,
         created_at: user.created_at,
       },
     };
@@ -83,7 +86,8 @@ class AuthService {
 
     // Find user by email
     const result = await pool.query(
-      'SELECT id, email, password_hash, created_at FROM users WHERE email = $1',
+      `SELECT id, email, password_hash, display_currency, is_admin, created_at
+       FROM users WHERE email = $1`,
       [email]
     );
 
@@ -111,6 +115,8 @@ class AuthService {
       user: {
         id: user.id,
         email: user.email,
+        display_currency: user.display_currency,
+        is_admin: user.is_admin,
         created_at: user.created_at,
       },
     };
@@ -125,7 +131,7 @@ class AuthService {
    */
   async getUserById(userId: string): Promise<UserResponseDto> {
     const result = await pool.query(
-      'SELECT id, email, created_at FROM users WHERE id = $1',
+      'SELECT id, email, display_currency, is_admin, created_at FROM users WHERE id = $1',
       [userId]
     );
 
@@ -136,6 +142,33 @@ class AuthService {
     return result.rows[0];
   }
 
+  /**
+   * Update the user's settings
+   *
+   * @param userId - User ID
+   * @param data - Settings to change
+   * @returns Updated user data
+   * @throws AppError if no fields to update or user not found
+   */
+  async updateSettings(userId: string, data: UpdateUserSettingsDto): Promise<UserResponseDto> {
+    if (data.display_currency === undefined) {
+      throw new AppError('Nenhum campo para atualizar', 400);
+    }
+
+    const result = await pool.query<UserResponseDto>(
+      `UPDATE users SET display_currency = $1
+       WHERE id = $2
+       RETURNING id, email, display_currency, is_admin, created_at`,
+      [data.display_currency, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    return result.rows[0];
+  }
+
   /**
    * Generate JWT token
    * 
@@ -0,0 +1,76 @@
+/**
+ * Streaming JSON Array Reader
+ *
+ * Reads the first JSON array in a document element by element without
+ * loading the whole document into memory. That is the top-level array of
+ * Scryfall's bulk-data files, or the `data` array of a YGOPRODeck
+ * `{ "data": [...] }` cardinfo dump.
+ * Only the element currently being read is buffered; elements must be
+ * objects or arrays.
+ *
+ * Usage:
+ * const stream = fs.createReadStream(path, { encoding: 'utf8' });
+ * for await (const card of readJsonArray<ScryfallCard>(stream)) { ... }
+ *
+ * @param stream - Text stream (decode bytes as utf8 before passing them in)
+ * @returns Async iterator over the parsed array elements
+ * @throws Error if the input ends in the middle of an element
+ */
+export async function* readJsonArray<T>(
+  stream: AsyncIterable<string>
+): AsyncGenerator<T> {
+  let buffer = '';
+  let pos = 0;
+  let depth = 0;
+  let arrayDepth = -1; // depth of the array being read, once found
+  let finished = false; // the array has been closed; ignore the rest
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of stream) {
+    buffer += chunk;
+
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+        if (arrayDepth === -1 && ch === '[') arrayDepth = depth;
+        // One level below the array opens an element
+        else if (!finished && depth === arrayDepth + 1) start = pos;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === arrayDepth && start !== -1) {
+          yield JSON.parse(buffer.slice(start, pos + 1)) as T;
+          start = -1;
+        } else if (depth < arrayDepth) {
+          finished = true;
+        }
+      }
+    }
+
+    // Keep only the unfinished element (if any) for the next chunk
+    if (start === -1) {
+      buffer = '';
+      pos = 0;
+    } else {
+      buffer = buffer.slice(start);
+      pos -= start;
+      start = 0;
+    }
+  }
+
+  if (depth !== 0 || inString) {
+    throw new Error('Unexpected end of JSON input');
+  }
+}
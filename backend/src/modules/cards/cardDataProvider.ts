@@ -0,0 +1,127 @@
+import scryfallService from './scryfall.service';
+import pokemonTcgService from './pokemonTcg.service';
+import ygoProDeckService from './ygoprodeck.service';
+import {
+  TcgType,
+  ScryfallCard,
+  ScryfallSearchResponse,
+  ScryfallAutocompleteResponse,
+  AppError,
+} from '../../types';
+
+/**
+ * Card Data Provider
+ *
+ * Source of card data for one TCG. Every provider returns cards in the
+ * Scryfall card shape the rest of the app already understands (id, name,
+ * set, set_name, rarity, image_uris, prices...), so collections, the cards
+ * table and the frontend do not care where a card came from.
+ *
+ * The card's provider ID is what gets stored in cards.scryfall_id.
+ */
+export interface CardDataProvider {
+  readonly tcgType: TcgType;
+
+  /**
+   * Search cards by name (one result per distinct card)
+   */
+  searchCards(query: string): Promise<ScryfallSearchResponse>;
+
+  /**
+   * Card name suggestions for a partial name
+   */
+  autocomplete(query: string): Promise<ScryfallAutocompleteResponse>;
+
+  /**
+   * Get one printing by provider ID
+   * @throws AppError 404 if the provider does not know the ID
+   */
+  getCardById(id: string): Promise<ScryfallCard>;
+
+  /**
+   * Get a printing of a card by exact name
+   * @throws AppError 404 if no card has that name
+   */
+  getCardByName(name: string): Promise<ScryfallCard>;
+
+  /**
+   * Every printing of a card
+   */
+  getPrintings(name: string): Promise<ScryfallCard[]>;
+
+  /**
+   * Get many printings by provider ID (unknown IDs are absent from the map)
+   */
+  getCardsByIds(ids: string[]): Promise<Map<string, ScryfallCard>>;
+
+  /**
+   * Fetch the latest data (and prices) for many printings, bypassing
+   * caches - used by the scheduled price snapshot
+   */
+  refreshCards(ids: string[]): Promise<Map<string, ScryfallCard>>;
+
+  /**
+   * Get many cards by exact name, keyed by the lowercased requested name
+   */
+  getCardsByNames(names: string[]): Promise<Map<string, ScryfallCard>>;
+
+  /**
+   * Cards available without calling the remote API (used when it fails)
+   */
+  getStoredCards(ids: string[]): Promise<Map<string, ScryfallCard>>;
+}
+
+const providers: Partial<Record<TcgType, CardDataProvider>> = {
+  [TcgType.MAGIC]: scryfallService,
+  [TcgType.POKEMON]: pokemonTcgService,
+  [TcgType.YUGIOH]: ygoProDeckService,
+};
+
+/**
+ * Get the card data provider for a TCG
+ *
+ * @param tcgType - Collection TCG type
+ * @returns Provider for that TCG
+ * @throws AppError if no provider supports the TCG yet
+ */
+export function getCardDataProvider(tcgType: TcgType): CardDataProvider {
+  const provider = providers[tcgType];
+  if (!provider) {
+    throw new AppError(`Dados de cartas ainda não disponíveis para ${tcgType}`, 400);
+  }
+  return provider;
+}
+
+/**
+ * Get card data for printings of any game, keyed by provider ID
+ *
+ * Each game's provider is asked once for its printings. When a provider
+ * fails, its cards come from the data stored locally instead, which is
+ * enough for names and last known prices.
+ *
+ * @param cards - Game and provider ID of each printing
+ * @returns Card data found (unknown IDs are absent from the map)
+ */
+export async function getCardsWithFallback(
+  cards: { tcg_type: TcgType; scryfall_id: string }[]
+): Promise<Map<string, ScryfallCard>> {
+  const idsByGame = new Map<TcgType, Set<string>>();
+  for (const card of cards) {
+    const ids = idsByGame.get(card.tcg_type) ?? new Set<string>();
+    idsByGame.set(card.tcg_type, ids.add(card.scryfall_id));
+  }
+
+  const found = new Map<string, ScryfallCard>();
+  for (const [tcgType, ids] of idsByGame) {
+    const provider = getCardDataProvider(tcgType);
+    let cardData: Map<string, ScryfallCard>;
+    try {
+      cardData = await provider.getCardsByIds([...ids]);
+    } catch {
+      cardData = await provider.getStoredCards([...ids]);
+    }
+    cardData.forEach((card, id) => found.set(id, card));
+  }
+
+  return found;
+}
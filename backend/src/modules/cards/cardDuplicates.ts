@@ -0,0 +1,81 @@
+import { PoolClient } from 'pg';
+import { ConsolidatedCard } from '../../types';
+
+/**
+ * Columns that make two rows of a collection copies of the same card: rows
+ * matching on all of them are kept as one row with their quantities added up
+ */
+export const MERGE_KEY_COLUMNS = ['scryfall_id', 'finish', 'owner_id', 'deck_id', 'board', 'is_borrowed'];
+
+/**
+ * Duplicate rows of one card, oldest first
+ */
+export interface DuplicateGroup extends Omit<ConsolidatedCard, 'card_id' | 'merged_card_ids' | 'name'> {
+  ids: string[];
+}
+
+/**
+ * Which rows to look for duplicates in (at least one filter is required)
+ */
+export interface DuplicateScope {
+  collectionId?: string;
+  ownerId?: string;
+  /** Only merge the groups that contain one of these rows */
+  cardIds?: string[];
+}
+
+/**
+ * Merge duplicate rows (same collection and merge key columns) into the
+ * oldest row of each group, adding up their quantities; loans of the
+ * merged rows move to the kept row
+ *
+ * Run it inside the transaction that made the duplicates, so the rows are
+ * never seen apart.
+ *
+ * @param db - Client of an open transaction
+ * @param scope - Collection, owner and rows to consolidate
+ * @returns Each group merged, with its rows oldest first
+ */
+export async function mergeDuplicateRows(
+  db: Pick<PoolClient, 'query'>,
+  scope: DuplicateScope
+): Promise<DuplicateGroup[]> {
+  const conditions: string[] = [];
+  const having = ['COUNT(*) > 1'];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  if (scope.collectionId) {
+    conditions.push(`collection_id = $${paramIndex++}`);
+    values.push(scope.collectionId);
+  }
+
+  if (scope.ownerId) {
+    conditions.push(`owner_id = $${paramIndex++}`);
+    values.push(scope.ownerId);
+  }
+
+  if (scope.cardIds) {
+    having.push(`BOOL_OR(id = ANY($${paramIndex++}))`);
+    values.push(scope.cardIds);
+  }
+
+  const duplicates = await db.query<DuplicateGroup>(
+    `SELECT ${MERGE_KEY_COLUMNS.join(', ')}, MIN(set_code) AS set_code,
+            ARRAY_AGG(id ORDER BY added_at, id) AS ids, SUM(quantity)::int AS quantity
+     FROM cards
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY collection_id, ${MERGE_KEY_COLUMNS.join(', ')}
+     HAVING ${having.join(' AND ')}`,
+    values
+  );
+
+  for (const group of duplicates.rows) {
+    const [keptId, ...mergedIds] = group.ids;
+    await db.query('UPDATE cards SET quantity = $2 WHERE id = $1', [keptId, group.quantity]);
+    await db.query('UPDATE card_loans SET card_id = $1 WHERE card_id = ANY($2)', [keptId, mergedIds]);
+    await db.query('DELETE FROM cards WHERE id = ANY($1)', [mergedIds]);
+  }
+
+  return duplicates.rows;
+}
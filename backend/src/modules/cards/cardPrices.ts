@@ -0,0 +1,117 @@
+import { Card, CardFinish, ScryfallCard } from '../../types';
+
+/**
+ * Price columns stored on every card row
+ */
+export type CardPriceColumns = Pick<
+  Card,
+  'price_usd' | 'price_usd_foil' | 'price_usd_etched' | 'price_eur' | 'price_eur_foil'
+>;
+
+/**
+ * Parse a provider price string ("1.23") into a number, null when missing
+ */
+function parsePrice(value: string | null | undefined): number | null {
+  const price = parseFloat(value ?? '');
+  return Number.isFinite(price) ? price : null;
+}
+
+/**
+ * Extract the stored price columns from card data
+ *
+ * @param card - Card data from the collection's provider
+ * @returns One price per finish and currency
+ */
+export function cardPriceColumns(card: ScryfallCard): CardPriceColumns {
+  return {
+    price_usd: parsePrice(card.prices?.usd),
+    price_usd_foil: parsePrice(card.prices?.usd_foil),
+    price_usd_etched: parsePrice(card.prices?.usd_etched),
+    price_eur: parsePrice(card.prices?.eur),
+    price_eur_foil: parsePrice(card.prices?.eur_foil),
+  };
+}
+
+/**
+ * Finish assumed for a new copy when the request doesn't say
+ *
+ * Cards only printed in foil or etched default to that finish; everything
+ * else is non-foil.
+ */
+export function defaultFinish(card: ScryfallCard): CardFinish {
+  const finishes = card.finishes ?? [];
+  if (finishes.length > 0 && !finishes.includes(CardFinish.NONFOIL)) {
+    return finishes.includes(CardFinish.FOIL) ? CardFinish.FOIL : CardFinish.ETCHED;
+  }
+  if (finishes.length === 0 && !card.prices?.usd && card.prices?.usd_foil) {
+    return CardFinish.FOIL;
+  }
+  return CardFinish.NONFOIL;
+}
+
+/**
+ * USD price for a finish (no fallback between finishes)
+ */
+export function effectivePrice(prices: CardPriceColumns, finish: CardFinish): number | null {
+  switch (finish) {
+    case CardFinish.FOIL:
+      return prices.price_usd_foil;
+    case CardFinish.ETCHED:
+      return prices.price_usd_etched;
+    default:
+      return prices.price_usd;
+  }
+}
+
+/**
+ * Native EUR price for a finish (etched copies have none)
+ */
+export function effectivePriceEur(prices: CardPriceColumns, finish: CardFinish): number | null {
+  switch (finish) {
+    case CardFinish.FOIL:
+      return prices.price_eur_foil;
+    case CardFinish.ETCHED:
+      return null;
+    default:
+      return prices.price_eur;
+  }
+}
+
+/**
+ * Round a money amount to cents
+ */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * SQL expression for a card row's USD price given its finish
+ *
+ * No fallback between finishes: a copy whose finish has no price is unpriced.
+ *
+ * @param alias - Alias of the cards table in the query
+ * @param priceAlias - Alias of the table holding the price columns
+ *   (defaults to the cards table; card_price_history has the same columns)
+ */
+export function effectivePriceSql(alias: string, priceAlias: string = alias): string {
+  return `CASE ${alias}.finish
+    WHEN '${CardFinish.FOIL}' THEN ${priceAlias}.price_usd_foil
+    WHEN '${CardFinish.ETCHED}' THEN ${priceAlias}.price_usd_etched
+    ELSE ${priceAlias}.price_usd
+  END`;
+}
+
+/**
+ * SQL expression for a card row's native EUR price given its finish
+ *
+ * Etched copies have no EUR price. Callers convert the USD price when
+ * this is NULL.
+ *
+ * @param alias - Alias of the cards table in the query
+ */
+export function effectiveEurPriceSql(alias: string): string {
+  return `CASE ${alias}.finish
+    WHEN '${CardFinish.FOIL}' THEN ${alias}.price_eur_foil
+    WHEN '${CardFinish.NONFOIL}' THEN ${alias}.price_eur
+  END`;
+}
@@ -1,7 +1,7 @@
 import { Response } from 'express';
 import cardsService from './cards.service';
-import scryfallService from './scryfall.service';
-import { AuthenticatedRequest } from '../../types';
+import { getCardDataProvider } from './cardDataProvider';
+import { AuthenticatedRequest, TcgType } from '../../types';
 
 /**
  * Cards Controller
@@ -56,30 +56,47 @@ class CardsController {
 
   /**
    * POST /api/collections/:collectionId/cards
-   * Add card to collection
+   * Add card to collection (201, or 200 when merged into an identical row)
    */
   async addCard(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { collectionId } = req.params;
     const userId = req.user!.userId;
-    const { scryfall_id, owner_name, current_deck, is_borrowed, is_foil, quantity, set_code, set_name } = req.body;
+    const { scryfall_id, owner_id, deck_id, board, is_borrowed, finish, quantity, set_code, set_name } = req.body;
 
     const card = await cardsService.addCard(collectionId, userId, {
       scryfall_id,
-      owner_name,
-      current_deck,
+      owner_id,
+      deck_id,
+      board,
       is_borrowed,
-      is_foil,
+      finish,
       quantity,
       set_code,
       set_name,
     });
 
-    res.status(201).json({
+    res.status(card.merged ? 200 : 201).json({
       success: true,
       data: card,
     });
   }
 
+  /**
+   * POST /api/collections/:collectionId/cards/consolidate
+   * Merge duplicate card rows of a collection
+   */
+  async consolidateDuplicates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { collectionId } = req.params;
+    const userId = req.user!.userId;
+
+    const report = await cardsService.consolidateDuplicates(collectionId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  }
+
   /**
    * PATCH /api/cards/:id
    * Update card
@@ -87,13 +104,14 @@ class CardsController {
   async updateCard(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { id } = req.params;
     const userId = req.user!.userId;
-    const { owner_name, current_deck, is_borrowed, is_foil, quantity, set_code, set_name } = req.body;
+    const { owner_id, deck_id, board, is_borrowed, finish, quantity, set_code, set_name } = req.body;
 
     const card = await cardsService.updateCard(id, userId, {
-      owner_name,
-      current_deck,
+      owner_id,
+      deck_id,
+      board,
       is_borrowed,
-      is_foil,
+      finish,
       quantity,
       set_code,
       set_name,
@@ -122,15 +140,30 @@ class CardsController {
   }
 
   /**
-   * POST /api/collections/:collectionId/cards/import
-   * Import a deck list (bulk add cards by name)
+   * POST /api/cards/parse-deck-list
+   * Parse a deck list without importing it
+   */
+  async parseDeckList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { text } = req.body;
+
+    const result = cardsService.parseDeckList(text);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/collections/:collectionId/cards/import/preview
+   * Resolve a deck list without importing it
    */
-  async importDeckList(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async previewDeckImport(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { collectionId } = req.params;
     const userId = req.user!.userId;
-    const { entries, owner_name } = req.body;
+    const { text, entries } = req.body;
 
-    const result = await cardsService.importDeckList(collectionId, userId, entries, owner_name);
+    const result = await cardsService.previewDeckImport(collectionId, userId, text ?? entries);
 
     res.status(200).json({
       success: true,
@@ -140,10 +173,11 @@ class CardsController {
 
   /**
    * GET /api/cards/search
-   * Search cards via Scryfall
+   * Search cards with the provider for the requested TCG
    */
   async searchCards(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { q } = req.query;
+    const tcgType = (req.query.tcg_type as TcgType) || TcgType.MAGIC;
 
     if (!q || typeof q !== 'string') {
       res.status(400).json({
@@ -153,7 +187,7 @@ class CardsController {
       return;
     }
 
-    const results = await scryfallService.searchCards(q);
+    const results = await getCardDataProvider(tcgType).searchCards(q);
 
     res.status(200).json({
       success: true,
@@ -167,6 +201,7 @@ class CardsController {
    */
   async autocomplete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const { q } = req.query;
+    const tcgType = (req.query.tcg_type as TcgType) || TcgType.MAGIC;
 
     if (!q || typeof q !== 'string') {
       res.status(400).json({
@@ -176,13 +211,29 @@ class CardsController {
       return;
     }
 
-    const results = await scryfallService.autocomplete(q);
+    const results = await getCardDataProvider(tcgType).autocomplete(q);
 
     res.status(200).json({
       success: true,
       data: results,
     });
   }
+
+  /**
+   * GET /api/cards/printings
+   * Every printing of a card
+   */
+  async getPrintings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const name = req.query.name as string;
+    const tcgType = (req.query.tcg_type as TcgType) || TcgType.MAGIC;
+
+    const printings = await getCardDataProvider(tcgType).getPrintings(name);
+
+    res.status(200).json({
+      success: true,
+      data: printings,
+    });
+  }
 }
 
 export default new CardsController();
\ No newline at end of file
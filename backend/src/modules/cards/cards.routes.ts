@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import cardsController from './cards.controller';
+import pricesController from '../prices/prices.controller';
+import loansController from '../loans/loans.controller';
 import { authenticate } from '../../middleware/auth';
 import { validateRequest } from '../../middleware/validation';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { TcgType, CardFinish, DeckBoard, LoanDirection } from '../../types';
 
 const router = Router();
 
@@ -18,23 +21,39 @@ const router = Router();
  * 
  * Card Routes:
  * - GET    /api/cards/:id        - Get card
+ * - GET    /api/cards/:id/price-history - Daily price series
+ * - GET    /api/cards/:id/loans  - Loans of the card
+ * - POST   /api/cards/:id/loans  - Lend the card or record it borrowed
  * - PATCH  /api/cards/:id        - Update card
  * - DELETE /api/cards/:id        - Delete card
  * 
- * Scryfall Routes:
- * - GET    /api/cards/search     - Search Scryfall
+ * Card Data Routes (Scryfall, Pokémon TCG API... picked by tcg_type):
+ * - GET    /api/cards/search     - Search cards
  * - GET    /api/cards/autocomplete - Autocomplete
+ * - GET    /api/cards/printings  - Printings of a card
+ *
+ * Deck List Routes:
+ * - POST   /api/cards/parse-deck-list - Parse a deck list (import preview)
  */
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+/**
+ * Optional tcg_type query param shared by the card data routes (default: magic)
+ */
+const tcgTypeQuery = query('tcg_type')
+  .optional()
+  .isIn(Object.values(TcgType))
+  .withMessage('Tipo de TCG inválido (magic, pokemon, yugioh)');
+
 /**
  * GET /api/cards/search
- * Search cards via Scryfall
+ * Search cards
  * 
  * Query params:
  * - q: Search query
+ * - tcg_type: magic | pokemon | yugioh (optional, default magic)
  */
 router.get(
   '/search',
@@ -44,6 +63,7 @@ router.get(
       .withMessage('Parâmetro de busca "q" é obrigatório')
       .isString()
       .withMessage('Parâmetro de busca deve ser texto'),
+    tcgTypeQuery,
   ]),
   asyncHandler(cardsController.searchCards.bind(cardsController))
 );
@@ -54,6 +74,7 @@ router.get(
  * 
  * Query params:
  * - q: Partial card name
+ * - tcg_type: magic | pokemon | yugioh (optional, default magic)
  */
 router.get(
   '/autocomplete',
@@ -63,10 +84,49 @@ router.get(
       .withMessage('Parâmetro de busca "q" é obrigatório')
       .isString()
       .withMessage('Parâmetro de busca deve ser texto'),
+    tcgTypeQuery,
   ]),
   asyncHandler(cardsController.autocomplete.bind(cardsController))
 );
 
+/**
+ * GET /api/cards/printings
+ * Every printing of a card
+ * 
+ * Query params:
+ * - name: Exact card name
+ * - tcg_type: magic | pokemon | yugioh (optional, default magic)
+ */
+router.get(
+  '/printings',
+  validateRequest([
+    query('name')
+      .notEmpty()
+      .withMessage('Parâmetro "name" é obrigatório')
+      .isString()
+      .withMessage('Parâmetro "name" deve ser texto'),
+    tcgTypeQuery,
+  ]),
+  asyncHandler(cardsController.getPrintings.bind(cardsController))
+);
+
+/**
+ * POST /api/cards/parse-deck-list
+ * Parse a deck list without importing it, for the import preview
+ *
+ * Body:
+ * - text: Deck list text (Arena, MTGO, Moxfield or Archidekt syntax)
+ */
+router.post(
+  '/parse-deck-list',
+  validateRequest([
+    body('text')
+      .isString()
+      .withMessage('Lista de cartas deve ser texto'),
+  ]),
+  asyncHandler(cardsController.parseDeckList.bind(cardsController))
+);
+
 /**
  * GET /api/collections/:collectionId/cards
  * Get all cards in a collection
@@ -84,9 +144,10 @@ router.get(
  * Add card to collection
  * 
  * Body:
- * - scryfall_id: Scryfall card ID (required)
- * - owner_name: Physical card owner (required)
- * - current_deck: Deck assignment (optional)
+ * - scryfall_id: Card ID from the collection's card data provider (required)
+ * - owner_id: Owner of the physical card (required, see /api/owners)
+ * - deck_id: Deck the card is in (optional)
+ * - board: main | sideboard | commander (optional, default main)
  * - is_borrowed: Whether card is borrowed (optional, default false)
  */
 router.post(
@@ -98,25 +159,28 @@ router.post(
       .withMessage('ID do Scryfall é obrigatório')
       .isString()
       .withMessage('ID do Scryfall deve ser texto'),
-    body('owner_name')
-      .trim()
+    body('owner_id')
       .notEmpty()
-      .withMessage('Nome do proprietário é obrigatório')
-      .isLength({ max: 255 })
-      .withMessage('Nome deve ter no máximo 255 caracteres'),
-    body('current_deck')
-      .optional()
-      .trim()
-      .isLength({ max: 255 })
-      .withMessage('Nome do deck deve ter no máximo 255 caracteres'),
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
     body('is_borrowed')
       .optional()
       .isBoolean()
       .withMessage('is_borrowed deve ser booleano'),
-    body('is_foil')
+    body('board')
       .optional()
-      .isBoolean()
-      .withMessage('is_foil deve ser booleano'),
+      .isIn(Object.values(DeckBoard))
+      .withMessage('Seção do deck inválida (main, sideboard, commander)'),
+    body('finish')
+      .optional()
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
     body('quantity')
       .optional()
       .toInt()
@@ -148,38 +212,119 @@ router.get(
   asyncHandler(cardsController.getCardById.bind(cardsController))
 );
 
+/**
+ * GET /api/cards/:id/price-history
+ * Get a card's daily price series
+ *
+ * Query:
+ * - days: How many days back (default: 90)
+ */
+router.get(
+  '/:id/price-history',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da carta inválido'),
+    query('days')
+      .optional()
+      .isInt({ min: 1, max: 3650 })
+      .withMessage('days deve ser um número inteiro entre 1 e 3650'),
+  ]),
+  asyncHandler(pricesController.getCardPriceHistory.bind(pricesController))
+);
+
+/**
+ * GET /api/cards/:id/loans
+ * Get a card's loans, newest first
+ */
+router.get(
+  '/:id/loans',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da carta inválido'),
+  ]),
+  asyncHandler(loansController.getCardLoans.bind(loansController))
+);
+
+/**
+ * POST /api/cards/:id/loans
+ * Lend copies of a card to someone, or record copies borrowed from someone
+ * (a borrowed loan marks the card borrowed until it is returned)
+ *
+ * Body:
+ * - direction: lent | borrowed
+ * - counterparty: Who the cards were lent to or borrowed from
+ * - quantity: Copies on loan (optional, default 1; at most the copies not on loan)
+ * - start_date: YYYY-MM-DD (optional, default: today)
+ * - due_date: When they should come back, YYYY-MM-DD (optional)
+ * - notes: Free text (optional)
+ */
+router.post(
+  '/:id/loans',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da carta inválido'),
+    body('direction')
+      .isIn(Object.values(LoanDirection))
+      .withMessage('Tipo de empréstimo inválido (lent, borrowed)'),
+    body('counterparty')
+      .trim()
+      .notEmpty()
+      .withMessage('Nome de quem emprestou ou recebeu a carta é obrigatório')
+      .isLength({ max: 255 })
+      .withMessage('Nome deve ter no máximo 255 caracteres'),
+    body('quantity')
+      .optional()
+      .toInt()
+      .isInt({ min: 1 })
+      .withMessage('Quantidade deve ser um número inteiro positivo'),
+    body('start_date')
+      .optional()
+      .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+      .withMessage('Data de início inválida (YYYY-MM-DD)'),
+    body('due_date')
+      .optional({ values: 'null' })
+      .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+      .withMessage('Data de devolução prevista inválida (YYYY-MM-DD)'),
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Observações devem ser texto'),
+  ]),
+  asyncHandler(loansController.openLoan.bind(loansController))
+);
+
 /**
  * PATCH /api/cards/:id
  * Update card
  * 
  * Body (all optional):
- * - owner_name: New owner name
- * - current_deck: New deck assignment (null to remove)
+ * - owner_id: New owner
+ * - deck_id: New deck (null to remove from its deck)
+ * - board: main | sideboard | commander
  * - is_borrowed: New borrowed status
+ * - finish: nonfoil | foil | etched
  */
 router.patch(
   '/:id',
   validateRequest([
     param('id').isUUID().withMessage('ID da carta inválido'),
-    body('owner_name')
+    body('owner_id')
       .optional()
-      .trim()
-      .notEmpty()
-      .withMessage('Nome não pode ser vazio')
-      .isLength({ max: 255 })
-      .withMessage('Nome deve ter no máximo 255 caracteres'),
-    body('current_deck')
-      .optional()
-      .isLength({ max: 255 })
-      .withMessage('Nome do deck deve ter no máximo 255 caracteres'),
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
     body('is_borrowed')
       .optional()
       .isBoolean()
       .withMessage('is_borrowed deve ser booleano'),
-    body('is_foil')
+    body('board')
       .optional()
-      .isBoolean()
-      .withMessage('is_foil deve ser booleano'),
+      .isIn(Object.values(DeckBoard))
+      .withMessage('Seção do deck inválida (main, sideboard, commander)'),
+    body('finish')
+      .optional()
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
     body('quantity')
       .optional()
       .toInt()
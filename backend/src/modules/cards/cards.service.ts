@@ -1,13 +1,78 @@
+import { PoolClient } from 'pg';
 import pool from '../../config/database';
 import collectionsService from '../collections/collections.service';
+import decksService from '../decks/decks.service';
+import ownersService from '../owners/owners.service';
+import wishlistService from '../wishlist/wishlist.service';
 import scryfallService from './scryfall.service';
-import { Card, AddCardRequest, UpdateCardRequest, AppError, CardWithDetails } from '../../types';
+import { getCardDataProvider, getCardsWithFallback } from './cardDataProvider';
+import { cardPriceColumns, defaultFinish, effectivePrice, effectivePriceEur } from './cardPrices';
+import { DuplicateGroup, mergeDuplicateRows } from './cardDuplicates';
+import { parseDeckList } from './deckListParser';
+import { suggestCardNames } from './nameSuggestions';
+import { printingKey } from './catalog.service';
+import {
+  Card,
+  AddCardRequest,
+  UpdateCardRequest,
+  AppError,
+  CardFinish,
+  CardWithDetails,
+  ConsolidationReport,
+  CsvImportRow,
+  DeckBoard,
+  DeckImportCommitCard,
+  DeckImportPreview,
+  DeckImportPreviewEntry,
+  DeckListEntry,
+  ImportFailure,
+  ImportResult,
+  ParsedDeckList,
+  ResolvedDeckListEntry,
+  ScryfallCard,
+  TcgType,
+} from '../../types';
+
+/**
+ * One copy written by an import
+ */
+interface ImportedCopy {
+  owner: { id: string; name: string };
+  quantity: number;
+  /** Defaults to the printing's usual finish */
+  finish?: CardFinish | null;
+  /** Deck to put the copy in, and its section there */
+  deck?: { id: string; name: string } | null;
+  board?: DeckBoard;
+}
+
+/**
+ * A row to write to the cards table
+ */
+interface NewCardRow {
+  collectionId: string;
+  scryfallId: string;
+  /** Card name, to match wishlist items wanting any printing */
+  cardName: string;
+  ownerId: string;
+  deckId: string | null;
+  board: DeckBoard;
+  isBorrowed: boolean;
+  finish: CardFinish;
+  quantity: number;
+  setCode: string | null;
+  setName: string | null;
+  prices: ReturnType<typeof cardPriceColumns>;
+}
 
 /**
  * Cards Service
  *
  * Business logic layer for card management operations.
- * Handles CRUD operations, ownership validation, and Scryfall integration.
+ * Handles CRUD operations, ownership validation, and card data enrichment.
+ *
+ * Card data comes from the provider for the collection's TCG
+ * (Scryfall for Magic, Pokémon TCG API for Pokémon - see cardDataProvider.ts).
  */
 class CardsService {
   /**
@@ -24,11 +89,16 @@ class CardsService {
     offset = 0
   ): Promise<{ cards: CardWithDetails[]; total: number }> {
     // Verify collection ownership
-    await collectionsService.getCollectionById(collectionId, userId);
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+    const provider = getCardDataProvider(collection.tcg_type);
 
     const [result, countResult] = await Promise.all([
-      pool.query<Card>(
-        'SELECT * FROM cards WHERE collection_id = $1 ORDER BY added_at DESC LIMIT $2 OFFSET $3',
+      pool.query<Card & { owner_name: string; deck_name: string | null }>(
+        `SELECT ca.*, o.name AS owner_name, d.name AS deck_name FROM cards ca
+         INNER JOIN owners o ON o.id = ca.owner_id
+         LEFT JOIN decks d ON d.id = ca.deck_id
+         WHERE ca.collection_id = $1
+         ORDER BY ca.added_at DESC LIMIT $2 OFFSET $3`,
         [collectionId, limit, offset]
       ),
       pool.query<{ count: string }>(
@@ -39,18 +109,19 @@ class CardsService {
 
     const total = parseInt(countResult.rows[0].count, 10);
 
-    // Enrich cards with Scryfall data
-    const cards = await Promise.all(
-      result.rows.map(async (card) => {
-        try {
-          const scryfallData = await scryfallService.getCardById(card.scryfall_id);
-          return { ...card, scryfall_data: scryfallData };
-        } catch (error) {
-          console.warn(`Failed to fetch Scryfall data for card ${card.id}:`, error);
-          return { ...card, scryfall_data: null };
-        }
-      })
-    );
+    // Enrich cards with card data - one batch lookup for the whole page
+    let scryfallCards: Map<string, ScryfallCard>;
+    try {
+      scryfallCards = await provider.getCardsByIds(result.rows.map((card) => card.scryfall_id));
+    } catch (error) {
+      console.warn(`Failed to fetch card data for collection ${collectionId}:`, error);
+      scryfallCards = await provider.getStoredCards(result.rows.map((card) => card.scryfall_id));
+    }
+
+    const cards = result.rows.map((card) => ({
+      ...card,
+      scryfall_data: scryfallCards.get(card.scryfall_id) ?? null,
+    }));
 
     return { cards, total };
   }
@@ -63,9 +134,11 @@ class CardsService {
    * @returns Card with Scryfall details
    */
   async getCardById(cardId: string, userId: string): Promise<CardWithDetails> {
-    const result = await pool.query<Card>(
-      `SELECT c.* FROM cards c
+    const result = await pool.query<Card & { owner_name: string; deck_name: string | null; tcg_type: TcgType }>(
+      `SELECT c.*, o.name AS owner_name, d.name AS deck_name, col.tcg_type FROM cards c
        INNER JOIN collections col ON c.collection_id = col.id
+       INNER JOIN owners o ON o.id = c.owner_id
+       LEFT JOIN decks d ON d.id = c.deck_id
        WHERE c.id = $1 AND col.user_id = $2`,
       [cardId, userId]
     );
@@ -74,17 +147,17 @@ class CardsService {
       throw new AppError('Carta não encontrada', 404);
     }
 
-    const card = result.rows[0];
+    const { tcg_type: tcgType, ...card } = result.rows[0];
 
-    // Enrich with Scryfall data
+    // Enrich with card data
     try {
-      const scryfallData = await scryfallService.getCardById(card.scryfall_id);
+      const scryfallData = await getCardDataProvider(tcgType).getCardById(card.scryfall_id);
       return {
         ...card,
         scryfall_data: scryfallData,
       };
     } catch (error) {
-      console.warn(`Failed to fetch Scryfall data for card ${card.id}:`, error);
+      console.warn(`Failed to fetch card data for card ${card.id}:`, error);
       return {
         ...card,
         scryfall_data: null,
@@ -95,55 +168,127 @@ class CardsService {
   /**
    * Add a card to a collection
    *
+   * Copies identical to an existing row (same printing, finish, owner,
+   * deck section and borrowed status) are added to its quantity instead of
+   * creating another row.
+   *
    * @param collectionId - Collection ID
    * @param userId - User ID for ownership verification
-   * @param data - Card data (scryfall_id, owner_name, etc.)
-   * @returns Created card with Scryfall details
+   * @param data - Card data (scryfall_id, owner_id, etc.)
+   * @returns Created or merged card with Scryfall details
    */
   async addCard(
     collectionId: string,
     userId: string,
     data: AddCardRequest
-  ): Promise<CardWithDetails> {
-    // Debug logging
-    console.log('📝 Adding card with data:', JSON.stringify(data, null, 2));
-    console.log('📊 Quantity value:', data.quantity, 'Type:', typeof data.quantity);
-
+  ): Promise<CardWithDetails & { merged: boolean }> {
     // Verify collection ownership
-    await collectionsService.getCollectionById(collectionId, userId);
-
-    // Verify card exists in Scryfall
-    const scryfallData = await scryfallService.getCardById(data.scryfall_id);
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+
+    // The owner and deck must be the user's own
+    const owner = await ownersService.getOwnerById(data.owner_id, userId);
+    const deck = data.deck_id ? await decksService.getDeckById(data.deck_id, userId) : null;
+
+    // Verify the card exists for the collection's TCG
+    const scryfallData = await getCardDataProvider(collection.tcg_type).getCardById(data.scryfall_id);
+
+    const { card, merged } = await this.saveCard({
+      collectionId,
+      scryfallId: data.scryfall_id,
+      cardName: scryfallData.name,
+      ownerId: owner.id,
+      deckId: deck?.id ?? null,
+      board: data.board ?? DeckBoard.MAIN,
+      isBorrowed: data.is_borrowed || false,
+      finish: data.finish ?? defaultFinish(scryfallData),
+      quantity: data.quantity || 1,
+      setCode: data.set_code || scryfallData.set || null,
+      setName: data.set_name || scryfallData.set_name || null,
+      // Store every price; the finish decides which one counts
+      prices: cardPriceColumns(scryfallData),
+    });
 
-    // Extract USD price from Scryfall data
-    const priceUsd = parseFloat(scryfallData.prices?.usd || scryfallData.prices?.usd_foil || '0') || 0;
-
-    // Detect foil: if user didn't specify, default based on Scryfall prices
-    const isFoil = data.is_foil ?? (!scryfallData.prices?.usd && !!scryfallData.prices?.usd_foil);
+    return {
+      ...card,
+      owner_name: owner.name,
+      deck_name: deck?.name ?? null,
+      scryfall_data: scryfallData,
+      merged,
+    };
+  }
 
-    // Insert card
-    const result = await pool.query<Card>(
-      `INSERT INTO cards (collection_id, scryfall_id, owner_name, current_deck, is_borrowed, is_foil, quantity, set_code, set_name, price_usd)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+  /**
+   * Write a card row, or add its quantity to an identical row
+   *
+   * The oldest row matching on every merge key column (see
+   * MERGE_KEY_COLUMNS in cardDuplicates.ts) takes the copies; its prices stay the ones captured
+   * when it was added. Copies that are not borrowed count towards the
+   * user's matching wishlist items.
+   *
+   * @param db - Pool, or the client of an open transaction
+   * @returns Written row, and whether it was merged into an existing one
+   */
+  private async saveCard(
+    row: NewCardRow,
+    db: Pick<PoolClient, 'query'> = pool
+  ): Promise<{ card: Card; merged: boolean }> {
+    const existing = await db.query<Card>(
+      `UPDATE cards SET quantity = quantity + $8
+       WHERE id = (
+         SELECT id FROM cards
+         WHERE collection_id = $1 AND scryfall_id = $2 AND finish = $3 AND owner_id = $4
+           AND deck_id IS NOT DISTINCT FROM $5 AND board = $6 AND is_borrowed = $7
+         ORDER BY added_at, id
+         LIMIT 1
+         FOR UPDATE
+       )
        RETURNING *`,
-      [
-        collectionId,
-        data.scryfall_id,
-        data.owner_name,
-        data.current_deck || null,
-        data.is_borrowed || false,
-        isFoil,
-        data.quantity || 1,
-        data.set_code || scryfallData.set || null,
-        data.set_name || scryfallData.set_name || null,
-        priceUsd,
-      ]
+      [row.collectionId, row.scryfallId, row.finish, row.ownerId, row.deckId, row.board, row.isBorrowed, row.quantity]
     );
 
-    return {
-      ...result.rows[0],
-      scryfall_data: scryfallData,
-    };
+    let saved: { card: Card; merged: boolean };
+    if (existing.rows.length > 0) {
+      saved = { card: existing.rows[0], merged: true };
+    } else {
+      const result = await db.query<Card>(
+        `INSERT INTO cards (collection_id, scryfall_id, owner_id, deck_id, board, is_borrowed, finish, quantity, set_code,
+                            set_name, price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+         RETURNING *`,
+        [
+          row.collectionId,
+          row.scryfallId,
+          row.ownerId,
+          row.deckId,
+          row.board,
+          row.isBorrowed,
+          row.finish,
+          row.quantity,
+          row.setCode,
+          row.setName,
+          row.prices.price_usd,
+          row.prices.price_usd_foil,
+          row.prices.price_usd_etched,
+          row.prices.price_eur,
+          row.prices.price_eur_foil,
+        ]
+      );
+
+      saved = { card: result.rows[0], merged: false };
+    }
+
+    // Borrowed copies are not the user's, so they fulfil nothing
+    if (!row.isBorrowed) {
+      await wishlistService.recordAcquired({
+        collectionId: row.collectionId,
+        scryfallId: row.scryfallId,
+        name: row.cardName,
+        finish: row.finish,
+        quantity: row.quantity,
+      }, db);
+    }
+
+    return saved;
   }
 
   /**
@@ -166,14 +311,27 @@ class CardsService {
     const values: (string | number | boolean | null)[] = [];
     let paramIndex = 1;
 
-    if (data.owner_name !== undefined) {
-      updates.push(`owner_name = $${paramIndex++}`);
-      values.push(data.owner_name);
+    let ownerName = existingCard.owner_name;
+    if (data.owner_id !== undefined) {
+      // The owner must be one of the user's own
+      const owner = await ownersService.getOwnerById(data.owner_id, userId);
+      updates.push(`owner_id = $${paramIndex++}`);
+      values.push(owner.id);
+      ownerName = owner.name;
+    }
+
+    let deckName = existingCard.deck_name;
+    if (data.deck_id !== undefined) {
+      // A deck must be one of the user's own; null removes the card from its deck
+      const deck = data.deck_id ? await decksService.getDeckById(data.deck_id, userId) : null;
+      updates.push(`deck_id = $${paramIndex++}`);
+      values.push(deck?.id ?? null);
+      deckName = deck?.name ?? null;
     }
 
-    if (data.current_deck !== undefined) {
-      updates.push(`current_deck = $${paramIndex++}`);
-      values.push(data.current_deck || null);
+    if (data.board !== undefined) {
+      updates.push(`board = $${paramIndex++}`);
+      values.push(data.board);
     }
 
     if (data.is_borrowed !== undefined) {
@@ -181,9 +339,9 @@ class CardsService {
       values.push(data.is_borrowed);
     }
 
-    if (data.is_foil !== undefined) {
-      updates.push(`is_foil = $${paramIndex++}`);
-      values.push(data.is_foil);
+    if (data.finish !== undefined) {
+      updates.push(`finish = $${paramIndex++}`);
+      values.push(data.finish);
     }
 
     if (data.quantity !== undefined) {
@@ -214,6 +372,8 @@ class CardsService {
 
     return {
       ...result.rows[0],
+      owner_name: ownerName,
+      deck_name: deckName,
       scryfall_data: existingCard.scryfall_data,
     };
   }
@@ -232,53 +392,422 @@ class CardsService {
   }
 
   /**
-   * Import a deck list (bulk add cards by name)
+   * Merge a collection's duplicate rows (same printing, finish, owner, deck
+   * section and borrowed status) into the oldest row of each, adding up
+   * their quantities; loans of the merged rows move to the kept row
    *
    * @param collectionId - Collection ID
    * @param userId - User ID for ownership verification
-   * @param entries - Array of { name, quantity } parsed from deck list
-   * @param ownerName - Owner name for all imported cards
-   * @returns Imported cards and failed entries
+   * @returns Rows removed, and each card that absorbed them
    */
-  async importDeckList(
+  async consolidateDuplicates(collectionId: string, userId: string): Promise<ConsolidationReport> {
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+
+    const client = await pool.connect();
+    let groups: DuplicateGroup[];
+
+    try {
+      await client.query('BEGIN');
+      groups = await mergeDuplicateRows(client, { collectionId });
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Card names for the report
+    const cardData = await getCardsWithFallback(
+      groups.map((group) => ({ tcg_type: collection.tcg_type, scryfall_id: group.scryfall_id }))
+    );
+
+    const cards = groups.map(({ ids, ...group }) => ({
+      ...group,
+      card_id: ids[0],
+      merged_card_ids: ids.slice(1),
+      name: cardData.get(group.scryfall_id)?.name ?? null,
+    }));
+
+    return {
+      merged_rows: cards.reduce((sum, card) => sum + card.merged_card_ids.length, 0),
+      cards,
+    };
+  }
+
+  /**
+   * Write one imported card, optionally into a deck section (merged into
+   * an identical row when there is one, as in addCard)
+   *
+   * @param db - Pool, or the client of an open transaction
+   */
+  private async saveImportedCard(
     collectionId: string,
-    userId: string,
-    entries: { name: string; quantity: number }[],
-    ownerName: string
-  ): Promise<{ imported: CardWithDetails[]; failed: { name: string; reason: string }[] }> {
-    // Verify collection ownership
-    await collectionsService.getCollectionById(collectionId, userId);
+    scryfallData: ScryfallCard,
+    copy: ImportedCopy,
+    db: Pick<PoolClient, 'query'> = pool
+  ): Promise<CardWithDetails> {
+    const { card } = await this.saveCard({
+      collectionId,
+      scryfallId: scryfallData.id,
+      cardName: scryfallData.name,
+      ownerId: copy.owner.id,
+      deckId: copy.deck?.id ?? null,
+      board: copy.deck ? copy.board ?? DeckBoard.MAIN : DeckBoard.MAIN,
+      isBorrowed: false,
+      finish: copy.finish ?? defaultFinish(scryfallData),
+      quantity: copy.quantity,
+      setCode: scryfallData.set,
+      setName: scryfallData.set_name,
+      prices: cardPriceColumns(scryfallData),
+    }, db);
 
-    const imported: CardWithDetails[] = [];
-    const failed: { name: string; reason: string }[] = [];
+    return {
+      ...card,
+      owner_name: copy.owner.name,
+      deck_name: copy.deck?.name ?? null,
+      scryfall_data: scryfallData,
+    };
+  }
+
+  /**
+   * Parse a deck list without importing it (for previews)
+   *
+   * @param text - Deck list text (Arena, MTGO, Moxfield or Archidekt syntax)
+   * @returns Card entries with their section, and lines that were skipped
+   */
+  parseDeckList(text: string): ParsedDeckList {
+    return parseDeckList(text);
+  }
+
+  /**
+   * Resolve deck list entries to cards
+   *
+   * Entries with a set code are matched to that printing (and collector
+   * number, when given); a printing that does not exist fails the entry
+   * instead of falling back to another one. Entries without a set code are
+   * matched by name.
+   *
+   * @param tcgType - Collection's TCG
+   * @param entries - Parsed deck list entries
+   * @returns Card for each entry, or the reason it was not found
+   */
+  private async resolveDeckListEntries(
+    tcgType: TcgType,
+    entries: DeckListEntry[]
+  ): Promise<Map<DeckListEntry, ScryfallCard | string>> {
+    const provider = getCardDataProvider(tcgType);
+    const resolved = new Map<DeckListEntry, ScryfallCard | string>();
+
+    // Exact Magic printings resolve in one batch
+    const batchPrinting = (entry: DeckListEntry) =>
+      tcgType === TcgType.MAGIC && Boolean(entry.set_code && entry.collector_number);
+
+    const byPrinting = await scryfallService.getCardsByPrintings(
+      entries.filter(batchPrinting).map((entry) => ({ set: entry.set_code!, collector_number: entry.collector_number! }))
+    );
+    const byName = await provider.getCardsByNames(
+      entries.filter((entry) => !entry.set_code).map((entry) => entry.name)
+    );
+    const printings = new Map<string, ScryfallCard[]>();
 
     for (const entry of entries) {
-      try {
-        const scryfallData = await scryfallService.getCardByName(entry.name);
-        const priceUsd = parseFloat(scryfallData.prices?.usd || scryfallData.prices?.usd_foil || '0') || 0;
-
-        const result = await pool.query<Card>(
-          `INSERT INTO cards (collection_id, scryfall_id, owner_name, quantity, set_code, set_name, price_usd)
-           VALUES ($1, $2, $3, $4, $5, $6, $7)
-           RETURNING *`,
-          [
-            collectionId,
-            scryfallData.id,
-            ownerName,
-            entry.quantity,
-            scryfallData.set,
-            scryfallData.set_name,
-            priceUsd,
-          ]
+      const printingLabel = [entry.set_code?.toUpperCase(), entry.collector_number].filter(Boolean).join(' ');
+
+      if (!entry.set_code) {
+        resolved.set(entry, byName.get(entry.name.trim().toLowerCase()) ?? 'Carta não encontrada');
+      } else if (batchPrinting(entry)) {
+        resolved.set(
+          entry,
+          byPrinting.get(printingKey(entry.set_code, entry.collector_number!)) ??
+            `Impressão não encontrada (${printingLabel})`
+        );
+      } else {
+        // Set code only (or another TCG): pick the printing among the card's
+        const key = entry.name.trim().toLowerCase();
+        if (!printings.has(key)) {
+          printings.set(key, await provider.getPrintings(entry.name).catch(() => []));
+        }
+
+        const match = printings.get(key)!.find((printing) =>
+          printing.set.toLowerCase() === entry.set_code &&
+          (!entry.collector_number || printing.collector_number === entry.collector_number)
         );
+        resolved.set(
+          entry,
+          match ?? (printings.get(key)!.length ? `Impressão não encontrada (${printingLabel})` : 'Carta não encontrada')
+        );
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve deck list entries, splitting them into cards found and failures
+   *
+   * @param tcgType - Collection's TCG
+   * @param entries - Parsed deck list entries
+   * @returns Entries with their card, and entries that were not found
+   */
+  async resolveDeckList(
+    tcgType: TcgType,
+    entries: DeckListEntry[]
+  ): Promise<{ resolved: ResolvedDeckListEntry[]; failed: ImportFailure[] }> {
+    const cards = await this.resolveDeckListEntries(tcgType, entries);
+    const resolved: ResolvedDeckListEntry[] = [];
+    const failed: ImportFailure[] = [];
+
+    for (const entry of entries) {
+      const card = cards.get(entry)!;
+      if (typeof card === 'string') {
+        failed.push({ name: entry.name, line: entry.line, reason: card });
+      } else {
+        resolved.push({ entry, card });
+      }
+    }
+
+    return { resolved, failed };
+  }
+
+  /**
+   * Write deck list entries already resolved to cards
+   *
+   * Database errors are thrown, so a caller holding a transaction rolls
+   * back the whole import.
+   *
+   * @param collectionId - Collection ID
+   * @param resolved - Entries with their card (see resolveDeckList)
+   * @param owner - Owner of all imported cards
+   * @param deck - Deck to put the cards in (optional)
+   * @param db - Pool, or the client of an open transaction
+   * @returns Imported cards (failed is always empty)
+   */
+  async importResolvedEntries(
+    collectionId: string,
+    resolved: ResolvedDeckListEntry[],
+    owner: { id: string; name: string },
+    deck: { id: string; name: string } | null = null,
+    db: Pick<PoolClient, 'query'> = pool
+  ): Promise<ImportResult> {
+    const imported: CardWithDetails[] = [];
+
+    for (const { entry, card } of resolved) {
+      imported.push(await this.saveImportedCard(collectionId, card, {
+        owner,
+        quantity: entry.quantity,
+        finish: entry.finish,
+        deck,
+        board: entry.board,
+      }, db));
+    }
+
+    return { imported, failed: [] };
+  }
+
+  /**
+   * Resolve a deck list without importing anything (dry run)
+   *
+   * Each entry gets the printing that would be imported and its price for
+   * the entry's finish. Entries whose name is not found get up to five
+   * close card names from the provider's autocomplete, so the user can fix
+   * them and preview again before committing (see importReviewedCards).
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param source - Deck list text, or entries already parsed (and corrected)
+   * @returns Resolved entries, and lines that were skipped
+   */
+  async previewDeckImport(
+    collectionId: string,
+    userId: string,
+    source: string | Partial<DeckListEntry>[]
+  ): Promise<DeckImportPreview> {
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+    const provider = getCardDataProvider(collection.tcg_type);
+
+    const parsed: ParsedDeckList = typeof source === 'string'
+      ? parseDeckList(source)
+      : {
+          entries: source.map((entry, index) => ({
+            line: entry.line ?? index + 1,
+            name: entry.name!.trim(),
+            quantity: entry.quantity ?? 1,
+            set_code: entry.set_code?.trim().toLowerCase() || null,
+            collector_number: entry.collector_number?.trim() || null,
+            finish: entry.finish ?? null,
+            board: entry.board ?? DeckBoard.MAIN,
+          })),
+          errors: [],
+        };
+    if (parsed.entries.length === 0) {
+      throw new AppError('Nenhuma carta encontrada na lista', 400);
+    }
+
+    const resolved = await this.resolveDeckListEntries(collection.tcg_type, parsed.entries);
+    const suggestions = new Map<string, string[]>();
+    const entries: DeckImportPreviewEntry[] = [];
+
+    for (const entry of parsed.entries) {
+      const card = resolved.get(entry)!;
+
+      if (typeof card === 'string') {
+        const key = entry.name.toLowerCase();
+        if (!entry.set_code && !suggestions.has(key)) {
+          suggestions.set(key, await suggestCardNames(
+            entry.name,
+            async (query) => (await provider.autocomplete(query)).data
+          ));
+        }
+
+        entries.push({
+          ...entry,
+          card: null,
+          price_usd: null,
+          price_eur: null,
+          reason: card,
+          suggestions: suggestions.get(key) ?? [],
+        });
+        continue;
+      }
+
+      const finish = entry.finish ?? defaultFinish(card);
+      const prices = cardPriceColumns(card);
+      entries.push({
+        ...entry,
+        finish,
+        card,
+        price_usd: effectivePrice(prices, finish),
+        price_eur: effectivePriceEur(prices, finish),
+        reason: null,
+        suggestions: [],
+      });
+    }
+
+    return { entries, errors: parsed.errors };
+  }
+
+  /**
+   * Look up the printings of reviewed import preview rows
+   *
+   * Import jobs call this before opening the transaction that writes the
+   * rows, so it never waits on the provider.
+   *
+   * @param tcgType - Collection's TCG
+   * @param cards - Reviewed rows
+   * @returns Card of each printing, by ID
+   * @throws AppError 404 if a printing is not found
+   */
+  async resolveReviewedCards(tcgType: TcgType, cards: DeckImportCommitCard[]): Promise<Map<string, ScryfallCard>> {
+    const found = await getCardDataProvider(tcgType).getCardsByIds(cards.map((card) => card.scryfall_id));
+    const missing = cards.filter((card) => !found.has(card.scryfall_id)).map((card) => card.scryfall_id);
+    if (missing.length > 0) {
+      throw new AppError(`Cartas não encontradas: ${[...new Set(missing)].join(', ')}`, 404);
+    }
+
+    return found;
+  }
+
+  /**
+   * Import a batch of reviewed import preview rows
+   *
+   * Import jobs pass the client of the transaction that holds the whole
+   * import, so a failed batch rolls back the earlier ones too.
+   *
+   * @param collectionId - Collection ID
+   * @param cards - Printing, quantity, finish and deck section of each row
+   * @param found - Card of each printing (see resolveReviewedCards)
+   * @param owner - Owner of all imported cards
+   * @param deck - Deck to put the cards in (optional)
+   * @param db - Pool, or the client of an open transaction
+   * @returns Imported cards (failed is always empty)
+   */
+  async importReviewedCards(
+    collectionId: string,
+    cards: DeckImportCommitCard[],
+    found: Map<string, ScryfallCard>,
+    owner: { id: string; name: string },
+    deck: { id: string; name: string } | null = null,
+    db: Pick<PoolClient, 'query'> = pool
+  ): Promise<ImportResult> {
+    const imported: CardWithDetails[] = [];
+    for (const card of cards) {
+      imported.push(await this.saveImportedCard(collectionId, found.get(card.scryfall_id)!, {
+        owner,
+        quantity: card.quantity,
+        finish: card.finish,
+        deck,
+        board: card.board,
+      }, db));
+    }
+
+    return { imported, failed: [] };
+  }
+
+  /**
+   * Import a batch of rows from a collection CSV exported by Moxfield,
+   * Deckbox, TCGplayer, Delver Lens or ManaBox (see csvImport)
+   *
+   * Each row is resolved to an exact printing: by Scryfall ID when the
+   * export has one, else by set code and collector number. Rows without
+   * either are matched by name. A row whose printing is not found fails
+   * instead of falling back to another printing.
+   *
+   * @param collectionId - Collection ID (Magic only)
+   * @param rows - Parsed CSV rows
+   * @param owner - Owner of all imported cards
+   * @returns Imported cards and failed rows
+   */
+  async importCsvRows(
+    collectionId: string,
+    rows: CsvImportRow[],
+    owner: { id: string; name: string }
+  ): Promise<ImportResult> {
+    const result: ImportResult = { imported: [], failed: [] };
+
+    const hasPrinting = (row: CsvImportRow) => Boolean(row.set_code && row.collector_number);
+
+    // Resolve IDs, then printings, then names - each in batches
+    const byId = await scryfallService.getCardsByIds(
+      rows.flatMap((row) => (row.scryfall_id ? [row.scryfall_id] : []))
+    );
+    const byPrinting = await scryfallService.getCardsByPrintings(
+      rows
+        .filter((row) => hasPrinting(row) && !byId.has(row.scryfall_id ?? ''))
+        .map((row) => ({ set: row.set_code!, collector_number: row.collector_number! }))
+    );
+    const byName = await scryfallService.getCardsByNames(
+      rows.filter((row) => !row.scryfall_id && !hasPrinting(row)).map((row) => row.name)
+    );
 
-        imported.push({ ...result.rows[0], scryfall_data: scryfallData });
+    for (const row of rows) {
+      const scryfallData = (row.scryfall_id ? byId.get(row.scryfall_id) : undefined) ??
+        (hasPrinting(row) ? byPrinting.get(printingKey(row.set_code!, row.collector_number!)) : undefined) ??
+        (!row.scryfall_id && !hasPrinting(row) ? byName.get(row.name.toLowerCase()) : undefined);
+
+      if (!scryfallData) {
+        result.failed.push({
+          name: row.name,
+          line: row.line,
+          reason: hasPrinting(row)
+            ? `Impressão não encontrada (${row.set_code!.toUpperCase()} ${row.collector_number})`
+            : 'Carta não encontrada',
+        });
+        continue;
+      }
+
+      try {
+        result.imported.push(await this.saveImportedCard(collectionId, scryfallData, {
+          owner,
+          quantity: row.quantity,
+          finish: row.finish,
+        }));
       } catch (error: any) {
-        failed.push({ name: entry.name, reason: error.message || 'Card not found' });
+        result.failed.push({ name: row.name, line: row.line, reason: error.message || 'Card not found' });
       }
     }
 
-    return { imported, failed };
+    return result;
   }
 }
 
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import pool from '../../config/database';
+import { readJsonArray } from './bulkData.reader';
+import {
+  ScryfallCard,
+  ScryfallSearchResponse,
+  ScryfallAutocompleteResponse,
+  AppError,
+} from '../../types';
+
+/**
+ * Rows written per INSERT while importing a bulk-data file
+ */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Scryfall's search endpoint returns at most 175 cards per page
+ */
+const SEARCH_PAGE_SIZE = 175;
+
+/**
+ * Bulk-data card object (only the fields the importer reads)
+ */
+interface BulkCard extends ScryfallCard {
+  object?: string;
+  oracle_id?: string;
+  collector_number?: string;
+  released_at?: string;
+  digital?: boolean;
+}
+
+/**
+ * Escape LIKE/ILIKE wildcards in user input
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Map key for a printing, by set code and collector number (shared with
+ * the Scryfall service's printing lookups)
+ */
+export function printingKey(setCode: string, collectorNumber: string): string {
+  return `${setCode.trim().toLowerCase()}|${collectorNumber.trim()}`;
+}
+
+/**
+ * Offline Card Catalog Service
+ *
+ * Local copy of Scryfall's card database, loaded from a downloaded
+ * `default_cards` bulk-data file (https://scryfall.com/docs/api/bulk-data).
+ *
+ * When CARD_DATA_SOURCE=offline, ScryfallService answers searches,
+ * autocomplete and card lookups from this catalog so the app keeps
+ * working without internet access.
+ *
+ * Import with: npm run import:catalog -- path/to/default-cards.json
+ */
+class CatalogService {
+  /**
+   * Import a Scryfall bulk-data file into the card_catalog table
+   *
+   * The file is streamed and written in batches, so memory use stays flat
+   * regardless of file size. Existing rows are updated in place.
+   * Digital-only printings (Arena/MTGO) are skipped.
+   *
+   * @param filePath - Path to a default_cards (or all_cards) JSON file
+   * @param onProgress - Called after each batch with the running totals
+   * @returns Number of imported and skipped entries
+   */
+  async importBulkData(
+    filePath: string,
+    onProgress?: (imported: number, skipped: number) => void
+  ): Promise<{ imported: number; skipped: number }> {
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    let batch: BulkCard[] = [];
+    let imported = 0;
+    let skipped = 0;
+
+    for await (const card of readJsonArray<BulkCard>(stream)) {
+      if ((card.object && card.object !== 'card') || card.digital || !card.id || !card.name) {
+        skipped++;
+        continue;
+      }
+
+      batch.push(card);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await this.upsertCards(batch);
+        imported += batch.length;
+        batch = [];
+        onProgress?.(imported, skipped);
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.upsertCards(batch);
+      imported += batch.length;
+      onProgress?.(imported, skipped);
+    }
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Upsert a batch of bulk-data cards
+   */
+  private async upsertCards(cards: BulkCard[]): Promise<void> {
+    const unique = new Map(cards.map((card) => [card.id, card]));
+
+    await pool.query(
+      `INSERT INTO card_catalog (id, oracle_id, name, set_code, collector_number, released_at, data, imported_at)
+       SELECT c->>'id', c->>'oracle_id', c->>'name', c->>'set', c->>'collector_number',
+              (c->>'released_at')::date, c, CURRENT_TIMESTAMP
+       FROM jsonb_array_elements($1::jsonb) AS c
+       ON CONFLICT (id) DO UPDATE
+         SET oracle_id = EXCLUDED.oracle_id,
+             name = EXCLUDED.name,
+             set_code = EXCLUDED.set_code,
+             collector_number = EXCLUDED.collector_number,
+             released_at = EXCLUDED.released_at,
+             data = EXCLUDED.data,
+             imported_at = EXCLUDED.imported_at`,
+      [JSON.stringify(Array.from(unique.values()))]
+    );
+  }
+
+  /**
+   * Search the catalog
+   *
+   * Supports the two query shapes the app sends:
+   * - plain text: cards whose name contains the text (one printing per card)
+   * - `!"Exact Name" unique:prints`: every printing of one card
+   *
+   * @param query - Search query
+   * @returns Search results in Scryfall's list format
+   */
+  async searchCards(query: string): Promise<ScryfallSearchResponse> {
+    const uniquePrints = /\bunique:prints\b/i.test(query);
+    const exactMatch = query.match(/!"([^"]+)"/);
+    const text = query.replace(/!"[^"]+"/, '').replace(/\bunique:\w+\b/gi, '').trim();
+
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (exactMatch) {
+      values.push(exactMatch[1]);
+      conditions.push(`(LOWER(name) = LOWER($${values.length}) OR LOWER(split_part(name, ' // ', 1)) = LOWER($${values.length}))`);
+    }
+    if (text) {
+      values.push(`%${escapeLike(text)}%`);
+      conditions.push(`name ILIKE $${values.length}`);
+    }
+    if (conditions.length === 0) {
+      return { object: 'list', total_cards: 0, has_more: false, data: [] };
+    }
+
+    const where = conditions.join(' AND ');
+    const sql = uniquePrints
+      ? `SELECT data FROM card_catalog WHERE ${where}
+         ORDER BY released_at DESC NULLS LAST, set_code, collector_number
+         LIMIT ${SEARCH_PAGE_SIZE + 1}`
+      : `SELECT data FROM (
+           SELECT DISTINCT ON (COALESCE(oracle_id, id)) data, name
+           FROM card_catalog WHERE ${where}
+           ORDER BY COALESCE(oracle_id, id), released_at DESC NULLS LAST
+         ) latest
+         ORDER BY name
+         LIMIT ${SEARCH_PAGE_SIZE + 1}`;
+
+    const result = await pool.query<{ data: ScryfallCard }>(sql, values);
+    const hasMore = result.rows.length > SEARCH_PAGE_SIZE;
+    const data = result.rows.slice(0, SEARCH_PAGE_SIZE).map((row) => row.data);
+
+    return {
+      object: 'list',
+      total_cards: data.length,
+      has_more: hasMore,
+      data,
+    };
+  }
+
+  /**
+   * Autocomplete card names from the catalog
+   *
+   * @param query - Partial card name
+   * @returns Up to 20 names starting with the query
+   */
+  async autocomplete(query: string): Promise<ScryfallAutocompleteResponse> {
+    const result = await pool.query<{ name: string }>(
+      `SELECT DISTINCT name FROM card_catalog
+       WHERE name ILIKE $1
+       ORDER BY name
+       LIMIT 20`,
+      [`${escapeLike(query.trim())}%`]
+    );
+
+    return {
+      object: 'catalog',
+      total_values: result.rows.length,
+      data: result.rows.map((row) => row.name),
+    };
+  }
+
+  /**
+   * Get a printing by Scryfall ID
+   *
+   * @param scryfallId - Scryfall card ID
+   * @returns Card data
+   * @throws AppError if the card is not in the catalog
+   */
+  async getCardById(scryfallId: string): Promise<ScryfallCard> {
+    const result = await pool.query<{ data: ScryfallCard }>(
+      'SELECT data FROM card_catalog WHERE id = $1',
+      [scryfallId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Carta não encontrada no catálogo local', 404);
+    }
+
+    return result.rows[0].data;
+  }
+
+  /**
+   * Get the most recent printing of a card by exact name
+   *
+   * The front face name of double-faced cards also matches.
+   *
+   * @param name - Exact card name
+   * @returns Card data
+   * @throws AppError if no card has that name
+   */
+  async getCardByName(name: string): Promise<ScryfallCard> {
+    const cards = await this.getCardsByNames([name]);
+    const card = cards.get(name.trim().toLowerCase());
+
+    if (!card) {
+      throw new AppError('Carta não encontrada no catálogo local', 404);
+    }
+
+    return card;
+  }
+
+  /**
+   * Get many printings by Scryfall ID
+   *
+   * @param scryfallIds - Scryfall card IDs (duplicates allowed)
+   * @returns Map of Scryfall ID to card data
+   */
+  async getCardsByIds(scryfallIds: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const uniqueIds = Array.from(new Set(scryfallIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return cards;
+
+    const result = await pool.query<{ id: string; data: ScryfallCard }>(
+      'SELECT id, data FROM card_catalog WHERE id = ANY($1)',
+      [uniqueIds]
+    );
+    for (const row of result.rows) {
+      cards.set(row.id, row.data);
+    }
+
+    return cards;
+  }
+
+  /**
+   * Get many printings by set code and collector number
+   *
+   * @param printings - Set codes and collector numbers (duplicates allowed)
+   * @returns Map of printingKey() to card data
+   */
+  async getCardsByPrintings(
+    printings: { set: string; collector_number: string }[]
+  ): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    if (printings.length === 0) return cards;
+
+    const result = await pool.query<{ data: ScryfallCard }>(
+      `SELECT data FROM card_catalog
+       WHERE (set_code, collector_number) IN (SELECT * FROM unnest($1::text[], $2::text[]))`,
+      [
+        printings.map((printing) => printing.set.trim().toLowerCase()),
+        printings.map((printing) => printing.collector_number.trim()),
+      ]
+    );
+    for (const row of result.rows) {
+      cards.set(printingKey(row.data.set, row.data.collector_number ?? ''), row.data);
+    }
+
+    return cards;
+  }
+
+  /**
+   * Get the most recent printing for many exact names
+   *
+   * @param names - Exact card names (duplicates allowed)
+   * @returns Map of lowercased requested name to card data
+   */
+  async getCardsByNames(names: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const keys = Array.from(new Set(names.map((name) => name.trim().toLowerCase()).filter(Boolean)));
+    if (keys.length === 0) return cards;
+
+    const result = await pool.query<{ key: string; data: ScryfallCard }>(
+      `SELECT DISTINCT ON (key) key, data FROM (
+         SELECT LOWER(name) AS key, data, released_at FROM card_catalog WHERE LOWER(name) = ANY($1)
+         UNION ALL
+         SELECT LOWER(split_part(name, ' // ', 1)) AS key, data, released_at FROM card_catalog
+         WHERE name LIKE '% // %' AND LOWER(split_part(name, ' // ', 1)) = ANY($1)
+       ) matches
+       ORDER BY key, released_at DESC NULLS LAST`,
+      [keys]
+    );
+    for (const row of result.rows) {
+      cards.set(row.key, row.data);
+    }
+
+    return cards;
+  }
+}
+
+export default new CatalogService();
@@ -0,0 +1,250 @@
+import { AppError, CardFinish, CsvImportFormat, CsvImportRow, ImportFailure } from '../../types';
+
+/**
+ * Row fields read from a CSV export
+ */
+type CsvField = 'quantity' | 'name' | 'set_code' | 'set_name' | 'collector_number' | 'foil' | 'scryfall_id';
+
+/**
+ * Header layout of one app's export
+ */
+interface CsvLayout {
+  /** Header sets that identify the export (any one of them, all headers in it) */
+  signatures: string[][];
+  /** Headers read for each field, first present one wins (lowercased) */
+  columns: Partial<Record<CsvField, string[]>>;
+}
+
+/**
+ * Known exports, in detection order: the most specific signatures first,
+ * since Moxfield and Deckbox share most of their headers
+ */
+const LAYOUTS: [CsvImportFormat, CsvLayout][] = [
+  [CsvImportFormat.MANABOX, {
+    signatures: [['manabox id']],
+    columns: {
+      quantity: ['quantity'],
+      name: ['name'],
+      set_code: ['set code'],
+      set_name: ['set name'],
+      collector_number: ['collector number'],
+      foil: ['foil'],
+      scryfall_id: ['scryfall id'],
+    },
+  }],
+  [CsvImportFormat.TCGPLAYER, {
+    signatures: [['simple name'], ['product id', 'set code']],
+    columns: {
+      quantity: ['quantity'],
+      // "Name" carries variant notes such as "(Borderless)"
+      name: ['simple name', 'name'],
+      set_code: ['set code'],
+      set_name: ['set'],
+      collector_number: ['card number'],
+      foil: ['printing'],
+    },
+  }],
+  [CsvImportFormat.DELVER_LENS, {
+    signatures: [["collector's number"]],
+    columns: {
+      quantity: ['quantity'],
+      name: ['name'],
+      set_code: ['edition code', 'set code'],
+      set_name: ['edition'],
+      collector_number: ["collector's number"],
+      foil: ['foil'],
+      scryfall_id: ['scryfall id'],
+    },
+  }],
+  [CsvImportFormat.DECKBOX, {
+    signatures: [['count', 'card number'], ['count', 'printing id']],
+    columns: {
+      quantity: ['count'],
+      name: ['name'],
+      set_code: ['edition code'],
+      set_name: ['edition'],
+      collector_number: ['card number'],
+      foil: ['foil'],
+    },
+  }],
+  [CsvImportFormat.MOXFIELD, {
+    signatures: [['count', 'name', 'edition']],
+    columns: {
+      quantity: ['count'],
+      name: ['name'],
+      set_code: ['edition'],
+      collector_number: ['collector number'],
+      foil: ['foil'],
+    },
+  }],
+];
+
+/**
+ * Split CSV text into rows of fields
+ *
+ * Handles quoted fields (with "" escapes and line breaks), CRLF line
+ * endings and a leading byte order mark. Blank lines are dropped.
+ *
+ * @param text - CSV text
+ * @param delimiter - Field separator
+ * @returns Rows with their 1-based line number
+ */
+export function parseCsv(text: string, delimiter = ','): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== '')) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Field separator of a CSV file: whichever of comma, semicolon or tab
+ * appears most in its first line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map((delimiter) => [delimiter, firstLine.split(delimiter).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+/**
+ * Identify an export from its header row
+ *
+ * @param headers - Header row
+ * @returns Detected format, or null if no known export matches
+ */
+export function detectCsvFormat(headers: string[]): CsvImportFormat | null {
+  const present = new Set(headers.map((header) => header.trim().toLowerCase()));
+
+  const match = LAYOUTS.find(([, layout]) =>
+    layout.signatures.some((signature) => signature.every((header) => present.has(header)))
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Read a finish from a foil column ("foil", "etched", "Foil", "Normal", "true"...)
+ */
+function parseFinish(value: string): CardFinish | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+  if (normalized.includes('etched')) return CardFinish.ETCHED;
+  if (normalized.includes('foil') || normalized === 'true' || normalized === 'yes' || normalized === '1') {
+    return CardFinish.FOIL;
+  }
+  return CardFinish.NONFOIL;
+}
+
+/**
+ * Parse a collection CSV exported by Moxfield, Deckbox, TCGplayer, Delver
+ * Lens or ManaBox (our own Moxfield-compatible export also works)
+ *
+ * Rows with an invalid quantity are reported instead of imported. A foil
+ * column that is empty leaves the finish to the printing's default.
+ *
+ * @param text - CSV text
+ * @param format - Export format; detected from the header row when omitted
+ * @returns Format, card rows and rows that could not be read
+ * @throws AppError 400 if the file is empty or its format is not recognized
+ */
+export function parseCollectionCsv(
+  text: string,
+  format?: CsvImportFormat
+): { format: CsvImportFormat; rows: CsvImportRow[]; errors: ImportFailure[] } {
+  const [header, ...records] = parseCsv(text, detectDelimiter(text));
+  if (!header || records.length === 0) {
+    throw new AppError('Arquivo CSV vazio', 400);
+  }
+
+  const detected = format ?? detectCsvFormat(header.fields);
+  if (!detected) {
+    throw new AppError('Formato de CSV não reconhecido (Moxfield, Deckbox, TCGplayer, Delver Lens, ManaBox)', 400);
+  }
+
+  const headers = header.fields.map((value) => value.trim().toLowerCase());
+  const { columns } = LAYOUTS.find(([layoutFormat]) => layoutFormat === detected)![1];
+  const indexes = Object.fromEntries(
+    Object.entries(columns).map(([field, names]) => [
+      field,
+      names.map((name) => headers.indexOf(name)).find((index) => index >= 0) ?? -1,
+    ])
+  ) as Partial<Record<CsvField, number>>;
+
+  if ((indexes.name ?? -1) < 0) {
+    throw new AppError('Coluna de nome da carta não encontrada no CSV', 400);
+  }
+
+  const rows: CsvImportRow[] = [];
+  const errors: ImportFailure[] = [];
+
+  for (const { line, fields } of records) {
+    const read = (field: CsvField) => {
+      const index = indexes[field] ?? -1;
+      return index >= 0 ? (fields[index] ?? '').trim() : '';
+    };
+
+    const name = read('name');
+    if (!name) continue;
+
+    const rawQuantity = read('quantity');
+    const quantity = rawQuantity ? Number(rawQuantity) : 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push({ name, line, reason: `Quantidade inválida: ${rawQuantity}` });
+      continue;
+    }
+
+    rows.push({
+      line,
+      name,
+      quantity,
+      set_code: read('set_code').toLowerCase() || null,
+      set_name: read('set_name') || null,
+      collector_number: read('collector_number') || null,
+      finish: parseFinish(read('foil')),
+      scryfall_id: read('scryfall_id') || null,
+    });
+  }
+
+  return { format: detected, rows, errors };
+}
@@ -0,0 +1,183 @@
+import { CardFinish, DeckBoard, DeckListEntry, ImportFailure, ParsedDeckList } from '../../types';
+
+/**
+ * Section headers, by lowercased name. null marks sections that are not
+ * part of the deck (their cards are skipped).
+ */
+const SECTION_HEADERS: Record<string, DeckBoard | null> = {
+  deck: DeckBoard.MAIN,
+  main: DeckBoard.MAIN,
+  mainboard: DeckBoard.MAIN,
+  maindeck: DeckBoard.MAIN,
+  sideboard: DeckBoard.SIDEBOARD,
+  side: DeckBoard.SIDEBOARD,
+  // Arena lists the companion apart; it is played from the sideboard
+  companion: DeckBoard.SIDEBOARD,
+  commander: DeckBoard.COMMANDER,
+  commanders: DeckBoard.COMMANDER,
+  maybeboard: null,
+  considering: null,
+  tokens: null,
+};
+
+/**
+ * Section header line: "Sideboard", "Commander:", "// Sideboard",
+ * "SIDEBOARD (15)"
+ */
+const HEADER_PATTERN = /^(?:\/\/\s*)?([a-z]+)\s*(?:\(\d+\))?\s*:?$/i;
+
+/**
+ * Card line: optional quantity ("4", "4x"), then the rest
+ */
+const QUANTITY_PATTERN = /^(\d+)\s*[xX]?\s+(.+)$/;
+
+/**
+ * Foil markers: Moxfield/Archidekt "*F*" and "*E*", also "*Foil*" and
+ * "*Etched*"
+ */
+const FINISH_PATTERN = /\s*\*(f|foil|e|etched)\*\s*/i;
+
+/**
+ * Trailing Archidekt category list: "[Commander{top}]", "[Ramp,Artifact]"
+ */
+const CATEGORY_PATTERN = /\s*\[([^\]]*)\]\s*$/;
+
+/**
+ * Printing: "(M10) 146", "(M10)", "[C21] 263", "[C21]" - set codes are 2-6
+ * letters and digits, collector numbers may carry a suffix ("146a", "12★")
+ */
+const PRINTING_PATTERN = /\s+[([]([A-Za-z0-9]{2,6})[)\]](?:\s+([A-Za-z0-9]*\d[A-Za-z0-9★-]*))?$/;
+
+/**
+ * Whether a bracketed word is a set code rather than an Archidekt category
+ * ("[C21]" or "[c21]" is a set, "[Ramp]" is a category)
+ */
+function isSetCode(value: string): boolean {
+  return /^[A-Za-z0-9]{2,6}$/.test(value) && (/\d/.test(value) || value === value.toUpperCase());
+}
+
+/**
+ * Board named by an Archidekt category list, if any
+ *
+ * @returns The board, null for Maybeboard, undefined for other categories
+ */
+function categoryBoard(categories: string): DeckBoard | null | undefined {
+  const names = categories.split(',').map((category) => category.replace(/\{[^}]*\}/g, '').trim().toLowerCase());
+
+  for (const name of names) {
+    if (name in SECTION_HEADERS && name !== 'deck' && name !== 'main') {
+      return SECTION_HEADERS[name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a deck list in Arena, MTGO, Moxfield or Archidekt text syntax
+ *
+ * Understands:
+ * - Quantities: "4 Lightning Bolt", "4x Lightning Bolt" (default 1)
+ * - Printings: "(M10) 146", "[C21]" - set code with optional collector number
+ * - Finish markers: "*F*" (foil) and "*E*" (etched)
+ * - Section headers: "Deck", "Sideboard", "Commander:", "// Sideboard",
+ *   "Companion" (goes to the sideboard); Maybeboard cards are skipped
+ * - MTGO "SB: 2 Abrade" lines and Archidekt "[Sideboard]" categories; in a
+ *   list without any headers, cards after a blank line are the sideboard
+ * - Arena "About" / "Name ..." metadata and "//" or "#" comments are ignored
+ *
+ * Split and double-faced names ("Fire // Ice") are kept whole.
+ *
+ * @param text - Deck list text
+ * @returns Card entries with their section, and lines that were skipped
+ */
+export function parseDeckList(text: string): ParsedDeckList {
+  const entries: DeckListEntry[] = [];
+  const errors: ImportFailure[] = [];
+  let board: DeckBoard | null = DeckBoard.MAIN;
+  let inAbout = false;
+
+  const lines = text.split(/\r?\n/);
+  const isHeader = (value: string) => {
+    const header = value.trim().match(HEADER_PATTERN);
+    return Boolean(header && (header[1].toLowerCase() in SECTION_HEADERS || header[1].toLowerCase() === 'about'));
+  };
+  // MTGO lists have no headers: a blank line separates the sideboard
+  const blankStartsSideboard = !lines.some((value) => isHeader(value) || /^\s*SB:/i.test(value));
+
+  lines.forEach((raw, index) => {
+    const line = index + 1;
+    let rest = raw.trim();
+    if (!rest) {
+      if (blankStartsSideboard && entries.length > 0) board = DeckBoard.SIDEBOARD;
+      return;
+    }
+
+    if (isHeader(rest)) {
+      const header = rest.match(HEADER_PATTERN)!;
+      inAbout = header[1].toLowerCase() === 'about';
+      if (!inAbout) board = SECTION_HEADERS[header[1].toLowerCase()];
+      return;
+    }
+
+    if (rest.startsWith('//') || rest.startsWith('#') || (inAbout && /^name\s/i.test(rest))) return;
+
+    let lineBoard = board;
+    const sideboardPrefix = rest.match(/^SB:\s*(.+)$/i);
+    if (sideboardPrefix) {
+      rest = sideboardPrefix[1];
+      lineBoard = DeckBoard.SIDEBOARD;
+    }
+
+    const quantityMatch = rest.match(QUANTITY_PATTERN);
+    const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 1;
+    rest = quantityMatch ? quantityMatch[2] : rest;
+
+    let finish: CardFinish | null = null;
+    const finishMatch = rest.match(FINISH_PATTERN);
+    if (finishMatch) {
+      finish = finishMatch[1].toLowerCase().startsWith('e') ? CardFinish.ETCHED : CardFinish.FOIL;
+      rest = rest.replace(FINISH_PATTERN, ' ').trim();
+    }
+
+    // Archidekt category, unless the brackets hold a set code ("[C21]")
+    const category = rest.match(CATEGORY_PATTERN);
+    if (category && !isSetCode(category[1])) {
+      const categoryZone = categoryBoard(category[1]);
+      if (categoryZone !== undefined) lineBoard = categoryZone;
+      rest = rest.replace(CATEGORY_PATTERN, '').trim();
+    }
+
+    let setCode: string | null = null;
+    let collectorNumber: string | null = null;
+    const printing = rest.match(PRINTING_PATTERN);
+    if (printing) {
+      setCode = printing[1].toLowerCase();
+      collectorNumber = printing[2] ?? null;
+      rest = rest.slice(0, printing.index).trim();
+    }
+
+    const name = rest.replace(/\s+/g, ' ');
+    if (!name) return;
+
+    if (quantity < 1) {
+      errors.push({ name, line, reason: `Quantidade inválida: ${quantity}` });
+      return;
+    }
+    if (lineBoard === null) {
+      errors.push({ name, line, reason: 'Carta fora do deck (Maybeboard) ignorada' });
+      return;
+    }
+
+    entries.push({
+      line,
+      name,
+      quantity,
+      set_code: setCode,
+      collector_number: collectorNumber,
+      finish,
+      board: lineBoard,
+    });
+  });
+
+  return { entries, errors };
+}
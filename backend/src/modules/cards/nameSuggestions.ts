@@ -0,0 +1,97 @@
+/**
+ * Most suggestions returned for one misspelled name
+ */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Levenshtein distance between two strings (insertions, deletions and
+ * substitutions all cost 1)
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Autocomplete queries likely to surface a misspelled name: the whole
+ * name, each word of 4+ letters, and the first three letters
+ *
+ * @param name - Name as typed in the deck list
+ * @returns Distinct queries, most specific first
+ */
+export function suggestionQueries(name: string): string[] {
+  const normalized = name.trim().replace(/\s+/g, ' ');
+  const words = normalized.split(/[\s,/-]+/).filter((word) => word.length >= 4);
+
+  return [...new Set([normalized, ...words, normalized.slice(0, 3)])].filter((query) => query.length >= 2);
+}
+
+/**
+ * Rank candidate names by closeness to a misspelled one
+ *
+ * Candidates further than about a third of the name's length away are
+ * dropped, so unrelated autocomplete results are not suggested.
+ *
+ * @param name - Name as typed in the deck list
+ * @param candidates - Known card names
+ * @returns Up to 5 names, closest first
+ */
+export function rankSuggestions(name: string, candidates: string[]): string[] {
+  const target = name.trim().toLowerCase();
+  const maxDistance = Math.max(2, Math.ceil(target.length / 3));
+
+  return [...new Set(candidates)]
+    .map((candidate) => {
+      const lower = candidate.toLowerCase();
+      // Split and double-faced cards also match on their front face
+      const front = lower.split(' // ')[0];
+      return { candidate, distance: Math.min(editDistance(target, lower), editDistance(target, front)) };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Suggest card names for a name that did not resolve
+ *
+ * Asks the provider's autocomplete with a few queries derived from the
+ * name (see suggestionQueries) and ranks what comes back. Failed
+ * autocomplete calls are skipped.
+ *
+ * @param name - Name as typed in the deck list
+ * @param autocomplete - Card name autocomplete for the collection's TCG
+ * @returns Up to 5 names, closest first
+ */
+export async function suggestCardNames(
+  name: string,
+  autocomplete: (query: string) => Promise<string[]>
+): Promise<string[]> {
+  const candidates: string[] = [];
+
+  for (const query of suggestionQueries(name)) {
+    candidates.push(...await autocomplete(query).catch(() => []));
+
+    // Stop once close matches were found
+    const ranked = rankSuggestions(name, candidates);
+    if (ranked.length > 0 && editDistance(name.toLowerCase(), ranked[0].toLowerCase()) <= 1) {
+      return ranked;
+    }
+  }
+
+  return rankSuggestions(name, candidates);
+}
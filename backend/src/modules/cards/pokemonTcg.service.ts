@@ -0,0 +1,452 @@
+import { CardDataProvider } from './cardDataProvider';
+import { RequestScheduler, CircuitOpenError, pokemonTcgScheduler } from './requestScheduler';
+import {
+  ScryfallCard,
+  ScryfallSearchResponse,
+  ScryfallAutocompleteResponse,
+  PokemonTcgCard,
+  PokemonTcgPrice,
+  PokemonTcgListResponse,
+  TcgType,
+  AppError,
+} from '../../types';
+
+/**
+ * Largest page the API returns
+ */
+const PAGE_SIZE = 250;
+
+/**
+ * IDs / names combined with OR into a single query
+ */
+const QUERY_BATCH_SIZE = 50;
+
+/**
+ * TCGplayer price blocks that describe the regular (non reverse holo) card,
+ * in order of preference
+ */
+const REGULAR_PRICE_KEYS = ['normal', 'holofoil', 'unlimitedHolofoil', '1stEditionNormal', '1stEditionHolofoil'];
+
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+/**
+ * Quote a value for the API's Lucene-like query syntax
+ */
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '').trim()}"`;
+}
+
+/**
+ * Format a price the way Scryfall does ("1.23" or null)
+ */
+function formatPrice(value: number | null | undefined): string | null {
+  return typeof value === 'number' ? value.toFixed(2) : null;
+}
+
+/**
+ * Convert a Pokémon TCG API card into the app's card shape
+ *
+ * The reverse holo is treated as the "foil" version of a card.
+ */
+export function toCardData(card: PokemonTcgCard): ScryfallCard {
+  const tcgplayer = card.tcgplayer?.prices ?? {};
+  const regular: PokemonTcgPrice | undefined = REGULAR_PRICE_KEYS.map((key) => tcgplayer[key]).find(Boolean);
+  const cardmarket = card.cardmarket?.prices;
+
+  return {
+    id: card.id,
+    name: card.name,
+    type_line: [card.supertype, (card.subtypes ?? []).join(' ')].filter(Boolean).join(' — '),
+    oracle_text: [
+      ...(card.rules ?? []),
+      ...(card.attacks ?? []).map((attack) =>
+        [attack.name, attack.damage, attack.text].filter(Boolean).join(' — ')
+      ),
+    ].join('\n') || undefined,
+    colors: card.types,
+    set: card.set.id,
+    set_name: card.set.name,
+    collector_number: card.number,
+    rarity: card.rarity ?? '',
+    image_uris: card.images
+      ? { small: card.images.small, normal: card.images.large, large: card.images.large }
+      : undefined,
+    prices: {
+      usd: formatPrice(regular?.market),
+      usd_foil: formatPrice(tcgplayer.reverseHolofoil?.market),
+      eur: formatPrice(cardmarket?.averageSellPrice ?? cardmarket?.trendPrice),
+      eur_foil: formatPrice(cardmarket?.reverseHoloSell ?? cardmarket?.reverseHoloTrend),
+    },
+  };
+}
+
+/**
+ * Pokémon TCG API Service
+ *
+ * Card data provider for Pokémon collections.
+ *
+ * API Documentation: https://docs.pokemontcg.io
+ *
+ * Features:
+ * - Card search by name (one result per card name, newest printing)
+ * - Get card by ID / exact name, printings of a card
+ * - Batch lookups (IDs and names combined with OR, 50 per request)
+ * - In-memory cache (24 hours), like Scryfall search results; expired search
+ *   results are dropped whenever a new one is cached
+ *
+ * Requests go through their own request scheduler, so throttling, retries
+ * and the circuit breaker work the same way as for Scryfall.
+ * Set POKEMONTCG_API_KEY for the higher rate limit.
+ */
+export class PokemonTcgService implements CardDataProvider {
+  readonly tcgType = TcgType.POKEMON;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private readonly scheduler: RequestScheduler;
+  private readonly cardCache = new Map<string, CacheEntry<ScryfallCard>>();
+  private readonly searchCache = new Map<string, CacheEntry<ScryfallSearchResponse | ScryfallAutocompleteResponse>>();
+  private readonly cacheTTL = 24 * 60 * 60 * 1000;
+
+  constructor(
+    baseUrl: string = process.env.POKEMONTCG_API_URL || 'https://api.pokemontcg.io/v2',
+    apiKey: string | undefined = process.env.POKEMONTCG_API_KEY,
+    scheduler: RequestScheduler = pokemonTcgScheduler
+  ) {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Convert a failed API call into an AppError
+   */
+  private toAppError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) return error;
+    if (error instanceof CircuitOpenError) {
+      return new AppError('Pokémon TCG API indisponível no momento, tente novamente em instantes', 503);
+    }
+    return new AppError(message, 500);
+  }
+
+  /**
+   * GET a path from the API and parse the JSON body
+   *
+   * @returns Parsed body, or null for a 404
+   */
+  private async get<T>(path: string, params: Record<string, string> = {}): Promise<T | null> {
+    const query = new URLSearchParams(params).toString();
+    const url = `${this.baseUrl}${path}${query ? `?${query}` : ''}`;
+    const response = await this.scheduler.schedule(url, {
+      headers: this.apiKey ? { 'X-Api-Key': this.apiKey } : undefined,
+    });
+
+    if (response.status === 404) return null;
+    if (response.status === 429 || response.status === 503) {
+      throw new AppError('Pokémon TCG API indisponível no momento, tente novamente em instantes', 503);
+    }
+    if (!response.ok) {
+      throw new Error(`Pokémon TCG API error: ${response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Run a card query and convert one page of the results (the first by default)
+   */
+  private async queryCards(
+    q: string,
+    orderBy = '-set.releaseDate',
+    page = 1
+  ): Promise<{ cards: ScryfallCard[]; total: number }> {
+    const result = await this.get<PokemonTcgListResponse>('/cards', {
+      q,
+      orderBy,
+      page: String(page),
+      pageSize: String(PAGE_SIZE),
+    });
+
+    const cards = (result?.data ?? []).map(toCardData);
+    const now = Date.now();
+    for (const card of cards) {
+      this.cardCache.set(card.id, { data: card, timestamp: now });
+    }
+
+    return { cards, total: result?.totalCount ?? 0 };
+  }
+
+  /**
+   * Run a card query and convert every page of the results
+   */
+  private async queryAllCards(q: string): Promise<ScryfallCard[]> {
+    const cards: ScryfallCard[] = [];
+
+    for (let page = 1; ; page++) {
+      const { cards: found, total } = await this.queryCards(q, undefined, page);
+      cards.push(...found);
+      if (found.length === 0 || page * PAGE_SIZE >= total) return cards;
+    }
+  }
+
+  /**
+   * Cache a search or autocomplete result, dropping the entries that expired
+   */
+  private cacheSearch(key: string, data: ScryfallSearchResponse | ScryfallAutocompleteResponse): void {
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.searchCache) {
+      if (now - entry.timestamp >= this.cacheTTL) this.searchCache.delete(cachedKey);
+    }
+    this.searchCache.set(key, { data, timestamp: now });
+  }
+
+  private getCachedCard(id: string): ScryfallCard | undefined {
+    const cached = this.cardCache.get(id);
+    return cached && Date.now() - cached.timestamp < this.cacheTTL ? cached.data : undefined;
+  }
+
+  /**
+   * Search cards by name
+   *
+   * Returns the newest printing of each matching card name.
+   *
+   * @param query - Partial card name
+   * @returns Search results in Scryfall's list format
+   */
+  async searchCards(query: string): Promise<ScryfallSearchResponse> {
+    const cacheKey = `search:${query}`;
+    const cached = this.searchCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+      return cached.data as ScryfallSearchResponse;
+    }
+
+    try {
+      const { cards, total } = await this.queryCards(`name:${quote(`${query}*`)}`);
+
+      const byName = new Map<string, ScryfallCard>();
+      for (const card of cards) {
+        if (!byName.has(card.name.toLowerCase())) byName.set(card.name.toLowerCase(), card);
+      }
+
+      const data: ScryfallSearchResponse = {
+        object: 'list',
+        total_cards: byName.size,
+        has_more: total > PAGE_SIZE,
+        data: Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      };
+      this.cacheSearch(cacheKey, data);
+      return data;
+    } catch (error) {
+      if (cached) return cached.data as ScryfallSearchResponse;
+      console.error('Pokémon TCG search error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Autocomplete card names
+   *
+   * @param query - Partial card name
+   * @returns Up to 20 distinct names starting with the query
+   */
+  async autocomplete(query: string): Promise<ScryfallAutocompleteResponse> {
+    const cacheKey = `autocomplete:${query}`;
+    const cached = this.searchCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+      return cached.data as ScryfallAutocompleteResponse;
+    }
+
+    try {
+      const result = await this.get<PokemonTcgListResponse>('/cards', {
+        q: `name:${quote(`${query}*`)}`,
+        orderBy: 'name',
+        select: 'name',
+        pageSize: String(PAGE_SIZE),
+      });
+      const names = Array.from(new Set((result?.data ?? []).map((card) => card.name))).slice(0, 20);
+
+      const data: ScryfallAutocompleteResponse = { object: 'catalog', total_values: names.length, data: names };
+      this.cacheSearch(cacheKey, data);
+      return data;
+    } catch (error) {
+      if (cached) return cached.data as ScryfallAutocompleteResponse;
+      console.error('Pokémon TCG autocomplete error:', error);
+      throw this.toAppError(error, 'Erro ao buscar sugestões no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Get a card by Pokémon TCG ID (e.g. "swsh4-25")
+   *
+   * @param id - Card ID
+   * @returns Card data
+   * @throws AppError 404 if the API does not know the ID
+   */
+  async getCardById(id: string): Promise<ScryfallCard> {
+    const cached = this.getCachedCard(id);
+    if (cached) return cached;
+
+    try {
+      const result = await this.get<{ data: PokemonTcgCard }>(`/cards/${encodeURIComponent(id)}`);
+      if (!result) {
+        throw new AppError('Carta não encontrada no Pokémon TCG', 404);
+      }
+
+      const card = toCardData(result.data);
+      this.cardCache.set(card.id, { data: card, timestamp: Date.now() });
+      return card;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error('Pokémon TCG get card error:', error);
+      throw this.toAppError(error, 'Erro ao buscar carta no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Get the newest printing of a card by exact name
+   *
+   * @param name - Exact card name
+   * @returns Card data
+   * @throws AppError 404 if no card has that name
+   */
+  async getCardByName(name: string): Promise<ScryfallCard> {
+    const cards = await this.getCardsByNames([name]);
+    const card = cards.get(name.trim().toLowerCase());
+
+    if (!card) {
+      throw new AppError('Carta não encontrada no Pokémon TCG', 404);
+    }
+
+    return card;
+  }
+
+  /**
+   * Get every printing of a card, newest first
+   *
+   * @param name - Exact card name
+   * @returns Printings (empty when the name is unknown)
+   */
+  async getPrintings(name: string): Promise<ScryfallCard[]> {
+    try {
+      return await this.queryAllCards(`!name:${quote(name)}`);
+    } catch (error) {
+      console.error('Pokémon TCG printings error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Get many cards by ID
+   *
+   * Cached cards are returned directly; the rest are fetched with
+   * `id:"a" OR id:"b" ...` queries, 50 IDs per request.
+   *
+   * @param ids - Card IDs (duplicates allowed)
+   * @returns Map of card ID to card data
+   */
+  async getCardsByIds(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const missing: string[] = [];
+
+    for (const id of new Set(ids.filter(Boolean))) {
+      const cached = this.getCachedCard(id);
+      if (cached) cards.set(id, cached);
+      else missing.push(id);
+    }
+
+    try {
+      for (const card of await this.queryByIds(missing)) {
+        cards.set(card.id, card);
+      }
+      return cards;
+    } catch (error) {
+      console.error('Pokémon TCG batch error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Fetch many cards by ID from the API, ignoring the cache
+   *
+   * @param ids - Card IDs (duplicates allowed)
+   * @returns Map of card ID to card data
+   */
+  async refreshCards(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    try {
+      const found = await this.queryByIds(Array.from(new Set(ids.filter(Boolean))));
+      return new Map(found.map((card) => [card.id, card]));
+    } catch (error) {
+      console.error('Pokémon TCG refresh error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Query cards by ID, 50 IDs per `id:"a" OR id:"b" ...` request
+   */
+  private async queryByIds(ids: string[]): Promise<ScryfallCard[]> {
+    const found: ScryfallCard[] = [];
+    for (let i = 0; i < ids.length; i += QUERY_BATCH_SIZE) {
+      const batch = ids.slice(i, i + QUERY_BATCH_SIZE);
+      const { cards } = await this.queryCards(batch.map((id) => `id:${quote(id)}`).join(' OR '));
+      found.push(...cards);
+    }
+    return found;
+  }
+
+  /**
+   * Get the newest printing for many exact names
+   *
+   * Names are looked up 50 per `!name:"a" OR !name:"b" ...` query, reading
+   * every page of its results.
+   *
+   * @param names - Exact card names (duplicates allowed)
+   * @returns Map of lowercased requested name to card data
+   */
+  async getCardsByNames(names: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const wanted = new Map<string, string>();
+    for (const name of names) {
+      const trimmed = name.trim();
+      if (trimmed && !wanted.has(trimmed.toLowerCase())) wanted.set(trimmed.toLowerCase(), trimmed);
+    }
+
+    const requested = Array.from(wanted.values());
+
+    try {
+      for (let i = 0; i < requested.length; i += QUERY_BATCH_SIZE) {
+        const batch = requested.slice(i, i + QUERY_BATCH_SIZE);
+        // Names with many printings can fill more than one page
+        const found = await this.queryAllCards(batch.map((name) => `!name:${quote(name)}`).join(' OR '));
+        // Newest first, so the first card seen for a name wins
+        for (const card of found) {
+          const key = card.name.toLowerCase();
+          if (wanted.has(key) && !cards.has(key)) cards.set(key, card);
+        }
+      }
+      return cards;
+    } catch (error) {
+      console.error('Pokémon TCG batch error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Pokémon TCG');
+    }
+  }
+
+  /**
+   * Get cached cards without calling the API (expired entries included)
+   *
+   * @param ids - Card IDs
+   * @returns Map of card ID to card data
+   */
+  async getStoredCards(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    for (const id of ids) {
+      const cached = this.cardCache.get(id);
+      if (cached) cards.set(id, cached.data);
+    }
+    return cards;
+  }
+}
+
+export default new PokemonTcgService();
@@ -0,0 +1,274 @@
+/**
+ * Scheduler configuration
+ */
+export interface RequestSchedulerOptions {
+  /** Minimum time between the start of two requests */
+  minIntervalMs: number;
+  /** Retries for 429 / 503 responses before giving up */
+  maxRetries: number;
+  /** First backoff step; doubles on every retry */
+  baseDelayMs: number;
+  /** Longest wait before a retry (Retry-After values above this are not waited for) */
+  maxDelayMs: number;
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number;
+  /** Wait implementation (replaced in tests) */
+  sleep: (ms: number) => Promise<void>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RequestSchedulerStats {
+  queued: number;
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  failures: number;
+  circuit: CircuitState;
+  circuitOpenedAt: string | null;
+}
+
+/**
+ * Thrown instead of calling the API while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Circuit open: external API is unavailable');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Statuses that mean "try again later"
+ */
+const RETRYABLE_STATUSES = new Set([429, 503]);
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ *
+ * @returns Delay in milliseconds, or null when the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (header.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Request Scheduler
+ *
+ * Serializes outgoing requests to an external API:
+ * - Requests run one at a time, at least `minIntervalMs` apart
+ * - 429 / 503 responses are retried with jittered exponential backoff,
+ *   waiting for Retry-After instead when the API sends it
+ * - After `failureThreshold` consecutive failures (network errors, 5xx or
+ *   exhausted retries) the circuit opens and requests fail fast with
+ *   CircuitOpenError until `resetTimeoutMs` has passed; then a single trial
+ *   request decides whether to close it again. Requests scheduled while the
+ *   trial is in flight fail fast; those already queued wait for it to settle
+ *
+ * Retries keep their place at the head of the queue, so a rate-limit
+ * backoff also holds back every request queued behind it.
+ */
+export class RequestScheduler {
+  private readonly options: RequestSchedulerOptions;
+  private tail: Promise<unknown> = Promise.resolve();
+  private lastRequestAt = 0;
+  private queued = 0;
+  private consecutiveFailures = 0;
+  private circuitOpenedAt: number | null = null;
+  private trialInFlight = false;
+  private requests = 0;
+  private retries = 0;
+  private rateLimited = 0;
+  private failures = 0;
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = {
+      minIntervalMs: 100,
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 10_000,
+      failureThreshold: 5,
+      resetTimeoutMs: 30_000,
+      sleep: defaultSleep,
+      ...options,
+    };
+  }
+
+  /**
+   * Current circuit state
+   */
+  getCircuitState(): CircuitState {
+    if (this.circuitOpenedAt === null) return 'closed';
+    return Date.now() - this.circuitOpenedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether requests are currently failing fast (the circuit is open, or
+   * half-open with its trial request in flight)
+   */
+  isOpen(): boolean {
+    const state = this.getCircuitState();
+    return state === 'open' || (state === 'half-open' && this.trialInFlight);
+  }
+
+  /**
+   * Scheduler metrics
+   */
+  getStats(): RequestSchedulerStats {
+    return {
+      queued: this.queued,
+      requests: this.requests,
+      retries: this.retries,
+      rateLimited: this.rateLimited,
+      failures: this.failures,
+      circuit: this.getCircuitState(),
+      circuitOpenedAt: this.circuitOpenedAt === null ? null : new Date(this.circuitOpenedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Queue a fetch call
+   *
+   * @param url - Request URL
+   * @param init - fetch options
+   * @returns The final response (a 429 / 503 is returned once retries run out)
+   * @throws CircuitOpenError while the circuit is open
+   * @throws Error from fetch on network failures
+   */
+  schedule(url: string, init?: RequestInit): Promise<Response> {
+    if (this.isOpen()) {
+      return Promise.reject(new CircuitOpenError());
+    }
+
+    this.queued++;
+    const run = this.tail.then(() => {
+      this.queued--;
+      return this.execute(url, init);
+    });
+    // Keep the chain alive whatever this request's outcome is
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run one request once it reaches the head of the queue
+   */
+  private async execute(url: string, init?: RequestInit): Promise<Response> {
+    // The circuit may have opened while this request was waiting
+    if (this.isOpen()) throw new CircuitOpenError();
+    if (this.getCircuitState() !== 'half-open') return this.send(url, init);
+
+    // Trial request: it closes or re-opens the circuit before anything else runs
+    this.trialInFlight = true;
+    try {
+      return await this.send(url, init);
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Send a request, retrying 429 / 503 responses
+   */
+  private async send(url: string, init?: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot();
+      this.requests++;
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        this.recordFailure();
+        throw error;
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status)) {
+        if (response.status === 429) this.rateLimited++;
+
+        const delay = this.retryDelay(attempt, response.headers.get('Retry-After'));
+        if (attempt < this.options.maxRetries && delay !== null) {
+          this.retries++;
+          await response.body?.cancel();
+          await this.options.sleep(delay);
+          continue;
+        }
+
+        this.recordFailure();
+        return response;
+      }
+
+      if (response.status >= 500) this.recordFailure();
+      else this.recordSuccess();
+      return response;
+    }
+  }
+
+  /**
+   * Wait until at least minIntervalMs has passed since the previous request
+   */
+  private async waitForSlot(): Promise<void> {
+    const wait = this.lastRequestAt + this.options.minIntervalMs - Date.now();
+    if (wait > 0) await this.options.sleep(wait);
+    this.lastRequestAt = Date.now();
+  }
+
+  /**
+   * Delay before the next retry
+   *
+   * @returns Delay in milliseconds, or null when Retry-After asks for
+   * longer than maxDelayMs (not worth holding the caller for)
+   */
+  private retryDelay(attempt: number, retryAfter: string | null): number | null {
+    const requested = parseRetryAfter(retryAfter);
+    if (requested !== null) {
+      return requested <= this.options.maxDelayMs ? requested : null;
+    }
+
+    // "Full jitter": a random delay up to the exponential step
+    const step = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * step);
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.circuitOpenedAt = null;
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+    this.consecutiveFailures++;
+
+    // A failed trial request re-opens the circuit straight away
+    if (this.circuitOpenedAt !== null || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.circuitOpenedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Scheduler shared by every Scryfall request in this process
+ */
+export const scryfallScheduler = new RequestScheduler({
+  minIntervalMs: parseInt(process.env.SCRYFALL_MIN_INTERVAL_MS || '100', 10),
+  maxRetries: parseInt(process.env.SCRYFALL_MAX_RETRIES || '3', 10),
+});
+
+/**
+ * Scheduler shared by every Pokémon TCG API request in this process
+ */
+export const pokemonTcgScheduler = new RequestScheduler({
+  minIntervalMs: parseInt(process.env.POKEMONTCG_MIN_INTERVAL_MS || '100', 10),
+});
@@ -1,16 +1,29 @@
+import pool from '../../config/database';
+import catalogService, { printingKey } from './catalog.service';
+import { CardDataProvider } from './cardDataProvider';
+import { RequestScheduler, RequestSchedulerStats, CircuitOpenError, scryfallScheduler } from './requestScheduler';
 import {
   ScryfallCard,
   ScryfallSearchResponse,
   ScryfallAutocompleteResponse,
+  ScryfallCardIdentifier,
+  ScryfallCollectionResponse,
+  TcgType,
   AppError,
 } from '../../types';
 
 /**
- * Cache entry for Scryfall data
+ * Maximum identifiers accepted by POST /cards/collection
  */
-interface CacheEntry {
+const COLLECTION_BATCH_SIZE = 75;
+
+/**
+ * Row from the scryfall_cards table
+ */
+interface StoredCardRow {
+  id: string;
   data: ScryfallCard;
-  timestamp: number;
+  fetched_at: Date;
 }
 
 interface SearchCacheEntry {
@@ -19,40 +32,95 @@ interface SearchCacheEntry {
 }
 
 /**
- * Scryfall API Service with Caching
+ * Scryfall API Service with Persistent Card Store
  *
- * Wrapper for Scryfall API calls with in-memory caching.
+ * Card data provider for Magic: The Gathering collections.
+ * Wrapper for Scryfall API calls backed by the scryfall_cards table.
  * Scryfall is a comprehensive Magic: The Gathering card database.
  *
  * API Documentation: https://scryfall.com/docs/api
  *
  * Features:
  * - Card search by name
- * - Get card by ID (with caching)
- * - Get card by exact name
+ * - Get card by ID (read-through the scryfall_cards table)
+ * - Get card by exact name (read-through the scryfall_cards table)
  * - Autocomplete suggestions
- * - In-memory cache with configurable TTL
+ * - Batch lookups through POST /cards/collection (75 identifiers per request)
+ * - Stale rows are served immediately and refreshed in the background
+ *
+ * Card data survives restarts and is shared by every backend instance.
+ * Search and autocomplete results are short-lived and stay in memory;
+ * expired ones are dropped whenever a new result is cached.
+ *
+ * Offline mode:
+ * With CARD_DATA_SOURCE=offline every lookup is answered by the local
+ * card catalog (see catalog.service.ts) and the API is never called.
  *
  * Rate Limiting:
- * Scryfall requests 50-100ms between requests.
- * Caching significantly reduces API calls.
+ * Scryfall requests 50-100ms between requests. Every call goes through the
+ * shared request scheduler (see requestScheduler.ts), which spaces requests
+ * by SCRYFALL_MIN_INTERVAL_MS and retries 429/503 responses with backoff.
+ * While its circuit is open, stored cards and expired search results are
+ * served as-is and requests that need the API fail with a 503.
  */
-class ScryfallService {
-  private readonly baseUrl = 'https://api.scryfall.com';
-  private readonly cache = new Map<string, CacheEntry>();
+export class ScryfallService implements CardDataProvider {
+  readonly tcgType = TcgType.MAGIC;
+  private readonly baseUrl: string;
+  private readonly offline: boolean;
+  private readonly scheduler: RequestScheduler;
   private readonly searchCache = new Map<string, SearchCacheEntry>();
-  private readonly cacheTTL = 60 * 60 * 1000; // 1 hour in milliseconds
+  private readonly cacheTTL = 24 * 60 * 60 * 1000; // Scryfall refreshes prices once a day
   private readonly searchCacheTTL = 24 * 60 * 60 * 1000; // 24 hours for search results
+  private readonly refreshQueue = new Set<string>();
+  private isRefreshing = false;
   private cacheHits = 0;
   private cacheMisses = 0;
+  private staleServed = 0;
+
+  constructor(
+    baseUrl: string = process.env.SCRYFALL_API_URL || 'https://api.scryfall.com',
+    offline: boolean = process.env.CARD_DATA_SOURCE === 'offline',
+    scheduler: RequestScheduler = scryfallScheduler
+  ) {
+    this.baseUrl = baseUrl;
+    this.offline = offline;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Convert a failed API call into an AppError
+   *
+   * Rate limiting and outages become a 503 so clients know to retry later;
+   * anything else keeps the generic 500 message.
+   */
+  private toAppError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) return error;
+    if (error instanceof CircuitOpenError) {
+      return new AppError('Scryfall indisponível no momento, tente novamente em instantes', 503);
+    }
+    return new AppError(message, 500);
+  }
+
+  /**
+   * Throw for a non-OK response
+   */
+  private assertOk(response: Response): void {
+    if (response.ok) return;
+    if (response.status === 429 || response.status === 503) {
+      throw new AppError('Scryfall indisponível no momento, tente novamente em instantes', 503);
+    }
+    throw new Error(`Scryfall API error: ${response.statusText}`);
+  }
 
   /**
    * Search cards by name
-   * 
+   *
    * @param query - Search query
    * @returns Search results with cards
    */
   async searchCards(query: string): Promise<ScryfallSearchResponse> {
+    if (this.offline) return catalogService.searchCards(query);
+
     const cacheKey = `search:${query}`;
     const cached = this.searchCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < this.searchCacheTTL) {
@@ -61,144 +129,528 @@ class ScryfallService {
 
     try {
       const url = `${this.baseUrl}/cards/search?q=${encodeURIComponent(query)}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          return {
-            object: 'list',
-            total_cards: 0,
-            has_more: false,
-            data: [],
-          };
-        }
-        throw new Error(`Scryfall API error: ${response.statusText}`);
+      const response = await this.scheduler.schedule(url);
+
+      if (response.status === 404) {
+        return {
+          object: 'list',
+          total_cards: 0,
+          has_more: false,
+          data: [],
+        };
       }
+      this.assertOk(response);
 
       const data = (await response.json()) as ScryfallSearchResponse;
-      this.searchCache.set(cacheKey, { data, timestamp: Date.now() });
+      this.cacheSearch(cacheKey, data);
+
+      // Search results are full card objects - keep them so the card that
+      // gets picked next is already stored when it is added to a collection
+      await this.storeCards(data.data);
+
       return data;
     } catch (error) {
+      // An expired result beats no result while Scryfall is unavailable
+      if (cached) {
+        this.staleServed++;
+        return cached.data as ScryfallSearchResponse;
+      }
       console.error('Scryfall search error:', error);
-      throw new AppError('Erro ao buscar cartas no Scryfall', 500);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Scryfall');
     }
   }
 
   /**
-   * Check if cache entry is still valid
+   * Get every printing of a card
+   *
+   * @param name - Exact card name
+   * @returns Printings (empty when the name is unknown)
+   */
+  async getPrintings(name: string): Promise<ScryfallCard[]> {
+    const results = await this.searchCards(`!"${name.replace(/"/g, '')}" unique:prints`);
+    return results.data;
+  }
+
+  /**
+   * Check if a stored row is still fresh
    */
-  private isCacheValid(entry: CacheEntry): boolean {
-    return Date.now() - entry.timestamp < this.cacheTTL;
+  private isFresh(row: StoredCardRow): boolean {
+    return Date.now() - new Date(row.fetched_at).getTime() < this.cacheTTL;
+  }
+
+  /**
+   * Cache a search or autocomplete result, dropping the entries that expired
+   */
+  private cacheSearch(key: string, data: SearchCacheEntry['data']): void {
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.searchCache) {
+      if (now - entry.timestamp >= this.searchCacheTTL) this.searchCache.delete(cachedKey);
+    }
+    this.searchCache.set(key, { data, timestamp: now });
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { hits: number; misses: number; size: number; hitRate: string } {
+  async getCacheStats(): Promise<{ hits: number; misses: number; size: number; hitRate: string }> {
     const total = this.cacheHits + this.cacheMisses;
     const hitRate = total > 0 ? ((this.cacheHits / total) * 100).toFixed(2) : '0.00';
+    const result = await pool.query<{ count: string }>('SELECT COUNT(*) as count FROM scryfall_cards');
     return {
       hits: this.cacheHits,
       misses: this.cacheMisses,
-      size: this.cache.size,
+      size: parseInt(result.rows[0]?.count ?? '0', 10),
       hitRate: `${hitRate}%`,
     };
   }
 
   /**
-   * Clear expired cache entries
+   * Get request scheduler statistics
+   *
+   * @returns Scheduler metrics plus how many stale results were served
+   * because the API could not be reached
    */
-  private cleanCache(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp >= this.cacheTTL) {
-        this.cache.delete(key);
+  getSchedulerStats(): RequestSchedulerStats & { staleServed: number } {
+    return { ...this.scheduler.getStats(), staleServed: this.staleServed };
+  }
+
+  /**
+   * Read stored rows for a set of Scryfall IDs in a single query
+   */
+  private async readStoredCards(scryfallIds: string[]): Promise<Map<string, StoredCardRow>> {
+    const rows = new Map<string, StoredCardRow>();
+    if (scryfallIds.length === 0) return rows;
+
+    try {
+      const result = await pool.query<StoredCardRow>(
+        'SELECT id, data, fetched_at FROM scryfall_cards WHERE id = ANY($1)',
+        [scryfallIds]
+      );
+      for (const row of result.rows) {
+        rows.set(row.id, row);
       }
+    } catch (error) {
+      // The store is an optimization - fall back to the API if it is unavailable
+      console.warn('Failed to read stored Scryfall cards:', error);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Upsert card payloads into the scryfall_cards table
+   */
+  private async storeCards(cards: ScryfallCard[]): Promise<void> {
+    const unique = new Map(cards.filter((card) => card?.id).map((card) => [card.id, card]));
+    if (unique.size === 0) return;
+
+    try {
+      await pool.query(
+        `INSERT INTO scryfall_cards (id, name, data, fetched_at)
+         SELECT c->>'id', c->>'name', c, CURRENT_TIMESTAMP
+         FROM jsonb_array_elements($1::jsonb) AS c
+         ON CONFLICT (id) DO UPDATE
+           SET name = EXCLUDED.name, data = EXCLUDED.data, fetched_at = EXCLUDED.fetched_at`,
+        [JSON.stringify(Array.from(unique.values()))]
+      );
+    } catch (error) {
+      console.warn('Failed to store Scryfall cards:', error);
+    }
+  }
+
+  /**
+   * Queue stale cards for a background refresh
+   *
+   * The caller gets the stored (stale) payload right away; the refreshed
+   * payload is written back to the table for the next read.
+   */
+  private scheduleRefresh(scryfallIds: string[]): void {
+    for (const id of scryfallIds) {
+      this.refreshQueue.add(id);
+    }
+
+    if (this.isRefreshing || this.refreshQueue.size === 0) return;
+    this.isRefreshing = true;
+    setImmediate(() => {
+      this.drainRefreshQueue().finally(() => {
+        this.isRefreshing = false;
+      });
+    });
+  }
+
+  /**
+   * Refresh queued cards in /cards/collection batches, one request at a time
+   */
+  private async drainRefreshQueue(): Promise<void> {
+    while (this.refreshQueue.size > 0) {
+      // Stale rows keep being served; they are queued again on their next read
+      if (this.scheduler.isOpen()) {
+        this.refreshQueue.clear();
+        return;
+      }
+
+      const batch = Array.from(this.refreshQueue).slice(0, COLLECTION_BATCH_SIZE);
+      batch.forEach((id) => this.refreshQueue.delete(id));
+
+      try {
+        const { found } = await this.fetchCollection(batch.map((id) => ({ id })));
+        await this.storeCards(found);
+      } catch (error) {
+        console.warn(`Background refresh failed for ${batch.length} Scryfall cards:`, error);
+      }
+    }
+  }
+
+  /**
+   * Resolve identifiers through POST /cards/collection
+   *
+   * Identifiers are split into batches of 75 and sent sequentially.
+   *
+   * @param identifiers - Scryfall card identifiers
+   * @returns Cards found and identifiers Scryfall could not match
+   */
+  private async fetchCollection(
+    identifiers: ScryfallCardIdentifier[]
+  ): Promise<{ found: ScryfallCard[]; notFound: ScryfallCardIdentifier[] }> {
+    const found: ScryfallCard[] = [];
+    const notFound: ScryfallCardIdentifier[] = [];
+
+    for (let i = 0; i < identifiers.length; i += COLLECTION_BATCH_SIZE) {
+      const batch = identifiers.slice(i, i + COLLECTION_BATCH_SIZE);
+      const response = await this.scheduler.schedule(`${this.baseUrl}/cards/collection`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({ identifiers: batch }),
+      });
+      this.assertOk(response);
+
+      const data = (await response.json()) as ScryfallCollectionResponse;
+      found.push(...data.data);
+      notFound.push(...(data.not_found ?? []));
+    }
+
+    return { found, notFound };
+  }
+
+  /**
+   * Fetch a single card from the Scryfall API (no store access)
+   */
+  private async fetchCardById(scryfallId: string): Promise<ScryfallCard> {
+    const url = `${this.baseUrl}/cards/${scryfallId}`;
+    const response = await this.scheduler.schedule(url);
+
+    if (response.status === 404) {
+      throw new AppError('Carta não encontrada no Scryfall', 404);
+    }
+    this.assertOk(response);
+
+    return (await response.json()) as ScryfallCard;
+  }
+
+  /**
+   * Get stored cards for a set of Scryfall IDs without calling the API
+   *
+   * Stale rows are returned as-is and queued for a background refresh.
+   * IDs that were never stored are simply absent from the result.
+   *
+   * @param scryfallIds - Scryfall card IDs (duplicates allowed)
+   * @returns Map of Scryfall ID to card data
+   */
+  async getStoredCards(scryfallIds: string[]): Promise<Map<string, ScryfallCard>> {
+    if (this.offline) return catalogService.getCardsByIds(scryfallIds);
+
+    const rows = await this.readStoredCards(Array.from(new Set(scryfallIds)));
+    const cards = new Map<string, ScryfallCard>();
+    const stale: string[] = [];
+
+    for (const [id, row] of rows) {
+      cards.set(id, row.data);
+      if (!this.isFresh(row)) stale.push(id);
     }
+
+    this.cacheHits += cards.size;
+    this.scheduleRefresh(stale);
+    return cards;
   }
 
   /**
-   * Get card by Scryfall ID (with caching)
+   * Get card by Scryfall ID (read-through the scryfall_cards table)
    *
    * @param scryfallId - Scryfall card ID
    * @returns Card data
    */
   async getCardById(scryfallId: string): Promise<ScryfallCard> {
-    // Check cache first
-    const cached = this.cache.get(scryfallId);
-    if (cached && this.isCacheValid(cached)) {
+    if (this.offline) return catalogService.getCardById(scryfallId);
+
+    // Check the store first
+    const stored = (await this.readStoredCards([scryfallId])).get(scryfallId);
+    if (stored) {
       this.cacheHits++;
-      return cached.data;
+      if (!this.isFresh(stored)) this.scheduleRefresh([scryfallId]);
+      return stored.data;
     }
 
-    // Cache miss - fetch from API
+    // Store miss - fetch from API
     this.cacheMisses++;
 
     try {
-      const url = `${this.baseUrl}/cards/${scryfallId}`;
-      const response = await fetch(url);
+      const data = await this.fetchCardById(scryfallId);
+      await this.storeCards([data]);
+      return data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error('Scryfall get card error:', error);
+      throw this.toAppError(error, 'Erro ao buscar carta no Scryfall');
+    }
+  }
+
+  /**
+   * Get many cards by Scryfall ID
+   *
+   * IDs are de-duplicated, stored cards are read in one query and the rest
+   * are fetched through POST /cards/collection in batches of 75.
+   * IDs Scryfall does not know are absent from the result.
+   *
+   * @param scryfallIds - Scryfall card IDs (duplicates allowed)
+   * @returns Map of Scryfall ID to card data
+   */
+  async getCardsByIds(scryfallIds: string[]): Promise<Map<string, ScryfallCard>> {
+    if (this.offline) return catalogService.getCardsByIds(scryfallIds);
+
+    const uniqueIds = Array.from(new Set(scryfallIds.filter(Boolean)));
+    const cards = await this.getStoredCards(uniqueIds);
+    const missing = uniqueIds.filter((id) => !cards.has(id));
+
+    if (missing.length === 0) return cards;
+    this.cacheMisses += missing.length;
+
+    try {
+      const { found } = await this.fetchCollection(missing.map((id) => ({ id })));
+      await this.storeCards(found);
+      for (const card of found) {
+        cards.set(card.id, card);
+      }
+      return cards;
+    } catch (error) {
+      console.error('Scryfall collection error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Scryfall');
+    }
+  }
+
+  /**
+   * Fetch the latest data for many cards, ignoring stored rows
+   *
+   * Cards go through POST /cards/collection (75 per request, throttled by
+   * the scheduler) and are written back to scryfall_cards. In offline mode
+   * the local catalog is the latest data.
+   *
+   * @param scryfallIds - Scryfall card IDs (duplicates allowed)
+   * @returns Map of Scryfall ID to card data
+   */
+  async refreshCards(scryfallIds: string[]): Promise<Map<string, ScryfallCard>> {
+    if (this.offline) return catalogService.getCardsByIds(scryfallIds);
+
+    const uniqueIds = Array.from(new Set(scryfallIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return new Map();
+
+    try {
+      const { found } = await this.fetchCollection(uniqueIds.map((id) => ({ id })));
+      await this.storeCards(found);
+      return new Map(found.map((card) => [card.id, card]));
+    } catch (error) {
+      console.error('Scryfall refresh error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Scryfall');
+    }
+  }
+
+  /**
+   * Get many cards by exact name
+   *
+   * Names are matched case-insensitively, including the front face name of
+   * double-faced cards ("Delver of Secrets" finds "Delver of Secrets // ...").
+   * Names Scryfall does not know are absent from the result.
+   *
+   * @param names - Exact card names (duplicates allowed)
+   * @returns Map of lowercased requested name to card data
+   */
+  async getCardsByNames(names: string[]): Promise<Map<string, ScryfallCard>> {
+    if (this.offline) return catalogService.getCardsByNames(names);
+
+    const wanted = new Map<string, string>();
+    for (const name of names) {
+      const trimmed = name.trim();
+      if (trimmed && !wanted.has(trimmed.toLowerCase())) wanted.set(trimmed.toLowerCase(), trimmed);
+    }
+
+    const cards = new Map<string, ScryfallCard>();
+    if (wanted.size === 0) return cards;
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new AppError('Carta não encontrada no Scryfall', 404);
+    try {
+      const result = await pool.query<StoredCardRow & { key: string }>(
+        `SELECT DISTINCT ON (LOWER(name)) LOWER(name) AS key, id, data, fetched_at
+         FROM scryfall_cards
+         WHERE LOWER(name) = ANY($1)
+         ORDER BY LOWER(name), fetched_at DESC`,
+        [Array.from(wanted.keys())]
+      );
+      const stale: string[] = [];
+      for (const row of result.rows) {
+        cards.set(row.key, row.data);
+        if (!this.isFresh(row)) stale.push(row.id);
+      }
+      this.cacheHits += result.rows.length;
+      this.scheduleRefresh(stale);
+    } catch (error) {
+      console.warn('Failed to read stored Scryfall cards by name:', error);
+    }
+
+    const missing = Array.from(wanted.entries()).filter(([key]) => !cards.has(key));
+    if (missing.length === 0) return cards;
+    this.cacheMisses += missing.length;
+
+    try {
+      const { found } = await this.fetchCollection(missing.map(([, name]) => ({ name })));
+      await this.storeCards(found);
+
+      const missingKeys = new Set(missing.map(([key]) => key));
+      for (const card of found) {
+        const candidates = [card.name, ...(card.card_faces ?? []).map((face) => face.name)];
+        for (const candidate of candidates) {
+          const key = candidate.toLowerCase();
+          if (missingKeys.has(key) && !cards.has(key)) {
+            cards.set(key, card);
+          }
         }
-        throw new Error(`Scryfall API error: ${response.statusText}`);
       }
+      return cards;
+    } catch (error) {
+      console.error('Scryfall collection error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Scryfall');
+    }
+  }
 
-      const data = (await response.json()) as ScryfallCard;
+  /**
+   * Get many printings by set code and collector number
+   *
+   * Stored printings are read in one query and the rest are fetched through
+   * POST /cards/collection. Printings Scryfall does not know are absent from
+   * the result.
+   *
+   * @param printings - Set codes and collector numbers (duplicates allowed)
+   * @returns Map of printingKey() to card data
+   */
+  async getCardsByPrintings(
+    printings: { set: string; collector_number: string }[]
+  ): Promise<Map<string, ScryfallCard>> {
+    if (this.offline) return catalogService.getCardsByPrintings(printings);
 
-      // Store in cache
-      this.cache.set(scryfallId, {
-        data,
-        timestamp: Date.now(),
-      });
+    const wanted = new Map<string, { set: string; collector_number: string }>();
+    for (const printing of printings) {
+      const set = printing.set.trim().toLowerCase();
+      const number = printing.collector_number.trim();
+      if (set && number) wanted.set(printingKey(set, number), { set, collector_number: number });
+    }
 
-      // Periodically clean expired entries
-      if (this.cacheMisses % 100 === 0) {
-        this.cleanCache();
+    const cards = new Map<string, ScryfallCard>();
+    if (wanted.size === 0) return cards;
+
+    try {
+      const result = await pool.query<StoredCardRow>(
+        `SELECT id, data, fetched_at FROM scryfall_cards
+         WHERE (data->>'set', data->>'collector_number') IN (SELECT * FROM unnest($1::text[], $2::text[]))`,
+        [
+          Array.from(wanted.values()).map((printing) => printing.set),
+          Array.from(wanted.values()).map((printing) => printing.collector_number),
+        ]
+      );
+      const stale: string[] = [];
+      for (const row of result.rows) {
+        cards.set(printingKey(row.data.set, row.data.collector_number ?? ''), row.data);
+        if (!this.isFresh(row)) stale.push(row.id);
       }
+      this.cacheHits += result.rows.length;
+      this.scheduleRefresh(stale);
+    } catch (error) {
+      console.warn('Failed to read stored Scryfall cards by printing:', error);
+    }
 
-      return data;
+    const missing = Array.from(wanted.entries()).filter(([key]) => !cards.has(key));
+    if (missing.length === 0) return cards;
+    this.cacheMisses += missing.length;
+
+    try {
+      const { found } = await this.fetchCollection(missing.map(([, printing]) => printing));
+      await this.storeCards(found);
+      for (const card of found) {
+        cards.set(printingKey(card.set, card.collector_number ?? ''), card);
+      }
+      return cards;
     } catch (error) {
-      if (error instanceof AppError) throw error;
-      console.error('Scryfall get card error:', error);
-      throw new AppError('Erro ao buscar carta no Scryfall', 500);
+      console.error('Scryfall collection error:', error);
+      throw this.toAppError(error, 'Erro ao buscar cartas no Scryfall');
     }
   }
 
   /**
-   * Get card by exact name
-   * 
+   * Get card by exact name (read-through the scryfall_cards table)
+   *
+   * A stored printing with the same name is returned when available,
+   * which may differ from the default printing Scryfall would pick.
+   *
    * @param name - Exact card name
    * @returns Card data
    */
   async getCardByName(name: string): Promise<ScryfallCard> {
+    if (this.offline) return catalogService.getCardByName(name);
+
+    try {
+      const result = await pool.query<StoredCardRow>(
+        `SELECT id, data, fetched_at FROM scryfall_cards
+         WHERE LOWER(name) = LOWER($1)
+         ORDER BY fetched_at DESC
+         LIMIT 1`,
+        [name]
+      );
+      const stored = result.rows[0];
+      if (stored) {
+        this.cacheHits++;
+        if (!this.isFresh(stored)) this.scheduleRefresh([stored.id]);
+        return stored.data;
+      }
+    } catch (error) {
+      console.warn('Failed to read stored Scryfall card by name:', error);
+    }
+
+    this.cacheMisses++;
+
     try {
       const url = `${this.baseUrl}/cards/named?exact=${encodeURIComponent(name)}`;
-      const response = await fetch(url);
+      const response = await this.scheduler.schedule(url);
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new AppError('Carta não encontrada no Scryfall', 404);
-        }
-        throw new Error(`Scryfall API error: ${response.statusText}`);
+      if (response.status === 404) {
+        throw new AppError('Carta não encontrada no Scryfall', 404);
       }
+      this.assertOk(response);
 
-      return (await response.json()) as ScryfallCard;
+      const data = (await response.json()) as ScryfallCard;
+      await this.storeCards([data]);
+      return data;
     } catch (error) {
       if (error instanceof AppError) throw error;
       console.error('Scryfall get by name error:', error);
-      throw new AppError('Erro ao buscar carta no Scryfall', 500);
+      throw this.toAppError(error, 'Erro ao buscar carta no Scryfall');
     }
   }
 
   /**
    * Autocomplete card names
-   * 
+   *
    * @param query - Partial card name
    * @returns List of matching card names
    */
   async autocomplete(query: string): Promise<ScryfallAutocompleteResponse> {
+    if (this.offline) return catalogService.autocomplete(query);
+
     const cacheKey = `autocomplete:${query}`;
     const cached = this.searchCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < this.searchCacheTTL) {
@@ -207,20 +659,21 @@ class ScryfallService {
 
     try {
       const url = `${this.baseUrl}/cards/autocomplete?q=${encodeURIComponent(query)}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`Scryfall API error: ${response.statusText}`);
-      }
+      const response = await this.scheduler.schedule(url);
+      this.assertOk(response);
 
       const data = (await response.json()) as ScryfallAutocompleteResponse;
-      this.searchCache.set(cacheKey, { data, timestamp: Date.now() });
+      this.cacheSearch(cacheKey, data);
       return data;
     } catch (error) {
+      if (cached) {
+        this.staleServed++;
+        return cached.data as ScryfallAutocompleteResponse;
+      }
       console.error('Scryfall autocomplete error:', error);
-      throw new AppError('Erro ao buscar sugestões no Scryfall', 500);
+      throw this.toAppError(error, 'Erro ao buscar sugestões no Scryfall');
     }
   }
 }
 
-export default new ScryfallService();
\ No newline at end of file
+export default new ScryfallService();
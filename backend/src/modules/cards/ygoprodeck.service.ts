@@ -0,0 +1,356 @@
+import fs from 'fs';
+import pool from '../../config/database';
+import { readJsonArray } from './bulkData.reader';
+import { escapeLike } from './catalog.service';
+import { CardDataProvider } from './cardDataProvider';
+import {
+  ScryfallCard,
+  ScryfallSearchResponse,
+  ScryfallAutocompleteResponse,
+  YgoProDeckCard,
+  YgoProDeckCardSet,
+  TcgType,
+  AppError,
+} from '../../types';
+
+/**
+ * Rows written per INSERT while importing a cardinfo dump
+ */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Same page size as Scryfall searches
+ */
+const SEARCH_PAGE_SIZE = 175;
+
+/**
+ * Short rarity code used in printing IDs ("(UR)" -> "UR", "Ultra Rare" -> "UltraRare")
+ */
+function rarityCode(set: YgoProDeckCardSet): string {
+  return (set.set_rarity_code ?? '').replace(/[()]/g, '') || set.set_rarity.replace(/[^A-Za-z0-9]/g, '');
+}
+
+/**
+ * Format a YGOPRODeck price string the way Scryfall does ("1.23" or null)
+ */
+function formatPrice(value: string | undefined): string | null {
+  const price = parseFloat(value ?? '');
+  return price > 0 ? price.toFixed(2) : null;
+}
+
+/**
+ * Build the ID of one printing: `passcode:SETCODE:RARITY` (e.g. "89631139:LOB-EN001:UR")
+ *
+ * Cards without any printing are identified by their bare passcode.
+ */
+export function printingId(card: YgoProDeckCard, set: YgoProDeckCardSet): string {
+  return `${card.id}:${set.set_code}:${rarityCode(set)}`;
+}
+
+/**
+ * Split a printing ID into passcode, set code and rarity code
+ *
+ * @returns null when the ID does not start with a numeric passcode
+ */
+export function parsePrintingId(id: string): { passcode: number; setCode?: string; rarity?: string } | null {
+  const [passcode, setCode, rarity] = id.split(':');
+  if (!/^\d+$/.test(passcode ?? '')) return null;
+  return { passcode: parseInt(passcode, 10), setCode, rarity };
+}
+
+/**
+ * Convert a YGOPRODeck card into the app's card shape
+ *
+ * With a printing, the card gets that printing's ID, set, rarity and
+ * price; without one it describes the card itself (no set).
+ * Set prices fall back to the card's TCGplayer price; EUR comes from Cardmarket.
+ */
+export function toCardData(card: YgoProDeckCard, set?: YgoProDeckCardSet): ScryfallCard {
+  const image = card.card_images?.[0];
+  const prices = card.card_prices?.[0];
+
+  return {
+    id: set ? printingId(card, set) : String(card.id),
+    name: card.name,
+    type_line: card.race ? `${card.type} — ${card.race}` : card.type,
+    oracle_text: card.desc,
+    set: set ? set.set_code.split('-')[0] : '',
+    set_name: set?.set_name ?? '',
+    collector_number: set?.set_code,
+    rarity: set?.set_rarity ?? '',
+    image_uris: image
+      ? {
+          small: image.image_url_small,
+          normal: image.image_url,
+          large: image.image_url,
+          art_crop: image.image_url_cropped,
+        }
+      : undefined,
+    prices: {
+      usd: formatPrice(set?.set_price) ?? formatPrice(prices?.tcgplayer_price),
+      usd_foil: null,
+      eur: formatPrice(prices?.cardmarket_price),
+      eur_foil: null,
+    },
+    atk: card.atk ?? null,
+    def: card.def ?? null,
+    level: card.level ?? null,
+    attribute: card.attribute ?? null,
+  };
+}
+
+/**
+ * Resolve a printing ID against a card
+ */
+function findPrinting(card: YgoProDeckCard, id: string): ScryfallCard | undefined {
+  const set = card.card_sets?.find((s) => printingId(card, s) === id);
+  if (set) return toCardData(card, set);
+  return id === String(card.id) ? toCardData(card) : undefined;
+}
+
+/**
+ * Default printing for name lookups (the first listed set, if any)
+ */
+function defaultPrinting(card: YgoProDeckCard): ScryfallCard {
+  const set = card.card_sets?.[0];
+  return set ? toCardData(card, set) : toCardData(card);
+}
+
+/**
+ * YGOPRODeck Card Service
+ *
+ * Card data provider for Yu-Gi-Oh! collections, answered entirely from
+ * the ygo_cards table - a local copy of YGOPRODeck's card database.
+ *
+ * Every set/rarity combination a card was printed in is a separate
+ * printing with its own ID (`passcode:SETCODE:RARITY`) and price.
+ *
+ * Download https://db.ygoprodeck.com/api/v7/cardinfo.php to a file, then
+ * import with: npm run import:yugioh -- path/to/cardinfo.json
+ */
+export class YgoProDeckService implements CardDataProvider {
+  readonly tcgType = TcgType.YUGIOH;
+
+  /**
+   * Import a YGOPRODeck cardinfo dump into the ygo_cards table
+   *
+   * The file is streamed and written in batches; existing cards are
+   * updated in place.
+   *
+   * @param filePath - Path to a cardinfo.php JSON response
+   * @param onProgress - Called after each batch with the running total
+   * @returns Number of imported cards
+   */
+  async importCardInfo(filePath: string, onProgress?: (imported: number) => void): Promise<{ imported: number }> {
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    let batch: YgoProDeckCard[] = [];
+    let imported = 0;
+
+    for await (const card of readJsonArray<YgoProDeckCard>(stream)) {
+      if (!card.id || !card.name) continue;
+
+      batch.push(card);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await this.upsertCards(batch);
+        imported += batch.length;
+        batch = [];
+        onProgress?.(imported);
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.upsertCards(batch);
+      imported += batch.length;
+      onProgress?.(imported);
+    }
+
+    return { imported };
+  }
+
+  /**
+   * Upsert a batch of cardinfo entries
+   */
+  private async upsertCards(cards: YgoProDeckCard[]): Promise<void> {
+    const unique = new Map(cards.map((card) => [card.id, card]));
+
+    await pool.query(
+      `INSERT INTO ygo_cards (id, name, data, imported_at)
+       SELECT (c->>'id')::int, c->>'name', c, CURRENT_TIMESTAMP
+       FROM jsonb_array_elements($1::jsonb) AS c
+       ON CONFLICT (id) DO UPDATE
+         SET name = EXCLUDED.name, data = EXCLUDED.data, imported_at = EXCLUDED.imported_at`,
+      [JSON.stringify(Array.from(unique.values()))]
+    );
+  }
+
+  /**
+   * Search cards whose name contains the query (exact matches first)
+   *
+   * @param query - Partial card name
+   * @returns One result per card (no printing selected yet)
+   */
+  async searchCards(query: string): Promise<ScryfallSearchResponse> {
+    const text = query.trim();
+    if (!text) {
+      return { object: 'list', total_cards: 0, has_more: false, data: [] };
+    }
+
+    const result = await pool.query<{ data: YgoProDeckCard }>(
+      `SELECT data FROM ygo_cards
+       WHERE name ILIKE $1
+       ORDER BY (LOWER(name) = LOWER($2)) DESC, name
+       LIMIT ${SEARCH_PAGE_SIZE + 1}`,
+      [`%${escapeLike(text)}%`, text]
+    );
+    const data = result.rows.slice(0, SEARCH_PAGE_SIZE).map((row) => toCardData(row.data));
+
+    return {
+      object: 'list',
+      total_cards: data.length,
+      has_more: result.rows.length > SEARCH_PAGE_SIZE,
+      data,
+    };
+  }
+
+  /**
+   * Autocomplete card names
+   *
+   * @param query - Partial card name
+   * @returns Up to 20 names starting with the query
+   */
+  async autocomplete(query: string): Promise<ScryfallAutocompleteResponse> {
+    const result = await pool.query<{ name: string }>(
+      `SELECT name FROM ygo_cards
+       WHERE name ILIKE $1
+       ORDER BY name
+       LIMIT 20`,
+      [`${escapeLike(query.trim())}%`]
+    );
+
+    return {
+      object: 'catalog',
+      total_values: result.rows.length,
+      data: result.rows.map((row) => row.name),
+    };
+  }
+
+  /**
+   * Get a printing (or a card, by bare passcode)
+   *
+   * @param id - Printing ID (`passcode:SETCODE:RARITY`) or passcode
+   * @returns Card data
+   * @throws AppError 404 if the printing is unknown
+   */
+  async getCardById(id: string): Promise<ScryfallCard> {
+    const card = (await this.getCardsByIds([id])).get(id);
+
+    if (!card) {
+      throw new AppError('Carta não encontrada no banco de dados Yu-Gi-Oh!', 404);
+    }
+
+    return card;
+  }
+
+  /**
+   * Get the default printing of a card by exact name
+   *
+   * @param name - Exact card name
+   * @returns Card data
+   * @throws AppError 404 if no card has that name
+   */
+  async getCardByName(name: string): Promise<ScryfallCard> {
+    const card = (await this.getCardsByNames([name])).get(name.trim().toLowerCase());
+
+    if (!card) {
+      throw new AppError('Carta não encontrada no banco de dados Yu-Gi-Oh!', 404);
+    }
+
+    return card;
+  }
+
+  /**
+   * Get every set/rarity printing of a card
+   *
+   * @param name - Exact card name
+   * @returns Printings (the card itself when it has none; empty when the name is unknown)
+   */
+  async getPrintings(name: string): Promise<ScryfallCard[]> {
+    const result = await pool.query<{ data: YgoProDeckCard }>(
+      'SELECT data FROM ygo_cards WHERE LOWER(name) = LOWER($1)',
+      [name.trim()]
+    );
+
+    return result.rows.flatMap(({ data: card }) =>
+      card.card_sets?.length ? card.card_sets.map((set) => toCardData(card, set)) : [toCardData(card)]
+    );
+  }
+
+  /**
+   * Get many printings by ID in one query
+   *
+   * @param ids - Printing IDs or passcodes (duplicates allowed)
+   * @returns Map of ID to card data (unknown IDs are absent)
+   */
+  async getCardsByIds(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+    const passcodes = new Set<number>();
+    for (const id of uniqueIds) {
+      const parsed = parsePrintingId(id);
+      if (parsed) passcodes.add(parsed.passcode);
+    }
+    if (passcodes.size === 0) return cards;
+
+    const result = await pool.query<{ id: number; data: YgoProDeckCard }>(
+      'SELECT id, data FROM ygo_cards WHERE id = ANY($1::int[])',
+      [Array.from(passcodes)]
+    );
+    const byPasscode = new Map(result.rows.map((row) => [row.id, row.data]));
+
+    for (const id of uniqueIds) {
+      const card = byPasscode.get(parsePrintingId(id)?.passcode ?? -1);
+      const printing = card && findPrinting(card, id);
+      if (printing) cards.set(id, printing);
+    }
+
+    return cards;
+  }
+
+  /**
+   * Get the default printing for many exact names
+   *
+   * @param names - Exact card names (duplicates allowed)
+   * @returns Map of lowercased requested name to card data
+   */
+  async getCardsByNames(names: string[]): Promise<Map<string, ScryfallCard>> {
+    const cards = new Map<string, ScryfallCard>();
+    const keys = Array.from(new Set(names.map((name) => name.trim().toLowerCase()).filter(Boolean)));
+    if (keys.length === 0) return cards;
+
+    const result = await pool.query<{ key: string; data: YgoProDeckCard }>(
+      'SELECT LOWER(name) AS key, data FROM ygo_cards WHERE LOWER(name) = ANY($1)',
+      [keys]
+    );
+    for (const row of result.rows) {
+      if (!cards.has(row.key)) cards.set(row.key, defaultPrinting(row.data));
+    }
+
+    return cards;
+  }
+
+  /**
+   * Card data is local; prices change when the dump is re-imported
+   */
+  async refreshCards(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    return this.getCardsByIds(ids);
+  }
+
+  /**
+   * Card data is local, so stored cards are simply the cards
+   */
+  async getStoredCards(ids: string[]): Promise<Map<string, ScryfallCard>> {
+    return this.getCardsByIds(ids);
+  }
+}
+
+export default new YgoProDeckService();
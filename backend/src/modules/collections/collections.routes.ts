@@ -1,11 +1,15 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import collectionsController from './collections.controller';
 import cardsController from '../cards/cards.controller';
+import pricesController from '../prices/prices.controller';
+import exportController from '../export/export.controller';
+import importJobsController from '../imports/importJobs.controller';
+import loansController from '../loans/loans.controller';
 import { authenticate } from '../../middleware/auth';
 import { validateRequest } from '../../middleware/validation';
 import { asyncHandler } from '../../middleware/errorHandler';
-import { TcgType } from '../../types';
+import { TcgType, CardFinish, CsvImportFormat, DeckBoard, ExportFormat } from '../../types';
 
 const router = Router();
 
@@ -21,6 +25,10 @@ const router = Router();
  * - PATCH  /api/collections/:id      - Update collection
  * - DELETE /api/collections/:id      - Delete collection
  * - GET    /api/collections/:id/stats - Get statistics
+ * - GET    /api/collections/:id/value-history - Total value over time
+ * - GET    /api/collections/:id/movers - Top price gainers and losers
+ * - GET    /api/collections/:id/export - Download the collection as a file
+ * - GET    /api/collections/:collectionId/loans - Loans of the collection's cards
  */
 
 // Apply authentication to all routes
@@ -122,6 +130,77 @@ router.get(
   asyncHandler(collectionsController.getCollectionStats.bind(collectionsController))
 );
 
+/**
+ * GET /api/collections/:id/value-history
+ * Get a collection's total value over time
+ *
+ * Query:
+ * - days: How many days back (default: 90)
+ * - interval: day | week | month (default: day)
+ */
+router.get(
+  '/:id/value-history',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da coleção inválido'),
+    query('days')
+      .optional()
+      .isInt({ min: 1, max: 3650 })
+      .withMessage('days deve ser um número inteiro entre 1 e 3650'),
+    query('interval')
+      .optional()
+      .isIn(['day', 'week', 'month'])
+      .withMessage('Intervalo inválido (day, week, month)'),
+  ]),
+  asyncHandler(pricesController.getCollectionValueHistory.bind(pricesController))
+);
+
+/**
+ * GET /api/collections/:id/movers
+ * Get a collection's top price gainers and losers
+ *
+ * Query:
+ * - days: Window length (default: 7)
+ * - sort: absolute | percent (default: absolute)
+ * - limit: Cards per list (default: 10)
+ */
+router.get(
+  '/:id/movers',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da coleção inválido'),
+    query('days')
+      .optional()
+      .isInt({ min: 2, max: 3650 })
+      .withMessage('days deve ser um número inteiro entre 2 e 3650'),
+    query('sort')
+      .optional()
+      .isIn(['absolute', 'percent'])
+      .withMessage('Ordenação inválida (absolute, percent)'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('limit deve ser um número inteiro entre 1 e 50'),
+  ]),
+  asyncHandler(pricesController.getCollectionMovers.bind(pricesController))
+);
+
+/**
+ * GET /api/collections/:id/export
+ * Download every card of the collection
+ *
+ * Query:
+ * - format: arena | mtgo | moxfield | json (arena and mtgo: Magic only)
+ */
+router.get(
+  '/:id/export',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da coleção inválido'),
+    query('format')
+      .isIn(Object.values(ExportFormat))
+      .withMessage('Formato de exportação inválido (arena, mtgo, moxfield, json)'),
+  ]),
+  asyncHandler(exportController.exportCollection.bind(exportController))
+);
+
 /**
  * GET /api/collections/:collectionId/cards
  * Get all cards in a collection
@@ -136,36 +215,181 @@ router.get(
 
 /**
  * POST /api/collections/:collectionId/cards/import
- * Import a deck list (bulk add cards by name)
+ * Queue a deck list import in Arena, MTGO, Moxfield or Archidekt syntax;
+ * answers 202 with the import job (progress at /api/import-jobs/:id)
  *
  * Body:
- * - entries: Array of { name, quantity }
- * - owner_name: Owner name for all imported cards
+ * - text: Deck list text; "(SET) 123" picks a printing, "*F*" / "*E*" mark
+ *   foil / etched, "Sideboard" / "Commander" headers start a section
+ * - owner_id: Owner of all imported cards
+ * - deck_id: Deck to put the cards in, by section (optional)
+ * - atomic: Reject the whole import if any card is not found (optional);
+ *   otherwise the cards found are imported in one transaction
  */
 router.post(
   '/:collectionId/cards/import',
   validateRequest([
     param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+    body('text')
+      .isString()
+      .withMessage('Lista de cartas deve ser texto')
+      .notEmpty()
+      .withMessage('Lista de cartas é obrigatória'),
+    body('owner_id')
+      .notEmpty()
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
+    body('atomic')
+      .optional()
+      .isBoolean()
+      .withMessage('atomic deve ser booleano')
+      .toBoolean(),
+  ]),
+  asyncHandler(importJobsController.createDeckListJob.bind(importJobsController))
+);
+
+/**
+ * POST /api/collections/:collectionId/cards/import/preview
+ * Resolve a deck list without importing it (dry run)
+ *
+ * Body (one of):
+ * - text: Deck list text, as for /import
+ * - entries: Array of { name, quantity, set_code?, collector_number?, finish?, board?, line? }
+ *   (rows corrected after a previous preview)
+ */
+router.post(
+  '/:collectionId/cards/import/preview',
+  validateRequest([
+    param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+    body('text')
+      .if(body('entries').not().exists())
+      .isString()
+      .withMessage('Lista de cartas deve ser texto')
+      .notEmpty()
+      .withMessage('Lista de cartas (text ou entries) é obrigatória'),
     body('entries')
+      .optional()
       .isArray({ min: 1 })
-      .withMessage('Lista de cartas é obrigatória'),
+      .withMessage('Lista de cartas deve ter ao menos uma carta'),
     body('entries.*.name')
+      .isString()
+      .trim()
       .notEmpty()
       .withMessage('Nome da carta é obrigatório'),
     body('entries.*.quantity')
+      .optional()
       .isInt({ min: 1 })
       .withMessage('Quantidade deve ser um número inteiro positivo'),
-    body('owner_name')
-      .trim()
+    body('entries.*.set_code')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Código da coleção deve ser texto'),
+    body('entries.*.collector_number')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Número de colecionador deve ser texto'),
+    body('entries.*.finish')
+      .optional({ values: 'null' })
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
+    body('entries.*.board')
+      .optional()
+      .isIn(Object.values(DeckBoard))
+      .withMessage('Seção do deck inválida (main, sideboard, commander)'),
+  ]),
+  asyncHandler(cardsController.previewDeckImport.bind(cardsController))
+);
+
+/**
+ * POST /api/collections/:collectionId/cards/import/commit
+ * Queue the reviewed rows of an import preview, imported all or nothing;
+ * answers 202 with the import job
+ *
+ * Body:
+ * - cards: Array of { scryfall_id, quantity, finish?, board? }
+ * - owner_id: Owner of all imported cards
+ * - deck_id: Deck to put the cards in, by board (optional)
+ */
+router.post(
+  '/:collectionId/cards/import/commit',
+  validateRequest([
+    param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+    body('cards')
+      .isArray({ min: 1 })
+      .withMessage('Lista de cartas é obrigatória'),
+    body('cards.*.scryfall_id')
+      .isString()
       .notEmpty()
-      .withMessage('Nome do proprietário é obrigatório'),
+      .withMessage('ID da carta é obrigatório'),
+    body('cards.*.quantity')
+      .isInt({ min: 1 })
+      .withMessage('Quantidade deve ser um número inteiro positivo'),
+    body('cards.*.finish')
+      .optional({ values: 'null' })
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
+    body('cards.*.board')
+      .optional()
+      .isIn(Object.values(DeckBoard))
+      .withMessage('Seção do deck inválida (main, sideboard, commander)'),
+    body('owner_id')
+      .notEmpty()
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
   ]),
-  asyncHandler(cardsController.importDeckList.bind(cardsController))
+  asyncHandler(importJobsController.createCommitJob.bind(importJobsController))
+);
+
+/**
+ * POST /api/collections/:collectionId/cards/import-csv
+ * Queue a collection CSV import exported by Moxfield, Deckbox, TCGplayer,
+ * Delver Lens or ManaBox (Magic collections only); answers 202 with the
+ * import job
+ *
+ * Body:
+ * - csv: CSV text, header row included
+ * - owner_id: Owner of all imported cards
+ * - format: moxfield | deckbox | tcgplayer | delver_lens | manabox (optional, detected from the header row)
+ */
+router.post(
+  '/:collectionId/cards/import-csv',
+  validateRequest([
+    param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+    body('csv')
+      .isString()
+      .withMessage('Conteúdo do CSV deve ser texto')
+      .notEmpty()
+      .withMessage('Conteúdo do CSV é obrigatório'),
+    body('owner_id')
+      .notEmpty()
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('format')
+      .optional()
+      .isIn(Object.values(CsvImportFormat))
+      .withMessage('Formato de CSV inválido (moxfield, deckbox, tcgplayer, delver_lens, manabox)'),
+  ]),
+  asyncHandler(importJobsController.createCsvJob.bind(importJobsController))
 );
 
 /**
  * POST /api/collections/:collectionId/cards
- * Add card to collection
+ * Add card to collection; copies identical to an existing row (printing,
+ * finish, owner, deck section and borrowed status) are added to its quantity
  */
 router.post(
   '/:collectionId/cards',
@@ -176,25 +400,28 @@ router.post(
       .withMessage('ID do Scryfall é obrigatório')
       .isString()
       .withMessage('ID do Scryfall deve ser texto'),
-    body('owner_name')
-      .trim()
+    body('owner_id')
       .notEmpty()
-      .withMessage('Nome do proprietário é obrigatório')
-      .isLength({ max: 255 })
-      .withMessage('Nome deve ter no máximo 255 caracteres'),
-    body('current_deck')
-      .optional()
-      .trim()
-      .isLength({ max: 255 })
-      .withMessage('Nome do deck deve ter no máximo 255 caracteres'),
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
     body('is_borrowed')
       .optional()
       .isBoolean()
       .withMessage('is_borrowed deve ser booleano'),
-    body('is_foil')
+    body('board')
       .optional()
-      .isBoolean()
-      .withMessage('is_foil deve ser booleano'),
+      .isIn(Object.values(DeckBoard))
+      .withMessage('Seção do deck inválida (main, sideboard, commander)'),
+    body('finish')
+      .optional()
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
     body('quantity')
       .optional()
       .toInt()
@@ -214,4 +441,36 @@ router.post(
   asyncHandler(cardsController.addCard.bind(cardsController))
 );
 
+/**
+ * POST /api/collections/:collectionId/cards/consolidate
+ * Merge duplicate card rows into one row per card, adding up quantities
+ */
+router.post(
+  '/:collectionId/cards/consolidate',
+  validateRequest([
+    param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+  ]),
+  asyncHandler(cardsController.consolidateDuplicates.bind(cardsController))
+);
+
+/**
+ * GET /api/collections/:collectionId/loans
+ * List the loans of a collection's cards: overdue first, then open loans
+ * by due date, then returned loans
+ *
+ * Query params:
+ * - status: open | returned | all (optional, default: all)
+ */
+router.get(
+  '/:collectionId/loans',
+  validateRequest([
+    param('collectionId').isUUID().withMessage('ID da coleção inválido'),
+    query('status')
+      .optional()
+      .isIn(['open', 'returned', 'all'])
+      .withMessage('Status inválido (open, returned, all)'),
+  ]),
+  asyncHandler(loansController.getCollectionLoans.bind(loansController))
+);
+
 export default router;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import pool from '../../config/database';
+import { effectiveEurPriceSql, effectivePriceSql } from '../cards/cardPrices';
 import { Collection, CollectionStats, CollectionWithStats, CreateCollectionRequest, UpdateCollectionRequest, AppError } from '../../types';
 
 /**
@@ -31,6 +32,9 @@ class CollectionsService {
   /**
    * Get all collections for a user with card count and total value
    *
+   * total_value is in USD. total_value_eur uses native EUR prices and
+   * converts the USD price of copies without one.
+   *
    * @param userId - User ID
    * @returns Array of user's collections with statistics
    */
@@ -39,10 +43,14 @@ class CollectionsService {
       `SELECT
          c.*,
          COALESCE(SUM(ca.quantity), 0)::int AS card_count,
-         COALESCE(SUM(ca.price_usd * ca.quantity), 0)::numeric(10,2) AS total_value,
+         COALESCE(SUM(${effectivePriceSql('ca')} * ca.quantity), 0)::numeric(10,2) AS total_value,
+         COALESCE(SUM(
+           COALESCE(${effectiveEurPriceSql('ca')}, ${effectivePriceSql('ca')} * er.rate_per_usd) * ca.quantity
+         ), 0)::numeric(10,2) AS total_value_eur,
          (SELECT scryfall_id FROM cards WHERE collection_id = c.id ORDER BY added_at DESC LIMIT 1) AS cover_card_id
        FROM collections c
        LEFT JOIN cards ca ON ca.collection_id = c.id
+       LEFT JOIN exchange_rates er ON er.currency = 'EUR'
        WHERE c.user_id = $1
        GROUP BY c.id
        ORDER BY c.created_at DESC`,
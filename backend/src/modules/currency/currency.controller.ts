@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import currencyService from './currency.service';
+import { AuthenticatedRequest } from '../../types';
+
+/**
+ * Currency Controller
+ *
+ * HTTP layer for exchange rate endpoints.
+ * All routes require authentication; updates require an admin.
+ */
+class CurrencyController {
+  /**
+   * GET /api/exchange-rates
+   * Get all exchange rates
+   */
+  async getRates(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    const rates = await currencyService.getRates();
+
+    res.status(200).json({
+      success: true,
+      data: rates,
+    });
+  }
+
+  /**
+   * PUT /api/exchange-rates
+   * Set exchange rates (admin only)
+   */
+  async updateRates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const rates = await currencyService.updateRates(req.body.rates);
+
+    res.status(200).json({
+      success: true,
+      data: rates,
+    });
+  }
+}
+
+export default new CurrencyController();
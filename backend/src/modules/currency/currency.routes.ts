@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import currencyController from './currency.controller';
+import { authenticate, requireAdmin } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { Currency } from '../../types';
+
+const router = Router();
+
+/**
+ * Exchange Rate Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Routes:
+ * - GET /api/exchange-rates - List exchange rates
+ * - PUT /api/exchange-rates - Set exchange rates (admin only)
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * GET /api/exchange-rates
+ * Get all exchange rates (units of each currency per 1 USD)
+ */
+router.get(
+  '/',
+  asyncHandler(currencyController.getRates.bind(currencyController))
+);
+
+/**
+ * PUT /api/exchange-rates
+ * Set exchange rates
+ *
+ * Body:
+ * - rates: Units per 1 USD keyed by currency, e.g. { "BRL": 5.4, "EUR": 0.92 }
+ */
+router.put(
+  '/',
+  requireAdmin,
+  validateRequest([
+    body('rates')
+      .isObject()
+      .withMessage('rates deve ser um objeto'),
+    body('rates')
+      .custom((rates: Record<string, unknown>) =>
+        Object.keys(rates).every((currency) => Object.values(Currency).includes(currency as Currency))
+      )
+      .withMessage(`Moeda inválida (${Object.values(Currency).join(', ')})`),
+    body('rates.*')
+      .isFloat({ gt: 0 })
+      .withMessage('Taxas devem ser números positivos')
+      .toFloat(),
+  ]),
+  asyncHandler(currencyController.updateRates.bind(currencyController))
+);
+
+export default router;
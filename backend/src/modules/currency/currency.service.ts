@@ -0,0 +1,135 @@
+import fs from 'fs';
+import pool from '../../config/database';
+import { AppError, Currency, ExchangeRate, ExchangeRateInput } from '../../types';
+
+/**
+ * Exchange rate as returned by pg (NUMERIC arrives as a string)
+ */
+interface ExchangeRateRow {
+  currency: Currency;
+  rate_per_usd: string;
+  updated_at: Date;
+}
+
+/**
+ * Rates file layout: {"base": "USD", "rates": {"BRL": 5.4, "EUR": 0.92}}
+ */
+interface RatesFile {
+  base?: string;
+  rates?: Record<string, unknown>;
+}
+
+function isCurrency(value: unknown): value is Currency {
+  return Object.values(Currency).includes(value as Currency);
+}
+
+/**
+ * Parse a rates file into rates per 1 USD
+ *
+ * Rates quoted against another supported base are converted through the
+ * file's USD rate. Currencies the app doesn't display are ignored.
+ *
+ * @param content - JSON file contents
+ * @returns Rates keyed by currency
+ * @throws AppError if the file is not a valid rates file
+ */
+export function parseRatesFile(content: string): ExchangeRateInput {
+  let file: RatesFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new AppError('Arquivo de câmbio inválido', 400);
+  }
+
+  const base = (file.base ?? Currency.USD).toUpperCase();
+  if (!isCurrency(base) || !file.rates || typeof file.rates !== 'object') {
+    throw new AppError('Arquivo de câmbio inválido', 400);
+  }
+
+  const quoted: Record<string, number> = { ...file.rates as Record<string, number>, [base]: 1 };
+  const usdPerBase = Number(quoted[Currency.USD]);
+  if (!(usdPerBase > 0)) {
+    throw new AppError('Arquivo de câmbio sem taxa para USD', 400);
+  }
+
+  const rates: ExchangeRateInput = {};
+  for (const currency of Object.values(Currency)) {
+    const rate = Number(quoted[currency]);
+    if (rate > 0) {
+      rates[currency] = rate / usdPerBase;
+    }
+  }
+  return rates;
+}
+
+/**
+ * Currency Service
+ *
+ * Exchange rates used to display USD prices in other currencies.
+ * Rates are stored as units of each currency per 1 USD; USD is always 1.
+ */
+class CurrencyService {
+  /**
+   * Get all exchange rates
+   *
+   * @returns One rate per configured currency
+   */
+  async getRates(): Promise<ExchangeRate[]> {
+    const result = await pool.query<ExchangeRateRow>(
+      'SELECT currency, rate_per_usd, updated_at FROM exchange_rates ORDER BY currency'
+    );
+
+    return result.rows.map((row) => ({
+      ...row,
+      rate_per_usd: parseFloat(row.rate_per_usd),
+    }));
+  }
+
+  /**
+   * Set exchange rates (currencies not given keep their rate)
+   *
+   * @param rates - Units per 1 USD, keyed by currency
+   * @returns All exchange rates after the update
+   * @throws AppError if a rate is invalid or the USD rate isn't 1
+   */
+  async updateRates(rates: ExchangeRateInput): Promise<ExchangeRate[]> {
+    const entries = Object.entries(rates) as [string, number][];
+
+    if (entries.length === 0) {
+      throw new AppError('Nenhuma taxa para atualizar', 400);
+    }
+
+    for (const [currency, rate] of entries) {
+      if (!isCurrency(currency) || !Number.isFinite(rate) || rate <= 0) {
+        throw new AppError(`Taxa de câmbio inválida para ${currency}`, 400);
+      }
+      if (currency === Currency.USD && rate !== 1) {
+        throw new AppError('A taxa do USD é fixa em 1', 400);
+      }
+    }
+
+    await pool.query(
+      `INSERT INTO exchange_rates (currency, rate_per_usd, updated_at)
+       SELECT currency, rate, CURRENT_TIMESTAMP
+       FROM unnest($1::varchar[], $2::numeric[]) AS r(currency, rate)
+       ON CONFLICT (currency) DO UPDATE
+         SET rate_per_usd = EXCLUDED.rate_per_usd, updated_at = EXCLUDED.updated_at`,
+      [entries.map(([currency]) => currency), entries.map(([, rate]) => rate)]
+    );
+
+    return this.getRates();
+  }
+
+  /**
+   * Set exchange rates from a local rates file
+   *
+   * @param filePath - Path to a JSON rates file (see parseRatesFile)
+   * @returns All exchange rates after the import
+   */
+  async importRatesFile(filePath: string): Promise<ExchangeRate[]> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return this.updateRates(parseRatesFile(content));
+  }
+}
+
+export default new CurrencyService();
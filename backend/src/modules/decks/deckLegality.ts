@@ -0,0 +1,240 @@
+import {
+  CardWithDetails,
+  DeckBoard,
+  DeckFormat,
+  DeckLegalityReport,
+  LegalityViolation,
+  ScryfallCard,
+} from '../../types';
+
+/**
+ * Deck size and copy limit of a format
+ */
+interface FormatRules {
+  minCards: number;
+  maxCards: number | null;
+  copyLimit: number;
+}
+
+const CONSTRUCTED: FormatRules = { minCards: 60, maxCards: null, copyLimit: 4 };
+
+const FORMAT_RULES: Record<DeckFormat, FormatRules> = {
+  [DeckFormat.STANDARD]: CONSTRUCTED,
+  [DeckFormat.PIONEER]: CONSTRUCTED,
+  [DeckFormat.MODERN]: CONSTRUCTED,
+  [DeckFormat.LEGACY]: CONSTRUCTED,
+  [DeckFormat.VINTAGE]: CONSTRUCTED,
+  [DeckFormat.PAUPER]: CONSTRUCTED,
+  [DeckFormat.COMMANDER]: { minCards: 100, maxCards: 100, copyLimit: 1 },
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+/**
+ * Copies of a card a deck may hold, given the format's usual limit
+ *
+ * Basic lands and cards saying "A deck can have any number of cards named..."
+ * are unlimited; "A deck can have up to seven cards named..." raises the limit.
+ */
+export function copyLimitFor(card: ScryfallCard, formatLimit: number): number {
+  const text = card.oracle_text ?? card.card_faces?.map((face) => face.oracle_text ?? '').join('\n') ?? '';
+
+  if (/\bBasic\b.*\bLand\b/.test(card.type_line ?? '') || /a deck can have any number of cards named/i.test(text)) {
+    return Infinity;
+  }
+
+  const upTo = text.match(/a deck can have up to (\w+) cards named/i);
+  if (upTo) {
+    const limit = NUMBER_WORDS[upTo[1].toLowerCase()] ?? parseInt(upTo[1], 10);
+    if (limit > formatLimit) return limit;
+  }
+
+  return formatLimit;
+}
+
+/**
+ * Whether a card may be a Commander deck's commander
+ */
+export function canBeCommander(card: ScryfallCard): boolean {
+  const typeLine = (card.type_line ?? '').split(' // ')[0];
+  return (typeLine.includes('Legendary') && typeLine.includes('Creature')) ||
+    /can be your commander/i.test(card.oracle_text ?? '');
+}
+
+/**
+ * Copies of one card name in the deck, across printings
+ */
+interface DeckEntry {
+  card: ScryfallCard;
+  count: number;
+  inCommandZone: boolean;
+}
+
+/**
+ * Check a deck against a format
+ *
+ * Checks card legality (banned, restricted, not legal), deck size, copy
+ * limits and, in Commander, the commander and color identity. Cards are
+ * counted by name, so different printings of a card share its copy limit,
+ * and sideboard copies count toward it but not toward the deck size.
+ * Partner pairings are not checked.
+ *
+ * @param cards - Cards in the deck, with card data
+ * @param format - Format to check against
+ * @param commanderNames - Commander card names (Commander only); when empty,
+ *   the cards in the commander board are used, else the deck's only
+ *   legendary creature
+ * @returns Report with every violation found
+ */
+export function validateDeckLegality(
+  cards: CardWithDetails[],
+  format: DeckFormat,
+  commanderNames: string[] = []
+): DeckLegalityReport {
+  const rules = FORMAT_RULES[format];
+  const violations: LegalityViolation[] = [];
+  const entries = new Map<string, DeckEntry>();
+  let cardCount = 0;
+
+  for (const card of cards) {
+    if (card.board !== DeckBoard.SIDEBOARD) {
+      cardCount += card.quantity;
+    }
+
+    if (!card.scryfall_data) {
+      violations.push({
+        code: 'missing_card_data',
+        card_name: card.scryfall_id,
+        message: `Sem dados da carta ${card.scryfall_id}; legalidade não verificada`,
+      });
+      continue;
+    }
+
+    const key = card.scryfall_data.name.toLowerCase();
+    const inCommandZone = card.board === DeckBoard.COMMANDER;
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count += card.quantity;
+      entry.inCommandZone ||= inCommandZone;
+    } else {
+      entries.set(key, { card: card.scryfall_data, count: card.quantity, inCommandZone });
+    }
+  }
+
+  if (cardCount < rules.minCards || (rules.maxCards !== null && cardCount > rules.maxCards)) {
+    violations.push({
+      code: 'deck_size',
+      count: cardCount,
+      limit: cardCount < rules.minCards ? rules.minCards : rules.maxCards!,
+      message: rules.maxCards === rules.minCards
+        ? `O deck deve ter exatamente ${rules.minCards} cartas (tem ${cardCount})`
+        : `O deck deve ter no mínimo ${rules.minCards} cartas (tem ${cardCount})`,
+    });
+  }
+
+  const commanders = format === DeckFormat.COMMANDER
+    ? resolveCommanders(entries, commanderNames, violations)
+    : [];
+  const colorIdentity = new Set(commanders.flatMap((commander) => commander.color_identity ?? []));
+
+  for (const { card, count } of entries.values()) {
+    const legality = card.legalities?.[format];
+
+    if (legality === 'banned') {
+      violations.push({ code: 'banned', card_name: card.name, message: `${card.name} está banida em ${format}` });
+    } else if (legality === 'not_legal' || legality === undefined) {
+      violations.push({ code: 'not_legal', card_name: card.name, message: `${card.name} não é legal em ${format}` });
+    } else if (legality === 'restricted' && count > 1) {
+      violations.push({
+        code: 'restricted',
+        card_name: card.name,
+        count,
+        limit: 1,
+        message: `${card.name} é restrita em ${format}: no máximo 1 cópia (tem ${count})`,
+      });
+    }
+
+    const limit = copyLimitFor(card, rules.copyLimit);
+    if (legality !== 'restricted' && count > limit) {
+      violations.push({
+        code: 'too_many_copies',
+        card_name: card.name,
+        count,
+        limit,
+        message: `${card.name}: no máximo ${limit} ${limit === 1 ? 'cópia' : 'cópias'} (tem ${count})`,
+      });
+    }
+
+    if (commanders.length > 0) {
+      const outside = (card.color_identity ?? []).filter((color) => !colorIdentity.has(color));
+      if (outside.length > 0) {
+        violations.push({
+          code: 'color_identity',
+          card_name: card.name,
+          colors: outside,
+          message: `${card.name} tem cores fora da identidade do comandante (${outside.join('')})`,
+        });
+      }
+    }
+  }
+
+  return {
+    format,
+    legal: violations.length === 0,
+    card_count: cardCount,
+    commanders: commanders.map((commander) => commander.name),
+    violations,
+  };
+}
+
+/**
+ * Find the deck's commanders, recording a violation for each problem
+ *
+ * @returns Commanders usable for the color identity check
+ */
+function resolveCommanders(
+  entries: Map<string, DeckEntry>,
+  commanderNames: string[],
+  violations: LegalityViolation[]
+): ScryfallCard[] {
+  if (commanderNames.length === 0) {
+    const inCommandZone = Array.from(entries.values()).filter((entry) => entry.inCommandZone);
+    if (inCommandZone.length > 0) {
+      return resolveCommanders(entries, inCommandZone.map(({ card }) => card.name), violations);
+    }
+
+    const candidates = Array.from(entries.values()).filter(({ card }) => canBeCommander(card));
+    if (candidates.length === 1) {
+      return [candidates[0].card];
+    }
+
+    violations.push({
+      code: 'commander_missing',
+      message: 'Informe o comandante do deck para verificar a identidade de cor',
+    });
+    return [];
+  }
+
+  const commanders: ScryfallCard[] = [];
+  for (const name of commanderNames) {
+    const entry = entries.get(name.trim().toLowerCase());
+    if (!entry) {
+      violations.push({
+        code: 'commander_not_in_deck',
+        card_name: name,
+        message: `O comandante ${name} não está no deck`,
+      });
+    } else if (!canBeCommander(entry.card)) {
+      violations.push({
+        code: 'invalid_commander',
+        card_name: entry.card.name,
+        message: `${entry.card.name} não pode ser comandante`,
+      });
+    } else {
+      commanders.push(entry.card);
+    }
+  }
+  return commanders;
+}
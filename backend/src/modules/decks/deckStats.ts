@@ -0,0 +1,130 @@
+import { CardWithDetails, DeckBoard, DeckCardType, DeckStats, ManaColor, ScryfallCard } from '../../types';
+
+/**
+ * Highest mana curve bucket (it also holds everything above it)
+ */
+const MAX_CURVE_CMC = 7;
+
+const MANA_COLORS: ManaColor[] = ['W', 'U', 'B', 'R', 'G', 'C'];
+
+/**
+ * Types in the order a card is classified: an Artifact Creature is a
+ * creature, an Artifact Land is a land
+ */
+const TYPE_PRIORITY: [DeckCardType, string][] = [
+  ['land', 'Land'],
+  ['creature', 'Creature'],
+  ['planeswalker', 'Planeswalker'],
+  ['battle', 'Battle'],
+  ['instant', 'Instant'],
+  ['sorcery', 'Sorcery'],
+  ['artifact', 'Artifact'],
+  ['enchantment', 'Enchantment'],
+];
+
+/**
+ * Type line and mana cost of the face a card is played as
+ *
+ * Double-faced cards (transform, modal) are played from their front face,
+ * so the back face's types and cost don't count: a spell with a land on its
+ * back is a spell. Split and adventure cards keep their combined mana cost,
+ * since either half can be cast.
+ */
+export function playedFace(card: ScryfallCard): { typeLine: string; manaCost: string } {
+  const front = card.card_faces?.[0];
+
+  return {
+    typeLine: front?.type_line ?? (card.type_line ?? '').split(' // ')[0],
+    manaCost: card.mana_cost || front?.mana_cost || '',
+  };
+}
+
+/**
+ * Classify a card under one type (see TYPE_PRIORITY)
+ */
+export function cardType(typeLine: string): DeckCardType {
+  const match = TYPE_PRIORITY.find(([, word]) => new RegExp(`\\b${word}\\b`).test(typeLine));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Count colored mana symbols in a mana cost
+ *
+ * Hybrid symbols count once for each of their colors ({W/U} is a W and a U
+ * pip), Phyrexian and two-generic hybrid symbols count their color.
+ */
+export function countPips(manaCost: string): Record<ManaColor, number> {
+  const pips = Object.fromEntries(MANA_COLORS.map((color) => [color, 0])) as Record<ManaColor, number>;
+
+  for (const [, symbol] of manaCost.matchAll(/\{([^}]+)\}/g)) {
+    for (const part of symbol.split('/')) {
+      if (MANA_COLORS.includes(part as ManaColor)) {
+        pips[part as ManaColor]++;
+      }
+    }
+  }
+  return pips;
+}
+
+/**
+ * Compute a deck's statistics
+ *
+ * Sideboard cards are left out; the commander counts as part of the deck.
+ *
+ * @param cards - Cards in the deck, with card data
+ * @returns Mana curve, pips, type split and land ratio, weighted by quantity
+ */
+export function computeDeckStats(cards: CardWithDetails[]): DeckStats {
+  const stats: DeckStats = {
+    card_count: 0,
+    land_count: 0,
+    spell_count: 0,
+    unknown_count: 0,
+    average_cmc: null,
+    land_to_spell_ratio: null,
+    mana_curve: Array.from({ length: MAX_CURVE_CMC + 1 }, (_, cmc) => ({ cmc, count: 0 })),
+    color_pips: countPips(''),
+    types: {
+      land: 0, creature: 0, planeswalker: 0, battle: 0, instant: 0,
+      sorcery: 0, artifact: 0, enchantment: 0, other: 0,
+    },
+  };
+  let totalCmc = 0;
+
+  for (const card of cards) {
+    if (card.board === DeckBoard.SIDEBOARD) continue;
+
+    stats.card_count += card.quantity;
+
+    if (!card.scryfall_data) {
+      stats.unknown_count += card.quantity;
+      continue;
+    }
+
+    const { typeLine, manaCost } = playedFace(card.scryfall_data);
+    const type = cardType(typeLine);
+    stats.types[type] += card.quantity;
+
+    const pips = countPips(manaCost);
+    for (const color of MANA_COLORS) {
+      stats.color_pips[color] += pips[color] * card.quantity;
+    }
+
+    if (type === 'land') {
+      stats.land_count += card.quantity;
+      continue;
+    }
+
+    const cmc = Math.floor(card.scryfall_data.cmc ?? 0);
+    stats.spell_count += card.quantity;
+    stats.mana_curve[Math.min(cmc, MAX_CURVE_CMC)].count += card.quantity;
+    totalCmc += (card.scryfall_data.cmc ?? 0) * card.quantity;
+  }
+
+  if (stats.spell_count > 0) {
+    stats.average_cmc = Math.round((totalCmc / stats.spell_count) * 100) / 100;
+    stats.land_to_spell_ratio = Math.round((stats.land_count / stats.spell_count) * 100) / 100;
+  }
+
+  return stats;
+}
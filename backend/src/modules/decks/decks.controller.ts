@@ -0,0 +1,143 @@
+import { Response } from 'express';
+import decksService from './decks.service';
+import { AuthenticatedRequest, DeckFormat } from '../../types';
+
+/**
+ * Decks Controller
+ *
+ * HTTP layer for deck management endpoints.
+ * All routes require authentication.
+ */
+class DecksController {
+  /**
+   * GET /api/decks
+   * Get all decks for authenticated user
+   */
+  async getUserDecks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+
+    const decks = await decksService.getUserDecks(userId);
+
+    res.status(200).json({
+      success: true,
+      data: decks,
+    });
+  }
+
+  /**
+   * GET /api/decks/:id
+   * Get deck by ID
+   */
+  async getDeckById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const deck = await decksService.getDeckById(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: deck,
+    });
+  }
+
+  /**
+   * POST /api/decks
+   * Create a new deck
+   */
+  async createDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { name, format, description } = req.body;
+
+    const deck = await decksService.createDeck(userId, { name, format, description });
+
+    res.status(201).json({
+      success: true,
+      data: deck,
+    });
+  }
+
+  /**
+   * PATCH /api/decks/:id
+   * Update a deck
+   */
+  async updateDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { name, format, description } = req.body;
+
+    const deck = await decksService.updateDeck(id, userId, { name, format, description });
+
+    res.status(200).json({
+      success: true,
+      data: deck,
+    });
+  }
+
+  /**
+   * DELETE /api/decks/:id
+   * Delete a deck
+   */
+  async deleteDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    await decksService.deleteDeck(id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Deck excluído com sucesso',
+    });
+  }
+
+  /**
+   * GET /api/decks/:id/cards
+   * Get the cards in a deck
+   */
+  async getDeckCards(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const cards = await decksService.getDeckCards(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: cards,
+    });
+  }
+
+  /**
+   * GET /api/decks/:id/stats
+   * Get the deck's statistics
+   */
+  async getDeckStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const stats = await decksService.getDeckStats(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+    });
+  }
+
+  /**
+   * GET /api/decks/:id/legality
+   * Check the deck against a format
+   */
+  async getDeckLegality(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const format = req.query.format as DeckFormat | undefined;
+    const commanders = ([] as string[]).concat((req.query.commander as string | string[] | undefined) ?? []);
+
+    const report = await decksService.getDeckLegality(id, userId, format, commanders);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  }
+}
+
+export default new DecksController();
@@ -0,0 +1,198 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import decksController from './decks.controller';
+import exportController from '../export/export.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { DeckFormat, ExportFormat } from '../../types';
+
+const router = Router();
+
+/**
+ * Decks Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Routes:
+ * - GET    /api/decks           - List user's decks
+ * - POST   /api/decks           - Create deck
+ * - GET    /api/decks/:id       - Get deck
+ * - PATCH  /api/decks/:id       - Update deck
+ * - DELETE /api/decks/:id       - Delete deck (cards are kept, without a deck)
+ * - GET    /api/decks/:id/cards - Cards in the deck
+ * - GET    /api/decks/:id/stats - Mana curve, pips and type breakdown
+ * - GET    /api/decks/:id/legality - Check the deck against a format
+ * - GET    /api/decks/:id/export - Download the deck as a file
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+const FORMAT_MESSAGE = `Formato inválido (${Object.values(DeckFormat).join(', ')})`;
+
+/**
+ * Optional deck format body field shared by create and update (null clears it)
+ */
+const formatBody = body('format')
+  .optional({ values: 'null' })
+  .isIn(Object.values(DeckFormat))
+  .withMessage(FORMAT_MESSAGE);
+
+/**
+ * GET /api/decks
+ * Get all decks for authenticated user
+ */
+router.get(
+  '/',
+  asyncHandler(decksController.getUserDecks.bind(decksController))
+);
+
+/**
+ * GET /api/decks/:id
+ * Get specific deck
+ */
+router.get(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+  ]),
+  asyncHandler(decksController.getDeckById.bind(decksController))
+);
+
+/**
+ * POST /api/decks
+ * Create a new deck
+ *
+ * Body:
+ * - name: Deck name (required, unique per user ignoring case)
+ * - format: standard, pioneer, modern, legacy, vintage, pauper or commander (optional)
+ * - description: Notes about the deck (optional)
+ */
+router.post(
+  '/',
+  validateRequest([
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Nome do deck é obrigatório')
+      .isLength({ max: 255 })
+      .withMessage('Nome do deck deve ter no máximo 255 caracteres'),
+    formatBody,
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Descrição deve ser texto'),
+  ]),
+  asyncHandler(decksController.createDeck.bind(decksController))
+);
+
+/**
+ * PATCH /api/decks/:id
+ * Update a deck
+ *
+ * Body (all optional):
+ * - name: New deck name
+ * - format: New format (null to clear)
+ * - description: New description (null to clear)
+ */
+router.patch(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Nome não pode ser vazio')
+      .isLength({ max: 255 })
+      .withMessage('Nome do deck deve ter no máximo 255 caracteres'),
+    formatBody,
+    body('description')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Descrição deve ser texto'),
+  ]),
+  asyncHandler(decksController.updateDeck.bind(decksController))
+);
+
+/**
+ * DELETE /api/decks/:id
+ * Delete a deck (its cards stay in their collections)
+ */
+router.delete(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+  ]),
+  asyncHandler(decksController.deleteDeck.bind(decksController))
+);
+
+/**
+ * GET /api/decks/:id/cards
+ * Get the cards in a deck
+ */
+router.get(
+  '/:id/cards',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+  ]),
+  asyncHandler(decksController.getDeckCards.bind(decksController))
+);
+
+/**
+ * GET /api/decks/:id/stats
+ * Get the deck's mana curve, color pips, type breakdown and land ratio
+ */
+router.get(
+  '/:id/stats',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+  ]),
+  asyncHandler(decksController.getDeckStats.bind(decksController))
+);
+
+/**
+ * GET /api/decks/:id/legality
+ * Check the deck against a format
+ *
+ * Query params:
+ * - format: Format to check (defaults to the deck's format)
+ * - commander: Commander card name, repeatable for partners (Commander only;
+ *   defaults to the deck's only legendary creature)
+ */
+router.get(
+  '/:id/legality',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+    query('format')
+      .optional()
+      .isIn(Object.values(DeckFormat))
+      .withMessage(FORMAT_MESSAGE),
+    query('commander')
+      .optional()
+      .custom((value) => [].concat(value).length <= 2)
+      .withMessage('Informe no máximo 2 comandantes'),
+  ]),
+  asyncHandler(decksController.getDeckLegality.bind(decksController))
+);
+
+/**
+ * GET /api/decks/:id/export
+ * Download the deck with its commander, mainboard and sideboard sections
+ *
+ * Query params:
+ * - format: arena | mtgo | moxfield | json
+ */
+router.get(
+  '/:id/export',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do deck inválido'),
+    query('format')
+      .isIn(Object.values(ExportFormat))
+      .withMessage('Formato de exportação inválido (arena, mtgo, moxfield, json)'),
+  ]),
+  asyncHandler(exportController.exportDeck.bind(exportController))
+);
+
+export default router;
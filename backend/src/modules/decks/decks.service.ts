@@ -0,0 +1,264 @@
+import pool from '../../config/database';
+import { getCardDataProvider } from '../cards/cardDataProvider';
+import { validateDeckLegality } from './deckLegality';
+import { computeDeckStats } from './deckStats';
+import {
+  AppError,
+  Card,
+  CardWithDetails,
+  CreateDeckRequest,
+  Deck,
+  DeckFormat,
+  DeckLegalityReport,
+  DeckStats,
+  DeckWithStats,
+  ScryfallCard,
+  TcgType,
+  UpdateDeckRequest,
+} from '../../types';
+
+/**
+ * Normalize a deck name: trimmed, inner whitespace collapsed
+ *
+ * Names are compared ignoring case, so "Atraxa" and "atraxa " are the same deck.
+ */
+export function normalizeDeckName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Decks Service
+ *
+ * Business logic layer for deck management.
+ * Decks belong to a user and group cards from any of the user's collections.
+ */
+class DecksService {
+  /**
+   * Get all decks for a user with their card count
+   *
+   * @param userId - User ID
+   * @returns Decks ordered by name
+   */
+  async getUserDecks(userId: string): Promise<DeckWithStats[]> {
+    const result = await pool.query<DeckWithStats>(
+      `SELECT d.*, COALESCE(SUM(ca.quantity), 0)::int AS card_count
+       FROM decks d
+       LEFT JOIN cards ca ON ca.deck_id = d.id
+       WHERE d.user_id = $1
+       GROUP BY d.id
+       ORDER BY LOWER(d.name)`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a single deck by ID
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @returns Deck with its card count
+   * @throws AppError if deck not found or user doesn't own it
+   */
+  async getDeckById(deckId: string, userId: string): Promise<DeckWithStats> {
+    const result = await pool.query<DeckWithStats>(
+      `SELECT d.*, COALESCE(SUM(ca.quantity), 0)::int AS card_count
+       FROM decks d
+       LEFT JOIN cards ca ON ca.deck_id = d.id
+       WHERE d.id = $1 AND d.user_id = $2
+       GROUP BY d.id`,
+      [deckId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Deck não encontrado', 404);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Create a new deck
+   *
+   * @param userId - Owner's user ID
+   * @param data - Deck name, format and description
+   * @returns Created deck
+   * @throws AppError if the user already has a deck with that name
+   */
+  async createDeck(userId: string, data: CreateDeckRequest): Promise<Deck> {
+    const name = normalizeDeckName(data.name);
+    await this.assertNameAvailable(userId, name);
+
+    const result = await pool.query<Deck>(
+      `INSERT INTO decks (user_id, name, format, description)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [userId, name, data.format || null, data.description || null]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update a deck (renaming applies to every card in it)
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @param data - Fields to update
+   * @returns Updated deck
+   * @throws AppError if no fields to update, deck not found or name taken
+   */
+  async updateDeck(deckId: string, userId: string, data: UpdateDeckRequest): Promise<Deck> {
+    // First verify ownership
+    await this.getDeckById(deckId, userId);
+
+    const updates: string[] = [];
+    const values: (string | null)[] = [];
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      const name = normalizeDeckName(data.name);
+      await this.assertNameAvailable(userId, name, deckId);
+      updates.push(`name = $${paramIndex++}`);
+      values.push(name);
+    }
+
+    if (data.format !== undefined) {
+      updates.push(`format = $${paramIndex++}`);
+      values.push(data.format || null);
+    }
+
+    if (data.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(data.description || null);
+    }
+
+    if (updates.length === 0) {
+      throw new AppError('Nenhum campo para atualizar', 400);
+    }
+
+    values.push(deckId);
+
+    const result = await pool.query<Deck>(
+      `UPDATE decks SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Delete a deck
+   * Note: Its cards stay in their collections, without a deck
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   */
+  async deleteDeck(deckId: string, userId: string): Promise<void> {
+    // Verify ownership
+    await this.getDeckById(deckId, userId);
+
+    await pool.query('DELETE FROM decks WHERE id = $1', [deckId]);
+  }
+
+  /**
+   * Get the cards in a deck, from any of the user's collections
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @returns Cards with card data from each collection's provider
+   */
+  async getDeckCards(deckId: string, userId: string): Promise<CardWithDetails[]> {
+    const deck = await this.getDeckById(deckId, userId);
+
+    const result = await pool.query<Card & { owner_name: string; tcg_type: TcgType }>(
+      `SELECT ca.*, o.name AS owner_name, col.tcg_type FROM cards ca
+       INNER JOIN collections col ON col.id = ca.collection_id
+       INNER JOIN owners o ON o.id = ca.owner_id
+       WHERE ca.deck_id = $1 AND col.user_id = $2
+       ORDER BY ca.added_at DESC`,
+      [deckId, userId]
+    );
+
+    // One batch lookup per TCG in the deck
+    const idsByTcg = new Map<TcgType, string[]>();
+    for (const card of result.rows) {
+      idsByTcg.set(card.tcg_type, [...(idsByTcg.get(card.tcg_type) ?? []), card.scryfall_id]);
+    }
+
+    const scryfallCards = new Map<string, ScryfallCard>();
+    for (const [tcgType, ids] of idsByTcg) {
+      const provider = getCardDataProvider(tcgType);
+      let found: Map<string, ScryfallCard>;
+      try {
+        found = await provider.getCardsByIds(ids);
+      } catch (error) {
+        console.warn(`Failed to fetch card data for deck ${deckId}:`, error);
+        found = await provider.getStoredCards(ids);
+      }
+      found.forEach((card, id) => scryfallCards.set(id, card));
+    }
+
+    return result.rows.map(({ tcg_type: _tcgType, ...card }) => ({
+      ...card,
+      deck_name: deck.name,
+      scryfall_data: scryfallCards.get(card.scryfall_id) ?? null,
+    }));
+  }
+
+  /**
+   * Check a deck against a format
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @param format - Format to check (defaults to the deck's format)
+   * @param commanderNames - Commander card names, for Commander decks
+   * @returns Legality report with every violation found
+   * @throws AppError if neither a format is given nor the deck has one
+   */
+  async getDeckLegality(
+    deckId: string,
+    userId: string,
+    format?: DeckFormat,
+    commanderNames: string[] = []
+  ): Promise<DeckLegalityReport> {
+    const deck = await this.getDeckById(deckId, userId);
+
+    const checkedFormat = format ?? deck.format;
+    if (!checkedFormat) {
+      throw new AppError('Informe o formato para verificar o deck', 400);
+    }
+
+    const cards = await this.getDeckCards(deckId, userId);
+    return validateDeckLegality(cards, checkedFormat, commanderNames);
+  }
+
+  /**
+   * Get a deck's statistics (mana curve, pips, type split, land ratio)
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @returns Statistics over every card in the deck
+   */
+  async getDeckStats(deckId: string, userId: string): Promise<DeckStats> {
+    return computeDeckStats(await this.getDeckCards(deckId, userId));
+  }
+
+  /**
+   * Reject a name already used by another of the user's decks (ignoring case)
+   */
+  private async assertNameAvailable(userId: string, name: string, exceptDeckId?: string): Promise<void> {
+    const existing = await pool.query(
+      `SELECT id FROM decks
+       WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id IS DISTINCT FROM $3`,
+      [userId, name, exceptDeckId ?? null]
+    );
+
+    if (existing.rows.length > 0) {
+      throw new AppError('Já existe um deck com esse nome', 409);
+    }
+  }
+}
+
+export default new DecksService();
@@ -0,0 +1,47 @@
+import { Response } from 'express';
+import exportService from './export.service';
+import { AuthenticatedRequest, ExportFile, ExportFormat } from '../../types';
+
+/**
+ * Send an export as a file download
+ */
+function sendFile(res: Response, file: ExportFile): void {
+  res.status(200)
+    .type(file.contentType)
+    .attachment(file.filename)
+    .send(file.content);
+}
+
+/**
+ * Export Controller
+ *
+ * HTTP layer for deck and collection export endpoints.
+ * All routes require authentication.
+ */
+class ExportController {
+  /**
+   * GET /api/decks/:id/export
+   * Download a deck in the requested format
+   */
+  async exportDeck(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const format = req.query.format as ExportFormat;
+
+    sendFile(res, await exportService.exportDeck(id, userId, format));
+  }
+
+  /**
+   * GET /api/collections/:id/export
+   * Download a collection in the requested format
+   */
+  async exportCollection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const format = req.query.format as ExportFormat;
+
+    sendFile(res, await exportService.exportCollection(id, userId, format));
+  }
+}
+
+export default new ExportController();
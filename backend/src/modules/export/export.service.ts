@@ -0,0 +1,60 @@
+import collectionsService from '../collections/collections.service';
+import cardsService from '../cards/cards.service';
+import decksService from '../decks/decks.service';
+import { exportCards } from './exporters';
+import { AppError, ExportFile, ExportFormat, TcgType } from '../../types';
+
+/**
+ * Formats read by the Magic clients (Arena and MTGO) only
+ */
+const MAGIC_ONLY_FORMATS = [ExportFormat.ARENA, ExportFormat.MTGO];
+
+/**
+ * Export Service
+ *
+ * Writes decks and collections out as files other tools can import
+ * (see exporters.ts for the formats).
+ */
+class ExportService {
+  /**
+   * Export a deck, keeping its commander, mainboard and sideboard sections
+   *
+   * @param deckId - Deck ID
+   * @param userId - User ID for ownership verification
+   * @param format - File format
+   * @returns Exported file
+   */
+  async exportDeck(deckId: string, userId: string, format: ExportFormat): Promise<ExportFile> {
+    const deck = await decksService.getDeckById(deckId, userId);
+    const cards = await decksService.getDeckCards(deckId, userId);
+
+    return exportCards(deck.name, cards, format);
+  }
+
+  /**
+   * Export every card of a collection
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param format - File format
+   * @returns Exported file
+   * @throws AppError if the format is Magic-only and the collection isn't Magic
+   */
+  async exportCollection(collectionId: string, userId: string, format: ExportFormat): Promise<ExportFile> {
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+
+    if (collection.tcg_type !== TcgType.MAGIC && MAGIC_ONLY_FORMATS.includes(format)) {
+      throw new AppError('Formato de exportação disponível apenas para coleções de Magic', 400);
+    }
+
+    // The cards listing is paged; ask again for everything when needed
+    let { cards, total } = await cardsService.getCollectionCards(collectionId, userId);
+    if (total > cards.length) {
+      ({ cards } = await cardsService.getCollectionCards(collectionId, userId, total));
+    }
+
+    return exportCards(collection.name, cards, format);
+  }
+}
+
+export default new ExportService();
@@ -0,0 +1,253 @@
+import { CardFinish, CardWithDetails, DeckBoard, ExportFile, ExportFormat } from '../../types';
+
+/**
+ * One exported line: copies of a printing in a deck section
+ */
+export interface ExportEntry {
+  board: DeckBoard;
+  quantity: number;
+  name: string | null;
+  set: string | null;
+  collectorNumber: string | null;
+  finish: CardFinish;
+  scryfallId: string;
+  mtgoId: number | null;
+  layout: string | null;
+}
+
+/**
+ * Sections in the order they are written
+ */
+const BOARDS: DeckBoard[] = [DeckBoard.COMMANDER, DeckBoard.MAIN, DeckBoard.SIDEBOARD];
+
+const ARENA_HEADERS: Record<DeckBoard, string> = {
+  [DeckBoard.COMMANDER]: 'Commander',
+  [DeckBoard.MAIN]: 'Deck',
+  [DeckBoard.SIDEBOARD]: 'Sideboard',
+};
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  [ExportFormat.ARENA]: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  [ExportFormat.MTGO]: { extension: 'dek', contentType: 'application/xml; charset=utf-8' },
+  [ExportFormat.MOXFIELD]: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  [ExportFormat.JSON]: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+};
+
+/**
+ * Group cards into export entries, one per section and printing
+ *
+ * Copies of the same printing and finish (e.g. owned by different people)
+ * are merged. Entries are sorted by name within each section.
+ */
+export function toExportEntries(cards: CardWithDetails[]): ExportEntry[] {
+  const entries = new Map<string, ExportEntry>();
+
+  for (const card of cards) {
+    const key = [card.board, card.scryfall_id, card.finish].join('|');
+    const entry = entries.get(key);
+    if (entry) {
+      entry.quantity += card.quantity;
+      continue;
+    }
+
+    entries.set(key, {
+      board: card.board,
+      quantity: card.quantity,
+      name: card.scryfall_data?.name ?? null,
+      set: card.set_code ?? card.scryfall_data?.set ?? null,
+      collectorNumber: card.scryfall_data?.collector_number ?? null,
+      finish: card.finish,
+      scryfallId: card.scryfall_id,
+      mtgoId: card.scryfall_data?.mtgo_id ?? null,
+      layout: card.scryfall_data?.layout ?? null,
+    });
+  }
+
+  return Array.from(entries.values()).sort((a, b) =>
+    BOARDS.indexOf(a.board) - BOARDS.indexOf(b.board) || (a.name ?? '').localeCompare(b.name ?? '')
+  );
+}
+
+/**
+ * Card name as the MTG clients expect it
+ *
+ * Split cards keep both halves (joined with " // " on Arena, "/" on MTGO);
+ * double-faced, adventure and other multi-part cards use their front face.
+ */
+function clientName(entry: ExportEntry, splitSeparator: string): string {
+  const name = entry.name ?? '';
+  if (entry.layout === 'split') {
+    return name.split(' // ').join(splitSeparator);
+  }
+  return name.split(' // ')[0];
+}
+
+/**
+ * MTG Arena text list: "4 Lightning Bolt (M11) 146" under section headers
+ */
+export function toArena(entries: ExportEntry[]): string {
+  const sections: string[] = [];
+
+  for (const board of BOARDS) {
+    const lines = entries
+      .filter((entry) => entry.board === board && entry.name)
+      .map((entry) => {
+        const printing = entry.set && entry.collectorNumber
+          ? ` (${entry.set.toUpperCase()}) ${entry.collectorNumber}`
+          : '';
+        return `${entry.quantity} ${clientName(entry, ' // ')}${printing}`;
+      });
+
+    if (lines.length > 0 || board === DeckBoard.MAIN) {
+      sections.push([ARENA_HEADERS[board], ...lines].join('\n'));
+    }
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * MTGO .dek XML
+ *
+ * MTGO has no commander section: the commander goes in the sideboard, as
+ * MTGO itself exports it. CatID is written when the card's MTGO ID is known.
+ */
+export function toMtgo(entries: ExportEntry[]): string {
+  const merged = new Map<string, { name: string; quantity: number; sideboard: boolean; mtgoId: number | null }>();
+
+  for (const entry of entries) {
+    if (!entry.name) continue;
+
+    const name = clientName(entry, '/');
+    const sideboard = entry.board !== DeckBoard.MAIN;
+    const key = `${sideboard}|${name}`;
+    const line = merged.get(key);
+    if (line) {
+      line.quantity += entry.quantity;
+      line.mtgoId ??= entry.mtgoId;
+    } else {
+      merged.set(key, { name, quantity: entry.quantity, sideboard, mtgoId: entry.mtgoId });
+    }
+  }
+
+  const cards = Array.from(merged.values()).map((line) => {
+    const catId = line.mtgoId !== null ? ` CatID="${line.mtgoId}"` : '';
+    return `  <Cards${catId} Quantity="${line.quantity}" Sideboard="${line.sideboard}" ` +
+      `Name="${escapeXml(line.name)}" Annotation="0" />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <NetDeckID>0</NetDeckID>',
+    '  <PreconstructedDeckID>0</PreconstructedDeckID>',
+    ...cards,
+    '</Deck>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Quote a CSV field, doubling inner quotes
+ */
+export function csvField(value: string | number): string {
+  return `"${String(value).replace(/"/g, '""')}"`;
+}
+
+/**
+ * Moxfield-compatible CSV (also read by Archidekt's CSV import)
+ *
+ * Columns are matched by header name; Board keeps the deck section.
+ */
+export function toMoxfieldCsv(entries: ExportEntry[]): string {
+  const header = ['Count', 'Name', 'Edition', 'Collector Number', 'Foil', 'Board'];
+  const rows = entries
+    .filter((entry) => entry.name)
+    .map((entry) => [
+      entry.quantity,
+      entry.name!,
+      entry.set?.toLowerCase() ?? '',
+      entry.collectorNumber ?? '',
+      entry.finish === CardFinish.NONFOIL ? '' : entry.finish,
+      entry.board,
+    ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Our own JSON export: every card, by section, including cards without
+ * card data (name null) so nothing is lost
+ */
+export function toJson(name: string, entries: ExportEntry[], exportedAt: Date): string {
+  const section = (board: DeckBoard) => entries
+    .filter((entry) => entry.board === board)
+    .map((entry) => ({
+      quantity: entry.quantity,
+      name: entry.name,
+      set: entry.set,
+      collector_number: entry.collectorNumber,
+      finish: entry.finish,
+      scryfall_id: entry.scryfallId,
+    }));
+
+  return JSON.stringify({
+    format_version: 1,
+    name,
+    exported_at: exportedAt.toISOString(),
+    commander: section(DeckBoard.COMMANDER),
+    mainboard: section(DeckBoard.MAIN),
+    sideboard: section(DeckBoard.SIDEBOARD),
+  }, null, 2) + '\n';
+}
+
+/**
+ * File name for an export: the deck or collection name, slugified
+ */
+export function exportFilename(name: string, format: ExportFormat): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return `${slug || 'deck'}.${FILE_TYPES[format].extension}`;
+}
+
+/**
+ * Export cards to a file
+ *
+ * Text formats (Arena, MTGO, CSV) skip cards without card data, since they
+ * are written by name; the JSON export keeps them.
+ *
+ * @param name - Deck or collection name
+ * @param cards - Cards to export, with card data
+ * @param format - File format
+ * @returns File name, content type and content
+ */
+export function exportCards(name: string, cards: CardWithDetails[], format: ExportFormat): ExportFile {
+  const entries = toExportEntries(cards);
+
+  const content = {
+    [ExportFormat.ARENA]: () => toArena(entries),
+    [ExportFormat.MTGO]: () => toMtgo(entries),
+    [ExportFormat.MOXFIELD]: () => toMoxfieldCsv(entries),
+    [ExportFormat.JSON]: () => toJson(name, entries, new Date()),
+  }[format]();
+
+  return {
+    filename: exportFilename(name, format),
+    contentType: FILE_TYPES[format].contentType,
+    content,
+  };
+}
@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import handoversService from './handovers.service';
+import { AuthenticatedRequest, HandoverAction } from '../../types';
+
+/**
+ * Handovers Controller
+ *
+ * HTTP layer for giving an owner's cards back in bulk.
+ * All routes require authentication.
+ */
+class HandoversController {
+  /**
+   * GET /api/handovers
+   * List the user's handovers, newest first
+   */
+  async getHandovers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const ownerId = req.query.owner_id as string | undefined;
+
+    const handovers = await handoversService.getHandovers(userId, ownerId);
+
+    res.status(200).json({
+      success: true,
+      data: handovers,
+    });
+  }
+
+  /**
+   * GET /api/handovers/preview
+   * List the cards a handover would affect
+   */
+  async previewHandover(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const ownerId = req.query.owner_id as string;
+    const action = req.query.action as HandoverAction;
+    const deckId = req.query.deck_id as string | undefined;
+
+    const preview = await handoversService.previewHandover(userId, ownerId, action, deckId);
+
+    res.status(200).json({
+      success: true,
+      data: preview,
+    });
+  }
+
+  /**
+   * GET /api/handovers/:id
+   * Get a handover with its cards
+   */
+  async getHandoverById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const handover = await handoversService.getHandoverById(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: handover,
+    });
+  }
+
+  /**
+   * POST /api/handovers
+   * Hand an owner's cards over
+   */
+  async createHandover(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { owner_id, action, deck_id, collection_id, notes } = req.body;
+
+    const handover = await handoversService.createHandover(userId, {
+      owner_id,
+      action,
+      deck_id,
+      collection_id,
+      notes,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: handover,
+    });
+  }
+}
+
+export default new HandoversController();
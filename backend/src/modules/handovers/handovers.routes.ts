@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import handoversController from './handovers.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { HandoverAction } from '../../types';
+
+const router = Router();
+
+/**
+ * Handovers Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Routes:
+ * - GET    /api/handovers         - List handovers
+ * - GET    /api/handovers/preview - Cards a handover would affect
+ * - POST   /api/handovers         - Hand an owner's cards over
+ * - GET    /api/handovers/:id     - Get a handover with its cards (checklist)
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * GET /api/handovers
+ * List the user's handovers, newest first, with the copies each handed over
+ *
+ * Query:
+ * - owner_id: Only this owner's handovers (optional)
+ */
+router.get(
+  '/',
+  validateRequest([
+    query('owner_id').optional().isUUID().withMessage('ID do dono inválido'),
+  ]),
+  asyncHandler(handoversController.getHandovers.bind(handoversController))
+);
+
+/**
+ * GET /api/handovers/preview
+ * List the owner's cards a handover would affect; nothing is changed
+ *
+ * Query:
+ * - owner_id: Owner whose cards are handed over (required)
+ * - action: clear_deck | return | move (required)
+ * - deck_id: Only the owner's cards in this deck (optional)
+ */
+router.get(
+  '/preview',
+  validateRequest([
+    query('owner_id').isUUID().withMessage('ID do dono inválido'),
+    query('action')
+      .isIn(Object.values(HandoverAction))
+      .withMessage('Ação inválida (clear_deck, return, move)'),
+    query('deck_id').optional().isUUID().withMessage('ID do deck inválido'),
+  ]),
+  asyncHandler(handoversController.previewHandover.bind(handoversController))
+);
+
+/**
+ * POST /api/handovers
+ * Hand an owner's cards over in one transaction and record it
+ *
+ * Body:
+ * - owner_id: Owner whose cards are handed over (required)
+ * - action: clear_deck (leave their decks) | return (remove from the
+ *   collections) | move (to collection_id) (required)
+ * - deck_id: Only the owner's cards in this deck (optional)
+ * - collection_id: Collection to move the cards to (required for move)
+ * - notes: Notes for the record (optional)
+ */
+router.post(
+  '/',
+  validateRequest([
+    body('owner_id')
+      .notEmpty()
+      .withMessage('Dono é obrigatório')
+      .bail()
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+    body('action')
+      .isIn(Object.values(HandoverAction))
+      .withMessage('Ação inválida (clear_deck, return, move)'),
+    body('deck_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID do deck inválido'),
+    body('collection_id')
+      .optional({ values: 'null' })
+      .isUUID()
+      .withMessage('ID da coleção inválido'),
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Observações devem ser texto'),
+  ]),
+  asyncHandler(handoversController.createHandover.bind(handoversController))
+);
+
+/**
+ * GET /api/handovers/:id
+ * Get a handover with the cards it affected, as they were at the time
+ */
+router.get(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da devolução inválido'),
+  ]),
+  asyncHandler(handoversController.getHandoverById.bind(handoversController))
+);
+
+export default router;
@@ -0,0 +1,296 @@
+import { PoolClient } from 'pg';
+import pool from '../../config/database';
+import ownersService from '../owners/owners.service';
+import decksService from '../decks/decks.service';
+import collectionsService from '../collections/collections.service';
+import { getCardsWithFallback } from '../cards/cardDataProvider';
+import { mergeDuplicateRows } from '../cards/cardDuplicates';
+import {
+  AppError,
+  Collection,
+  CreateHandoverRequest,
+  DeckBoard,
+  Handover,
+  HandoverAction,
+  HandoverItem,
+  HandoverPreview,
+  HandoverPreviewItem,
+  HandoverWithItems,
+} from '../../types';
+
+/**
+ * Handover columns with the number of copies handed over
+ */
+const HANDOVER_WITH_COUNT = `SELECT h.*, COALESCE(SUM(hi.quantity), 0)::int AS card_count
+       FROM handovers h
+       LEFT JOIN handover_items hi ON hi.handover_id = h.id`;
+
+/**
+ * Name card rows and sort them by collection, then name
+ */
+function nameCards(
+  rows: Omit<HandoverPreviewItem, 'card_name'>[],
+  names: Map<string, string>
+): HandoverPreviewItem[] {
+  return rows
+    .map((row) => ({ ...row, card_name: names.get(row.scryfall_id) ?? null }))
+    .sort((a, b) =>
+      a.collection_name.localeCompare(b.collection_name) || (a.card_name ?? '').localeCompare(b.card_name ?? '')
+    );
+}
+
+/**
+ * Handovers Service
+ *
+ * Gives an owner's cards back in one go: every card of the owner (or only
+ * those in one deck) is taken out of its deck, removed from the collections
+ * or moved to another collection. Each handover keeps a copy of the cards
+ * it affected, to print as a checklist. Cards left in or moved to a
+ * collection merge into identical rows there, as when they are added.
+ */
+class HandoversService {
+  /**
+   * List the cards a handover would affect, without changing anything
+   *
+   * @param userId - User ID
+   * @param ownerId - Owner whose cards are handed over
+   * @param action - What the handover would do
+   * @param deckId - Only the owner's cards in this deck (optional)
+   * @returns Owner, deck and the affected card rows
+   * @throws AppError if the owner or deck is not found
+   */
+  async previewHandover(
+    userId: string,
+    ownerId: string,
+    action: HandoverAction,
+    deckId?: string
+  ): Promise<HandoverPreview> {
+    const owner = await ownersService.getOwnerById(ownerId, userId);
+    const deck = deckId ? await decksService.getDeckById(deckId, userId) : null;
+
+    const rows = await this.findCards(pool, userId, ownerId, action, deckId);
+    const items = nameCards(rows, await this.cardNames(rows));
+
+    return {
+      owner,
+      action,
+      deck: deck && { id: deck.id, name: deck.name },
+      items,
+      card_count: items.reduce((sum, item) => sum + item.quantity, 0),
+    };
+  }
+
+  /**
+   * Hand an owner's cards over and record it, in one transaction
+   *
+   * - clear_deck: the cards leave their decks and stay in their collections
+   * - return: the cards' open loans are closed and the cards are removed
+   *   from the collections (their loans stay in the ledger)
+   * - move: the cards leave their decks and go to collection_id, along with their loans
+   *
+   * @param userId - User ID
+   * @param data - Owner, action, optional deck, target collection and notes
+   * @returns The handover with the cards it affected
+   * @throws AppError 400 if no card matches, the target collection is
+   *   missing or of another game
+   */
+  async createHandover(userId: string, data: CreateHandoverRequest): Promise<HandoverWithItems> {
+    const owner = await ownersService.getOwnerById(data.owner_id, userId);
+    const deck = data.deck_id ? await decksService.getDeckById(data.deck_id, userId) : null;
+
+    let target: Collection | null = null;
+    if (data.action === HandoverAction.MOVE) {
+      if (!data.collection_id) {
+        throw new AppError('Coleção de destino é obrigatória para mover as cartas', 400);
+      }
+      target = await collectionsService.getCollectionById(data.collection_id, userId);
+    }
+
+    // Names come from the providers before any card is locked
+    const names = await this.cardNames(await this.findCards(pool, userId, owner.id, data.action, deck?.id));
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the cards so they cannot change between the record and the update
+      const rows = await this.findCards(client, userId, owner.id, data.action, deck?.id, true);
+      if (rows.length === 0) {
+        throw new AppError('Nenhuma carta desse dono para devolver', 400);
+      }
+      const items = nameCards(rows, names);
+      if (target && items.some((item) => item.tcg_type !== target!.tcg_type)) {
+        throw new AppError('A coleção de destino é de outro jogo', 400);
+      }
+
+      const handover = await client.query<Handover>(
+        `INSERT INTO handovers
+           (user_id, owner_id, owner_name, action, deck_id, deck_name, target_collection_id, target_collection_name, notes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          userId, owner.id, owner.name, data.action, deck?.id ?? null, deck?.name ?? null,
+          target?.id ?? null, target?.name ?? null, data.notes || null,
+        ]
+      );
+      const handoverId = handover.rows[0].id;
+
+      await client.query(
+        `INSERT INTO handover_items
+           (handover_id, card_id, scryfall_id, card_name, set_code, finish, quantity, collection_name, deck_name, board)
+         SELECT $1::uuid, *
+         FROM unnest($2::uuid[], $3::varchar[], $4::text[], $5::varchar[], $6::varchar[], $7::int[],
+                     $8::varchar[], $9::varchar[], $10::varchar[])`,
+        [
+          handoverId,
+          items.map((item) => item.card_id),
+          items.map((item) => item.scryfall_id),
+          items.map((item) => item.card_name),
+          items.map((item) => item.set_code),
+          items.map((item) => item.finish),
+          items.map((item) => item.quantity),
+          items.map((item) => item.collection_name),
+          items.map((item) => item.deck_name),
+          items.map((item) => item.board),
+        ]
+      );
+
+      const cardIds = items.map((item) => item.card_id);
+      if (data.action === HandoverAction.RETURN) {
+        await client.query(
+          `UPDATE card_loans SET returned_date = GREATEST(CURRENT_DATE, start_date), updated_at = NOW()
+           WHERE card_id = ANY($1) AND returned_date IS NULL`,
+          [cardIds]
+        );
+        await client.query('DELETE FROM cards WHERE id = ANY($1)', [cardIds]);
+      } else {
+        await client.query(
+          `UPDATE cards SET deck_id = NULL, board = $2, collection_id = COALESCE($3, collection_id)
+           WHERE id = ANY($1)`,
+          [cardIds, DeckBoard.MAIN, target?.id ?? null]
+        );
+        if (target) {
+          await client.query(
+            'UPDATE card_loans SET collection_id = $2, updated_at = NOW() WHERE card_id = ANY($1)',
+            [cardIds, target.id]
+          );
+        }
+        await mergeDuplicateRows(client, { ownerId: owner.id, cardIds });
+      }
+
+      await client.query('COMMIT');
+
+      return {
+        ...handover.rows[0],
+        card_count: items.reduce((sum, item) => sum + item.quantity, 0),
+        items: items.map(({ collection_id: _collectionId, open_loans: _openLoans, tcg_type: _tcgType, ...item }) => item),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List the user's handovers, newest first
+   *
+   * @param userId - User ID
+   * @param ownerId - Only this owner's handovers (optional)
+   * @returns Handovers with the number of copies handed over
+   */
+  async getHandovers(userId: string, ownerId?: string): Promise<Handover[]> {
+    const params: unknown[] = [userId];
+    if (ownerId) params.push(ownerId);
+
+    const result = await pool.query<Handover>(
+      `${HANDOVER_WITH_COUNT}
+       WHERE h.user_id = $1${ownerId ? ' AND h.owner_id = $2' : ''}
+       GROUP BY h.id
+       ORDER BY h.created_at DESC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a handover with the cards it affected
+   *
+   * @param handoverId - Handover ID
+   * @param userId - User ID for ownership verification
+   * @returns Handover and its cards, by collection and name
+   * @throws AppError if the handover is not found or belongs to another user
+   */
+  async getHandoverById(handoverId: string, userId: string): Promise<HandoverWithItems> {
+    const result = await pool.query<Handover>(
+      `${HANDOVER_WITH_COUNT}
+       WHERE h.id = $1 AND h.user_id = $2
+       GROUP BY h.id`,
+      [handoverId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Devolução não encontrada', 404);
+    }
+
+    const items = await pool.query<HandoverItem>(
+      `SELECT card_id, scryfall_id, card_name, set_code, finish, quantity, collection_name, deck_name, board
+       FROM handover_items
+       WHERE handover_id = $1
+       ORDER BY collection_name, card_name NULLS LAST`,
+      [handoverId]
+    );
+
+    return { ...result.rows[0], items: items.rows };
+  }
+
+  /**
+   * Find the owner's cards a handover affects
+   *
+   * Clearing decks without a deck only affects cards that are in a deck.
+   */
+  private async findCards(
+    db: Pick<PoolClient, 'query'>,
+    userId: string,
+    ownerId: string,
+    action: HandoverAction,
+    deckId?: string,
+    lock = false
+  ): Promise<Omit<HandoverPreviewItem, 'card_name'>[]> {
+    const params: unknown[] = [userId, ownerId];
+    const conditions = ['col.user_id = $1', 'ca.owner_id = $2'];
+    if (deckId) {
+      params.push(deckId);
+      conditions.push('ca.deck_id = $3');
+    } else if (action === HandoverAction.CLEAR_DECK) {
+      conditions.push('ca.deck_id IS NOT NULL');
+    }
+
+    const result = await db.query<Omit<HandoverPreviewItem, 'card_name'>>(
+      `SELECT ca.id AS card_id, ca.collection_id, ca.scryfall_id, ca.set_code, ca.finish, ca.quantity,
+         col.name AS collection_name, col.tcg_type, d.name AS deck_name, ca.board,
+         (SELECT COALESCE(SUM(l.quantity), 0)::int FROM card_loans l
+          WHERE l.card_id = ca.id AND l.returned_date IS NULL) AS open_loans
+       FROM cards ca
+       INNER JOIN collections col ON col.id = ca.collection_id
+       LEFT JOIN decks d ON d.id = ca.deck_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY col.name, ca.added_at${lock ? '\n       FOR UPDATE OF ca' : ''}`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Card names by provider ID, from each card's game
+   */
+  private async cardNames(rows: Omit<HandoverPreviewItem, 'card_name'>[]): Promise<Map<string, string>> {
+    const cardData = await getCardsWithFallback(rows);
+    return new Map([...cardData].map(([id, card]) => [id, card.name]));
+  }
+}
+
+export default new HandoversService();
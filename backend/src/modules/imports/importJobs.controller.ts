@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import importJobsService from './importJobs.service';
+import importJobWorker from './importJobs.worker';
+import { AuthenticatedRequest } from '../../types';
+
+/**
+ * Import Jobs Controller
+ *
+ * HTTP layer for background imports. Creating an import answers 202 with
+ * the queued job; its progress is polled through /api/import-jobs/:id.
+ */
+class ImportJobsController {
+  /**
+   * POST /api/collections/:collectionId/cards/import
+   * Queue a deck list import (Arena, MTGO, Moxfield or Archidekt text)
+   */
+  async createDeckListJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { collectionId } = req.params;
+    const userId = req.user!.userId;
+    const { text, owner_id, deck_id, atomic } = req.body;
+
+    const job = await importJobsService.createDeckListJob(
+      collectionId, userId, text, owner_id, deck_id, atomic === true
+    );
+    importJobWorker.notify();
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  }
+
+  /**
+   * POST /api/collections/:collectionId/cards/import-csv
+   * Queue a collection CSV import (Moxfield, Deckbox, TCGplayer, Delver Lens, ManaBox)
+   */
+  async createCsvJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { collectionId } = req.params;
+    const userId = req.user!.userId;
+    const { csv, owner_id, format } = req.body;
+
+    const job = await importJobsService.createCsvJob(collectionId, userId, csv, owner_id, format);
+    importJobWorker.notify();
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  }
+
+  /**
+   * POST /api/collections/:collectionId/cards/import/commit
+   * Queue the reviewed rows of an import preview (one transaction)
+   */
+  async createCommitJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { collectionId } = req.params;
+    const userId = req.user!.userId;
+    const { cards, owner_id, deck_id } = req.body;
+
+    const job = await importJobsService.createCommitJob(collectionId, userId, cards, owner_id, deck_id);
+    importJobWorker.notify();
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  }
+
+  /**
+   * GET /api/import-jobs
+   * List the user's import jobs
+   */
+  async getUserJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { collection_id, active } = req.query;
+
+    const jobs = await importJobsService.getUserJobs(userId, {
+      collectionId: collection_id as string | undefined,
+      active: active === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+    });
+  }
+
+  /**
+   * GET /api/import-jobs/:id
+   * Get an import job and its progress
+   */
+  async getJobById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const job = await importJobsService.getJobById(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: job,
+    });
+  }
+
+  /**
+   * POST /api/import-jobs/:id/cancel
+   * Cancel a pending or running import job
+   */
+  async cancelJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const job = await importJobsService.cancelJob(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: job,
+    });
+  }
+}
+
+export default new ImportJobsController();
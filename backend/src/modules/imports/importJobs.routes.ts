@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import importJobsController from './importJobs.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * Import Jobs Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Imports are queued through the collection routes
+ * (POST /api/collections/:collectionId/cards/import, /import-csv and
+ * /import/commit); these routes follow them.
+ *
+ * Routes:
+ * - GET    /api/import-jobs            - List user's import jobs
+ * - GET    /api/import-jobs/:id        - Job progress and failures
+ * - POST   /api/import-jobs/:id/cancel - Cancel a pending or running job
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * GET /api/import-jobs
+ * List the user's import jobs, newest first
+ *
+ * Query params:
+ * - collection_id: Only this collection's jobs (optional)
+ * - active: true to list only pending and running jobs (optional)
+ */
+router.get(
+  '/',
+  validateRequest([
+    query('collection_id')
+      .optional()
+      .isUUID()
+      .withMessage('ID da coleção inválido'),
+    query('active')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('Parâmetro "active" deve ser true ou false'),
+  ]),
+  asyncHandler(importJobsController.getUserJobs.bind(importJobsController))
+);
+
+/**
+ * GET /api/import-jobs/:id
+ * Get an import job: status, processed/imported/failed counts and failures
+ */
+router.get(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da importação inválido'),
+  ]),
+  asyncHandler(importJobsController.getJobById.bind(importJobsController))
+);
+
+/**
+ * POST /api/import-jobs/:id/cancel
+ * Cancel a pending or running import job
+ */
+router.post(
+  '/:id/cancel',
+  validateRequest([
+    param('id').isUUID().withMessage('ID da importação inválido'),
+  ]),
+  asyncHandler(importJobsController.cancelJob.bind(importJobsController))
+);
+
+export default router;
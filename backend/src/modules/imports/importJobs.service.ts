@@ -0,0 +1,531 @@
+import pool from '../../config/database';
+import cardsService from '../cards/cards.service';
+import collectionsService from '../collections/collections.service';
+import decksService from '../decks/decks.service';
+import ownersService from '../owners/owners.service';
+import { parseCollectionCsv } from '../cards/csvImport';
+import { parseDeckList } from '../cards/deckListParser';
+import { PoolClient } from 'pg';
+import {
+  AppError,
+  CsvImportFormat,
+  DeckImportCommitCard,
+  ImportFailure,
+  ImportJob,
+  ImportJobInput,
+  ImportJobKind,
+  ImportJobMode,
+  ImportJobStatus,
+  ImportResult,
+  TcgType,
+} from '../../types';
+
+/**
+ * Entries resolved and written per batch; progress is saved after each
+ */
+export const IMPORT_BATCH_SIZE = 50;
+
+/**
+ * How long a claimed job stays with the instance running it; the lease is
+ * renewed every third of it while the job runs
+ */
+export const IMPORT_JOB_LEASE_SECONDS = 60;
+
+/**
+ * Columns returned for a job (the stored input can be megabytes of text)
+ */
+const JOB_COLUMNS = `id, user_id, collection_id, kind, mode, status, input->>'format' AS format, total, processed,
+  imported, failed, failures, error, created_at, started_at, finished_at, updated_at`;
+
+/**
+ * Cards imported and entries that failed, saved when a job finishes
+ */
+interface JobTotals {
+  imported: number;
+  failed: ImportFailure[];
+}
+
+/**
+ * Import Jobs Service
+ *
+ * Deck list, CSV and reviewed imports run as persisted jobs: creating one
+ * validates the input and returns at once, and the in-process worker
+ * (importJobs.worker) imports it in batches, saving progress after each.
+ *
+ * The job's mode says how its cards are written (see ImportJobMode). CSV
+ * jobs are batched: they keep what earlier batches imported, and an
+ * interrupted job resumes from the last saved batch. Deck list and
+ * reviewed imports (commit) run in one transaction, so they import
+ * everything or nothing and restart from the beginning when interrupted.
+ *
+ * A claimed job holds a lease that the running instance keeps renewing;
+ * only jobs whose lease expired (their instance stopped) are requeued, so
+ * several instances can share the queue.
+ */
+class ImportJobsService {
+  /**
+   * Queue a deck list import
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param text - Deck list text (Arena, MTGO, Moxfield or Archidekt syntax)
+   * @param ownerId - Owner of all imported cards
+   * @param deckId - Deck to put the cards in, by section (optional)
+   * @param atomic - Reject the whole import if any card is not found,
+   *   instead of importing the others
+   * @returns Pending job; lines the parser skipped are already in its failures
+   * @throws AppError 400 if the list has no cards
+   */
+  async createDeckListJob(
+    collectionId: string,
+    userId: string,
+    text: string,
+    ownerId: string,
+    deckId?: string | null,
+    atomic = false
+  ): Promise<ImportJob> {
+    await collectionsService.getCollectionById(collectionId, userId);
+    await ownersService.getOwnerById(ownerId, userId);
+    if (deckId) await decksService.getDeckById(deckId, userId);
+
+    const parsed = parseDeckList(text);
+    if (parsed.entries.length === 0) {
+      throw new AppError('Nenhuma carta encontrada na lista', 400);
+    }
+
+    const mode = atomic ? ImportJobMode.ATOMIC : ImportJobMode.TRANSACTION;
+    return this.insertJob(userId, collectionId, ImportJobKind.DECK_LIST, mode, {
+      owner_id: ownerId,
+      deck_id: deckId ?? null,
+      text,
+    }, parsed.entries.length, parsed.errors);
+  }
+
+  /**
+   * Queue a collection CSV import (Magic collections only)
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param csv - CSV text
+   * @param ownerId - Owner of all imported cards
+   * @param format - Export format; detected from the header row when omitted
+   * @returns Pending job with the detected format
+   * @throws AppError 400 if the file is empty or its format is not recognized
+   */
+  async createCsvJob(
+    collectionId: string,
+    userId: string,
+    csv: string,
+    ownerId: string,
+    format?: CsvImportFormat
+  ): Promise<ImportJob> {
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+    if (collection.tcg_type !== TcgType.MAGIC) {
+      throw new AppError('Importação de CSV disponível apenas para coleções de Magic', 400);
+    }
+    await ownersService.getOwnerById(ownerId, userId);
+
+    const parsed = parseCollectionCsv(csv, format);
+
+    return this.insertJob(userId, collectionId, ImportJobKind.CSV, ImportJobMode.BATCHED, {
+      owner_id: ownerId,
+      csv,
+      format: parsed.format,
+    }, parsed.rows.length, parsed.errors);
+  }
+
+  /**
+   * Queue the reviewed rows of an import preview (all or nothing)
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param cards - Printing, quantity, finish and deck section of each row
+   * @param ownerId - Owner of all imported cards
+   * @param deckId - Deck to put the cards in, by section (optional)
+   * @returns Pending job
+   */
+  async createCommitJob(
+    collectionId: string,
+    userId: string,
+    cards: DeckImportCommitCard[],
+    ownerId: string,
+    deckId?: string | null
+  ): Promise<ImportJob> {
+    await collectionsService.getCollectionById(collectionId, userId);
+    await ownersService.getOwnerById(ownerId, userId);
+    if (deckId) await decksService.getDeckById(deckId, userId);
+
+    return this.insertJob(userId, collectionId, ImportJobKind.COMMIT, ImportJobMode.ATOMIC, {
+      owner_id: ownerId,
+      deck_id: deckId ?? null,
+      cards,
+    }, cards.length, []);
+  }
+
+  /**
+   * Store a new pending job
+   */
+  private async insertJob(
+    userId: string,
+    collectionId: string,
+    kind: ImportJobKind,
+    mode: ImportJobMode,
+    input: ImportJobInput,
+    total: number,
+    failures: ImportFailure[]
+  ): Promise<ImportJob> {
+    const result = await pool.query<ImportJob>(
+      `INSERT INTO import_jobs (user_id, collection_id, kind, mode, input, total, failed, failures, parse_failures)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+       RETURNING ${JOB_COLUMNS}`,
+      [userId, collectionId, kind, mode, JSON.stringify(input), total, failures.length, JSON.stringify(failures)]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get a job and its progress
+   *
+   * @param jobId - Job ID
+   * @param userId - User ID for ownership verification
+   * @returns Job
+   * @throws AppError 404 if the job does not exist or belongs to another user
+   */
+  async getJobById(jobId: string, userId: string): Promise<ImportJob> {
+    const result = await pool.query<ImportJob>(
+      `SELECT ${JOB_COLUMNS} FROM import_jobs WHERE id = $1 AND user_id = $2`,
+      [jobId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Importação não encontrada', 404);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * List a user's jobs, newest first
+   *
+   * @param userId - User ID
+   * @param filters - Only one collection's jobs; only pending and running jobs
+   * @returns Up to 50 jobs
+   */
+  async getUserJobs(
+    userId: string,
+    filters: { collectionId?: string; active?: boolean } = {}
+  ): Promise<ImportJob[]> {
+    const conditions = ['user_id = $1'];
+    const values: string[] = [userId];
+
+    if (filters.collectionId) {
+      values.push(filters.collectionId);
+      conditions.push(`collection_id = $${values.length}`);
+    }
+    if (filters.active) {
+      conditions.push(`status IN ('${ImportJobStatus.PENDING}', '${ImportJobStatus.RUNNING}')`);
+    }
+
+    const result = await pool.query<ImportJob>(
+      `SELECT ${JOB_COLUMNS} FROM import_jobs
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      values
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Cancel a pending or running job
+   *
+   * A running job stops after its current batch. Batched jobs keep the
+   * cards imported by earlier batches; other jobs are rolled back.
+   *
+   * @param jobId - Job ID
+   * @param userId - User ID for ownership verification
+   * @returns Cancelled job
+   * @throws AppError 409 if the job already finished
+   */
+  async cancelJob(jobId: string, userId: string): Promise<ImportJob> {
+    const result = await pool.query<ImportJob>(
+      `UPDATE import_jobs
+       SET status = $3, finished_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND status IN ($4, $5)
+       RETURNING ${JOB_COLUMNS}`,
+      [jobId, userId, ImportJobStatus.CANCELLED, ImportJobStatus.PENDING, ImportJobStatus.RUNNING]
+    );
+
+    if (result.rows.length === 0) {
+      await this.getJobById(jobId, userId);
+      throw new AppError('Importação já finalizada', 409);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Take the oldest pending job, mark it running and lease it
+   *
+   * Rows are locked with SKIP LOCKED, so concurrent workers never take the
+   * same job.
+   *
+   * @returns Claimed job, or null when none is pending
+   */
+  async claimNextJob(): Promise<ImportJob | null> {
+    const result = await pool.query<ImportJob>(
+      `UPDATE import_jobs
+       SET status = $1, started_at = COALESCE(started_at, NOW()), updated_at = NOW(),
+           claimed_until = NOW() + $3 * INTERVAL '1 second'
+       WHERE id = (
+         SELECT id FROM import_jobs
+         WHERE status = $2
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${JOB_COLUMNS}`,
+      [ImportJobStatus.RUNNING, ImportJobStatus.PENDING, IMPORT_JOB_LEASE_SECONDS]
+    );
+
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Put jobs left running by a stopped server back in the queue
+   *
+   * Only jobs whose lease expired are taken, never the ones another
+   * instance is still running. Transactional jobs restart from the
+   * beginning, since their transaction was lost: their counts go back to
+   * the lines skipped when the job was created. Batched jobs resume after
+   * their last saved batch.
+   *
+   * @returns Number of jobs requeued
+   */
+  async requeueInterruptedJobs(): Promise<number> {
+    const result = await pool.query(
+      `UPDATE import_jobs
+       SET status = $1,
+           processed = CASE WHEN mode = $3 THEN processed ELSE 0 END,
+           imported = CASE WHEN mode = $3 THEN imported ELSE 0 END,
+           failed = CASE WHEN mode = $3 THEN failed ELSE jsonb_array_length(parse_failures) END,
+           failures = CASE WHEN mode = $3 THEN failures ELSE parse_failures END,
+           claimed_until = NULL,
+           updated_at = NOW()
+       WHERE status = $2 AND (claimed_until IS NULL OR claimed_until < NOW())`,
+      [ImportJobStatus.PENDING, ImportJobStatus.RUNNING, ImportJobMode.BATCHED]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Run a claimed job to the end (or until it is cancelled)
+   *
+   * Errors mark the job failed instead of being thrown. The job's lease is
+   * renewed until it ends.
+   *
+   * @param job - Job returned by claimNextJob
+   */
+  async processJob(job: ImportJob): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.renewLease(job.id).catch((error) => console.error(`❌ Import job ${job.id} lease renewal failed:`, error));
+    }, (IMPORT_JOB_LEASE_SECONDS * 1000) / 3);
+    heartbeat.unref();
+
+    try {
+      const inputResult = await pool.query<{ input: ImportJobInput }>(
+        'SELECT input FROM import_jobs WHERE id = $1',
+        [job.id]
+      );
+      const input = inputResult.rows[0].input;
+
+      const collection = await collectionsService.getCollectionById(job.collection_id, job.user_id);
+      const owner = await ownersService.getOwnerById(input.owner_id, job.user_id);
+      const deck = input.deck_id ? await decksService.getDeckById(input.deck_id, job.user_id) : null;
+
+      let completed: boolean;
+      switch (job.kind) {
+        case ImportJobKind.DECK_LIST: {
+          const { entries } = parseDeckList(input.text ?? '');
+
+          // Cards are resolved before the transaction, so it only holds the inserts
+          const { resolved, failed } = await cardsService.resolveDeckList(collection.tcg_type, entries);
+          if (job.mode === ImportJobMode.ATOMIC && failed.length > 0) {
+            await this.finishJob(
+              job.id,
+              ImportJobStatus.FAILED,
+              `Nada foi importado: ${failed.length} carta(s) não encontrada(s)`,
+              { imported: 0, failed }
+            );
+            return;
+          }
+
+          completed = await this.processInTransaction(job, resolved.length, (start, end, client) =>
+            cardsService.importResolvedEntries(collection.id, resolved.slice(start, end), owner, deck, client),
+            failed
+          );
+          break;
+        }
+        case ImportJobKind.CSV: {
+          const { rows } = parseCollectionCsv(input.csv ?? '', input.format);
+          completed = await this.processInBatches(job, (start, end) =>
+            cardsService.importCsvRows(collection.id, rows.slice(start, end), owner)
+          );
+          break;
+        }
+        default: {
+          const cards = input.cards ?? [];
+          const found = await cardsService.resolveReviewedCards(collection.tcg_type, cards);
+          completed = await this.processInTransaction(job, cards.length, (start, end, client) =>
+            cardsService.importReviewedCards(collection.id, cards.slice(start, end), found, owner, deck, client)
+          );
+        }
+      }
+
+      if (completed) {
+        await this.finishJob(job.id, ImportJobStatus.COMPLETED);
+      }
+    } catch (error: any) {
+      console.error(`❌ Import job ${job.id} failed:`, error);
+      await this.finishJob(job.id, ImportJobStatus.FAILED, error.message || 'Falha na importação');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Extend the lease of a running job
+   */
+  private async renewLease(jobId: string): Promise<void> {
+    await pool.query(
+      `UPDATE import_jobs SET claimed_until = NOW() + $3 * INTERVAL '1 second'
+       WHERE id = $1 AND status = $2`,
+      [jobId, ImportJobStatus.RUNNING, IMPORT_JOB_LEASE_SECONDS]
+    );
+  }
+
+  /**
+   * Import a job's entries batch by batch, from where it left off
+   *
+   * @returns false if the job was cancelled before the end
+   */
+  private async processInBatches(
+    job: ImportJob,
+    importBatch: (start: number, end: number) => Promise<ImportResult>
+  ): Promise<boolean> {
+    for (let start = job.processed; start < job.total; start += IMPORT_BATCH_SIZE) {
+      const end = Math.min(start + IMPORT_BATCH_SIZE, job.total);
+      const result = await importBatch(start, end);
+
+      if (!(await this.recordProgress(job.id, end, result))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Import a job's resolved entries in one transaction, saving progress
+   * and running counts after each batch (they are written outside the
+   * transaction, so they can be polled while the import runs)
+   *
+   * Entries that did not resolve are counted as processed first. If the
+   * transaction rolls back, the imported count goes back to 0.
+   *
+   * @param count - Number of resolved entries
+   * @param failed - Entries that did not resolve
+   * @returns false if the job was cancelled before the end (everything is
+   *   rolled back)
+   */
+  private async processInTransaction(
+    job: ImportJob,
+    count: number,
+    importBatch: (start: number, end: number, client: PoolClient) => Promise<ImportResult>,
+    failed: ImportFailure[] = []
+  ): Promise<boolean> {
+    if (failed.length > 0 && !(await this.recordProgress(job.id, failed.length, { imported: [], failed }))) {
+      return false;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (let start = 0; start < count; start += IMPORT_BATCH_SIZE) {
+        const end = Math.min(start + IMPORT_BATCH_SIZE, count);
+        const result = await importBatch(start, end, client);
+
+        if (!(await this.recordProgress(job.id, failed.length + end, result))) {
+          await client.query('ROLLBACK');
+          await this.clearImported(job.id);
+          return false;
+        }
+      }
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      await this.clearImported(job.id);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Save the progress of a batch and add its counts to the saved ones
+   *
+   * @returns Whether the job is still running (false once cancelled)
+   */
+  private async recordProgress(jobId: string, processed: number, result: ImportResult): Promise<boolean> {
+    const failed = result.failed;
+    const update = await pool.query<{ status: ImportJobStatus }>(
+      `UPDATE import_jobs
+       SET processed = $2,
+           imported = imported + $3,
+           failed = failed + $4,
+           failures = failures || $5::jsonb,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING status`,
+      [jobId, processed, result.imported.length, failed.length, JSON.stringify(failed)]
+    );
+
+    return update.rows[0]?.status === ImportJobStatus.RUNNING;
+  }
+
+  /**
+   * Reset the imported count of a job whose transaction was rolled back
+   */
+  private async clearImported(jobId: string): Promise<void> {
+    await pool.query('UPDATE import_jobs SET imported = 0, updated_at = NOW() WHERE id = $1', [jobId]);
+  }
+
+  /**
+   * Mark a running job finished (a cancelled job stays cancelled)
+   *
+   * @param totals - Counts of a job that wrote nothing, added to the saved ones
+   */
+  private async finishJob(
+    jobId: string,
+    status: ImportJobStatus,
+    error: string | null = null,
+    totals: JobTotals = { imported: 0, failed: [] }
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE import_jobs
+       SET status = $2, error = $3, finished_at = NOW(), updated_at = NOW(), claimed_until = NULL,
+           imported = imported + $5,
+           failed = failed + $6,
+           failures = failures || $7::jsonb
+       WHERE id = $1 AND status = $4`,
+      [jobId, status, error, ImportJobStatus.RUNNING, totals.imported, totals.failed.length, JSON.stringify(totals.failed)]
+    );
+  }
+}
+
+export default new ImportJobsService();
@@ -0,0 +1,104 @@
+import importJobsService from './importJobs.service';
+
+/**
+ * Import Job Worker Options
+ */
+interface ImportJobWorkerOptions {
+  pollIntervalMs: number;
+}
+
+/**
+ * Import Job Worker
+ *
+ * Runs queued import jobs inside the backend process, one at a time. New
+ * jobs are picked up at once through notify(), and every
+ * IMPORT_JOBS_POLL_SECONDS (default 5) in case one was queued elsewhere.
+ * On start and on every poll, running jobs whose lease expired (their
+ * process stopped) are requeued, so they resume after their last saved
+ * batch; jobs other instances are running keep their lease.
+ *
+ * Set IMPORT_JOBS_ENABLED=false to disable it, e.g. on instances that
+ * should only serve requests.
+ */
+export class ImportJobWorker {
+  private readonly options: ImportJobWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private notified = false;
+
+  constructor(options: Partial<ImportJobWorkerOptions> = {}) {
+    this.options = {
+      pollIntervalMs: parseFloat(process.env.IMPORT_JOBS_POLL_SECONDS || '5') * 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Requeue interrupted jobs and start polling (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+
+    // Don't keep the process alive just for the worker
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling (a job in progress finishes its current batch on its own)
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Requeue jobs whose lease expired, then run pending jobs
+   */
+  private poll(): void {
+    importJobsService
+      .requeueInterruptedJobs()
+      .then((requeued) => {
+        if (requeued > 0) console.log(`📥 Resuming ${requeued} interrupted import job(s)`);
+      })
+      .catch((error) => console.error('❌ Import job requeue failed:', error))
+      .finally(() => this.notify());
+  }
+
+  /**
+   * Run pending jobs now; joins the run in progress, which then checks
+   * for jobs again before finishing
+   */
+  notify(): Promise<void> {
+    this.notified = true;
+    if (this.draining) return this.draining;
+
+    this.draining = this.drain()
+      .catch((error) => console.error('❌ Import job worker failed:', error))
+      .finally(() => {
+        this.draining = null;
+      });
+
+    return this.draining;
+  }
+
+  /**
+   * Process pending jobs until the queue is empty
+   */
+  private async drain(): Promise<void> {
+    while (this.notified) {
+      this.notified = false;
+
+      let job = await importJobsService.claimNextJob();
+      while (job) {
+        console.log(`📥 Import job ${job.id} started (${job.kind}, ${job.processed}/${job.total})`);
+        await importJobsService.processJob(job);
+        job = await importJobsService.claimNextJob();
+      }
+    }
+  }
+}
+
+export default new ImportJobWorker();
@@ -0,0 +1,102 @@
+import { Response } from 'express';
+import loansService from './loans.service';
+import { AuthenticatedRequest, LoanStatusFilter } from '../../types';
+
+/**
+ * Loans Controller
+ *
+ * HTTP layer for the card loan ledger.
+ * All routes require authentication.
+ */
+class LoansController {
+  /**
+   * GET /api/collections/:collectionId/loans
+   * List a collection's loans, overdue first
+   */
+  async getCollectionLoans(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { collectionId } = req.params;
+    const userId = req.user!.userId;
+    const status = req.query.status as LoanStatusFilter | undefined;
+
+    const loans = await loansService.getCollectionLoans(collectionId, userId, status);
+
+    res.status(200).json({
+      success: true,
+      data: loans,
+    });
+  }
+
+  /**
+   * GET /api/cards/:id/loans
+   * List a card's loans
+   */
+  async getCardLoans(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const loans = await loansService.getCardLoans(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: loans,
+    });
+  }
+
+  /**
+   * POST /api/cards/:id/loans
+   * Lend a card or record one borrowed
+   */
+  async openLoan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { direction, counterparty, quantity, start_date, due_date, notes } = req.body;
+
+    const loan = await loansService.openLoan(id, userId, {
+      direction,
+      counterparty,
+      quantity,
+      start_date,
+      due_date,
+      notes,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: loan,
+    });
+  }
+
+  /**
+   * POST /api/loans/:id/extend
+   * Change the due date of an open loan
+   */
+  async extendLoan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const loan = await loansService.extendLoan(id, userId, req.body.due_date ?? null);
+
+    res.status(200).json({
+      success: true,
+      data: loan,
+    });
+  }
+
+  /**
+   * POST /api/loans/:id/return
+   * Close a loan
+   */
+  async returnLoan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const loan = await loansService.returnLoan(id, userId, req.body.returned_date);
+
+    res.status(200).json({
+      success: true,
+      data: loan,
+    });
+  }
+}
+
+export default new LoansController();
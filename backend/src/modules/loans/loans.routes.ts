@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import loansController from './loans.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * Loans Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Loans are opened and listed through the card and collection routes
+ * (POST /api/cards/:id/loans, GET /api/cards/:id/loans and
+ * GET /api/collections/:collectionId/loans); these routes change them.
+ *
+ * Routes:
+ * - POST   /api/loans/:id/extend - Change the due date of an open loan
+ * - POST   /api/loans/:id/return - Close a loan
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * POST /api/loans/:id/extend
+ * Change the due date of an open loan
+ *
+ * Body:
+ * - due_date: New due date, YYYY-MM-DD (null for no due date)
+ */
+router.post(
+  '/:id/extend',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do empréstimo inválido'),
+    body('due_date')
+      .exists()
+      .withMessage('Data de devolução prevista é obrigatória')
+      .bail()
+      .if((value: unknown) => value !== null)
+      .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+      .withMessage('Data de devolução prevista inválida (YYYY-MM-DD)'),
+  ]),
+  asyncHandler(loansController.extendLoan.bind(loansController))
+);
+
+/**
+ * POST /api/loans/:id/return
+ * Close a loan; a card's borrowed status is cleared with its last open
+ * borrowed loan
+ *
+ * Body:
+ * - returned_date: When the cards came back, YYYY-MM-DD (optional, default: today)
+ */
+router.post(
+  '/:id/return',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do empréstimo inválido'),
+    body('returned_date')
+      .optional()
+      .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+      .withMessage('Data de devolução inválida (YYYY-MM-DD)'),
+  ]),
+  asyncHandler(loansController.returnLoan.bind(loansController))
+);
+
+export default router;
@@ -0,0 +1,355 @@
+import { PoolClient } from 'pg';
+import pool from '../../config/database';
+import cardsService from '../cards/cards.service';
+import collectionsService from '../collections/collections.service';
+import { getCardsWithFallback } from '../cards/cardDataProvider';
+import { mergeDuplicateRows } from '../cards/cardDuplicates';
+import {
+  AppError,
+  CardLoan,
+  CardLoanWithCard,
+  LoanDirection,
+  LoanStatusFilter,
+  OpenLoanRequest,
+} from '../../types';
+
+/**
+ * Columns returned for a loan (dates as YYYY-MM-DD, overdue computed)
+ */
+const LOAN_COLUMNS = `l.id, l.card_id, l.collection_id, l.quantity, l.direction, l.counterparty,
+  l.start_date::text AS start_date, l.due_date::text AS due_date, l.returned_date::text AS returned_date,
+  l.notes, (l.returned_date IS NULL AND l.due_date < CURRENT_DATE) AS is_overdue, l.created_at, l.updated_at`;
+
+/**
+ * Card row a loan is opened on, locked for the loan
+ */
+interface LoanedCard {
+  id: string;
+  collection_id: string;
+  scryfall_id: string;
+  set_code: string | null;
+  finish: string;
+  owner_name: string;
+  quantity: number;
+  on_loan: number;
+  today: string;
+}
+
+/**
+ * Loans Service
+ *
+ * Ledger of the cards lent to and borrowed from other people. Borrowed
+ * copies are moved to a row of their own marked is_borrowed, so the
+ * user's copies of the card stay apart; returning the last open borrowed
+ * loan of that row clears the flag and merges it back. Lent loans leave
+ * the rows alone.
+ *
+ * A loan copies its card's collection, printing and owner name, so it is
+ * still listed (and can be returned) after its card is removed.
+ */
+class LoansService {
+  /**
+   * List a collection's loans: overdue first, then open ones by due date,
+   * then returned ones, most recent first
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param status - Only open or only returned loans (default: all)
+   * @returns Loans with the name and printing of their card
+   */
+  async getCollectionLoans(
+    collectionId: string,
+    userId: string,
+    status: LoanStatusFilter = 'all'
+  ): Promise<CardLoanWithCard[]> {
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+
+    const conditions = ['l.collection_id = $1'];
+    if (status === 'open') conditions.push('l.returned_date IS NULL');
+    if (status === 'returned') conditions.push('l.returned_date IS NOT NULL');
+
+    // Loans of removed cards keep the details copied when they were opened
+    const result = await pool.query<Omit<CardLoanWithCard, 'card_name'>>(
+      `SELECT ${LOAN_COLUMNS}, COALESCE(ca.scryfall_id, l.scryfall_id) AS scryfall_id,
+              COALESCE(ca.set_code, l.set_code) AS set_code, COALESCE(ca.finish, l.finish) AS finish,
+              COALESCE(o.name, l.owner_name) AS owner_name
+       FROM card_loans l
+       LEFT JOIN cards ca ON ca.id = l.card_id
+       LEFT JOIN owners o ON o.id = ca.owner_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY (l.returned_date IS NULL AND l.due_date < CURRENT_DATE) DESC,
+                (l.returned_date IS NULL) DESC,
+                l.due_date NULLS LAST,
+                l.returned_date DESC,
+                l.created_at DESC`,
+      [collectionId]
+    );
+
+    const cardData = await getCardsWithFallback(
+      result.rows.map((loan) => ({ tcg_type: collection.tcg_type, scryfall_id: loan.scryfall_id }))
+    );
+
+    return result.rows.map((loan) => ({
+      ...loan,
+      card_name: cardData.get(loan.scryfall_id)?.name ?? null,
+    }));
+  }
+
+  /**
+   * List a card's loans, newest first
+   *
+   * @param cardId - Card ID
+   * @param userId - User ID for ownership verification
+   * @returns Loans of the card
+   */
+  async getCardLoans(cardId: string, userId: string): Promise<CardLoan[]> {
+    await cardsService.getCardById(cardId, userId);
+
+    const result = await pool.query<CardLoan>(
+      `SELECT ${LOAN_COLUMNS} FROM card_loans l
+       WHERE l.card_id = $1
+       ORDER BY l.start_date DESC, l.created_at DESC`,
+      [cardId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Lend a card to someone, or record one borrowed from someone
+   *
+   * Borrowed copies move to a row of their own, marked borrowed (joining
+   * an identical borrowed row if there is one); the loan is opened on it.
+   *
+   * @param cardId - Card ID
+   * @param userId - User ID for ownership verification
+   * @param data - Direction, counterparty, quantity and dates
+   * @returns Opened loan
+   * @throws AppError 400 if the quantity exceeds the copies not already on
+   *   loan, or the due date is before the start date
+   */
+  async openLoan(cardId: string, userId: string, data: OpenLoanRequest): Promise<CardLoan> {
+    await cardsService.getCardById(cardId, userId);
+
+    const quantity = data.quantity ?? 1;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the card so concurrent loans cannot exceed its copies
+      const copies = await client.query<LoanedCard>(
+        `SELECT ca.id, ca.collection_id, ca.scryfall_id, ca.set_code, ca.finish, o.name AS owner_name, ca.quantity,
+                (SELECT COALESCE(SUM(l.quantity), 0)::int FROM card_loans l
+                 WHERE l.card_id = ca.id AND l.returned_date IS NULL) AS on_loan,
+                CURRENT_DATE::text AS today
+         FROM cards ca
+         INNER JOIN owners o ON o.id = ca.owner_id
+         WHERE ca.id = $1
+         FOR UPDATE OF ca`,
+        [cardId]
+      );
+      const card = copies.rows[0];
+
+      // Loans start on the database's date, the one overdue checks compare with
+      const startDate = data.start_date ?? card.today;
+      if (data.due_date && data.due_date < startDate) {
+        throw new AppError('Data de devolução prevista anterior ao início do empréstimo', 400);
+      }
+
+      const available = card.quantity - card.on_loan;
+      if (quantity > available) {
+        throw new AppError(`Quantidade maior que as cópias disponíveis para empréstimo (${available})`, 400);
+      }
+
+      const loanCardId = data.direction === LoanDirection.BORROWED
+        ? await this.splitBorrowedCopies(card, quantity, client)
+        : card.id;
+
+      const result = await client.query<CardLoan>(
+        `INSERT INTO card_loans AS l (card_id, quantity, direction, counterparty, start_date, due_date, notes,
+                                      collection_id, scryfall_id, set_code, finish, owner_name)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING ${LOAN_COLUMNS}`,
+        [
+          loanCardId,
+          quantity,
+          data.direction,
+          data.counterparty,
+          startDate,
+          data.due_date || null,
+          data.notes || null,
+          card.collection_id,
+          card.scryfall_id,
+          card.set_code,
+          card.finish,
+          card.owner_name,
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Change the due date of an open loan
+   *
+   * @param loanId - Loan ID
+   * @param userId - User ID for ownership verification
+   * @param dueDate - New due date (null for no due date)
+   * @returns Updated loan
+   * @throws AppError 409 if the loan was already returned
+   */
+  async extendLoan(loanId: string, userId: string, dueDate: string | null): Promise<CardLoan> {
+    const loan = await this.getOpenLoan(loanId, userId);
+    if (dueDate && dueDate < loan.start_date) {
+      throw new AppError('Data de devolução prevista anterior ao início do empréstimo', 400);
+    }
+
+    const result = await pool.query<CardLoan>(
+      `UPDATE card_loans l SET due_date = $2, updated_at = NOW()
+       WHERE l.id = $1
+       RETURNING ${LOAN_COLUMNS}`,
+      [loanId, dueDate]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Close a loan; returning the last open borrowed loan of a card clears
+   * its borrowed status (see syncBorrowedStatus)
+   *
+   * @param loanId - Loan ID
+   * @param userId - User ID for ownership verification
+   * @param returnedDate - When the cards came back (default: the database's
+   *   current date, or the start date of a loan that has not started yet)
+   * @returns Closed loan
+   * @throws AppError 409 if the loan was already returned
+   */
+  async returnLoan(loanId: string, userId: string, returnedDate?: string): Promise<CardLoan> {
+    const loan = await this.getOpenLoan(loanId, userId);
+    if (returnedDate && returnedDate < loan.start_date) {
+      throw new AppError('Data de devolução anterior ao início do empréstimo', 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query<CardLoan>(
+        `UPDATE card_loans l
+         SET returned_date = COALESCE($2::date, GREATEST(CURRENT_DATE, l.start_date)), updated_at = NOW()
+         WHERE l.id = $1 AND l.returned_date IS NULL
+         RETURNING ${LOAN_COLUMNS}`,
+        [loanId, returnedDate ?? null]
+      );
+      if (result.rows.length === 0) {
+        throw new AppError('Empréstimo já encerrado', 409);
+      }
+
+      if (loan.direction === LoanDirection.BORROWED && loan.card_id) {
+        await this.syncBorrowedStatus(loan.card_id, loan.collection_id, client);
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get one of the user's loans that is still open
+   *
+   * @throws AppError 404 if the loan does not exist or belongs to another user
+   * @throws AppError 409 if it was already returned
+   */
+  private async getOpenLoan(loanId: string, userId: string): Promise<CardLoan> {
+    const result = await pool.query<CardLoan>(
+      `SELECT ${LOAN_COLUMNS} FROM card_loans l
+       INNER JOIN collections col ON col.id = l.collection_id
+       WHERE l.id = $1 AND col.user_id = $2`,
+      [loanId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Empréstimo não encontrado', 404);
+    }
+    if (result.rows[0].returned_date) {
+      throw new AppError('Empréstimo já encerrado', 409);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Move the copies of a borrowed loan to a row of their own, marked
+   * borrowed, so the copies left on the row stay the user's
+   *
+   * @returns ID of the row holding the borrowed copies (an identical
+   *   borrowed row they were merged into, if there was one)
+   */
+  private async splitBorrowedCopies(
+    card: LoanedCard,
+    quantity: number,
+    db: Pick<PoolClient, 'query'>
+  ): Promise<string> {
+    let rowId = card.id;
+
+    if (quantity < card.quantity) {
+      await db.query('UPDATE cards SET quantity = quantity - $2 WHERE id = $1', [card.id, quantity]);
+      const copy = await db.query<{ id: string }>(
+        `INSERT INTO cards (collection_id, scryfall_id, owner_id, deck_id, board, is_borrowed, finish, quantity, set_code,
+                            set_name, price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil)
+         SELECT collection_id, scryfall_id, owner_id, deck_id, board, true, finish, $2, set_code,
+                set_name, price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil
+         FROM cards
+         WHERE id = $1
+         RETURNING id`,
+        [card.id, quantity]
+      );
+      rowId = copy.rows[0].id;
+    } else {
+      await db.query('UPDATE cards SET is_borrowed = true WHERE id = $1', [card.id]);
+    }
+
+    const [merged] = await mergeDuplicateRows(db, { collectionId: card.collection_id, cardIds: [rowId] });
+    return merged?.ids[0] ?? rowId;
+  }
+
+  /**
+   * Keep a row marked borrowed while it has an open borrowed loan; once it
+   * has none, it merges into an identical row of the user's copies
+   */
+  private async syncBorrowedStatus(
+    cardId: string,
+    collectionId: string,
+    db: Pick<PoolClient, 'query'>
+  ): Promise<void> {
+    const result = await db.query<{ is_borrowed: boolean }>(
+      `UPDATE cards SET is_borrowed = EXISTS (
+         SELECT 1 FROM card_loans
+         WHERE card_id = $1 AND direction = $2 AND returned_date IS NULL
+       )
+       WHERE id = $1
+       RETURNING is_borrowed`,
+      [cardId, LoanDirection.BORROWED]
+    );
+
+    if (result.rows[0] && !result.rows[0].is_borrowed) {
+      await mergeDuplicateRows(db, { collectionId, cardIds: [cardId] });
+    }
+  }
+}
+
+export default new LoansService();
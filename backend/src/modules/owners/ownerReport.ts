@@ -0,0 +1,93 @@
+import { csvField } from '../export/exporters';
+import { roundMoney } from '../cards/cardPrices';
+import { CardFinish, Owner, OwnerReport, OwnerReportCard, OwnerReportDeck } from '../../types';
+
+/**
+ * Card row of the report query, before grouping by owner
+ */
+export interface OwnerReportRow extends OwnerReportCard {
+  owner_id: string;
+}
+
+/**
+ * Group card rows into one report per owner
+ *
+ * Owners without cards get an empty report. Cards are sorted by name,
+ * decks by name.
+ *
+ * @param owners - Owners to report on, in the order to return them
+ * @param rows - Card rows of those owners, with names and prices
+ * @returns One report per owner
+ */
+export function buildOwnerReports(owners: Owner[], rows: OwnerReportRow[]): OwnerReport[] {
+  const rowsByOwner = new Map<string, OwnerReportCard[]>();
+  for (const { owner_id, ...card } of rows) {
+    const cards = rowsByOwner.get(owner_id) ?? [];
+    cards.push(card);
+    rowsByOwner.set(owner_id, cards);
+  }
+
+  return owners.map((owner) => {
+    const cards = (rowsByOwner.get(owner.id) ?? [])
+      .sort((a, b) => (a.card_name ?? '').localeCompare(b.card_name ?? ''));
+
+    const decks = new Map<string, OwnerReportDeck>();
+    let totalValue = 0;
+    let totalValueEur = 0;
+
+    for (const card of cards) {
+      totalValue += (card.unit_price ?? 0) * card.quantity;
+      totalValueEur += (card.unit_price_eur ?? 0) * card.quantity;
+
+      if (card.deck_id && card.deck_name) {
+        const deck = decks.get(card.deck_id);
+        if (deck) {
+          deck.card_count += card.quantity;
+        } else {
+          decks.set(card.deck_id, { deck_id: card.deck_id, deck_name: card.deck_name, card_count: card.quantity });
+        }
+      }
+    }
+
+    return {
+      owner,
+      card_count: cards.reduce((sum, card) => sum + card.quantity, 0),
+      total_value: roundMoney(totalValue),
+      total_value_eur: roundMoney(totalValueEur),
+      lent_count: cards.reduce((sum, card) => sum + card.lent_quantity, 0),
+      decks: Array.from(decks.values()).sort((a, b) => a.deck_name.localeCompare(b.deck_name)),
+      cards,
+    };
+  });
+}
+
+/**
+ * Owner report as CSV, one line per card row, so each owner can check
+ * their list
+ */
+export function toOwnerReportCsv(reports: OwnerReport[]): string {
+  const header = [
+    'Owner', 'Quantity', 'Name', 'Edition', 'Foil', 'Collection', 'Deck', 'Board',
+    'Lent Quantity', 'Lent To', 'Unit Price (USD)', 'Value (USD)', 'Value (EUR)',
+  ];
+  const money = (value: number | null, quantity = 1) =>
+    value === null ? '' : roundMoney(value * quantity).toFixed(2);
+
+  const rows = reports.flatMap((report) => report.cards.map((card) => [
+    report.owner.name,
+    card.quantity,
+    card.card_name ?? card.scryfall_id,
+    card.set_code?.toLowerCase() ?? '',
+    card.finish === CardFinish.NONFOIL ? '' : card.finish,
+    card.collection_name,
+    card.deck_name ?? '',
+    card.deck_id ? card.board : '',
+    card.lent_quantity || '',
+    card.lent_to ?? '',
+    money(card.unit_price),
+    money(card.unit_price, card.quantity),
+    money(card.unit_price_eur, card.quantity),
+  ]));
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,157 @@
+import { Response } from 'express';
+import ownersService from './owners.service';
+import { AuthenticatedRequest } from '../../types';
+
+/**
+ * Owners Controller
+ *
+ * HTTP layer for owner management endpoints.
+ * All routes require authentication.
+ */
+class OwnersController {
+  /**
+   * GET /api/owners
+   * Get all owners for authenticated user
+   */
+  async getUserOwners(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+
+    const owners = await ownersService.getUserOwners(userId);
+
+    res.status(200).json({
+      success: true,
+      data: owners,
+    });
+  }
+
+  /**
+   * GET /api/owners/duplicates
+   * Get owners whose names differ only in case, accents or spacing
+   */
+  async getDuplicateSuggestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+
+    const groups = await ownersService.getDuplicateSuggestions(userId);
+
+    res.status(200).json({
+      success: true,
+      data: groups,
+    });
+  }
+
+  /**
+   * GET /api/owners/report
+   * Get what each owner has across all collections
+   */
+  async getOwnerReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const ownerId = req.query.owner_id as string | undefined;
+
+    const reports = await ownersService.getOwnerReport(userId, ownerId);
+
+    res.status(200).json({
+      success: true,
+      data: reports,
+    });
+  }
+
+  /**
+   * GET /api/owners/report/export
+   * Download the owner report as CSV
+   */
+  async exportOwnerReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const ownerId = req.query.owner_id as string | undefined;
+
+    const file = await ownersService.exportOwnerReport(userId, ownerId);
+
+    res.status(200)
+      .type(file.contentType)
+      .attachment(file.filename)
+      .send(file.content);
+  }
+
+  /**
+   * GET /api/owners/:id
+   * Get owner by ID
+   */
+  async getOwnerById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const owner = await ownersService.getOwnerById(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: owner,
+    });
+  }
+
+  /**
+   * POST /api/owners
+   * Create a new owner
+   */
+  async createOwner(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { name, contact, color } = req.body;
+
+    const owner = await ownersService.createOwner(userId, { name, contact, color });
+
+    res.status(201).json({
+      success: true,
+      data: owner,
+    });
+  }
+
+  /**
+   * PATCH /api/owners/:id
+   * Update an owner
+   */
+  async updateOwner(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { name, contact, color } = req.body;
+
+    const owner = await ownersService.updateOwner(id, userId, { name, contact, color });
+
+    res.status(200).json({
+      success: true,
+      data: owner,
+    });
+  }
+
+  /**
+   * DELETE /api/owners/:id
+   * Delete an owner without cards
+   */
+  async deleteOwner(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    await ownersService.deleteOwner(id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Dono excluído com sucesso',
+    });
+  }
+
+  /**
+   * POST /api/owners/:id/merge
+   * Merge other owners into this one
+   */
+  async mergeOwners(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { source_ids } = req.body;
+
+    const result = await ownersService.mergeOwners(id, userId, source_ids);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  }
+}
+
+export default new OwnersController();
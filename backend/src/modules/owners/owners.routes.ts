@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import ownersController from './owners.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * Owners Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Routes:
+ * - GET    /api/owners               - List user's owners
+ * - GET    /api/owners/duplicates    - Owners whose names differ only in case or accents
+ * - GET    /api/owners/report        - What each owner has across all collections
+ * - GET    /api/owners/report/export - Download the owner report as CSV
+ * - POST   /api/owners               - Create owner
+ * - GET    /api/owners/:id           - Get owner
+ * - PATCH  /api/owners/:id           - Update owner
+ * - DELETE /api/owners/:id           - Delete owner (only without cards)
+ * - POST   /api/owners/:id/merge     - Merge other owners into this one
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * Optional owner contact and color tag body fields shared by create and
+ * update (null clears them)
+ */
+const contactBody = body('contact')
+  .optional({ values: 'null' })
+  .trim()
+  .isLength({ max: 255 })
+  .withMessage('Contato deve ter no máximo 255 caracteres');
+
+const colorBody = body('color')
+  .optional({ values: 'null' })
+  .matches(/^#[0-9a-fA-F]{6}$/)
+  .withMessage('Cor inválida (#RRGGBB)');
+
+/**
+ * GET /api/owners
+ * Get all owners for authenticated user, with their card count
+ */
+router.get(
+  '/',
+  asyncHandler(ownersController.getUserOwners.bind(ownersController))
+);
+
+/**
+ * GET /api/owners/duplicates
+ * Suggest owners to merge: groups of owners whose names differ only in
+ * case, accents or spacing ("Joao", "João", "joão"). Nothing is changed.
+ */
+router.get(
+  '/duplicates',
+  asyncHandler(ownersController.getDuplicateSuggestions.bind(ownersController))
+);
+
+/**
+ * Optional owner_id query limiting the report to one owner
+ */
+const reportOwnerQuery = query('owner_id')
+  .optional()
+  .isUUID()
+  .withMessage('ID do dono inválido');
+
+/**
+ * GET /api/owners/report
+ * For every owner (or just owner_id): card count, total value, the decks
+ * holding their cards, the copies lent out and the card rows themselves
+ */
+router.get(
+  '/report',
+  validateRequest([reportOwnerQuery]),
+  asyncHandler(ownersController.getOwnerReport.bind(ownersController))
+);
+
+/**
+ * GET /api/owners/report/export
+ * Download the owner report as CSV, one line per card row
+ */
+router.get(
+  '/report/export',
+  validateRequest([reportOwnerQuery]),
+  asyncHandler(ownersController.exportOwnerReport.bind(ownersController))
+);
+
+/**
+ * GET /api/owners/:id
+ * Get specific owner
+ */
+router.get(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do dono inválido'),
+  ]),
+  asyncHandler(ownersController.getOwnerById.bind(ownersController))
+);
+
+/**
+ * POST /api/owners
+ * Create a new owner
+ *
+ * Body:
+ * - name: Owner name (required, unique per user ignoring case and accents)
+ * - contact: Phone, e-mail or handle (optional)
+ * - color: Color tag, #RRGGBB (optional)
+ */
+router.post(
+  '/',
+  validateRequest([
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Nome do dono é obrigatório')
+      .isLength({ max: 255 })
+      .withMessage('Nome do dono deve ter no máximo 255 caracteres'),
+    contactBody,
+    colorBody,
+  ]),
+  asyncHandler(ownersController.createOwner.bind(ownersController))
+);
+
+/**
+ * PATCH /api/owners/:id
+ * Update an owner
+ *
+ * Body (all optional):
+ * - name: New owner name
+ * - contact: New contact (null to clear)
+ * - color: New color tag (null to clear)
+ */
+router.patch(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do dono inválido'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Nome não pode ser vazio')
+      .isLength({ max: 255 })
+      .withMessage('Nome do dono deve ter no máximo 255 caracteres'),
+    contactBody,
+    colorBody,
+  ]),
+  asyncHandler(ownersController.updateOwner.bind(ownersController))
+);
+
+/**
+ * DELETE /api/owners/:id
+ * Delete an owner; an owner with cards must be merged into another instead
+ */
+router.delete(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do dono inválido'),
+  ]),
+  asyncHandler(ownersController.deleteOwner.bind(ownersController))
+);
+
+/**
+ * POST /api/owners/:id/merge
+ * Merge other owners into this one: their cards move to it and they are
+ * deleted
+ *
+ * Body:
+ * - source_ids: IDs of the owners to merge (required, at least one)
+ */
+router.post(
+  '/:id/merge',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do dono inválido'),
+    body('source_ids')
+      .isArray({ min: 1 })
+      .withMessage('Informe ao menos um dono para mesclar'),
+    body('source_ids.*')
+      .isUUID()
+      .withMessage('ID do dono inválido'),
+  ]),
+  asyncHandler(ownersController.mergeOwners.bind(ownersController))
+);
+
+export default router;
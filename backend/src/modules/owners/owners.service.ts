@@ -0,0 +1,352 @@
+import pool from '../../config/database';
+import { getCardsWithFallback } from '../cards/cardDataProvider';
+import { effectiveEurPriceSql, effectivePriceSql } from '../cards/cardPrices';
+import { mergeDuplicateRows } from '../cards/cardDuplicates';
+import { buildOwnerReports, OwnerReportRow, toOwnerReportCsv } from './ownerReport';
+import {
+  AppError,
+  CreateOwnerRequest,
+  ExportFile,
+  LoanDirection,
+  Owner,
+  OwnerDuplicateGroup,
+  OwnerMergeResult,
+  OwnerReport,
+  OwnerWithStats,
+  TcgType,
+  UpdateOwnerRequest,
+} from '../../types';
+
+/**
+ * Normalize an owner name: trimmed, inner whitespace collapsed
+ */
+export function normalizeOwnerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key two spellings of one person share: normalized, without accents,
+ * lower case ("João " and "joao" both give "joao")
+ */
+export function ownerNameKey(name: string): string {
+  return normalizeOwnerName(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+const OWNER_WITH_STATS = `SELECT o.*, COALESCE(SUM(ca.quantity), 0)::int AS card_count
+       FROM owners o
+       LEFT JOIN cards ca ON ca.owner_id = o.id`;
+
+/**
+ * Owners Service
+ *
+ * Business logic layer for owner management.
+ * Owners belong to a user; every card in the user's collections has one.
+ */
+class OwnersService {
+  /**
+   * Get all owners for a user with their card count
+   *
+   * @param userId - User ID
+   * @returns Owners ordered by name
+   */
+  async getUserOwners(userId: string): Promise<OwnerWithStats[]> {
+    const result = await pool.query<OwnerWithStats>(
+      `${OWNER_WITH_STATS}
+       WHERE o.user_id = $1
+       GROUP BY o.id
+       ORDER BY LOWER(o.name)`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a single owner by ID
+   *
+   * @param ownerId - Owner ID
+   * @param userId - User ID for ownership verification
+   * @returns Owner with its card count
+   * @throws AppError if owner not found or belongs to another user
+   */
+  async getOwnerById(ownerId: string, userId: string): Promise<OwnerWithStats> {
+    const result = await pool.query<OwnerWithStats>(
+      `${OWNER_WITH_STATS}
+       WHERE o.id = $1 AND o.user_id = $2
+       GROUP BY o.id`,
+      [ownerId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Dono não encontrado', 404);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Create a new owner
+   *
+   * @param userId - User ID
+   * @param data - Owner name, contact and color tag
+   * @returns Created owner
+   * @throws AppError if the user already has an owner with that name
+   *   (ignoring case and accents)
+   */
+  async createOwner(userId: string, data: CreateOwnerRequest): Promise<Owner> {
+    const name = normalizeOwnerName(data.name);
+    await this.assertNameAvailable(userId, name);
+
+    const result = await pool.query<Owner>(
+      `INSERT INTO owners (user_id, name, contact, color)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [userId, name, data.contact || null, data.color?.toLowerCase() || null]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update an owner (renaming applies to every card of the owner)
+   *
+   * @param ownerId - Owner ID
+   * @param userId - User ID for ownership verification
+   * @param data - Fields to update
+   * @returns Updated owner
+   * @throws AppError if no fields to update, owner not found or name taken
+   */
+  async updateOwner(ownerId: string, userId: string, data: UpdateOwnerRequest): Promise<Owner> {
+    // First verify ownership
+    await this.getOwnerById(ownerId, userId);
+
+    const updates: string[] = [];
+    const values: (string | null)[] = [];
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      const name = normalizeOwnerName(data.name);
+      await this.assertNameAvailable(userId, name, ownerId);
+      updates.push(`name = $${paramIndex++}`);
+      values.push(name);
+    }
+
+    if (data.contact !== undefined) {
+      updates.push(`contact = $${paramIndex++}`);
+      values.push(data.contact || null);
+    }
+
+    if (data.color !== undefined) {
+      updates.push(`color = $${paramIndex++}`);
+      values.push(data.color?.toLowerCase() || null);
+    }
+
+    if (updates.length === 0) {
+      throw new AppError('Nenhum campo para atualizar', 400);
+    }
+
+    values.push(ownerId);
+
+    const result = await pool.query<Owner>(
+      `UPDATE owners SET ${updates.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Delete an owner without cards
+   *
+   * @param ownerId - Owner ID
+   * @param userId - User ID for ownership verification
+   * @throws AppError 409 if cards still belong to the owner (merge it instead)
+   */
+  async deleteOwner(ownerId: string, userId: string): Promise<void> {
+    const owner = await this.getOwnerById(ownerId, userId);
+    if (owner.card_count > 0) {
+      throw new AppError('Dono possui cartas; mescle-o com outro dono antes de excluir', 409);
+    }
+
+    await pool.query('DELETE FROM owners WHERE id = $1', [ownerId]);
+  }
+
+  /**
+   * Group the user's owners whose names differ only in case, accents or
+   * spacing, as merge suggestions (nothing is changed)
+   *
+   * @param userId - User ID
+   * @returns Groups of two or more owners, largest card count first in each
+   */
+  async getDuplicateSuggestions(userId: string): Promise<OwnerDuplicateGroup[]> {
+    const groups = new Map<string, OwnerWithStats[]>();
+    for (const owner of await this.getUserOwners(userId)) {
+      const key = ownerNameKey(owner.name);
+      groups.set(key, [...(groups.get(key) ?? []), owner]);
+    }
+
+    return [...groups.values()]
+      .filter((owners) => owners.length > 1)
+      .map((owners) => {
+        const sorted = [...owners].sort((a, b) => b.card_count - a.card_count);
+        return { owners: sorted, suggested_target_id: sorted[0].id };
+      });
+  }
+
+  /**
+   * Merge owners into one: their cards move to the target owner and the
+   * merged owners are deleted
+   *
+   * Moved cards that become identical to a row of the target owner merge
+   * into it, as when they are added. Import jobs still to run for a merged
+   * owner import for the target instead.
+   *
+   * @param targetId - Owner that keeps the cards
+   * @param userId - User ID for ownership verification
+   * @param sourceIds - Owners to merge into the target
+   * @returns Target owner with its new card count
+   * @throws AppError 400 if the target is among the sources, 404 if any owner
+   *   is not found
+   */
+  async mergeOwners(targetId: string, userId: string, sourceIds: string[]): Promise<OwnerMergeResult> {
+    const mergedIds = [...new Set(sourceIds)];
+    if (mergedIds.includes(targetId)) {
+      throw new AppError('Um dono não pode ser mesclado com ele mesmo', 400);
+    }
+
+    await this.getOwnerById(targetId, userId);
+
+    const client = await pool.connect();
+    let movedCards: number;
+
+    try {
+      await client.query('BEGIN');
+
+      const sources = await client.query(
+        'SELECT id FROM owners WHERE id = ANY($1) AND user_id = $2 FOR UPDATE',
+        [mergedIds, userId]
+      );
+      if (sources.rows.length !== mergedIds.length) {
+        throw new AppError('Dono não encontrado', 404);
+      }
+
+      const moved = await client.query<{ id: string }>(
+        'UPDATE cards SET owner_id = $1 WHERE owner_id = ANY($2) RETURNING id',
+        [targetId, mergedIds]
+      );
+      movedCards = moved.rows.length;
+      await mergeDuplicateRows(client, { ownerId: targetId, cardIds: moved.rows.map((card) => card.id) });
+
+      // Jobs read their owner when they run (again after a restart)
+      await client.query(
+        `UPDATE import_jobs SET input = jsonb_set(input, '{owner_id}', to_jsonb($1::text)), updated_at = NOW()
+         WHERE user_id = $2 AND status IN ('pending', 'running') AND input->>'owner_id' = ANY($3)`,
+        [targetId, userId, mergedIds]
+      );
+      await client.query('DELETE FROM owners WHERE id = ANY($1)', [mergedIds]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return {
+      owner: await this.getOwnerById(targetId, userId),
+      merged_owner_ids: mergedIds,
+      moved_cards: movedCards,
+    };
+  }
+
+  /**
+   * Report what each owner has across all the user's collections: card
+   * count, value, the decks their cards sit in and the copies lent out
+   *
+   * @param userId - User ID
+   * @param ownerId - Report on this owner only (optional)
+   * @returns One report per owner, ordered by name
+   * @throws AppError if the owner is not found
+   */
+  async getOwnerReport(userId: string, ownerId?: string): Promise<OwnerReport[]> {
+    const owners = ownerId
+      ? [await this.getOwnerById(ownerId, userId)]
+      : await this.getUserOwners(userId);
+
+    const params: unknown[] = [userId, LoanDirection.LENT];
+    if (ownerId) params.push(ownerId);
+
+    const result = await pool.query<Omit<OwnerReportRow, 'card_name'> & { tcg_type: TcgType }>(
+      `SELECT ca.id AS card_id, ca.owner_id, ca.scryfall_id, ca.set_code, ca.finish, ca.quantity,
+         ca.collection_id, col.name AS collection_name, col.tcg_type,
+         ca.deck_id, d.name AS deck_name, ca.board,
+         (${effectivePriceSql('ca')})::float8 AS unit_price,
+         COALESCE(${effectiveEurPriceSql('ca')}, ${effectivePriceSql('ca')} * er.rate_per_usd)::float8 AS unit_price_eur,
+         COALESCE(lent.quantity, 0)::int AS lent_quantity,
+         lent.counterparties AS lent_to
+       FROM cards ca
+       INNER JOIN collections col ON col.id = ca.collection_id
+       LEFT JOIN decks d ON d.id = ca.deck_id
+       LEFT JOIN exchange_rates er ON er.currency = 'EUR'
+       LEFT JOIN LATERAL (
+         SELECT SUM(l.quantity) AS quantity, string_agg(DISTINCT l.counterparty, ', ') AS counterparties
+         FROM card_loans l
+         WHERE l.card_id = ca.id AND l.direction = $2 AND l.returned_date IS NULL
+       ) lent ON true
+       WHERE col.user_id = $1${ownerId ? ' AND ca.owner_id = $3' : ''}`,
+      params
+    );
+
+    const cardData = await getCardsWithFallback(result.rows);
+
+    const rows = result.rows.map(({ tcg_type: _tcgType, ...row }) => ({
+      ...row,
+      card_name: cardData.get(row.scryfall_id)?.name ?? null,
+    }));
+
+    return buildOwnerReports(owners, rows);
+  }
+
+  /**
+   * Owner report as a CSV download
+   *
+   * @param userId - User ID
+   * @param ownerId - Export this owner's list only (optional)
+   * @returns CSV file, named after the owner when there is one
+   */
+  async exportOwnerReport(userId: string, ownerId?: string): Promise<ExportFile> {
+    const reports = await this.getOwnerReport(userId, ownerId);
+    const slug = ownerId
+      ? ownerNameKey(reports[0].owner.name).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+      : '';
+
+    return {
+      filename: `${slug || 'owners'}-report.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: toOwnerReportCsv(reports),
+    };
+  }
+
+  /**
+   * Throw if another of the user's owners has the same name, ignoring case
+   * and accents
+   */
+  private async assertNameAvailable(userId: string, name: string, exceptOwnerId?: string): Promise<void> {
+    const existing = await pool.query<Pick<Owner, 'id' | 'name'>>(
+      'SELECT id, name FROM owners WHERE user_id = $1 AND id IS DISTINCT FROM $2',
+      [userId, exceptOwnerId ?? null]
+    );
+
+    const key = ownerNameKey(name);
+    const taken = existing.rows.find((owner) => ownerNameKey(owner.name) === key);
+    if (taken) {
+      throw new AppError(`Já existe um dono com esse nome (${taken.name})`, 409);
+    }
+  }
+}
+
+export default new OwnersService();
@@ -0,0 +1,95 @@
+import pricesService from './prices.service';
+import { PriceSnapshotResult } from '../../types';
+
+/**
+ * Price Snapshot Job Options
+ */
+interface PriceSnapshotJobOptions {
+  intervalMs: number;
+  startupDelayMs: number;
+}
+
+/**
+ * Price Snapshot Job
+ *
+ * Runs pricesService.snapshotPrices() on a timer inside the backend
+ * process. On start it takes today's snapshot (after a short delay, so
+ * startup isn't slowed down) unless one already exists, then repeats every
+ * PRICE_SNAPSHOT_INTERVAL_HOURS (default 24). Runs never overlap.
+ *
+ * Set PRICE_SNAPSHOT_ENABLED=false to disable it, e.g. when several
+ * instances share one database and only one should reprice.
+ */
+export class PriceSnapshotJob {
+  private readonly options: PriceSnapshotJobOptions;
+  private timers: NodeJS.Timeout[] = [];
+  private running: Promise<PriceSnapshotResult> | null = null;
+
+  constructor(options: Partial<PriceSnapshotJobOptions> = {}) {
+    this.options = {
+      intervalMs: parseFloat(process.env.PRICE_SNAPSHOT_INTERVAL_HOURS || '24') * 60 * 60 * 1000,
+      startupDelayMs: 60_000,
+      ...options,
+    };
+  }
+
+  /**
+   * Start the timer (no-op if already started)
+   */
+  start(): void {
+    if (this.timers.length > 0) return;
+
+    const startup = setTimeout(() => {
+      pricesService
+        .hasSnapshotForToday()
+        .then((taken) => (taken ? undefined : this.run()))
+        .catch((error) => console.error('❌ Price snapshot check failed:', error));
+    }, this.options.startupDelayMs);
+
+    const interval = setInterval(() => {
+      this.run().catch(() => undefined);
+    }, this.options.intervalMs);
+
+    // Don't keep the process alive just for the job
+    startup.unref();
+    interval.unref();
+    this.timers = [startup, interval];
+  }
+
+  /**
+   * Stop the timer (a snapshot in progress finishes on its own)
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Take a snapshot now, or join the one already running
+   */
+  run(): Promise<PriceSnapshotResult> {
+    if (this.running) return this.running;
+
+    const startedAt = Date.now();
+    console.log('💲 Price snapshot started');
+
+    this.running = pricesService
+      .snapshotPrices()
+      .then((result) => {
+        const seconds = Math.round((Date.now() - startedAt) / 1000);
+        console.log(`✅ Price snapshot: ${result.recorded}/${result.cards} cards priced, ${result.failed} failed (${seconds}s)`);
+        return result;
+      })
+      .catch((error) => {
+        console.error('❌ Price snapshot failed:', error);
+        throw error;
+      })
+      .finally(() => {
+        this.running = null;
+      });
+
+    return this.running;
+  }
+}
+
+export default new PriceSnapshotJob();
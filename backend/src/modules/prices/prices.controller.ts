@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import pricesService from './prices.service';
+import { AuthenticatedRequest, PriceMoverSort, ValueHistoryInterval } from '../../types';
+
+/**
+ * Default length of price and value series
+ */
+const DEFAULT_HISTORY_DAYS = 90;
+
+/**
+ * Default movers window and list length
+ */
+const DEFAULT_MOVERS_DAYS = 7;
+const DEFAULT_MOVERS_LIMIT = 10;
+
+/**
+ * Prices Controller
+ *
+ * HTTP layer for price history endpoints.
+ * All routes require authentication.
+ */
+class PricesController {
+  /**
+   * GET /api/cards/:id/price-history
+   * Get a card's daily price series
+   */
+  async getCardPriceHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const days = Number(req.query.days) || DEFAULT_HISTORY_DAYS;
+
+    const history = await pricesService.getCardPriceHistory(id, userId, days);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  }
+
+  /**
+   * GET /api/collections/:id/value-history
+   * Get a collection's total value by day, week or month
+   */
+  async getCollectionValueHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const days = Number(req.query.days) || DEFAULT_HISTORY_DAYS;
+    const interval = (req.query.interval as ValueHistoryInterval | undefined) || 'day';
+
+    const history = await pricesService.getCollectionValueHistory(id, userId, days, interval);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  }
+
+  /**
+   * GET /api/collections/:id/movers
+   * Get a collection's top price gainers and losers
+   */
+  async getCollectionMovers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const days = Number(req.query.days) || DEFAULT_MOVERS_DAYS;
+    const sort = (req.query.sort as PriceMoverSort | undefined) || 'absolute';
+    const limit = Number(req.query.limit) || DEFAULT_MOVERS_LIMIT;
+
+    const movers = await pricesService.getCollectionMovers(id, userId, days, sort, limit);
+
+    res.status(200).json({
+      success: true,
+      data: movers,
+    });
+  }
+}
+
+export default new PricesController();
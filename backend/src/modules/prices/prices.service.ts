@@ -0,0 +1,364 @@
+import pool from '../../config/database';
+import collectionsService from '../collections/collections.service';
+import { getCardDataProvider } from '../cards/cardDataProvider';
+import { cardPriceColumns, CardPriceColumns, effectivePrice, effectivePriceSql } from '../cards/cardPrices';
+import {
+  AppError,
+  CardFinish,
+  CollectionMovers,
+  CollectionValuePoint,
+  PriceMover,
+  PriceMoverSort,
+  PricePoint,
+  PriceSnapshotResult,
+  TcgType,
+  ValueHistoryInterval,
+} from '../../types';
+
+/**
+ * Card IDs refreshed per provider call during a snapshot
+ */
+const SNAPSHOT_BATCH_SIZE = 500;
+
+/**
+ * Price Snapshot Row
+ */
+type PriceSnapshotRow = CardPriceColumns & { scryfall_id: string };
+
+/**
+ * Price columns as returned by pg (NUMERIC arrives as a string)
+ */
+type StoredPriceColumns = Record<keyof CardPriceColumns, string | null>;
+
+/**
+ * Column each mover ranking sorts by
+ */
+const MOVER_SORT_COLUMNS: Record<PriceMoverSort, string> = {
+  absolute: 'value_change',
+  percent: 'change_pct',
+};
+
+/**
+ * Price mover as returned by pg (NUMERIC arrives as a string)
+ */
+interface MoverRow {
+  direction: 'gainer' | 'loser';
+  card_id: string;
+  scryfall_id: string;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  start_price: string;
+  end_price: string;
+  change: string;
+  change_pct: string | null;
+  value_change: string;
+}
+
+/**
+ * Parse stored NUMERIC price columns
+ */
+function parsePriceColumns(row: StoredPriceColumns): CardPriceColumns {
+  const parse = (value: string | null) => (value === null ? null : parseFloat(value));
+  return {
+    price_usd: parse(row.price_usd),
+    price_usd_foil: parse(row.price_usd_foil),
+    price_usd_etched: parse(row.price_usd_etched),
+    price_eur: parse(row.price_eur),
+    price_eur_foil: parse(row.price_eur_foil),
+  };
+}
+
+/**
+ * Prices Service
+ *
+ * Keeps card prices current and records their history.
+ *
+ * A snapshot asks each card's provider for the latest data of every
+ * distinct scryfall_id in use, writes one card_price_history row per card
+ * per day and copies the new prices onto the cards rows, so collection
+ * totals follow the market. Scryfall calls go through its request
+ * scheduler, so a snapshot respects the same throttle as user requests.
+ */
+class PricesService {
+  /**
+   * Snapshot today's prices for every card in use
+   *
+   * A TCG or batch whose provider fails is logged and counted as failed;
+   * the rest of the snapshot still runs. Running twice on the same day
+   * overwrites that day's row.
+   *
+   * @returns Number of distinct cards, prices recorded and cards not refreshed
+   */
+  async snapshotPrices(): Promise<PriceSnapshotResult> {
+    const result = await pool.query<{ scryfall_id: string; tcg_type: TcgType }>(
+      `SELECT DISTINCT ca.scryfall_id, col.tcg_type
+       FROM cards ca
+       INNER JOIN collections col ON ca.collection_id = col.id`
+    );
+
+    const idsByTcg = new Map<TcgType, string[]>();
+    for (const row of result.rows) {
+      const ids = idsByTcg.get(row.tcg_type) ?? [];
+      ids.push(row.scryfall_id);
+      idsByTcg.set(row.tcg_type, ids);
+    }
+
+    let recorded = 0;
+    let failed = 0;
+
+    for (const [tcgType, ids] of idsByTcg) {
+      for (let i = 0; i < ids.length; i += SNAPSHOT_BATCH_SIZE) {
+        const batch = ids.slice(i, i + SNAPSHOT_BATCH_SIZE);
+
+        try {
+          const cards = await getCardDataProvider(tcgType).refreshCards(batch);
+          const rows = Array.from(cards, ([id, card]) => ({ scryfall_id: id, ...cardPriceColumns(card) }));
+          await this.recordPrices(rows);
+          recorded += rows.length;
+          failed += batch.length - rows.length;
+        } catch (error) {
+          console.warn(`Price snapshot failed for ${batch.length} ${tcgType} cards:`, error);
+          failed += batch.length;
+        }
+      }
+    }
+
+    return { cards: result.rows.length, recorded, failed };
+  }
+
+  /**
+   * Write today's history rows and update the cards' stored prices
+   */
+  private async recordPrices(rows: PriceSnapshotRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await pool.query(
+      `WITH snapshot AS (
+         SELECT * FROM jsonb_to_recordset($1::jsonb) AS s(
+           scryfall_id VARCHAR(255),
+           price_usd NUMERIC(10,2),
+           price_usd_foil NUMERIC(10,2),
+           price_usd_etched NUMERIC(10,2),
+           price_eur NUMERIC(10,2),
+           price_eur_foil NUMERIC(10,2)
+         )
+       ), history AS (
+         INSERT INTO card_price_history
+           (scryfall_id, recorded_on, price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil)
+         SELECT scryfall_id, CURRENT_DATE, price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil
+         FROM snapshot
+         ON CONFLICT (scryfall_id, recorded_on) DO UPDATE
+           SET price_usd = EXCLUDED.price_usd,
+               price_usd_foil = EXCLUDED.price_usd_foil,
+               price_usd_etched = EXCLUDED.price_usd_etched,
+               price_eur = EXCLUDED.price_eur,
+               price_eur_foil = EXCLUDED.price_eur_foil
+       )
+       UPDATE cards ca
+       SET price_usd = s.price_usd,
+           price_usd_foil = s.price_usd_foil,
+           price_usd_etched = s.price_usd_etched,
+           price_eur = s.price_eur,
+           price_eur_foil = s.price_eur_foil
+       FROM snapshot s
+       WHERE ca.scryfall_id = s.scryfall_id`,
+      [JSON.stringify(rows)]
+    );
+  }
+
+  /**
+   * Whether today's snapshot has already been taken
+   */
+  async hasSnapshotForToday(): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM card_price_history WHERE recorded_on = CURRENT_DATE LIMIT 1'
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Get a card's daily price series
+   *
+   * @param cardId - Card ID
+   * @param userId - User ID for ownership verification
+   * @param days - How many days back to return
+   * @returns One point per recorded day, oldest first
+   * @throws AppError 404 if the card doesn't exist or belongs to another user
+   */
+  async getCardPriceHistory(cardId: string, userId: string, days: number): Promise<PricePoint[]> {
+    const cardResult = await pool.query<{ scryfall_id: string; finish: CardFinish }>(
+      `SELECT c.scryfall_id, c.finish FROM cards c
+       INNER JOIN collections col ON c.collection_id = col.id
+       WHERE c.id = $1 AND col.user_id = $2`,
+      [cardId, userId]
+    );
+
+    if (cardResult.rows.length === 0) {
+      throw new AppError('Carta não encontrada', 404);
+    }
+
+    const { scryfall_id: scryfallId, finish } = cardResult.rows[0];
+
+    const result = await pool.query<StoredPriceColumns & { date: string }>(
+      `SELECT
+         to_char(recorded_on, 'YYYY-MM-DD') AS date,
+         price_usd, price_usd_foil, price_usd_etched, price_eur, price_eur_foil
+       FROM card_price_history
+       WHERE scryfall_id = $1 AND recorded_on > CURRENT_DATE - $2::int
+       ORDER BY recorded_on`,
+      [scryfallId, days]
+    );
+
+    return result.rows.map((row) => {
+      const prices = parsePriceColumns(row);
+      return { date: row.date, ...prices, price: effectivePrice(prices, finish) };
+    });
+  }
+
+  /**
+   * Get a collection's total value over time
+   *
+   * Each day values the cards that were already in the collection on that
+   * day at that day's price for their finish. Days without a snapshot are
+   * absent. Weekly and monthly series keep the last recorded day of each
+   * week/month, dated by the start of the week/month.
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param days - How many days back to return
+   * @param interval - Bucket size (default: day)
+   * @returns One point per bucket with a snapshot, oldest first
+   */
+  async getCollectionValueHistory(
+    collectionId: string,
+    userId: string,
+    days: number,
+    interval: ValueHistoryInterval = 'day'
+  ): Promise<CollectionValuePoint[]> {
+    // Verify ownership
+    await collectionsService.getCollectionById(collectionId, userId);
+
+    const result = await pool.query<{ date: string; total_value: string; card_count: string }>(
+      `WITH daily AS (
+         SELECT
+           h.recorded_on,
+           COALESCE(SUM(${effectivePriceSql('ca', 'h')} * ca.quantity), 0)::numeric(10,2) AS total_value,
+           SUM(ca.quantity) AS card_count
+         FROM cards ca
+         INNER JOIN card_price_history h ON h.scryfall_id = ca.scryfall_id
+         WHERE ca.collection_id = $1
+           AND h.recorded_on > CURRENT_DATE - $2::int
+           AND ca.added_at::date <= h.recorded_on
+         GROUP BY h.recorded_on
+       )
+       SELECT DISTINCT ON (date_trunc($3, recorded_on))
+         to_char(date_trunc($3, recorded_on), 'YYYY-MM-DD') AS date,
+         total_value,
+         card_count
+       FROM daily
+       ORDER BY date_trunc($3, recorded_on), recorded_on DESC`,
+      [collectionId, days, interval]
+    );
+
+    return result.rows.map((row) => ({
+      date: row.date,
+      total_value: parseFloat(row.total_value),
+      card_count: parseInt(row.card_count, 10),
+    }));
+  }
+
+  /**
+   * Get the cards whose price moved most over a window
+   *
+   * Each card row is compared between its first and last priced snapshot
+   * inside the window, at the price for its finish. Rows priced on fewer
+   * than two days, or that didn't move, are left out. Everything is
+   * computed in one query; only the returned rows are looked up for names.
+   *
+   * @param collectionId - Collection ID
+   * @param userId - User ID for ownership verification
+   * @param days - Window length in days
+   * @param sort - absolute: change across all copies; percent: percent change
+   * @param limit - Rows per list
+   * @returns Top gainers (biggest rise first) and losers (biggest drop first)
+   */
+  async getCollectionMovers(
+    collectionId: string,
+    userId: string,
+    days: number,
+    sort: PriceMoverSort = 'absolute',
+    limit = 10
+  ): Promise<CollectionMovers> {
+    // Verify ownership
+    const collection = await collectionsService.getCollectionById(collectionId, userId);
+    const sortColumn = MOVER_SORT_COLUMNS[sort];
+
+    const result = await pool.query<MoverRow>(
+      `WITH window_prices AS (
+         SELECT ca.id AS card_id, ca.scryfall_id, ca.set_code, ca.finish, ca.quantity,
+                h.recorded_on, ${effectivePriceSql('ca', 'h')} AS price
+         FROM cards ca
+         INNER JOIN card_price_history h ON h.scryfall_id = ca.scryfall_id
+         WHERE ca.collection_id = $1
+           AND h.recorded_on > CURRENT_DATE - $2::int
+       ), bounds AS (
+         SELECT card_id, scryfall_id, set_code, finish, quantity,
+                (ARRAY_AGG(price ORDER BY recorded_on) FILTER (WHERE price IS NOT NULL))[1] AS start_price,
+                (ARRAY_AGG(price ORDER BY recorded_on DESC) FILTER (WHERE price IS NOT NULL))[1] AS end_price,
+                COUNT(price) AS priced_days
+         FROM window_prices
+         GROUP BY card_id, scryfall_id, set_code, finish, quantity
+       ), changes AS (
+         SELECT card_id, scryfall_id, set_code, finish, quantity, start_price, end_price,
+                end_price - start_price AS change,
+                CASE WHEN start_price > 0
+                  THEN ROUND((end_price - start_price) / start_price * 100, 2)
+                END AS change_pct,
+                (end_price - start_price) * quantity AS value_change
+         FROM bounds
+         WHERE priced_days >= 2 AND end_price <> start_price
+       )
+       (SELECT 'gainer' AS direction, * FROM changes
+        WHERE change > 0 ORDER BY ${sortColumn} DESC NULLS LAST LIMIT $3)
+       UNION ALL
+       (SELECT 'loser' AS direction, * FROM changes
+        WHERE change < 0 ORDER BY ${sortColumn} ASC NULLS LAST LIMIT $3)`,
+      [collectionId, days, limit]
+    );
+
+    // Names come from the provider, for the few returned cards only
+    let names = new Map<string, string>();
+    try {
+      const cards = await getCardDataProvider(collection.tcg_type).getCardsByIds(
+        result.rows.map((row) => row.scryfall_id)
+      );
+      names = new Map(Array.from(cards, ([id, card]) => [id, card.name]));
+    } catch (error) {
+      console.warn('Failed to fetch card names for price movers:', error);
+    }
+
+    const toMover = (row: MoverRow): PriceMover => ({
+      card_id: row.card_id,
+      scryfall_id: row.scryfall_id,
+      name: names.get(row.scryfall_id) ?? null,
+      set_code: row.set_code,
+      finish: row.finish,
+      quantity: row.quantity,
+      start_price: parseFloat(row.start_price),
+      end_price: parseFloat(row.end_price),
+      change: parseFloat(row.change),
+      change_pct: row.change_pct === null ? null : parseFloat(row.change_pct),
+      value_change: parseFloat(row.value_change),
+    });
+
+    return {
+      days,
+      sort,
+      gainers: result.rows.filter((row) => row.direction === 'gainer').map(toMover),
+      losers: result.rows.filter((row) => row.direction === 'loser').map(toMover),
+    };
+  }
+}
+
+export default new PricesService();
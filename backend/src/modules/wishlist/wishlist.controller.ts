@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import wishlistService from './wishlist.service';
+import { AuthenticatedRequest, WishlistStatusFilter } from '../../types';
+
+/**
+ * Wishlist Controller
+ *
+ * HTTP layer for the cards the user wants.
+ * All routes require authentication.
+ */
+class WishlistController {
+  /**
+   * GET /api/wishlist
+   * Get the wishlist with current prices and the cost of what is missing
+   */
+  async getWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const status = req.query.status as WishlistStatusFilter | undefined;
+
+    const wishlist = await wishlistService.getWishlist(userId, status);
+
+    res.status(200).json({
+      success: true,
+      data: wishlist,
+    });
+  }
+
+  /**
+   * POST /api/wishlist
+   * Add a card to the wishlist (201, or 200 when merged into an identical item)
+   */
+  async addItem(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const userId = req.user!.userId;
+    const { scryfall_id, tcg_type, any_printing, finish, quantity, max_price, priority, notes } = req.body;
+
+    const item = await wishlistService.addItem(userId, {
+      scryfall_id,
+      tcg_type,
+      any_printing,
+      finish,
+      quantity,
+      max_price,
+      priority,
+      notes,
+    });
+
+    res.status(item.merged ? 200 : 201).json({
+      success: true,
+      data: item,
+    });
+  }
+
+  /**
+   * PATCH /api/wishlist/:id
+   * Update a wishlist item
+   */
+  async updateItem(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { any_printing, finish, quantity, max_price, priority, notes } = req.body;
+
+    const item = await wishlistService.updateItem(id, userId, {
+      any_printing,
+      finish,
+      quantity,
+      max_price,
+      priority,
+      notes,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: item,
+    });
+  }
+
+  /**
+   * DELETE /api/wishlist/:id
+   * Remove an item from the wishlist
+   */
+  async deleteItem(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    await wishlistService.deleteItem(id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Item removido da lista de desejos',
+    });
+  }
+}
+
+export default new WishlistController();
@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import wishlistController from './wishlist.controller';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validation';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { CardFinish, TcgType, WishlistPriority } from '../../types';
+
+const router = Router();
+
+/**
+ * Wishlist Routes
+ *
+ * All routes require authentication (JWT token).
+ *
+ * Items are fulfilled by adding matching copies to any collection; there
+ * is no route to fulfil them by hand.
+ *
+ * Routes:
+ * - GET    /api/wishlist     - Get the wishlist with current prices
+ * - POST   /api/wishlist     - Add a card to the wishlist
+ * - PATCH  /api/wishlist/:id - Update a wishlist item
+ * - DELETE /api/wishlist/:id - Remove a wishlist item
+ */
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * GET /api/wishlist
+ * Get the wishlist with current prices and the cost of the copies still
+ * missing
+ *
+ * Query:
+ * - status: open | fulfilled | all (optional, default: open)
+ */
+router.get(
+  '/',
+  validateRequest([
+    query('status')
+      .optional()
+      .isIn(['open', 'fulfilled', 'all'])
+      .withMessage('Status inválido (open, fulfilled, all)'),
+  ]),
+  asyncHandler(wishlistController.getWishlist.bind(wishlistController))
+);
+
+/**
+ * POST /api/wishlist
+ * Add a card to the wishlist; an identical open item (same card, printing
+ * choice and finish) gets the quantity added instead
+ *
+ * Body:
+ * - scryfall_id: Card ID from the game's provider (required)
+ * - tcg_type: magic | pokemon | yugioh (optional, default: magic)
+ * - any_printing: Any printing of the card will do (optional, default: true)
+ * - finish: nonfoil | foil | etched, null for any (optional, default: any)
+ * - quantity: Copies wanted (optional, default: 1)
+ * - max_price: Most to pay for one copy, in USD (optional)
+ * - priority: low | medium | high (optional, default: medium)
+ * - notes: Notes (optional)
+ */
+router.post(
+  '/',
+  validateRequest([
+    body('scryfall_id')
+      .notEmpty()
+      .withMessage('ID do Scryfall é obrigatório')
+      .isString()
+      .withMessage('ID do Scryfall deve ser texto'),
+    body('tcg_type')
+      .optional()
+      .isIn(Object.values(TcgType))
+      .withMessage('Tipo de TCG inválido (magic, pokemon, yugioh)'),
+    body('any_printing')
+      .optional()
+      .isBoolean()
+      .withMessage('any_printing deve ser booleano'),
+    body('finish')
+      .optional({ values: 'null' })
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
+    body('quantity')
+      .optional()
+      .toInt()
+      .isInt({ min: 1 })
+      .withMessage('Quantidade deve ser um número inteiro positivo'),
+    body('max_price')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Preço máximo deve ser um número não negativo'),
+    body('priority')
+      .optional()
+      .isIn(Object.values(WishlistPriority))
+      .withMessage('Prioridade inválida (low, medium, high)'),
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Observações devem ser texto'),
+  ]),
+  asyncHandler(wishlistController.addItem.bind(wishlistController))
+);
+
+/**
+ * PATCH /api/wishlist/:id
+ * Update a wishlist item; lowering the quantity to the copies already
+ * acquired fulfils it
+ *
+ * Body (all optional):
+ * - any_printing, finish, quantity, max_price, priority, notes (see POST)
+ */
+router.patch(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do item inválido'),
+    body('any_printing')
+      .optional()
+      .isBoolean()
+      .withMessage('any_printing deve ser booleano'),
+    body('finish')
+      .optional({ values: 'null' })
+      .isIn(Object.values(CardFinish))
+      .withMessage('Acabamento inválido (nonfoil, foil, etched)'),
+    body('quantity')
+      .optional()
+      .toInt()
+      .isInt({ min: 1 })
+      .withMessage('Quantidade deve ser um número inteiro positivo'),
+    body('max_price')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Preço máximo deve ser um número não negativo'),
+    body('priority')
+      .optional()
+      .isIn(Object.values(WishlistPriority))
+      .withMessage('Prioridade inválida (low, medium, high)'),
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Observações devem ser texto'),
+  ]),
+  asyncHandler(wishlistController.updateItem.bind(wishlistController))
+);
+
+/**
+ * DELETE /api/wishlist/:id
+ * Remove an item from the wishlist
+ */
+router.delete(
+  '/:id',
+  validateRequest([
+    param('id').isUUID().withMessage('ID do item inválido'),
+  ]),
+  asyncHandler(wishlistController.deleteItem.bind(wishlistController))
+);
+
+export default router;
@@ -0,0 +1,296 @@
+import { PoolClient } from 'pg';
+import pool from '../../config/database';
+import currencyService from '../currency/currency.service';
+import { getCardDataProvider, getCardsWithFallback } from '../cards/cardDataProvider';
+import { cardPriceColumns, defaultFinish, effectivePrice, effectivePriceEur, roundMoney } from '../cards/cardPrices';
+import {
+  AcquiredCard,
+  AddWishlistItemRequest,
+  AppError,
+  Currency,
+  TcgType,
+  UpdateWishlistItemRequest,
+  Wishlist,
+  WishlistItem,
+  WishlistItemWithDetails,
+  WishlistPriority,
+  WishlistStatusFilter,
+} from '../../types';
+
+/**
+ * Columns returned for a wishlist item (max_price as a number)
+ */
+const ITEM_COLUMNS = `w.id, w.user_id, w.tcg_type, w.scryfall_id, w.card_name, w.any_printing, w.finish,
+  w.quantity, w.acquired_quantity, w.max_price::float8 AS max_price, w.priority, w.notes,
+  w.fulfilled_at, w.created_at, w.updated_at`;
+
+/**
+ * SQL ordering of priorities, highest first
+ */
+const PRIORITY_ORDER = `CASE w.priority
+    WHEN '${WishlistPriority.HIGH}' THEN 0
+    WHEN '${WishlistPriority.MEDIUM}' THEN 1
+    ELSE 2
+  END`;
+
+/**
+ * Wishlist Service
+ *
+ * Cards the user wants, with how many, the most they would pay, the
+ * finish they want and how much they want them. Copies added to any
+ * collection count towards the matching open items (see recordAcquired),
+ * so items are fulfilled without the user ticking them off.
+ */
+class WishlistService {
+  /**
+   * Get the user's wishlist with current prices: open items by priority,
+   * then fulfilled ones, most recent first
+   *
+   * @param userId - User ID
+   * @param status - Only open or only fulfilled items (default: open)
+   * @returns Items with their card and price, and the cost of the copies
+   *   still missing
+   */
+  async getWishlist(userId: string, status: WishlistStatusFilter = 'open'): Promise<Wishlist> {
+    const conditions = ['w.user_id = $1'];
+    if (status === 'open') conditions.push('w.fulfilled_at IS NULL');
+    if (status === 'fulfilled') conditions.push('w.fulfilled_at IS NOT NULL');
+
+    const result = await pool.query<WishlistItem>(
+      `SELECT ${ITEM_COLUMNS} FROM wishlist_items w
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY (w.fulfilled_at IS NULL) DESC, ${PRIORITY_ORDER}, w.fulfilled_at DESC, w.created_at`,
+      [userId]
+    );
+
+    const cardData = await getCardsWithFallback(result.rows);
+
+    const eurRate = (await currencyService.getRates()).find((rate) => rate.currency === Currency.EUR)?.rate_per_usd;
+
+    let openCount = 0;
+    let totalCost = 0;
+    let totalCostEur = 0;
+    const items = result.rows.map((item): WishlistItemWithDetails => {
+      const card = cardData.get(item.scryfall_id) ?? null;
+      const prices = card && cardPriceColumns(card);
+      const finish = item.finish ?? (card ? defaultFinish(card) : null);
+      const unitPrice = prices && finish ? effectivePrice(prices, finish) : null;
+      const unitPriceEur = (prices && finish ? effectivePriceEur(prices, finish) : null) ??
+        (unitPrice !== null && eurRate ? roundMoney(unitPrice * eurRate) : null);
+
+      if (!item.fulfilled_at) {
+        const missing = Math.max(item.quantity - item.acquired_quantity, 0);
+        openCount += missing;
+        totalCost += (unitPrice ?? 0) * missing;
+        totalCostEur += (unitPriceEur ?? 0) * missing;
+      }
+
+      return { ...item, scryfall_data: card, unit_price: unitPrice, unit_price_eur: unitPriceEur };
+    });
+
+    return {
+      items,
+      open_count: openCount,
+      total_cost: roundMoney(totalCost),
+      total_cost_eur: roundMoney(totalCostEur),
+    };
+  }
+
+  /**
+   * Add a card to the wishlist, or add its quantity to an identical open
+   * item (same card, printing choice and finish)
+   *
+   * @param userId - User ID
+   * @param data - Card, quantity, price limit, finish and priority
+   * @returns Created or merged item, and whether it was merged
+   * @throws AppError if the card is not found for its game
+   */
+  async addItem(userId: string, data: AddWishlistItemRequest): Promise<WishlistItem & { merged: boolean }> {
+    const tcgType = data.tcg_type ?? TcgType.MAGIC;
+    const anyPrinting = data.any_printing ?? true;
+    const finish = data.finish ?? null;
+    const quantity = data.quantity ?? 1;
+
+    // Verify the card exists for its game
+    const card = await getCardDataProvider(tcgType).getCardById(data.scryfall_id);
+
+    const existing = await pool.query<WishlistItem>(
+      `UPDATE wishlist_items w SET quantity = w.quantity + $5, updated_at = NOW()
+       WHERE w.id = (
+         SELECT id FROM wishlist_items
+         WHERE user_id = $1 AND tcg_type = $2 AND scryfall_id = $3 AND any_printing = $4
+           AND finish IS NOT DISTINCT FROM $6 AND fulfilled_at IS NULL
+         ORDER BY created_at
+         LIMIT 1
+       )
+       RETURNING ${ITEM_COLUMNS}`,
+      [userId, tcgType, card.id, anyPrinting, quantity, finish]
+    );
+
+    if (existing.rows.length > 0) {
+      return { ...existing.rows[0], merged: true };
+    }
+
+    const result = await pool.query<WishlistItem>(
+      `INSERT INTO wishlist_items AS w
+         (user_id, tcg_type, scryfall_id, card_name, any_printing, finish, quantity, max_price, priority, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING ${ITEM_COLUMNS}`,
+      [
+        userId, tcgType, card.id, card.name, anyPrinting, finish, quantity,
+        data.max_price ?? null, data.priority ?? WishlistPriority.MEDIUM, data.notes || null,
+      ]
+    );
+
+    return { ...result.rows[0], merged: false };
+  }
+
+  /**
+   * Update a wishlist item; changing the quantity re-checks whether the
+   * copies already acquired fulfil it
+   *
+   * @param itemId - Wishlist item ID
+   * @param userId - User ID for ownership verification
+   * @param data - Fields to update
+   * @returns Updated item
+   * @throws AppError if the item is not found or belongs to another user
+   */
+  async updateItem(itemId: string, userId: string, data: UpdateWishlistItemRequest): Promise<WishlistItem> {
+    await this.getItemById(itemId, userId);
+
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (data.any_printing !== undefined) {
+      updates.push(`any_printing = $${paramIndex++}`);
+      values.push(data.any_printing);
+    }
+
+    if (data.finish !== undefined) {
+      updates.push(`finish = $${paramIndex++}`);
+      values.push(data.finish);
+    }
+
+    if (data.quantity !== undefined) {
+      updates.push(`quantity = $${paramIndex++}`);
+      values.push(data.quantity);
+    }
+
+    if (data.max_price !== undefined) {
+      updates.push(`max_price = $${paramIndex++}`);
+      values.push(data.max_price);
+    }
+
+    if (data.priority !== undefined) {
+      updates.push(`priority = $${paramIndex++}`);
+      values.push(data.priority);
+    }
+
+    if (data.notes !== undefined) {
+      updates.push(`notes = $${paramIndex++}`);
+      values.push(data.notes || null);
+    }
+
+    if (updates.length === 0) {
+      throw new AppError('Nenhum campo para atualizar', 400);
+    }
+
+    // SET expressions see the old quantity, so the new one is passed again
+    values.push(data.quantity ?? null, itemId);
+
+    const result = await pool.query<WishlistItem>(
+      `UPDATE wishlist_items w SET ${updates.join(', ')},
+         fulfilled_at = CASE WHEN w.acquired_quantity >= COALESCE($${paramIndex}::int, w.quantity)
+                             THEN COALESCE(w.fulfilled_at, NOW()) END,
+         updated_at = NOW()
+       WHERE w.id = $${paramIndex + 1}
+       RETURNING ${ITEM_COLUMNS}`,
+      values
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove an item from the wishlist
+   *
+   * @param itemId - Wishlist item ID
+   * @param userId - User ID for ownership verification
+   * @throws AppError if the item is not found or belongs to another user
+   */
+  async deleteItem(itemId: string, userId: string): Promise<void> {
+    await this.getItemById(itemId, userId);
+    await pool.query('DELETE FROM wishlist_items WHERE id = $1', [itemId]);
+  }
+
+  /**
+   * Count copies added to a collection towards the collection owner's open
+   * wishlist items, fulfilling those that have all their copies
+   *
+   * An item matches the same printing, or any printing of the same card
+   * when any_printing is set, in the item's finish (any, when it has none).
+   * Copies go to the items for that exact printing first, then by priority
+   * and age.
+   *
+   * @param card - The copies added, with the card's name
+   * @param db - Pool, or the client of an open transaction
+   * @returns Items that became fulfilled
+   */
+  async recordAcquired(card: AcquiredCard, db: Pick<PoolClient, 'query'> = pool): Promise<WishlistItem[]> {
+    const matches = await db.query<WishlistItem>(
+      `SELECT ${ITEM_COLUMNS} FROM wishlist_items w
+       INNER JOIN collections col ON col.user_id = w.user_id AND col.tcg_type = w.tcg_type
+       WHERE col.id = $1 AND w.fulfilled_at IS NULL
+         AND (w.scryfall_id = $2 OR (w.any_printing AND LOWER(w.card_name) = LOWER($3)))
+         AND (w.finish IS NULL OR w.finish = $4)
+       ORDER BY (w.scryfall_id = $2) DESC, ${PRIORITY_ORDER}, w.created_at
+       FOR UPDATE OF w`,
+      [card.collectionId, card.scryfallId, card.name, card.finish]
+    );
+
+    let remaining = card.quantity;
+    const acquired: { id: string; quantity: number }[] = [];
+    for (const item of matches.rows) {
+      if (remaining === 0) break;
+      const taken = Math.min(item.quantity - item.acquired_quantity, remaining);
+      acquired.push({ id: item.id, quantity: item.acquired_quantity + taken });
+      remaining -= taken;
+    }
+
+    if (acquired.length === 0) return [];
+
+    const result = await db.query<WishlistItem>(
+      `UPDATE wishlist_items w SET acquired_quantity = a.quantity,
+         fulfilled_at = CASE WHEN a.quantity >= w.quantity THEN NOW() END,
+         updated_at = NOW()
+       FROM unnest($1::uuid[], $2::int[]) AS a(id, quantity)
+       WHERE w.id = a.id
+       RETURNING ${ITEM_COLUMNS}`,
+      [acquired.map((item) => item.id), acquired.map((item) => item.quantity)]
+    );
+
+    return result.rows.filter((item) => item.fulfilled_at !== null);
+  }
+
+  /**
+   * Get one of the user's wishlist items
+   *
+   * @throws AppError 404 if the item does not exist or belongs to another user
+   */
+  private async getItemById(itemId: string, userId: string): Promise<WishlistItem> {
+    const result = await pool.query<WishlistItem>(
+      `SELECT ${ITEM_COLUMNS} FROM wishlist_items w
+       WHERE w.id = $1 AND w.user_id = $2`,
+      [itemId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Item da lista de desejos não encontrado', 404);
+    }
+
+    return result.rows[0];
+  }
+}
+
+export default new WishlistService();
@@ -23,6 +23,128 @@ export enum TcgType {
   YUGIOH = 'yugioh'
 }
 
+/**
+ * Physical finish of a card copy (selects which stored price applies)
+ */
+export enum CardFinish {
+  NONFOIL = 'nonfoil',
+  FOIL = 'foil',
+  ETCHED = 'etched'
+}
+
+/**
+ * Section of a deck a card is in
+ */
+export enum DeckBoard {
+  MAIN = 'main',
+  SIDEBOARD = 'sideboard',
+  COMMANDER = 'commander'
+}
+
+/**
+ * File formats decks and collections can be exported to
+ */
+export enum ExportFormat {
+  ARENA = 'arena',
+  MTGO = 'mtgo',
+  MOXFIELD = 'moxfield',
+  JSON = 'json'
+}
+
+/**
+ * Collection CSV exports that can be imported, detected from the header row
+ */
+export enum CsvImportFormat {
+  MOXFIELD = 'moxfield',
+  DECKBOX = 'deckbox',
+  TCGPLAYER = 'tcgplayer',
+  DELVER_LENS = 'delver_lens',
+  MANABOX = 'manabox'
+}
+
+/**
+ * What an import job imports
+ */
+export enum ImportJobKind {
+  DECK_LIST = 'deck_list',
+  CSV = 'csv',
+  COMMIT = 'commit'
+}
+
+/**
+ * Lifecycle of an import job
+ */
+export enum ImportJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * How an import job writes its cards
+ *
+ * BATCHED commits each batch on its own, so an interrupted job resumes after
+ * its last batch. TRANSACTION writes everything in one transaction, skipping
+ * entries that are not found. ATOMIC also uses one transaction, but any entry
+ * that is not found rejects the whole import.
+ */
+export enum ImportJobMode {
+  BATCHED = 'batched',
+  TRANSACTION = 'transaction',
+  ATOMIC = 'atomic'
+}
+
+/**
+ * Side of a card loan: lent to someone, or borrowed from someone
+ */
+export enum LoanDirection {
+  LENT = 'lent',
+  BORROWED = 'borrowed'
+}
+
+/**
+ * What a handover does with an owner's cards: take them out of their decks,
+ * give them back (the rows are removed) or move them to another collection
+ */
+export enum HandoverAction {
+  CLEAR_DECK = 'clear_deck',
+  RETURN = 'return',
+  MOVE = 'move'
+}
+
+/**
+ * How much a wishlist item is wanted
+ */
+export enum WishlistPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high'
+}
+
+/**
+ * Currencies prices can be displayed in (prices are stored in USD and EUR)
+ */
+export enum Currency {
+  USD = 'USD',
+  BRL = 'BRL',
+  EUR = 'EUR'
+}
+
+/**
+ * Magic formats a deck's legality can be checked against
+ */
+export enum DeckFormat {
+  STANDARD = 'standard',
+  PIONEER = 'pioneer',
+  MODERN = 'modern',
+  LEGACY = 'legacy',
+  VINTAGE = 'vintage',
+  PAUPER = 'pauper',
+  COMMANDER = 'commander'
+}
+
 /**
  * JWT Token Payload
  */
@@ -52,6 +174,8 @@ export interface User {
   id: string;
   email: string;
   password_hash: string;
+  display_currency: Currency;
+  is_admin: boolean;
   created_at: Date;
 }
 
@@ -72,9 +196,483 @@ export interface Collection {
 export interface CollectionWithStats extends Collection {
   card_count: number;
   total_value?: number;
+  total_value_eur?: number;
   cover_card_id?: string | null;
 }
 
+/**
+ * Deck Model
+ */
+export interface Deck {
+  id: string;
+  user_id: string;
+  name: string;
+  format: DeckFormat | null;
+  description: string | null;
+  created_at: Date;
+}
+
+/**
+ * Deck with statistics
+ */
+export interface DeckWithStats extends Deck {
+  card_count: number;
+}
+
+/**
+ * Create Deck Request DTO
+ */
+export interface CreateDeckRequest {
+  name: string;
+  format?: DeckFormat | null;
+  description?: string | null;
+}
+
+/**
+ * Update Deck Request DTO
+ */
+export interface UpdateDeckRequest {
+  name?: string;
+  format?: DeckFormat | null;
+  description?: string | null;
+}
+
+/**
+ * Owner Model (a person the physical cards belong to)
+ */
+export interface Owner {
+  id: string;
+  user_id: string;
+  name: string;
+  contact: string | null;
+  /** Color tag, #RRGGBB */
+  color: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Owner with statistics
+ */
+export interface OwnerWithStats extends Owner {
+  card_count: number;
+}
+
+/**
+ * Create Owner Request DTO
+ */
+export interface CreateOwnerRequest {
+  name: string;
+  contact?: string | null;
+  color?: string | null;
+}
+
+/**
+ * Update Owner Request DTO
+ */
+export interface UpdateOwnerRequest {
+  name?: string;
+  contact?: string | null;
+  color?: string | null;
+}
+
+/**
+ * Owners whose names differ only in case, accents or spacing
+ * ("Joao", "João" and "joão"), suggested for merging
+ */
+export interface OwnerDuplicateGroup {
+  owners: OwnerWithStats[];
+  /** The owner with the most cards, to merge the others into */
+  suggested_target_id: string;
+}
+
+/**
+ * Result of merging owners into one
+ */
+export interface OwnerMergeResult {
+  owner: OwnerWithStats;
+  merged_owner_ids: string[];
+  /** Card rows moved to the owner */
+  moved_cards: number;
+}
+
+/**
+ * One card row in an owner's report, with where it sits and who has it
+ */
+export interface OwnerReportCard {
+  card_id: string;
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  collection_id: string;
+  collection_name: string;
+  deck_id: string | null;
+  deck_name: string | null;
+  board: DeckBoard;
+  /** USD price of one copy (null when unpriced) */
+  unit_price: number | null;
+  /** EUR price of one copy, converted from USD when there is no EUR price */
+  unit_price_eur: number | null;
+  /** Copies out on open lent loans */
+  lent_quantity: number;
+  /** Who those copies are lent to, comma-separated */
+  lent_to: string | null;
+}
+
+/**
+ * A deck holding some of an owner's cards
+ */
+export interface OwnerReportDeck {
+  deck_id: string;
+  deck_name: string;
+  card_count: number;
+}
+
+/**
+ * Everything one owner has across the user's collections
+ *
+ * total_value is in USD; total_value_eur follows the collection values
+ * (native EUR prices, converted USD otherwise).
+ */
+export interface OwnerReport {
+  owner: Owner;
+  card_count: number;
+  total_value: number;
+  total_value_eur: number;
+  /** Copies out on open lent loans */
+  lent_count: number;
+  decks: OwnerReportDeck[];
+  cards: OwnerReportCard[];
+}
+
+/**
+ * Rule a deck breaks in a format
+ */
+export type LegalityViolationCode =
+  | 'deck_size'
+  | 'banned'
+  | 'not_legal'
+  | 'restricted'
+  | 'too_many_copies'
+  | 'missing_card_data'
+  | 'commander_missing'
+  | 'commander_not_in_deck'
+  | 'invalid_commander'
+  | 'color_identity';
+
+/**
+ * One legality problem (card_name, count, limit and colors depend on the code)
+ */
+export interface LegalityViolation {
+  code: LegalityViolationCode;
+  message: string;
+  card_name?: string;
+  count?: number;
+  limit?: number;
+  colors?: string[];
+}
+
+/**
+ * Deck legality report for one format
+ */
+export interface DeckLegalityReport {
+  format: DeckFormat;
+  legal: boolean;
+  card_count: number;
+  commanders: string[];
+  violations: LegalityViolation[];
+}
+
+/**
+ * Card type a deck card is counted under (one per card, see deckStats.ts)
+ */
+export type DeckCardType =
+  | 'land'
+  | 'creature'
+  | 'planeswalker'
+  | 'battle'
+  | 'instant'
+  | 'sorcery'
+  | 'artifact'
+  | 'enchantment'
+  | 'other';
+
+/**
+ * Mana colors counted in mana costs (C is colorless mana, {C})
+ */
+export type ManaColor = 'W' | 'U' | 'B' | 'R' | 'G' | 'C';
+
+/**
+ * Deck statistics (every count is weighted by quantity)
+ */
+export interface DeckStats {
+  card_count: number;
+  land_count: number;
+  spell_count: number;
+  // Cards without card data, left out of every other figure
+  unknown_count: number;
+  // Average mana value of the non-land cards (null without spells)
+  average_cmc: number | null;
+  // Lands per non-land card (null without spells)
+  land_to_spell_ratio: number | null;
+  // Non-land cards per mana value 0-7; the last bucket is 7 and above
+  mana_curve: { cmc: number; count: number }[];
+  color_pips: Record<ManaColor, number>;
+  types: Record<DeckCardType, number>;
+}
+
+/**
+ * Exported deck or collection file
+ */
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * One card row read from an imported CSV
+ */
+export interface CsvImportRow {
+  line: number;
+  name: string;
+  quantity: number;
+  set_code: string | null;
+  set_name: string | null;
+  collector_number: string | null;
+  finish: CardFinish | null;
+  scryfall_id: string | null;
+}
+
+/**
+ * One card line read from a deck list
+ */
+export interface DeckListEntry {
+  line: number;
+  name: string;
+  quantity: number;
+  set_code: string | null;
+  collector_number: string | null;
+  finish: CardFinish | null;
+  board: DeckBoard;
+}
+
+/**
+ * Deck list entry matched to the card it imports
+ */
+export interface ResolvedDeckListEntry {
+  entry: DeckListEntry;
+  card: ScryfallCard;
+}
+
+/**
+ * Parsed deck list: card entries and lines that were skipped
+ */
+export interface ParsedDeckList {
+  entries: DeckListEntry[];
+  errors: ImportFailure[];
+}
+
+/**
+ * Deck list entry resolved without importing it (import preview)
+ *
+ * card is the printing that would be imported (null when not found, with
+ * the reason and close card names as suggestions); prices are for the
+ * entry's finish.
+ */
+export interface DeckImportPreviewEntry extends DeckListEntry {
+  card: ScryfallCard | null;
+  price_usd: number | null;
+  price_eur: number | null;
+  reason: string | null;
+  suggestions: string[];
+}
+
+/**
+ * Import preview of a deck list
+ */
+export interface DeckImportPreview {
+  entries: DeckImportPreviewEntry[];
+  errors: ImportFailure[];
+}
+
+/**
+ * Card row committed after an import preview
+ */
+export interface DeckImportCommitCard {
+  scryfall_id: string;
+  quantity: number;
+  finish?: CardFinish;
+  board?: DeckBoard;
+}
+
+/**
+ * Entry that could not be imported
+ */
+export interface ImportFailure {
+  name: string;
+  reason: string;
+  line?: number;
+}
+
+/**
+ * Result of a bulk import
+ */
+export interface ImportResult {
+  imported: CardWithDetails[];
+  failed: ImportFailure[];
+}
+
+/**
+ * Duplicate rows of one card merged into its oldest row
+ */
+export interface ConsolidatedCard {
+  card_id: string;
+  merged_card_ids: string[];
+  scryfall_id: string;
+  name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  owner_id: string;
+  deck_id: string | null;
+  board: DeckBoard;
+  is_borrowed: boolean;
+  quantity: number;
+}
+
+/**
+ * Result of consolidating a collection's duplicate rows
+ */
+export interface ConsolidationReport {
+  merged_rows: number;
+  cards: ConsolidatedCard[];
+}
+
+/**
+ * Input stored with an import job (which fields are set depends on its kind)
+ */
+export interface ImportJobInput {
+  owner_id: string;
+  deck_id?: string | null;
+  /** deck_list: deck list text */
+  text?: string;
+  /** csv: CSV text and its detected format */
+  csv?: string;
+  format?: CsvImportFormat;
+  /** commit: reviewed rows of an import preview */
+  cards?: DeckImportCommitCard[];
+}
+
+/**
+ * Import job and its progress (the stored input is not returned)
+ */
+export interface ImportJob {
+  id: string;
+  user_id: string;
+  collection_id: string;
+  kind: ImportJobKind;
+  mode: ImportJobMode;
+  status: ImportJobStatus;
+  /** CSV format, for csv jobs */
+  format: CsvImportFormat | null;
+  total: number;
+  processed: number;
+  imported: number;
+  failed: number;
+  failures: ImportFailure[];
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+  updated_at: Date;
+}
+
+/**
+ * Exchange Rate Model (units of the currency per 1 USD)
+ */
+export interface ExchangeRate {
+  currency: Currency;
+  rate_per_usd: number;
+  updated_at: Date;
+}
+
+/**
+ * Exchange rates to set, keyed by currency (units per 1 USD)
+ */
+export type ExchangeRateInput = Partial<Record<Currency, number>>;
+
+/**
+ * One day of a card's price history
+ */
+export interface PricePoint {
+  date: string;
+  price_usd: number | null;
+  price_usd_foil: number | null;
+  price_usd_etched: number | null;
+  price_eur: number | null;
+  price_eur_foil: number | null;
+  // USD price for the card's finish
+  price: number | null;
+}
+
+/**
+ * One day of a collection's total value
+ */
+export interface CollectionValuePoint {
+  date: string;
+  total_value: number;
+  card_count: number;
+}
+
+/**
+ * Bucket size of a collection value series
+ */
+export type ValueHistoryInterval = 'day' | 'week' | 'month';
+
+/**
+ * How price movers are ranked
+ */
+export type PriceMoverSort = 'absolute' | 'percent';
+
+/**
+ * A card whose price moved over a window
+ */
+export interface PriceMover {
+  card_id: string;
+  scryfall_id: string;
+  name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  start_price: number;
+  end_price: number;
+  // Per-copy change, percent change (null from a zero price) and change for all copies
+  change: number;
+  change_pct: number | null;
+  value_change: number;
+}
+
+/**
+ * Top gainers and losers of a collection over a window
+ */
+export interface CollectionMovers {
+  days: number;
+  sort: PriceMoverSort;
+  gainers: PriceMover[];
+  losers: PriceMover[];
+}
+
+/**
+ * Outcome of a price snapshot run
+ */
+export interface PriceSnapshotResult {
+  cards: number;
+  recorded: number;
+  failed: number;
+}
+
 /**
  * Create Collection Request DTO
  */
@@ -98,14 +696,20 @@ export interface Card {
   id: string;
   collection_id: string;
   scryfall_id: string;
-  owner_name: string;
-  current_deck: string | null;
+  owner_id: string;
+  deck_id: string | null;
+  board: DeckBoard;
   is_borrowed: boolean;
-  is_foil: boolean;
+  finish: CardFinish;
   quantity: number;
   set_code: string | null;
   set_name: string | null;
-  price_usd: number;
+  // Prices captured when the card was added, one per finish (null when unpriced)
+  price_usd: number | null;
+  price_usd_foil: number | null;
+  price_usd_etched: number | null;
+  price_eur: number | null;
+  price_eur_foil: number | null;
   added_at: Date;
 }
 
@@ -114,10 +718,11 @@ export interface Card {
  */
 export interface CreateCardRequest {
   scryfall_id: string;
-  owner_name: string;
-  current_deck?: string;
+  owner_id: string;
+  deck_id?: string | null;
+  board?: DeckBoard;
   is_borrowed?: boolean;
-  is_foil?: boolean;
+  finish?: CardFinish;
   quantity?: number;
   set_code?: string;
   set_name?: string;
@@ -127,15 +732,229 @@ export interface CreateCardRequest {
  * Update Card Request DTO
  */
 export interface UpdateCardRequest {
-  owner_name?: string;
-  current_deck?: string;
+  owner_id?: string;
+  deck_id?: string | null;
+  board?: DeckBoard;
   is_borrowed?: boolean;
-  is_foil?: boolean;
+  finish?: CardFinish;
   quantity?: number;
   set_code?: string;
   set_name?: string;
 }
 
+/**
+ * One card row a handover affects (or affected), names copied at the time
+ */
+export interface HandoverItem {
+  card_id: string | null;
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  collection_name: string;
+  deck_name: string | null;
+  board: DeckBoard;
+}
+
+/**
+ * Card row a handover would affect
+ */
+export interface HandoverPreviewItem extends HandoverItem {
+  card_id: string;
+  collection_id: string;
+  tcg_type: TcgType;
+  /** Copies on open loans (lent or borrowed) */
+  open_loans: number;
+}
+
+/**
+ * Card rows a handover would affect, before running it
+ */
+export interface HandoverPreview {
+  owner: Owner;
+  action: HandoverAction;
+  deck: Pick<Deck, 'id' | 'name'> | null;
+  items: HandoverPreviewItem[];
+  card_count: number;
+}
+
+/**
+ * Record of cards given back to their owner, printable as a checklist
+ */
+export interface Handover {
+  id: string;
+  user_id: string;
+  owner_id: string | null;
+  owner_name: string;
+  action: HandoverAction;
+  deck_id: string | null;
+  deck_name: string | null;
+  target_collection_id: string | null;
+  target_collection_name: string | null;
+  notes: string | null;
+  created_at: Date;
+  card_count: number;
+}
+
+export interface HandoverWithItems extends Handover {
+  items: HandoverItem[];
+}
+
+/**
+ * Create Handover Request DTO
+ */
+export interface CreateHandoverRequest {
+  owner_id: string;
+  action: HandoverAction;
+  deck_id?: string | null;
+  /** Required to move the cards */
+  collection_id?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Wishlist Item Model
+ *
+ * A card the user wants: this printing, or any printing of the card
+ * (any_printing). finish is null for any finish and max_price is in USD.
+ * Copies added to a collection count towards acquired_quantity, and the
+ * item is fulfilled once that reaches quantity.
+ */
+export interface WishlistItem {
+  id: string;
+  user_id: string;
+  tcg_type: TcgType;
+  scryfall_id: string;
+  card_name: string;
+  any_printing: boolean;
+  finish: CardFinish | null;
+  quantity: number;
+  acquired_quantity: number;
+  max_price: number | null;
+  priority: WishlistPriority;
+  notes: string | null;
+  fulfilled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Wishlist item with its card and current price (of one copy, for the
+ * item's finish, or the printing's usual finish when any will do)
+ */
+export interface WishlistItemWithDetails extends WishlistItem {
+  scryfall_data: ScryfallCard | null;
+  unit_price: number | null;
+  /** Native EUR price, or the USD price converted */
+  unit_price_eur: number | null;
+}
+
+/**
+ * The user's wishlist and what the copies still missing would cost
+ */
+export interface Wishlist {
+  items: WishlistItemWithDetails[];
+  /** Copies still missing from open items */
+  open_count: number;
+  /** Cost of the missing copies at current prices (unpriced items left out) */
+  total_cost: number;
+  total_cost_eur: number;
+}
+
+/**
+ * Which wishlist items to list: open, fulfilled, or both
+ */
+export type WishlistStatusFilter = 'open' | 'fulfilled' | 'all';
+
+/**
+ * Add Wishlist Item Request DTO
+ */
+export interface AddWishlistItemRequest {
+  scryfall_id: string;
+  tcg_type?: TcgType;
+  any_printing?: boolean;
+  finish?: CardFinish | null;
+  quantity?: number;
+  max_price?: number | null;
+  priority?: WishlistPriority;
+  notes?: string | null;
+}
+
+/**
+ * Update Wishlist Item Request DTO
+ */
+export interface UpdateWishlistItemRequest {
+  any_printing?: boolean;
+  finish?: CardFinish | null;
+  quantity?: number;
+  max_price?: number | null;
+  priority?: WishlistPriority;
+  notes?: string | null;
+}
+
+/**
+ * A copy added to a collection, checked against open wishlist items
+ */
+export interface AcquiredCard {
+  collectionId: string;
+  scryfallId: string;
+  name: string;
+  finish: CardFinish;
+  quantity: number;
+}
+
+/**
+ * Card Loan Model (dates are YYYY-MM-DD; returned_date is null while open)
+ *
+ * Loans of a card that was removed stay in card_loans with no card_id, and
+ * are still listed with the card details copied when they were opened.
+ */
+export interface CardLoan {
+  id: string;
+  card_id: string | null;
+  collection_id: string;
+  quantity: number;
+  direction: LoanDirection;
+  counterparty: string;
+  start_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  /** Open and past its due date */
+  is_overdue: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Loan listed with the card it is for
+ */
+export interface CardLoanWithCard extends CardLoan {
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  owner_name: string;
+}
+
+/**
+ * Which loans to list: still open, already returned, or both
+ */
+export type LoanStatusFilter = 'open' | 'returned' | 'all';
+
+/**
+ * Open Loan Request DTO
+ */
+export interface OpenLoanRequest {
+  direction: LoanDirection;
+  counterparty: string;
+  quantity?: number;
+  start_date?: string;
+  due_date?: string | null;
+  notes?: string | null;
+}
+
 /**
  * Auth Register Request DTO
  */
@@ -157,11 +976,7 @@ export interface LoginRequest {
  */
 export interface AuthResponse {
   token: string;
-  user: {
-    id: string;
-    email: string;
-    created_at: Date;
-  };
+  user: UserResponseDto;
 }
 
 /**
@@ -175,9 +990,18 @@ export interface AddCardRequest extends CreateCardRequest {}
 export interface UserResponseDto {
   id: string;
   email: string;
+  display_currency: Currency;
+  is_admin: boolean;
   created_at: Date;
 }
 
+/**
+ * User Settings Update DTO
+ */
+export interface UpdateUserSettingsDto {
+  display_currency?: Currency;
+}
+
 /**
  * User Create DTO
  */
@@ -215,6 +1039,21 @@ export interface ScryfallImageUris {
   border_crop?: string;
 }
 
+/**
+ * Scryfall Card Face
+ * Present on double-faced, split, flip and adventure cards
+ */
+export interface ScryfallCardFace {
+  name: string;
+  mana_cost?: string;
+  type_line?: string;
+  oracle_text?: string;
+  power?: string;
+  toughness?: string;
+  colors?: string[];
+  image_uris?: ScryfallImageUris;
+}
+
 /**
  * Scryfall Card Data
  * Simplified version - Scryfall has many more fields
@@ -232,17 +1071,28 @@ export interface ScryfallCard {
   color_identity?: string[];
   set: string;
   set_name: string;
+  collector_number?: string;
   rarity: string;
+  layout?: string;
+  mtgo_id?: number;
   image_uris?: ScryfallImageUris;
+  card_faces?: ScryfallCardFace[];
+  finishes?: string[];
   prices?: {
     usd?: string | null;
     usd_foil?: string | null;
+    usd_etched?: string | null;
     eur?: string | null;
     eur_foil?: string | null;
   };
   legalities?: {
     [format: string]: 'legal' | 'not_legal' | 'restricted' | 'banned';
   };
+  // Yu-Gi-Oh! monster stats (YGOPRODeck provider only)
+  atk?: number | null;
+  def?: number | null;
+  level?: number | null;
+  attribute?: string | null;
 }
 
 /**
@@ -255,6 +1105,25 @@ export interface ScryfallSearchResponse {
   data: ScryfallCard[];
 }
 
+/**
+ * Scryfall Card Identifier
+ * Used by POST /cards/collection (max 75 identifiers per request)
+ */
+export type ScryfallCardIdentifier =
+  | { id: string }
+  | { name: string }
+  | { name: string; set: string }
+  | { set: string; collector_number: string };
+
+/**
+ * Scryfall Collection Response
+ */
+export interface ScryfallCollectionResponse {
+  object: 'list';
+  not_found: ScryfallCardIdentifier[];
+  data: ScryfallCard[];
+}
+
 /**
  * Scryfall Autocomplete Response
  */
@@ -264,9 +1133,115 @@ export interface ScryfallAutocompleteResponse {
   data: string[];
 }
 
+/**
+ * Pokémon TCG API price block (TCGplayer, USD)
+ */
+export interface PokemonTcgPrice {
+  low?: number | null;
+  mid?: number | null;
+  high?: number | null;
+  market?: number | null;
+  directLow?: number | null;
+}
+
+/**
+ * Pokémon TCG API Card
+ * Simplified version of https://docs.pokemontcg.io/api-reference/cards/card-object
+ */
+export interface PokemonTcgCard {
+  id: string;
+  name: string;
+  supertype: string;
+  subtypes?: string[];
+  hp?: string;
+  types?: string[];
+  rules?: string[];
+  attacks?: { name: string; cost?: string[]; damage?: string; text?: string }[];
+  number: string;
+  rarity?: string;
+  set: {
+    id: string;
+    name: string;
+    series?: string;
+    releaseDate?: string;
+  };
+  images?: {
+    small?: string;
+    large?: string;
+  };
+  tcgplayer?: {
+    prices?: Record<string, PokemonTcgPrice>;
+  };
+  cardmarket?: {
+    prices?: {
+      averageSellPrice?: number | null;
+      trendPrice?: number | null;
+      reverseHoloSell?: number | null;
+      reverseHoloTrend?: number | null;
+    };
+  };
+}
+
+/**
+ * Pokémon TCG API list response
+ */
+export interface PokemonTcgListResponse {
+  data: PokemonTcgCard[];
+  page: number;
+  pageSize: number;
+  count: number;
+  totalCount: number;
+}
+
+/**
+ * YGOPRODeck printing (one entry of card_sets)
+ */
+export interface YgoProDeckCardSet {
+  set_name: string;
+  set_code: string;
+  set_rarity: string;
+  set_rarity_code?: string;
+  set_price?: string;
+}
+
+/**
+ * YGOPRODeck Card
+ * Simplified version of a cardinfo.php entry (https://ygoprodeck.com/api-guide/)
+ */
+export interface YgoProDeckCard {
+  id: number;
+  name: string;
+  type: string;
+  frameType?: string;
+  desc?: string;
+  atk?: number;
+  def?: number;
+  level?: number;
+  linkval?: number;
+  race?: string;
+  attribute?: string;
+  archetype?: string;
+  card_sets?: YgoProDeckCardSet[];
+  card_images?: {
+    id: number;
+    image_url: string;
+    image_url_small?: string;
+    image_url_cropped?: string;
+  }[];
+  card_prices?: {
+    cardmarket_price?: string;
+    tcgplayer_price?: string;
+    ebay_price?: string;
+    amazon_price?: string;
+    coolstuffinc_price?: string;
+  }[];
+}
+
 /**
  * Card with Scryfall Details
  */
 export interface CardWithDetails extends Card {
+  owner_name: string;
+  deck_name: string | null;
   scryfall_data: ScryfallCard | null;
 }
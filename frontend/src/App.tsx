@@ -1,10 +1,18 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
 import { NotificationProvider } from './contexts/NotificationContext'
+import { CurrencyProvider } from './contexts/CurrencyContext'
 import Login from './components/Auth/Login'
 import Register from './components/Auth/Register'
 import Collections from './pages/Collections'
 import CollectionDetails from './pages/CollectionDetails'
+import Decks from './pages/Decks'
+import DeckDetails from './pages/DeckDetails'
+import Owners from './pages/Owners'
+import OwnerReport from './pages/OwnerReport'
+import HandoverChecklist from './pages/HandoverChecklist'
+import Wishlist from './pages/Wishlist'
+import ImportJobPage from './pages/ImportJobPage'
 import ProtectedRoute from './components/ProtectedRoute'
 import SidebarLayout from './components/Sidebar/SidebarLayout'
 import NotFound from './pages/NotFound'
@@ -16,32 +24,90 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <NotificationProvider>
-          <ConnectionBanner />
-          <Routes>
-            <Route path="/" element={<Navigate to="/login" replace />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route
-              path="/collections"
-              element={
-                <ProtectedRoute>
-                  <SidebarLayout><Collections /></SidebarLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/collections/:collectionId"
-              element={
-                <ProtectedRoute>
-                  <SidebarLayout><CollectionDetails /></SidebarLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-          <ToastContainer />
-        </NotificationProvider>
+        <CurrencyProvider>
+          <NotificationProvider>
+            <ConnectionBanner />
+            <Routes>
+              <Route path="/" element={<Navigate to="/login" replace />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route
+                path="/collections"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><Collections /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/collections/:collectionId"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><CollectionDetails /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/decks"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><Decks /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/decks/:deckId"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><DeckDetails /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/owners"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><Owners /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/owners/report"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><OwnerReport /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/handovers/:handoverId"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><HandoverChecklist /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/wishlist"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><Wishlist /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/imports/:jobId"
+                element={
+                  <ProtectedRoute>
+                    <SidebarLayout><ImportJobPage /></SidebarLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+            <ToastContainer />
+          </NotificationProvider>
+        </CurrencyProvider>
       </AuthProvider>
     </BrowserRouter>
   )
@@ -1,10 +1,13 @@
 import { useState, useEffect, FormEvent, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { CardWithDetails, UpdateCardRequest } from '../../types/card';
+import { CardWithDetails, DeckBoard, DECK_BOARDS, UpdateCardRequest } from '../../types/card';
+import { Deck } from '../../types/deck';
+import OwnerPicker from '../Owners/OwnerPicker';
 import './CardEditModal.css';
 
 interface CardEditModalProps {
   card: CardWithDetails;
+  decks: Deck[];
   isOpen: boolean;
   onClose: () => void;
   onUpdate: (updates: UpdateCardRequest) => Promise<void>;
@@ -32,13 +35,15 @@ function IconClose() {
 
 export default function CardEditModal({
   card,
+  decks,
   isOpen,
   onClose,
   onUpdate,
 }: CardEditModalProps) {
   const { t } = useTranslation();
-  const [ownerName, setOwnerName] = useState(card.owner_name);
-  const [currentDeck, setCurrentDeck] = useState(card.current_deck || '');
+  const [ownerId, setOwnerId] = useState(card.owner_id);
+  const [deckId, setDeckId] = useState(card.deck_id || '');
+  const [board, setBoard] = useState<DeckBoard>(card.board);
   const [isBorrowed, setIsBorrowed] = useState(card.is_borrowed);
   const [quantity, setQuantity] = useState(card.quantity);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -46,8 +51,9 @@ export default function CardEditModal({
 
   useEffect(() => {
     if (isOpen) {
-      setOwnerName(card.owner_name);
-      setCurrentDeck(card.current_deck || '');
+      setOwnerId(card.owner_id);
+      setDeckId(card.deck_id || '');
+      setBoard(card.board);
       setIsBorrowed(card.is_borrowed);
       setQuantity(card.quantity);
       setError('');
@@ -70,15 +76,16 @@ export default function CardEditModal({
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!ownerName.trim()) return;
+    if (!ownerId) return;
 
     setIsSubmitting(true);
     setError('');
 
     try {
       await onUpdate({
-        owner_name: ownerName.trim(),
-        current_deck: currentDeck.trim() || undefined,
+        owner_id: ownerId,
+        deck_id: deckId || null,
+        board: deckId ? board : 'main',
         is_borrowed: isBorrowed,
         quantity: Number(quantity),
       });
@@ -130,18 +137,14 @@ export default function CardEditModal({
           <form id="cem-form" onSubmit={handleSubmit} className="cem-form">
             <div className="cem-form-group">
               <label className="cem-form-label" htmlFor="cem-owner">
-                {t('cards.ownerNameLabel')} *
+                {t('cards.ownerLabel')} *
               </label>
-              <input
+              <OwnerPicker
                 id="cem-owner"
-                className="cem-form-input"
-                type="text"
-                value={ownerName}
-                onChange={(e) => setOwnerName(e.target.value)}
-                required
-                placeholder={t('cards.ownerNamePlaceholder')}
+                inputClassName="cem-form-input"
+                value={ownerId}
+                onChange={setOwnerId}
                 disabled={isSubmitting}
-                maxLength={255}
               />
             </div>
 
@@ -167,21 +170,42 @@ export default function CardEditModal({
               <label className="cem-form-label" htmlFor="cem-deck">
                 {t('cards.currentDeckLabel')}
               </label>
-              <input
+              <select
                 id="cem-deck"
                 className="cem-form-input"
-                type="text"
-                value={currentDeck}
-                onChange={(e) => setCurrentDeck(e.target.value)}
-                placeholder={t('cards.currentDeckPlaceholder')}
+                value={deckId}
+                onChange={(e) => setDeckId(e.target.value)}
                 disabled={isSubmitting}
-                maxLength={255}
-              />
+              >
+                <option value="">{t('cards.none')}</option>
+                {decks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
               <span className="cem-form-hint">
                 {t('cards.deckHint')}
               </span>
             </div>
 
+            {deckId && (
+              <div className="cem-form-group">
+                <label className="cem-form-label" htmlFor="cem-board">
+                  {t('cards.boardLabel')}
+                </label>
+                <select
+                  id="cem-board"
+                  className="cem-form-input"
+                  value={board}
+                  onChange={(e) => setBoard(e.target.value as DeckBoard)}
+                  disabled={isSubmitting}
+                >
+                  {DECK_BOARDS.map((value) => (
+                    <option key={value} value={value}>{t(`cards.boards.${value}`)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <label className="cem-checkbox-group">
               <input
                 type="checkbox"
@@ -208,7 +232,7 @@ export default function CardEditModal({
             type="submit"
             form="cem-form"
             className="cem-btn-save"
-            disabled={isSubmitting || !ownerName.trim()}
+            disabled={isSubmitting || !ownerId}
           >
             {isSubmitting ? (
               <>
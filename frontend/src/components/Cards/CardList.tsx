@@ -1,15 +1,19 @@
 import { useState } from 'react';
 import { CardWithDetails, UpdateCardRequest } from '../../types/card';
+import { Deck } from '../../types/deck';
+import { useCurrency } from '../../contexts/CurrencyContext';
 import CardEditModal from './CardEditModal';
 import './CardList.css';
 
 interface CardListProps {
   cards: CardWithDetails[];
+  decks: Deck[];
   onUpdate: (cardId: string, updates: UpdateCardRequest) => Promise<void>;
   onDelete: (cardId: string) => Promise<void>;
 }
 
-export default function CardList({ cards, onUpdate, onDelete }: CardListProps) {
+export default function CardList({ cards, decks, onUpdate, onDelete }: CardListProps) {
+  const { cardPrice, formatPrice } = useCurrency();
   const [hoveredCard, setHoveredCard] = useState<CardWithDetails | null>(null);
   const [editingCard, setEditingCard] = useState<CardWithDetails | null>(null);
 
@@ -56,9 +60,9 @@ export default function CardList({ cards, onUpdate, onDelete }: CardListProps) {
                   <strong>Owner:</strong> {card.owner_name}
                 </p>
 
-                {card.current_deck && (
+                {card.deck_name && (
                   <p className="card-deck">
-                    <strong>Deck:</strong> {card.current_deck}
+                    <strong>Deck:</strong> {card.deck_name}
                   </p>
                 )}
 
@@ -68,9 +72,9 @@ export default function CardList({ cards, onUpdate, onDelete }: CardListProps) {
                       {card.scryfall_data.set_name} ({card.scryfall_data.set.toUpperCase()})
                     </p>
 
-                    {card.scryfall_data.prices?.usd && (
+                    {cardPrice(card) !== null && (
                       <p className="card-price">
-                        <strong>Price:</strong> ${card.scryfall_data.prices.usd}
+                        <strong>Price:</strong> {formatPrice(cardPrice(card)!)}
                       </p>
                     )}
                   </>
@@ -113,6 +117,7 @@ export default function CardList({ cards, onUpdate, onDelete }: CardListProps) {
       {editingCard && (
         <CardEditModal
           card={editingCard}
+          decks={decks}
           isOpen={!!editingCard}
           onClose={() => setEditingCard(null)}
           onUpdate={async (updates) => {
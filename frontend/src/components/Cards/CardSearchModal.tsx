@@ -1,13 +1,25 @@
 import { useState, useEffect, useCallback, FormEvent, KeyboardEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cardsApi } from '../../services/cardsApi';
-import { ScryfallCard, AddCardRequest } from '../../types/card';
+import { wishlistApi } from '../../services/wishlistApi';
+import { ScryfallCard, AddCardRequest, CardFinish, DeckBoard, DECK_BOARDS } from '../../types/card';
+import { TcgType } from '../../types/collection';
+import { Deck } from '../../types/deck';
+import { WishlistItem, WishlistPriority, WISHLIST_PRIORITIES } from '../../types/wishlist';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { useNotification } from '../../contexts/NotificationContext';
+import { parsePrice } from '../../utils/pricing';
+import OwnerPicker from '../Owners/OwnerPicker';
 import './CardSearchModal.css';
 
 interface CardSearchModalProps {
   isOpen: boolean;
+  tcgType: TcgType;
+  decks: Deck[];
   onClose: () => void;
-  onAddCard: (card: AddCardRequest) => Promise<void>;
+  /** Without it the modal only adds cards to the wishlist */
+  onAddCard?: (card: AddCardRequest) => Promise<void>;
+  onWishlistAdded?: (item: WishlistItem) => void;
 }
 
 // ─── Inline SVG Icons ────────────────────────────────────────────────
@@ -56,10 +68,15 @@ function IconArrowRight() {
 
 export default function CardSearchModal({
   isOpen,
+  tcgType,
+  decks,
   onClose,
   onAddCard,
+  onWishlistAdded,
 }: CardSearchModalProps) {
   const { t } = useTranslation();
+  const { convert, formatPrice } = useCurrency();
+  const { addToast } = useNotification();
 
   // Step management
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
@@ -74,11 +91,20 @@ export default function CardSearchModal({
   const [selectedPrinting, setSelectedPrinting] = useState<ScryfallCard | null>(null);
 
   // Form state
+  const [ownerId, setOwnerId] = useState('');
   const [ownerName, setOwnerName] = useState('');
-  const [currentDeck, setCurrentDeck] = useState('');
+  const [deckId, setDeckId] = useState('');
+  const [board, setBoard] = useState<DeckBoard>('main');
   const [isBorrowed, setIsBorrowed] = useState(false);
   const [quantity, setQuantity] = useState(1);
 
+  // Wishlist state (step 2 fills a wishlist item instead of a card)
+  const [wishlistMode, setWishlistMode] = useState(!onAddCard);
+  const [anyPrinting, setAnyPrinting] = useState(true);
+  const [wantedFinish, setWantedFinish] = useState<CardFinish | ''>('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [priority, setPriority] = useState<WishlistPriority>('medium');
+
   // Loading & error state
   const [isSearching, setIsSearching] = useState(false);
   const [isLoadingPrintings, setIsLoadingPrintings] = useState(false);
@@ -95,17 +121,24 @@ export default function CardSearchModal({
       setSelectedCard(null);
       setPrintings([]);
       setSelectedPrinting(null);
+      setOwnerId('');
       setOwnerName('');
-      setCurrentDeck('');
+      setDeckId('');
+      setBoard('main');
       setIsBorrowed(false);
       setQuantity(1);
+      setWishlistMode(!onAddCard);
+      setAnyPrinting(true);
+      setWantedFinish('');
+      setMaxPrice('');
+      setPriority('medium');
       setError('');
       setSearchError('');
       setIsSearching(false);
       setIsLoadingPrintings(false);
       setIsSubmitting(false);
     }
-  }, [isOpen]);
+  }, [isOpen, onAddCard]);
 
   // Close on Escape key
   useEffect(() => {
@@ -126,7 +159,7 @@ export default function CardSearchModal({
     try {
       setIsSearching(true);
       setSearchError('');
-      const results = await cardsApi.searchCards(searchQuery);
+      const results = await cardsApi.searchCards(searchQuery, tcgType);
       setSearchResults(results.data);
       setSelectedCard(null);
 
@@ -145,13 +178,13 @@ export default function CardSearchModal({
       try {
         setIsLoadingPrintings(true);
         setSearchError('');
-        const results = await cardsApi.searchCards(`!"${selectedCard.name}" unique:prints`);
-        setPrintings(results.data);
+        const results = await cardsApi.getPrintings(selectedCard.name, tcgType);
+        setPrintings(results);
 
-        if (results.data.length === 1) {
-          setSelectedPrinting(results.data[0]);
+        if (results.length === 1) {
+          setSelectedPrinting(results[0]);
         } else {
-          const match = results.data.find((p) => p.id === selectedCard.id);
+          const match = results.find((p) => p.id === selectedCard.id);
           setSelectedPrinting(match || null);
         }
 
@@ -164,7 +197,7 @@ export default function CardSearchModal({
     } else if (currentStep === 2) {
       setCurrentStep(3);
     }
-  }, [currentStep, selectedCard]);
+  }, [currentStep, selectedCard, tcgType]);
 
   const handleBack = useCallback(() => {
     if (currentStep === 2) {
@@ -176,7 +209,7 @@ export default function CardSearchModal({
 
   const handleSubmit = async () => {
     const card = selectedPrinting ?? selectedCard;
-    if (!card || !ownerName.trim()) return;
+    if (!card || !ownerId || !onAddCard) return;
 
     setIsSubmitting(true);
     setError('');
@@ -184,8 +217,9 @@ export default function CardSearchModal({
     try {
       await onAddCard({
         scryfall_id: card.id,
-        owner_name: ownerName.trim(),
-        current_deck: currentDeck.trim() || undefined,
+        owner_id: ownerId,
+        deck_id: deckId || undefined,
+        board: deckId ? board : undefined,
         is_borrowed: isBorrowed,
         quantity: Number(quantity),
         set_code: card.set,
@@ -198,6 +232,33 @@ export default function CardSearchModal({
     }
   };
 
+  const handleAddToWishlist = async () => {
+    const card = selectedPrinting ?? selectedCard;
+    if (!card) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const item = await wishlistApi.add({
+        scryfall_id: card.id,
+        tcg_type: tcgType,
+        any_printing: anyPrinting,
+        finish: wantedFinish || null,
+        quantity: Number(quantity),
+        max_price: maxPrice === '' ? null : Number(maxPrice),
+        priority,
+      });
+      addToast({ type: 'success', title: t('wishlist.added'), message: card.name });
+      onWishlistAdded?.(item);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || t('wishlist.failedToAdd'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleResultKeyDown = (e: KeyboardEvent, card: ScryfallCard) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
@@ -213,14 +274,49 @@ export default function CardSearchModal({
     currentStep === 1
       ? !!selectedCard && !isLoadingPrintings
       : currentStep === 2
-        ? !!ownerName.trim()
+        ? !!ownerId
         : false;
 
   const capitalizeFirst = (s: string) =>
     s ? s.charAt(0).toUpperCase() + s.slice(1) : s;
 
+  const isYugioh = tcgType === TcgType.YUGIOH;
+
+  /** Set line of a printing: Yu-Gi-Oh! shows the full set code (LOB-EN001) */
+  const formatSet = (card: ScryfallCard) =>
+    isYugioh
+      ? `${card.set_name} (${card.collector_number ?? card.set})`
+      : `${card.set_name} (${card.set.toUpperCase()})`;
+
+  /** Non-foil price of a printing in the display currency */
+  const displayPrice = (card: ScryfallCard) =>
+    convert(parsePrice(card.prices?.usd), parsePrice(card.prices?.eur));
+
   // ─── Render helpers ──────────────────────────────────────────────
 
+  /** Attribute, level and ATK/DEF chips for Yu-Gi-Oh! monsters */
+  function renderYugiohStats(card: ScryfallCard) {
+    const stats = [
+      card.attribute,
+      card.level != null ? t('cards.ygoLevel', { level: card.level }) : null,
+      card.atk != null
+        ? card.def != null
+          ? t('cards.ygoAtkDef', { atk: card.atk, def: card.def })
+          : t('cards.ygoAtk', { atk: card.atk })
+        : null,
+    ].filter(Boolean);
+
+    if (stats.length === 0) return null;
+
+    return (
+      <div className="csm-ygo-stats">
+        {stats.map((stat) => (
+          <span key={stat} className="csm-ygo-stat">{stat}</span>
+        ))}
+      </div>
+    );
+  }
+
   function renderStepper() {
     const steps = [
       { num: 1, label: t('cards.stepSelectCard') },
@@ -319,9 +415,16 @@ export default function CardSearchModal({
                     )}
                     <div className="csm-result-info">
                       <div className="csm-result-name">{card.name}</div>
-                      <div className="csm-result-meta">
-                        {card.set_name} &middot; {capitalizeFirst(card.rarity)}
-                      </div>
+                      {isYugioh ? (
+                        <>
+                          <div className="csm-result-meta">{card.type_line}</div>
+                          {renderYugiohStats(card)}
+                        </>
+                      ) : (
+                        <div className="csm-result-meta">
+                          {card.set_name} &middot; {capitalizeFirst(card.rarity)}
+                        </div>
+                      )}
                     </div>
                     <div className="csm-result-check">
                       <IconCheck />
@@ -366,14 +469,18 @@ export default function CardSearchModal({
           )}
           <div className="csm-preview-info">
             <div className="csm-preview-name">{card.name}</div>
-            <div className="csm-preview-set">
-              {card.set_name} ({card.set.toUpperCase()})
-            </div>
+            {card.set_name && (
+              <div className="csm-preview-set">
+                {formatSet(card)}
+                {isYugioh && card.rarity && ` · ${card.rarity}`}
+              </div>
+            )}
             {card.type_line && (
               <div className="csm-preview-type">{card.type_line}</div>
             )}
-            {card.prices?.usd && (
-              <div className="csm-preview-price">${card.prices.usd}</div>
+            {isYugioh && renderYugiohStats(card)}
+            {displayPrice(card) !== null && (
+              <div className="csm-preview-price">{formatPrice(displayPrice(card)!)}</div>
             )}
           </div>
         </div>
@@ -394,8 +501,9 @@ export default function CardSearchModal({
               >
                 {printings.map((p) => (
                   <option key={p.id} value={p.id}>
-                    {p.set_name} ({p.set.toUpperCase()})
-                    {p.prices?.usd ? ` — $${p.prices.usd}` : ''}
+                    {formatSet(p)}
+                    {isYugioh && p.rarity ? ` · ${p.rarity}` : ''}
+                    {displayPrice(p) !== null ? ` — ${formatPrice(displayPrice(p)!)}` : ''}
                   </option>
                 ))}
               </select>
@@ -403,68 +511,177 @@ export default function CardSearchModal({
           </div>
         )}
 
-        <div className="csm-form">
-          <div className="csm-form-group">
-            <label className="csm-form-label" htmlFor="csm-owner">
-              {t('cards.ownerNameLabel')} *
-            </label>
-            <input
-              id="csm-owner"
-              type="text"
-              className="csm-form-input"
-              value={ownerName}
-              onChange={(e) => setOwnerName(e.target.value)}
-              placeholder={t('cards.ownerNamePlaceholder')}
-              required
-              maxLength={255}
-              disabled={isSubmitting}
-            />
-          </div>
+        {wishlistMode ? renderWishlistForm() : (
+          <div className="csm-form">
+            <div className="csm-form-group">
+              <label className="csm-form-label" htmlFor="csm-owner">
+                {t('cards.ownerLabel')} *
+              </label>
+              <OwnerPicker
+                id="csm-owner"
+                inputClassName="csm-form-input"
+                value={ownerId}
+                onChange={(id, owner) => {
+                  setOwnerId(id);
+                  setOwnerName(owner.name);
+                }}
+                disabled={isSubmitting}
+              />
+            </div>
 
-          <div className="csm-form-group">
-            <label className="csm-form-label" htmlFor="csm-qty">
-              {t('cards.quantityLabel')} *
-            </label>
-            <input
-              id="csm-qty"
-              type="number"
-              className="csm-form-input"
-              value={quantity}
-              onChange={(e) =>
-                setQuantity(Math.max(1, parseInt(e.target.value) || 1))
-              }
-              required
-              min="1"
-              disabled={isSubmitting}
-            />
-          </div>
+            <div className="csm-form-group">
+              <label className="csm-form-label" htmlFor="csm-qty">
+                {t('cards.quantityLabel')} *
+              </label>
+              <input
+                id="csm-qty"
+                type="number"
+                className="csm-form-input"
+                value={quantity}
+                onChange={(e) =>
+                  setQuantity(Math.max(1, parseInt(e.target.value) || 1))
+                }
+                required
+                min="1"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="csm-form-group">
+              <label className="csm-form-label" htmlFor="csm-deck">
+                {t('cards.currentDeckLabel')}
+              </label>
+              <select
+                id="csm-deck"
+                className="csm-form-select"
+                value={deckId}
+                onChange={(e) => setDeckId(e.target.value)}
+                disabled={isSubmitting}
+              >
+                <option value="">{t('cards.none')}</option>
+                {decks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {deckId && (
+              <div className="csm-form-group">
+                <label className="csm-form-label" htmlFor="csm-board">
+                  {t('cards.boardLabel')}
+                </label>
+                <select
+                  id="csm-board"
+                  className="csm-form-select"
+                  value={board}
+                  onChange={(e) => setBoard(e.target.value as DeckBoard)}
+                  disabled={isSubmitting}
+                >
+                  {DECK_BOARDS.map((value) => (
+                    <option key={value} value={value}>{t(`cards.boards.${value}`)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
 
-          <div className="csm-form-group">
-            <label className="csm-form-label" htmlFor="csm-deck">
-              {t('cards.currentDeckLabel')}
+            <label className="csm-checkbox-group">
+              <input
+                type="checkbox"
+                checked={isBorrowed}
+                onChange={(e) => setIsBorrowed(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              {t('cards.isBorrowedLabel')}
             </label>
-            <input
-              id="csm-deck"
-              type="text"
-              className="csm-form-input"
-              value={currentDeck}
-              onChange={(e) => setCurrentDeck(e.target.value)}
-              placeholder={t('cards.currentDeckPlaceholder')}
-              maxLength={255}
-              disabled={isSubmitting}
-            />
           </div>
+        )}
+      </div>
+    );
+  }
 
-          <label className="csm-checkbox-group">
-            <input
-              type="checkbox"
-              checked={isBorrowed}
-              onChange={(e) => setIsBorrowed(e.target.checked)}
-              disabled={isSubmitting}
-            />
-            {t('cards.isBorrowedLabel')}
+  /** Step 2 fields when adding the card to the wishlist */
+  function renderWishlistForm() {
+    return (
+      <div className="csm-form">
+        <div className="csm-form-group">
+          <label className="csm-form-label" htmlFor="csm-wish-qty">
+            {t('wishlist.quantity')} *
+          </label>
+          <input
+            id="csm-wish-qty"
+            type="number"
+            className="csm-form-input"
+            value={quantity}
+            onChange={(e) =>
+              setQuantity(Math.max(1, parseInt(e.target.value) || 1))
+            }
+            required
+            min="1"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="csm-form-group">
+          <label className="csm-form-label" htmlFor="csm-wish-finish">
+            {t('wishlist.finish')}
+          </label>
+          <select
+            id="csm-wish-finish"
+            className="csm-form-select"
+            value={wantedFinish}
+            onChange={(e) => setWantedFinish(e.target.value as CardFinish | '')}
+            disabled={isSubmitting}
+          >
+            <option value="">{t('wishlist.finishes.any')}</option>
+            <option value="nonfoil">{t('wishlist.finishes.nonfoil')}</option>
+            <option value="foil">{t('wishlist.finishes.foil')}</option>
+            <option value="etched">{t('wishlist.finishes.etched')}</option>
+          </select>
+        </div>
+
+        <div className="csm-form-group">
+          <label className="csm-form-label" htmlFor="csm-wish-price">
+            {t('wishlist.maxPrice')}
+          </label>
+          <input
+            id="csm-wish-price"
+            type="number"
+            className="csm-form-input"
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            min="0"
+            step="0.01"
+            placeholder={t('wishlist.maxPricePlaceholder')}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="csm-form-group">
+          <label className="csm-form-label" htmlFor="csm-wish-priority">
+            {t('wishlist.priority')}
           </label>
+          <select
+            id="csm-wish-priority"
+            className="csm-form-select"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as WishlistPriority)}
+            disabled={isSubmitting}
+          >
+            {WISHLIST_PRIORITIES.map((value) => (
+              <option key={value} value={value}>{t(`wishlist.priorities.${value}`)}</option>
+            ))}
+          </select>
         </div>
+
+        <label className="csm-checkbox-group">
+          <input
+            type="checkbox"
+            checked={anyPrinting}
+            onChange={(e) => setAnyPrinting(e.target.checked)}
+            disabled={isSubmitting}
+          />
+          {t('wishlist.anyPrinting')}
+        </label>
       </div>
     );
   }
@@ -485,12 +702,15 @@ export default function CardSearchModal({
             )}
             <div className="csm-summary-card-info">
               <div className="csm-summary-card-name">{finalCard.name}</div>
-              <div className="csm-summary-card-set">
-                {finalCard.set_name} ({finalCard.set.toUpperCase()})
-              </div>
-              {finalCard.prices?.usd && (
+              {finalCard.set_name && (
+                <div className="csm-summary-card-set">
+                  {formatSet(finalCard)}
+                  {isYugioh && finalCard.rarity && ` · ${finalCard.rarity}`}
+                </div>
+              )}
+              {displayPrice(finalCard) !== null && (
                 <div className="csm-summary-card-price">
-                  ${finalCard.prices.usd}
+                  {formatPrice(displayPrice(finalCard)!)}
                 </div>
               )}
             </div>
@@ -514,7 +734,8 @@ export default function CardSearchModal({
                 {t('cards.confirmDeck')}
               </span>
               <span className="csm-summary-row-value">
-                {currentDeck || t('cards.none')}
+                {decks.find((deck) => deck.id === deckId)?.name || t('cards.none')}
+                {deckId && board !== 'main' && ` · ${t(`cards.boards.${board}`)}`}
               </span>
             </div>
             <div className="csm-summary-row">
@@ -538,7 +759,7 @@ export default function CardSearchModal({
           ? t('cards.cardSelected')
           : t('cards.noCardSelected')
         : currentStep === 2
-          ? t('cards.stepDetails')
+          ? wishlistMode ? t('wishlist.stepDetails') : t('cards.stepDetails')
           : t('cards.reviewConfirm');
 
     return (
@@ -555,6 +776,17 @@ export default function CardSearchModal({
         <span className="csm-footer-status">{statusText}</span>
 
         <div className="csm-footer-actions">
+          {currentStep === 2 && onAddCard && (
+            <button
+              type="button"
+              className="csm-btn-back"
+              onClick={() => setWishlistMode(!wishlistMode)}
+              disabled={isSubmitting}
+            >
+              {wishlistMode ? t('wishlist.backToCollection') : t('wishlist.addToWishlist')}
+            </button>
+          )}
+
           {currentStep > 1 && (
             <button
               type="button"
@@ -566,7 +798,23 @@ export default function CardSearchModal({
             </button>
           )}
 
-          {currentStep < 3 ? (
+          {currentStep === 2 && wishlistMode ? (
+            <button
+              type="button"
+              className="csm-btn-next"
+              onClick={handleAddToWishlist}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <span className="csm-spinner" />
+                  {t('cards.adding')}
+                </>
+              ) : (
+                t('wishlist.save')
+              )}
+            </button>
+          ) : currentStep < 3 ? (
             <button
               type="button"
               className="csm-btn-next"
@@ -619,7 +867,9 @@ export default function CardSearchModal({
           <div className="csm-header-icon">
             <IconCard />
           </div>
-          <h2 className="csm-header-title">{t('cards.addNewCard')}</h2>
+          <h2 className="csm-header-title">
+            {onAddCard ? t('cards.addNewCard') : t('wishlist.addTitle')}
+          </h2>
           <button
             type="button"
             className="csm-close-btn"
@@ -1,13 +1,21 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { CardWithDetails, UpdateCardRequest } from '../../types/card';
+import { CardWithDetails, CardFinish, UpdateCardRequest } from '../../types/card';
+import { getAvailableFinishes } from '../../utils/pricing';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { Deck } from '../../types/deck';
+import { OpenLoanRequest } from '../../types/loan';
 import CardEditModal from './CardEditModal';
+import LoanModal from '../Loans/LoanModal';
 import './CardsTable.css';
 
 interface CardsTableProps {
   cards: CardWithDetails[];
+  decks: Deck[];
   onUpdate: (cardId: string, updates: UpdateCardRequest) => Promise<void>;
   onDelete: (cardId: string) => Promise<void>;
+  /** Lend or borrow copies of a card; the loan action is hidden without it */
+  onLend?: (cardId: string, data: OpenLoanRequest) => Promise<void>;
 }
 
 type SortField = 'name' | 'set' | 'quantity' | 'owner' | 'price';
@@ -32,8 +40,24 @@ const IconTrash = () => (
   </svg>
 );
 
-function getPrinting(card: CardWithDetails): 'foil' | 'normal' {
-  return card.is_foil ? 'foil' : 'normal';
+const IconLoan = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="17 1 21 5 17 9" />
+    <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+    <polyline points="7 23 3 19 7 15" />
+    <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+  </svg>
+);
+
+const FINISH_BADGES: Record<CardFinish, { className: string; label: string }> = {
+  nonfoil: { className: 'ct-badge-normal', label: 'cards.nonFoil' },
+  foil: { className: 'ct-badge-foil', label: 'cards.foil' },
+  etched: { className: 'ct-badge-etched', label: 'cards.etched' },
+};
+
+function getNextFinish(card: CardWithDetails): CardFinish {
+  const finishes = getAvailableFinishes(card);
+  return finishes[(finishes.indexOf(card.finish) + 1) % finishes.length];
 }
 
 const MANA_COLOR_MAP: Record<string, string> = {
@@ -94,13 +118,15 @@ function renderManaCost(manaCost: string) {
 
 function getStatus(card: CardWithDetails): 'inDeck' | 'borrowed' | 'storage' {
   if (card.is_borrowed) return 'borrowed';
-  if (card.current_deck) return 'inDeck';
+  if (card.deck_id) return 'inDeck';
   return 'storage';
 }
 
-export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProps) {
+export default function CardsTable({ cards, decks, onUpdate, onDelete, onLend }: CardsTableProps) {
   const { t } = useTranslation();
+  const { cardPrice, formatPrice } = useCurrency();
   const [editingCard, setEditingCard] = useState<CardWithDetails | null>(null);
+  const [lendingCard, setLendingCard] = useState<CardWithDetails | null>(null);
   const [hoveredCardId, setHoveredCardId] = useState<string | null>(null);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
@@ -153,8 +179,8 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
           bValue = b.owner_name ?? '';
           break;
         case 'price':
-          aValue = parseFloat(a.scryfall_data?.prices?.usd ?? a.scryfall_data?.prices?.usd_foil ?? '0');
-          bValue = parseFloat(b.scryfall_data?.prices?.usd ?? b.scryfall_data?.prices?.usd_foil ?? '0');
+          aValue = cardPrice(a) ?? 0;
+          bValue = cardPrice(b) ?? 0;
           break;
         default:
           return 0;
@@ -167,7 +193,7 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
       }
       return sortDirection === 'asc' ? aValue - (bValue as number) : (bValue as number) - aValue;
     });
-  }, [cards, sortField, sortDirection]);
+  }, [cards, sortField, sortDirection, cardPrice]);
 
   const totalPages = Math.ceil(sortedCards.length / PAGE_SIZE);
   const pageFrom = (currentPage - 1) * PAGE_SIZE + 1;
@@ -224,9 +250,9 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
           </thead>
           <tbody>
             {pageCards.map((card) => {
-              const printing = getPrinting(card);
+              const badge = FINISH_BADGES[card.finish] ?? FINISH_BADGES.nonfoil;
               const status = getStatus(card);
-              const price = card.scryfall_data?.prices?.usd ?? card.scryfall_data?.prices?.usd_foil;
+              const price = cardPrice(card);
 
               return (
                 <tr
@@ -252,23 +278,13 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
 
                   {/* PRINTING */}
                   <td className="ct-col-printing">
-                    {printing === 'foil' ? (
-                      <button
-                        className="ct-badge-foil ct-badge-toggle"
-                        onClick={() => onUpdate(card.id, { is_foil: false })}
-                        type="button"
-                      >
-                        {t('cards.foil')}
-                      </button>
-                    ) : (
-                      <button
-                        className="ct-badge-normal ct-badge-toggle"
-                        onClick={() => onUpdate(card.id, { is_foil: true })}
-                        type="button"
-                      >
-                        {t('cards.nonFoil')}
-                      </button>
-                    )}
+                    <button
+                      className={`${badge.className} ct-badge-toggle`}
+                      onClick={() => onUpdate(card.id, { finish: getNextFinish(card) })}
+                      type="button"
+                    >
+                      {t(badge.label)}
+                    </button>
                   </td>
 
                   {/* QTY */}
@@ -279,8 +295,8 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
                   {/* OWNER / DECK */}
                   <td className="ct-col-owner">
                     <div className="ct-owner-primary">{card.owner_name || '-'}</div>
-                    {card.current_deck && (
-                      <div className="ct-owner-sub">{card.current_deck}</div>
+                    {card.deck_name && (
+                      <div className="ct-owner-sub">{card.deck_name}</div>
                     )}
                   </td>
 
@@ -299,8 +315,8 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
 
                   {/* MARKET PRICE */}
                   <td className="ct-col-price">
-                    {price ? (
-                      <span className="ct-price">${price}</span>
+                    {price !== null ? (
+                      <span className="ct-price">{formatPrice(price)}</span>
                     ) : '-'}
                   </td>
 
@@ -315,6 +331,16 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
                       >
                         <IconEdit />
                       </button>
+                      {onLend && (
+                        <button
+                          onClick={() => setLendingCard(card)}
+                          className="ct-btn-loan"
+                          title={t('loans.lend')}
+                          type="button"
+                        >
+                          <IconLoan />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDelete(card)}
                         className="ct-btn-delete"
@@ -388,6 +414,7 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
       {editingCard && (
         <CardEditModal
           card={editingCard}
+          decks={decks}
           isOpen={!!editingCard}
           onClose={() => setEditingCard(null)}
           onUpdate={async (updates) => {
@@ -396,6 +423,18 @@ export default function CardsTable({ cards, onUpdate, onDelete }: CardsTableProp
           }}
         />
       )}
+
+      {lendingCard && onLend && (
+        <LoanModal
+          card={lendingCard}
+          isOpen={!!lendingCard}
+          onClose={() => setLendingCard(null)}
+          onSubmit={async (data) => {
+            await onLend(lendingCard.id, data);
+            setLendingCard(null);
+          }}
+        />
+      )}
     </>
   );
 }
@@ -1,24 +1,43 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { cardsApi } from '../../services/cardsApi';
-import { CardWithDetails } from '../../types/card';
+import { useImportJob } from '../../hooks/useImportJob';
+import {
+  DeckImportPreviewEntry,
+  DeckListEntry,
+  ImportFailure,
+  ParsedDeckList,
+} from '../../types/card';
+import { TcgType } from '../../types/collection';
+import { Deck } from '../../types/deck';
+import { ImportJob, isImportJobActive } from '../../types/importJob';
+import DeckImportReview from './DeckImportReview';
+import ImportJobProgress from '../Imports/ImportJobProgress';
+import OwnerPicker from '../Owners/OwnerPicker';
 import './DeckImportModal.css';
 
 interface DeckImportModalProps {
   isOpen: boolean;
   collectionId: string;
+  tcgType: TcgType;
+  decks: Deck[];
   onClose: () => void;
   onImportComplete: () => void;
 }
 
-interface ParsedEntry {
-  name: string;
-  quantity: number;
-}
+/**
+ * Delay before a changed deck list is sent to the server for the preview
+ */
+const PARSE_DELAY_MS = 300;
 
-interface ImportResult {
-  imported: CardWithDetails[];
-  failed: { name: string; reason: string }[];
+/**
+ * Whether pasted or uploaded text is a collection CSV: a header row with a
+ * Name column, separated by commas, semicolons or tabs
+ */
+function isCollectionCsv(text: string): boolean {
+  const header = text.trimStart().split(/\r?\n/, 1)[0] ?? '';
+  return /[,;\t]/.test(header) && /(^|[,;\t"])\s*name\s*("|[,;\t]|$)/i.test(header);
 }
 
 function IconImport() {
@@ -39,36 +58,11 @@ function IconClose() {
   );
 }
 
-function parseDeckList(text: string): ParsedEntry[] {
-  const entries: ParsedEntry[] = [];
-  const lines = text.split('\n');
-
-  for (const raw of lines) {
-    const line = raw.trim();
-
-    // Skip blank lines and comments
-    if (!line || line.startsWith('//') || line.startsWith('#')) continue;
-
-    // Match patterns: "4 Card Name", "4x Card Name", "4X Card Name"
-    const match = line.match(/^(\d+)\s*[xX]?\s+(.+)$/);
-    if (match) {
-      const quantity = parseInt(match[1], 10);
-      const name = match[2].trim();
-      if (name && quantity > 0) {
-        entries.push({ name, quantity });
-      }
-    } else {
-      // No quantity prefix — default to 1
-      entries.push({ name: line, quantity: 1 });
-    }
-  }
-
-  return entries;
-}
-
 export default function DeckImportModal({
   isOpen,
   collectionId,
+  tcgType,
+  decks,
   onClose,
   onImportComplete,
 }: DeckImportModalProps) {
@@ -76,11 +70,53 @@ export default function DeckImportModal({
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [deckText, setDeckText] = useState('');
-  const [ownerName, setOwnerName] = useState('');
+  const [ownerId, setOwnerId] = useState('');
+  const [deckId, setDeckId] = useState('');
+  const [parsed, setParsed] = useState<ParsedDeckList | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
-  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [reviewRows, setReviewRows] = useState<DeckImportPreviewEntry[] | null>(null);
+  const [skippedLines, setSkippedLines] = useState<ImportFailure[]>([]);
+  const [busyLines, setBusyLines] = useState<number[]>([]);
+  const [createdJob, setCreatedJob] = useState<ImportJob | null>(null);
+  const [importError, setImportError] = useState('');
+
+  // Imports run on the server; the job is polled until it finishes
+  const { job, isCancelling, cancel } = useImportJob(createdJob?.id ?? null, createdJob);
+
+  const isCsv = isCollectionCsv(deckText);
+  const parsedEntries = parsed?.entries ?? [];
+  const csvRowCount = isCsv ? deckText.trim().split(/\r?\n/).filter((line) => line.trim()).length - 1 : 0;
+
+  // The list is parsed on the server (set codes, foil markers, sections)
+  useEffect(() => {
+    if (isCsv || !deckText.trim()) {
+      setParsed(null);
+      setIsParsing(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsParsing(true);
+    const timer = setTimeout(() => {
+      cardsApi.parseDeckList(deckText)
+        .then((result) => {
+          if (!cancelled) setParsed(result);
+        })
+        .catch(() => {
+          if (!cancelled) setParsed(null);
+        })
+        .finally(() => {
+          if (!cancelled) setIsParsing(false);
+        });
+    }, PARSE_DELAY_MS);
 
-  const parsedEntries = parseDeckList(deckText);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [deckText, isCsv]);
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -97,35 +133,102 @@ export default function DeckImportModal({
     e.target.value = '';
   }, []);
 
+  // Deck lists are previewed first; CSVs import directly
   const handleImport = async () => {
-    if (parsedEntries.length === 0 || !ownerName.trim()) return;
+    if (!isCsv || !ownerId) return;
+
+    try {
+      setIsImporting(true);
+      setCreatedJob(await cardsApi.importCsv(collectionId, deckText, ownerId));
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (parsedEntries.length === 0 || isParsing || !ownerId) return;
+
+    try {
+      setIsResolving(true);
+      const preview = await cardsApi.previewDeckImport(collectionId, deckText);
+      setReviewRows(preview.entries);
+      setSkippedLines(preview.errors);
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  /** Resolve one reviewed row again after the user changed it */
+  const handleResolveRow = async (index: number, changes: Partial<DeckListEntry>) => {
+    if (!reviewRows) return;
+    const row = { ...reviewRows[index], ...changes };
+    const entry: Partial<DeckListEntry> = {
+      line: row.line,
+      name: row.name,
+      quantity: row.quantity,
+      set_code: row.set_code,
+      collector_number: row.collector_number,
+      finish: changes.finish ?? (changes.name ? null : row.finish),
+      board: row.board,
+    };
+
+    setBusyLines((prev) => [...prev, row.line]);
+    try {
+      const preview = await cardsApi.previewDeckImport(collectionId, [entry]);
+      setReviewRows((rows) => rows && rows.map((r) => (r.line === row.line ? preview.entries[0] : r)));
+    } catch (err: any) {
+      setReviewRows((rows) => rows && rows.map((r) =>
+        r.line === row.line ? { ...r, card: null, reason: err.message || 'Import failed', suggestions: [] } : r
+      ));
+    } finally {
+      setBusyLines((prev) => prev.filter((line) => line !== row.line));
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!reviewRows || reviewRows.length === 0 || reviewRows.some((row) => !row.card)) return;
 
     try {
       setIsImporting(true);
-      const importResult = await cardsApi.importDeckList(
+      const commitJob = await cardsApi.commitDeckImport(
         collectionId,
-        parsedEntries,
-        ownerName.trim()
+        reviewRows.map((row) => ({
+          scryfall_id: row.card!.id,
+          quantity: row.quantity,
+          finish: row.finish,
+          board: row.board,
+        })),
+        ownerId,
+        deckId || null
       );
-      setResult(importResult);
+      setCreatedJob(commitJob);
+      setReviewRows(null);
     } catch (err: any) {
-      setResult({
-        imported: [],
-        failed: parsedEntries.map((e) => ({ name: e.name, reason: err.message || 'Import failed' })),
-      });
+      setImportError(err.message || 'Import failed');
     } finally {
       setIsImporting(false);
     }
   };
 
   const handleClose = () => {
-    if (result && result.imported.length > 0) {
+    if (job && job.imported > 0) {
       onImportComplete();
     }
     setDeckText('');
-    setOwnerName('');
-    setResult(null);
+    setOwnerId('');
+    setDeckId('');
+    setParsed(null);
+    setReviewRows(null);
+    setSkippedLines([]);
+    setBusyLines([]);
+    setCreatedJob(null);
+    setImportError('');
     setIsImporting(false);
+    setIsResolving(false);
     onClose();
   };
 
@@ -152,39 +255,50 @@ export default function DeckImportModal({
 
         {/* Body */}
         <div className="dim-body">
-          {isImporting ? (
+          {isImporting || isResolving ? (
             <div className="dim-progress">
               <div className="dim-spinner" />
-              <p className="dim-progress-text">{t('cards.importing')}</p>
+              <p className="dim-progress-text">{isResolving ? t('cards.resolving') : t('cards.importing')}</p>
             </div>
-          ) : result ? (
-            /* Results view */
+          ) : job ? (
+            /* Job progress view */
             <div className="dim-results">
-              <div className="dim-results-summary">
-                <span className="dim-results-badge dim-results-badge--success">
-                  {t('cards.importedCount', { count: result.imported.length })}
-                </span>
-                {result.failed.length > 0 && (
-                  <span className="dim-results-badge dim-results-badge--error">
-                    {t('cards.failedCount', { count: result.failed.length })}
-                  </span>
-                )}
-              </div>
-
-              {result.failed.length > 0 && (
-                <>
-                  <p className="dim-label">{t('cards.failedCards')}</p>
-                  <div className="dim-failed-list">
-                    {result.failed.map((f, i) => (
-                      <div key={i} className="dim-failed-item">
-                        <span className="dim-failed-name">{f.name}</span>
-                        <span className="dim-failed-reason">{f.reason}</span>
-                      </div>
-                    ))}
-                  </div>
-                </>
+              <ImportJobProgress job={job} isCancelling={isCancelling} onCancel={cancel} />
+              {isImportJobActive(job) && (
+                <p className="dim-hint">
+                  {t('imports.backgroundHint')}{' '}
+                  <Link to={`/imports/${job.id}`} className="dim-review-link">{t('imports.openPage')}</Link>
+                </p>
               )}
             </div>
+          ) : importError ? (
+            /* Request error view */
+            <div className="dim-results">
+              <div className="dim-failed-list">
+                <div className="dim-failed-item">
+                  <span className="dim-failed-name">{isCsv ? t('cards.csvFile') : t('cards.importDeck')}</span>
+                  <span className="dim-failed-reason">{importError}</span>
+                </div>
+              </div>
+            </div>
+          ) : reviewRows ? (
+            /* Review view */
+            <>
+              <p className="dim-description">
+                {t('cards.reviewDescription')}
+                {skippedLines.length > 0 && ` ${t('cards.skippedLines', { count: skippedLines.length })}.`}
+              </p>
+              <DeckImportReview
+                rows={reviewRows}
+                busyRows={busyLines}
+                tcgType={tcgType}
+                onResolve={handleResolveRow}
+                onQuantityChange={(index, quantity) =>
+                  setReviewRows((rows) => rows && rows.map((r, i) => (i === index ? { ...r, quantity } : r)))
+                }
+                onRemove={(index) => setReviewRows((rows) => rows && rows.filter((_, i) => i !== index))}
+              />
+            </>
           ) : (
             /* Input view */
             <>
@@ -194,14 +308,14 @@ export default function DeckImportModal({
                 className="dim-textarea"
                 value={deckText}
                 onChange={(e) => setDeckText(e.target.value)}
-                placeholder={`4 Lightning Bolt\n2 Counterspell\n1 Island\n\n2 Abrade\n1 Pyroclasm`}
+                placeholder={`4 Lightning Bolt (M10) 146\n2 Counterspell *F*\n1 Island\n\nSideboard\n2 Abrade\n1 Pyroclasm`}
               />
 
               <div className="dim-file-row">
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".txt,.dec,.dek"
+                  accept=".txt,.dec,.dek,.csv"
                   onChange={handleFileUpload}
                   style={{ display: 'none' }}
                 />
@@ -215,32 +329,71 @@ export default function DeckImportModal({
 
               <div className="dim-field">
                 <label className="dim-label">{t('cards.ownerForImport')}</label>
-                <input
-                  className="dim-input"
-                  type="text"
-                  value={ownerName}
-                  onChange={(e) => setOwnerName(e.target.value)}
-                  placeholder={t('cards.ownerNamePlaceholder')}
+                <OwnerPicker
+                  inputClassName="dim-input"
+                  value={ownerId}
+                  onChange={setOwnerId}
                 />
               </div>
 
+              {!isCsv && decks.length > 0 && (
+                <div className="dim-field">
+                  <label className="dim-label">{t('cards.importToDeck')}</label>
+                  <select
+                    className="dim-input"
+                    value={deckId}
+                    onChange={(e) => setDeckId(e.target.value)}
+                  >
+                    <option value="">{t('cards.importNoDeck')}</option>
+                    {decks.map((deck) => (
+                      <option key={deck.id} value={deck.id}>{deck.name}</option>
+                    ))}
+                  </select>
+                  {deckId && <span className="dim-hint">{t('cards.importDeckHint')}</span>}
+                </div>
+              )}
+
               {/* Parsed preview */}
               <div className="dim-preview">
                 <div className="dim-preview-header">
                   <span className="dim-preview-label">{t('cards.parsedEntries')}</span>
                   <span className="dim-preview-count">
-                    {parsedEntries.length} {parsedEntries.length === 1 ? 'card' : 'cards'}
+                    {isCsv
+                      ? t('cards.csvRows', { count: csvRowCount })
+                      : `${parsedEntries.length} ${parsedEntries.length === 1 ? 'card' : 'cards'}`}
+                    {!isCsv && parsed && parsed.errors.length > 0 &&
+                      ` · ${t('cards.skippedLines', { count: parsed.errors.length })}`}
                   </span>
                 </div>
-                {parsedEntries.length > 0 ? (
+                {isCsv ? (
+                  <div className="dim-preview-empty">
+                    {t('cards.csvDetected')}
+                  </div>
+                ) : parsedEntries.length > 0 ? (
                   <ul className="dim-preview-list">
                     {parsedEntries.map((entry, i) => (
                       <li key={i} className="dim-preview-item">
                         <span className="dim-preview-qty">{entry.quantity}x</span>
-                        <span>{entry.name}</span>
+                        <span className="dim-preview-name">{entry.name}</span>
+                        {entry.set_code && (
+                          <span className="dim-preview-printing">
+                            {entry.set_code.toUpperCase()}
+                            {entry.collector_number && ` #${entry.collector_number}`}
+                          </span>
+                        )}
+                        {entry.finish && entry.finish !== 'nonfoil' && (
+                          <span className="dim-preview-tag dim-preview-tag--finish">{t(`cards.${entry.finish}`)}</span>
+                        )}
+                        {entry.board !== 'main' && (
+                          <span className="dim-preview-tag">{t(`cards.boards.${entry.board}`)}</span>
+                        )}
                       </li>
                     ))}
                   </ul>
+                ) : isParsing ? (
+                  <div className="dim-preview-empty">
+                    {t('cards.parsing')}
+                  </div>
                 ) : (
                   <div className="dim-preview-empty">
                     {t('cards.noEntriesParsed')}
@@ -253,10 +406,28 @@ export default function DeckImportModal({
 
         {/* Footer */}
         <div className="dim-footer">
-          {result ? (
+          {job || importError ? (
             <button className="dim-btn-import" onClick={handleClose}>
               {t('common.close')}
             </button>
+          ) : reviewRows ? (
+            <>
+              <button className="dim-btn-cancel" onClick={() => setReviewRows(null)}>
+                {t('cards.back')}
+              </button>
+              <button
+                className="dim-btn-import"
+                onClick={handleCommit}
+                disabled={
+                  reviewRows.length === 0 ||
+                  reviewRows.some((row) => !row.card) ||
+                  busyLines.length > 0 ||
+                  isImporting
+                }
+              >
+                {t('cards.commitBtn', { count: reviewRows.reduce((sum, row) => sum + row.quantity, 0) })}
+              </button>
+            </>
           ) : (
             <>
               <button className="dim-btn-cancel" onClick={handleClose}>
@@ -264,10 +435,15 @@ export default function DeckImportModal({
               </button>
               <button
                 className="dim-btn-import"
-                onClick={handleImport}
-                disabled={parsedEntries.length === 0 || !ownerName.trim() || isImporting}
+                onClick={isCsv ? handleImport : handlePreview}
+                disabled={
+                  (!isCsv && (parsedEntries.length === 0 || isParsing)) ||
+                  !ownerId ||
+                  isImporting ||
+                  isResolving
+                }
               >
-                {t('cards.importBtn')}
+                {isCsv ? t('cards.importBtn') : t('cards.reviewBtn')}
               </button>
             </>
           )}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { cardsApi } from '../../services/cardsApi';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { CardFinish, DeckImportPreviewEntry, DeckListEntry, ScryfallCard } from '../../types/card';
+import { TcgType } from '../../types/collection';
+
+interface DeckImportReviewProps {
+  rows: DeckImportPreviewEntry[];
+  /** Lines being resolved again */
+  busyRows: number[];
+  tcgType: TcgType;
+  onResolve: (index: number, changes: Partial<DeckListEntry>) => void;
+  onQuantityChange: (index: number, quantity: number) => void;
+  onRemove: (index: number) => void;
+}
+
+const FINISHES: CardFinish[] = ['nonfoil', 'foil', 'etched'];
+
+/**
+ * Rows of an import preview, each fixable before the batch is committed:
+ * pick a suggested or typed name for unmatched cards, or another printing
+ * or finish for matched ones
+ */
+export default function DeckImportReview({
+  rows,
+  busyRows,
+  tcgType,
+  onResolve,
+  onQuantityChange,
+  onRemove,
+}: DeckImportReviewProps) {
+  const { t } = useTranslation();
+  const { convert, formatPrice } = useCurrency();
+  const [corrections, setCorrections] = useState<Record<number, string>>({});
+  const [printings, setPrintings] = useState<Record<number, ScryfallCard[]>>({});
+
+  // Typed names and loaded printings are kept per list line
+  const loadPrintings = async (line: number, name: string) => {
+    try {
+      const results = await cardsApi.getPrintings(name, tcgType);
+      setPrintings((prev) => ({ ...prev, [line]: results }));
+    } catch {
+      setPrintings((prev) => ({ ...prev, [line]: [] }));
+    }
+  };
+
+  const applyCorrection = (index: number, name: string) => {
+    const line = rows[index].line;
+    if (!name.trim()) return;
+    setCorrections((prev) => ({ ...prev, [line]: '' }));
+    setPrintings(({ [line]: _, ...rest }) => rest);
+    onResolve(index, { name: name.trim(), set_code: null, collector_number: null });
+  };
+
+  const total = rows.reduce((sum, row) => {
+    const price = convert(row.price_usd, row.price_eur);
+    return sum + (price ?? 0) * row.quantity;
+  }, 0);
+  const unresolved = rows.filter((row) => !row.card).length;
+
+  return (
+    <div className="dim-review">
+      <div className="dim-preview-header">
+        <span className="dim-preview-label">
+          {t('cards.reviewSummary', { ready: rows.length - unresolved, unresolved })}
+        </span>
+        <span className="dim-preview-count">{t('cards.reviewTotal', { total: formatPrice(total) })}</span>
+      </div>
+
+      <ul className="dim-review-list">
+        {rows.map((row, index) => {
+          const card = row.card;
+          const price = convert(row.price_usd, row.price_eur);
+          const isBusy = busyRows.includes(row.line);
+          const rowPrintings = printings[row.line];
+          const correction = corrections[row.line] ?? '';
+          const finishes = card
+            ? FINISHES.filter((finish) => (card.finishes ?? ['nonfoil', 'foil']).includes(finish))
+            : [];
+
+          return (
+            <li
+              key={`${row.line}-${index}`}
+              className={`dim-review-item${card ? '' : ' dim-review-item--error'}${isBusy ? ' dim-review-item--busy' : ''}`}
+            >
+              <input
+                className="dim-input dim-review-qty"
+                type="number"
+                min={1}
+                value={row.quantity}
+                onChange={(e) => onQuantityChange(index, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                aria-label={t('cards.quantity')}
+              />
+
+              <div className="dim-review-main">
+                <div className="dim-review-name">
+                  {card?.name ?? row.name}
+                  {row.board !== 'main' && (
+                    <span className="dim-preview-tag">{t(`cards.boards.${row.board}`)}</span>
+                  )}
+                </div>
+
+                {card ? (
+                  <div className="dim-review-meta">
+                    {rowPrintings ? (
+                      <select
+                        className="dim-review-select"
+                        value={card.id}
+                        disabled={isBusy}
+                        onChange={(e) => {
+                          const printing = rowPrintings.find((p) => p.id === e.target.value);
+                          if (printing) {
+                            onResolve(index, {
+                              set_code: printing.set,
+                              collector_number: printing.collector_number ?? null,
+                            });
+                          }
+                        }}
+                      >
+                        {!rowPrintings.some((p) => p.id === card.id) && (
+                          <option value={card.id}>{card.set_name} ({card.set.toUpperCase()})</option>
+                        )}
+                        {rowPrintings.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.set_name} ({p.set.toUpperCase()}{p.collector_number ? ` #${p.collector_number}` : ''})
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <button
+                        type="button"
+                        className="dim-review-link"
+                        title={t('cards.changePrinting')}
+                        onClick={() => loadPrintings(row.line, card.name)}
+                      >
+                        {card.set.toUpperCase()}
+                        {card.collector_number && ` #${card.collector_number}`}
+                      </button>
+                    )}
+
+                    {finishes.length > 1 && (
+                      <select
+                        className="dim-review-select"
+                        value={row.finish ?? 'nonfoil'}
+                        disabled={isBusy}
+                        onChange={(e) => onResolve(index, { finish: e.target.value as CardFinish })}
+                      >
+                        {finishes.map((finish) => (
+                          <option key={finish} value={finish}>
+                            {finish === 'nonfoil' ? t('cards.nonFoil') : t(`cards.${finish}`)}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ) : (
+                  <div className="dim-review-meta">
+                    <span className="dim-failed-reason">{row.reason}</span>
+                    {row.suggestions.length > 0 && (
+                      <div className="dim-review-suggestions">
+                        <span>{t('cards.didYouMean')}</span>
+                        {row.suggestions.map((suggestion) => (
+                          <button
+                            key={suggestion}
+                            type="button"
+                            className="dim-review-suggestion"
+                            disabled={isBusy}
+                            onClick={() => applyCorrection(index, suggestion)}
+                          >
+                            {suggestion}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <form
+                      className="dim-review-correction"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        applyCorrection(index, correction);
+                      }}
+                    >
+                      <input
+                        className="dim-input"
+                        type="text"
+                        value={correction}
+                        onChange={(e) => setCorrections((prev) => ({ ...prev, [row.line]: e.target.value }))}
+                        placeholder={t('cards.correctName')}
+                        disabled={isBusy}
+                      />
+                      <button
+                        type="submit"
+                        className="dim-file-btn"
+                        disabled={isBusy || !correction.trim()}
+                      >
+                        {t('cards.applyCorrection')}
+                      </button>
+                    </form>
+                  </div>
+                )}
+              </div>
+
+              <span className="dim-review-price">{price != null ? formatPrice(price) : '—'}</span>
+
+              <button
+                type="button"
+                className="dim-close-btn"
+                onClick={() => onRemove(index)}
+                title={t('cards.removeRow')}
+                aria-label={t('cards.removeRow')}
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { collectionsApi } from '../../services/api';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import {
+  CollectionMovers,
+  CollectionValuePoint,
+  PriceMover,
+  PriceMoverSort,
+  ValueHistoryInterval,
+} from '../../types/collection';
+import './CollectionAnalytics.css';
+
+interface CollectionAnalyticsProps {
+  collectionId: string;
+}
+
+/**
+ * How far back each chart interval looks
+ */
+const INTERVAL_DAYS: Record<ValueHistoryInterval, number> = {
+  day: 90,
+  week: 364,
+  month: 730,
+};
+
+const MOVER_WINDOWS = [7, 30, 90];
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 8;
+
+function formatSigned(value: number, suffix = ''): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+}
+
+/**
+ * SVG line and area paths for a value series
+ */
+function buildChart(points: CollectionValuePoint[]) {
+  const values = points.map((p) => p.total_value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const stepX = points.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (points.length - 1) : 0;
+
+  const coords = points.map((p, i) => {
+    const x = points.length > 1 ? CHART_PADDING + i * stepX : CHART_WIDTH / 2;
+    const y = CHART_HEIGHT - CHART_PADDING - ((p.total_value - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2);
+    return [x, y] as const;
+  });
+
+  const line = coords.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  const area = `${line} L${coords[coords.length - 1][0].toFixed(1)},${CHART_HEIGHT} L${coords[0][0].toFixed(1)},${CHART_HEIGHT} Z`;
+
+  return { line, area, coords, min, max };
+}
+
+export default function CollectionAnalytics({ collectionId }: CollectionAnalyticsProps) {
+  const { t } = useTranslation();
+  const { convert, formatPrice } = useCurrency();
+  const [chartInterval, setChartInterval] = useState<ValueHistoryInterval>('day');
+  const [history, setHistory] = useState<CollectionValuePoint[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+  const [moverDays, setMoverDays] = useState(MOVER_WINDOWS[0]);
+  const [moverSort, setMoverSort] = useState<PriceMoverSort>('absolute');
+  const [movers, setMovers] = useState<CollectionMovers | null>(null);
+  const [isMoversLoading, setIsMoversLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsHistoryLoading(true);
+
+    collectionsApi
+      .getValueHistory(collectionId, chartInterval, INTERVAL_DAYS[chartInterval])
+      .then((data) => {
+        if (!cancelled) setHistory(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || t('analytics.failedToLoad'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId, chartInterval]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsMoversLoading(true);
+
+    collectionsApi
+      .getMovers(collectionId, moverDays, moverSort)
+      .then((data) => {
+        if (!cancelled) setMovers(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || t('analytics.failedToLoad'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsMoversLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId, moverDays, moverSort]);
+
+  const chart = useMemo(() => (history.length > 0 ? buildChart(history) : null), [history]);
+
+  const change = history.length > 1
+    ? history[history.length - 1].total_value - history[0].total_value
+    : null;
+
+  /** History and movers are in USD */
+  const formatMoney = (usd: number) => formatPrice(convert(usd) ?? 0);
+
+  const renderMover = (mover: PriceMover) => {
+    const direction = mover.change > 0 ? 'up' : 'down';
+
+    return (
+      <li key={mover.card_id} className="can-mover">
+        <div className="can-mover-info">
+          <div className="can-mover-name">{mover.name ?? mover.scryfall_id}</div>
+          <div className="can-mover-sub">
+            {mover.set_code?.toUpperCase()}
+            {mover.finish !== 'nonfoil' && ` · ${t(`cards.${mover.finish}`)}`}
+            {mover.quantity > 1 && ` · ×${mover.quantity}`}
+          </div>
+        </div>
+        <div className="can-mover-prices">
+          <div className="can-mover-range">
+            {formatMoney(mover.start_price)} → {formatMoney(mover.end_price)}
+          </div>
+          <div className={`can-mover-change can-${direction}`}>
+            {moverSort === 'percent' && mover.change_pct !== null
+              ? formatSigned(mover.change_pct, '%')
+              : `${mover.value_change > 0 ? '+' : '-'}${formatMoney(Math.abs(mover.value_change))}`}
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  const renderMoverList = (title: string, list: PriceMover[]) => (
+    <div className="can-mover-list">
+      <h3 className="can-mover-title">{title}</h3>
+      {list.length === 0 ? (
+        <p className="can-empty">{t('analytics.noMovers')}</p>
+      ) : (
+        <ul>{list.map(renderMover)}</ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="can-container">
+      {error && <div className="can-error">{error}</div>}
+
+      {/* Value over time */}
+      <section className="can-panel">
+        <div className="can-panel-header">
+          <div>
+            <h2 className="can-panel-title">{t('analytics.valueOverTime')}</h2>
+            {change !== null && (
+              <span className={`can-change ${change >= 0 ? 'can-up' : 'can-down'}`}>
+                {change >= 0 ? '+' : '-'}{formatMoney(Math.abs(change))}
+              </span>
+            )}
+          </div>
+          <div className="can-segmented">
+            {(Object.keys(INTERVAL_DAYS) as ValueHistoryInterval[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`can-segment ${chartInterval === option ? 'active' : ''}`}
+                onClick={() => setChartInterval(option)}
+              >
+                {t(`analytics.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isHistoryLoading ? (
+          <p className="can-empty">{t('common.loading')}</p>
+        ) : !chart ? (
+          <p className="can-empty">{t('analytics.noHistory')}</p>
+        ) : (
+          <div className="can-chart">
+            <div className="can-chart-axis">
+              <span>{formatMoney(chart.max)}</span>
+              <span>{formatMoney(chart.min)}</span>
+            </div>
+            <div className="can-chart-body">
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="can-chart-svg">
+                <path d={chart.area} className="can-chart-area" />
+                <path d={chart.line} className="can-chart-line" vectorEffect="non-scaling-stroke" />
+                {chart.coords.map(([x, y], i) => (
+                  <circle key={history[i].date} cx={x} cy={y} r={3} className="can-chart-point">
+                    <title>{`${history[i].date}: ${formatMoney(history[i].total_value)}`}</title>
+                  </circle>
+                ))}
+              </svg>
+              <div className="can-chart-dates">
+                <span>{history[0].date}</span>
+                <span>{history[history.length - 1].date}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Biggest movers */}
+      <section className="can-panel">
+        <div className="can-panel-header">
+          <h2 className="can-panel-title">{t('analytics.movers')}</h2>
+          <div className="can-controls">
+            <select
+              value={moverDays}
+              onChange={(e) => setMoverDays(Number(e.target.value))}
+              className="can-select"
+            >
+              {MOVER_WINDOWS.map((days) => (
+                <option key={days} value={days}>{t('analytics.lastDays', { count: days })}</option>
+              ))}
+            </select>
+            <div className="can-segmented">
+              <button
+                type="button"
+                className={`can-segment ${moverSort === 'absolute' ? 'active' : ''}`}
+                onClick={() => setMoverSort('absolute')}
+              >
+                {t('analytics.sortAbsolute')}
+              </button>
+              <button
+                type="button"
+                className={`can-segment ${moverSort === 'percent' ? 'active' : ''}`}
+                onClick={() => setMoverSort('percent')}
+              >
+                {t('analytics.sortPercent')}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {isMoversLoading || !movers ? (
+          <p className="can-empty">{t('common.loading')}</p>
+        ) : (
+          <div className="can-movers">
+            {renderMoverList(t('analytics.gainers'), movers.gainers)}
+            {renderMoverList(t('analytics.losers'), movers.losers)}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useTranslation } from 'react-i18next';
-import { Collection } from '../../types/collection';
+import { Collection, TcgType } from '../../types/collection';
+import { useCurrency } from '../../contexts/CurrencyContext';
 import './CollectionCard.css';
 
 interface CollectionCardProps {
@@ -54,6 +55,7 @@ const IconDelete = () => (
 
 export default function CollectionCard({ collection, onEdit, onDelete, onView }: CollectionCardProps) {
   const { t } = useTranslation();
+  const { collectionValue, formatPrice } = useCurrency();
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -62,14 +64,17 @@ export default function CollectionCard({ collection, onEdit, onDelete, onView }:
     }
   };
 
+  // Cover art comes from Scryfall, so only Magic collections have one
+  const hasCover = !!collection.cover_card_id && collection.tcg_type === TcgType.MAGIC;
+
   return (
     <div className="collection-card" onClick={() => onView(collection)}>
       {/* Cover */}
       <div
-        className={`collection-card-cover${collection.cover_card_id ? ' collection-card-cover--has-image' : ''}`}
+        className={`collection-card-cover${hasCover ? ' collection-card-cover--has-image' : ''}`}
         style={{ background: getTcgGradient(collection.tcg_type) }}
       >
-        {collection.cover_card_id && (
+        {hasCover && (
           <img
             src={`https://api.scryfall.com/cards/${collection.cover_card_id}?format=image&version=art_crop`}
             alt=""
@@ -84,7 +89,7 @@ export default function CollectionCard({ collection, onEdit, onDelete, onView }:
         <h3 className="collection-card-name">{collection.name}</h3>
         <div className="collection-card-price-row">
           <span className="collection-card-price">
-            ${parseFloat(String(collection.total_value || 0)).toFixed(2)}
+            {formatPrice(collectionValue(collection))}
           </span>
         </div>
         <span className="collection-card-count">
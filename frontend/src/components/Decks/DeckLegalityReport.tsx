@@ -0,0 +1,123 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { decksApi } from '../../services/decksApi';
+import { CardWithDetails } from '../../types/card';
+import { Deck, DeckFormat, DeckLegalityReport as Report, DECK_FORMATS } from '../../types/deck';
+import './DeckLegalityReport.css';
+
+interface DeckLegalityReportProps {
+  deck: Deck;
+  cards: CardWithDetails[];
+}
+
+export default function DeckLegalityReport({ deck, cards }: DeckLegalityReportProps) {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<DeckFormat>(deck.format ?? 'commander');
+  const [commander, setCommander] = useState('');
+  const [report, setReport] = useState<Report | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  // Legendary cards in the deck, offered as commanders
+  const commanderOptions = useMemo(() => {
+    const names = cards
+      .filter((card) => card.scryfall_data?.type_line?.includes('Legendary'))
+      .map((card) => card.scryfall_data!.name);
+    return Array.from(new Set(names)).sort();
+  }, [cards]);
+
+  const handleCheck = async () => {
+    try {
+      setIsChecking(true);
+      setError('');
+      const commanders = format === 'commander' && commander ? [commander] : [];
+      setReport(await decksApi.getLegality(deck.id, format, commanders));
+    } catch (err: any) {
+      setError(err.message || t('decks.legality.failed'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <section className="dlr-panel">
+      <div className="dlr-header">
+        <h2 className="dlr-title">{t('decks.legality.title')}</h2>
+        <div className="dlr-controls">
+          <select
+            className="dlr-select"
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as DeckFormat);
+              setReport(null);
+            }}
+            aria-label={t('decks.format')}
+          >
+            {DECK_FORMATS.map((f) => (
+              <option key={f} value={f}>{t(`decks.formats.${f}`)}</option>
+            ))}
+          </select>
+
+          {format === 'commander' && (
+            <select
+              className="dlr-select"
+              value={commander}
+              onChange={(e) => {
+                setCommander(e.target.value);
+                setReport(null);
+              }}
+              aria-label={t('decks.legality.commander')}
+            >
+              <option value="">{t('decks.legality.autoCommander')}</option>
+              {commanderOptions.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+
+          <button type="button" className="dlr-check-btn" onClick={handleCheck} disabled={isChecking}>
+            {isChecking ? t('decks.legality.checking') : t('decks.legality.check')}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="dlr-error">{error}</div>}
+
+      {report && (
+        <>
+          <div className={`dlr-verdict ${report.legal ? 'dlr-verdict--legal' : 'dlr-verdict--illegal'}`}>
+            {report.legal
+              ? t('decks.legality.legal', { format: t(`decks.formats.${report.format}`) })
+              : t('decks.legality.illegal', {
+                  format: t(`decks.formats.${report.format}`),
+                  count: report.violations.length,
+                })}
+            {report.commanders.length > 0 && (
+              <span className="dlr-commanders">
+                {t('decks.legality.commanderIs', { names: report.commanders.join(' + ') })}
+              </span>
+            )}
+          </div>
+
+          {report.violations.length > 0 && (
+            <ul className="dlr-violations">
+              {report.violations.map((violation, index) => (
+                <li key={index} className={`dlr-violation dlr-violation--${violation.code}`}>
+                  <span className="dlr-violation-code">{t(`decks.legality.codes.${violation.code}`)}</span>
+                  <span className="dlr-violation-text">
+                    {t(`decks.legality.messages.${violation.code}`, {
+                      card: violation.card_name,
+                      count: violation.count,
+                      limit: violation.limit,
+                      colors: violation.colors?.join(''),
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CreateDeckRequest, Deck, DeckFormat, DECK_FORMATS } from '../../types/deck';
+import '../Collections/CollectionModal.css';
+import './DeckModal.css';
+
+interface DeckModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateDeckRequest) => Promise<void>;
+  deck?: Deck | null;
+  title: string;
+}
+
+export default function DeckModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  deck,
+  title
+}: DeckModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<DeckFormat | ''>('');
+  const [description, setDescription] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setName(deck?.name ?? '');
+    setFormat(deck?.format ?? '');
+    setDescription(deck?.description ?? '');
+    setError('');
+  }, [deck, isOpen]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await onSubmit({ name, format: format || null, description: description || null });
+      // Parent component handles closing the modal after successful submission
+    } catch (err: any) {
+      setError(err.message || t('decks.failedToSave'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{title}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <form onSubmit={handleSubmit} className="collection-form">
+          <div className="form-group">
+            <label htmlFor="deckName">{t('decks.deckName')}</label>
+            <input
+              id="deckName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="Atraxa Superfriends"
+              disabled={isLoading}
+              maxLength={255}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="deckFormat">{t('decks.format')}</label>
+            <select
+              id="deckFormat"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DeckFormat | '')}
+              disabled={isLoading}
+            >
+              <option value="">{t('cards.none')}</option>
+              {DECK_FORMATS.map((f) => (
+                <option key={f} value={f}>{t(`decks.formats.${f}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="deckDescription">{t('decks.description')}</label>
+            <textarea
+              id="deckDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              disabled={isLoading}
+              className="deck-modal-textarea"
+            />
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={isLoading}
+            >
+              {isLoading ? t('decks.saving') : t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useTranslation } from 'react-i18next';
+import { DeckCardType, DeckStats, ManaColor } from '../../types/deck';
+import './DeckStatsPanel.css';
+
+interface DeckStatsPanelProps {
+  stats: DeckStats;
+}
+
+const PIP_COLORS: ManaColor[] = ['W', 'U', 'B', 'R', 'G', 'C'];
+
+const CARD_TYPES: DeckCardType[] = [
+  'creature',
+  'instant',
+  'sorcery',
+  'artifact',
+  'enchantment',
+  'planeswalker',
+  'battle',
+  'land',
+  'other',
+];
+
+export default function DeckStatsPanel({ stats }: DeckStatsPanelProps) {
+  const { t } = useTranslation();
+  const maxCurve = Math.max(...stats.mana_curve.map((bucket) => bucket.count), 1);
+  const lastCmc = stats.mana_curve.length - 1;
+
+  return (
+    <section className="dsp-panel">
+      <h2 className="dsp-title">{t('decks.stats.title')}</h2>
+
+      <div className="dsp-figures">
+        <div className="dsp-figure">
+          <span className="dsp-figure-label">{t('decks.stats.averageCmc')}</span>
+          <span className="dsp-figure-value">{stats.average_cmc?.toFixed(2) ?? '—'}</span>
+        </div>
+        <div className="dsp-figure">
+          <span className="dsp-figure-label">{t('decks.stats.landsSpells')}</span>
+          <span className="dsp-figure-value">{stats.land_count} : {stats.spell_count}</span>
+          {stats.land_to_spell_ratio !== null && (
+            <span className="dsp-figure-sub">
+              {t('decks.stats.landsPerSpell', { ratio: stats.land_to_spell_ratio.toFixed(2) })}
+            </span>
+          )}
+        </div>
+        {stats.unknown_count > 0 && (
+          <div className="dsp-figure">
+            <span className="dsp-figure-label">{t('decks.stats.unknown')}</span>
+            <span className="dsp-figure-value">{stats.unknown_count}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="dsp-grid">
+        <div className="dsp-block">
+          <h3 className="dsp-block-title">{t('decks.stats.manaCurve')}</h3>
+          <div className="dsp-curve">
+            {stats.mana_curve.map((bucket) => (
+              <div key={bucket.cmc} className="dsp-curve-col">
+                <span className="dsp-curve-count">{bucket.count || ''}</span>
+                <div className="dsp-curve-track">
+                  <div className="dsp-curve-bar" style={{ height: `${(bucket.count / maxCurve) * 100}%` }} />
+                </div>
+                <span className="dsp-curve-label">{bucket.cmc === lastCmc ? `${bucket.cmc}+` : bucket.cmc}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="dsp-block">
+          <h3 className="dsp-block-title">{t('decks.stats.colorPips')}</h3>
+          <ul className="dsp-pips">
+            {PIP_COLORS.filter((color) => stats.color_pips[color] > 0).map((color) => (
+              <li key={color} className="dsp-pip">
+                <span className={`dsp-pip-symbol dsp-pip-symbol--${color}`}>{color}</span>
+                <span className="dsp-pip-count">{stats.color_pips[color]}</span>
+              </li>
+            ))}
+            {PIP_COLORS.every((color) => stats.color_pips[color] === 0) && (
+              <li className="dsp-empty">{t('decks.stats.noPips')}</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="dsp-block">
+          <h3 className="dsp-block-title">{t('decks.stats.types')}</h3>
+          <ul className="dsp-types">
+            {CARD_TYPES.filter((type) => stats.types[type] > 0).map((type) => (
+              <li key={type} className="dsp-type">
+                <span>{t(`decks.stats.typeNames.${type}`)}</span>
+                <span className="dsp-type-count">{stats.types[type]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
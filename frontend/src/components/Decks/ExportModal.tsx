@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ExportedFile, ExportFormat } from '../../types/deck';
+import '../Collections/CollectionModal.css';
+import './DeckModal.css';
+import './ExportModal.css';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (format: ExportFormat) => Promise<ExportedFile>;
+  formats: ExportFormat[];
+  title: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  arena: 'text/plain',
+  mtgo: 'application/xml',
+  moxfield: 'text/csv',
+  json: 'application/json',
+};
+
+export default function ExportModal({
+  isOpen,
+  onClose,
+  onExport,
+  formats,
+  title
+}: ExportModalProps) {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<ExportFormat>(formats[0]);
+  const [file, setFile] = useState<ExportedFile | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen && !formats.includes(format)) {
+      setFormat(formats[0]);
+    }
+  }, [isOpen, formats]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setFile(null);
+    setCopied(false);
+    setError('');
+    setIsLoading(true);
+
+    onExport(format)
+      .then((exported) => {
+        if (!cancelled) setFile(exported);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message || t('export.failed'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, format]);
+
+  const handleCopy = async () => {
+    if (!file) return;
+
+    try {
+      await navigator.clipboard.writeText(file.content);
+      setCopied(true);
+    } catch {
+      setError(t('export.copyFailed'));
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(new Blob([file.content], { type: CONTENT_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content export-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{title}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <div className="collection-form">
+          <div className="form-group">
+            <label htmlFor="exportFormat">{t('export.format')}</label>
+            <select
+              id="exportFormat"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              {formats.map((f) => (
+                <option key={f} value={f}>{t(`export.formats.${f}`)}</option>
+              ))}
+            </select>
+            <span className="export-modal-hint">{t(`export.hints.${format}`)}</span>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="exportContent">
+              {file ? file.filename : t('export.preview')}
+            </label>
+            <textarea
+              id="exportContent"
+              className="deck-modal-textarea export-modal-content"
+              value={isLoading ? t('common.loading') : file?.content ?? ''}
+              rows={12}
+              readOnly
+              spellCheck={false}
+            />
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={handleCopy}
+              disabled={!file}
+            >
+              {copied ? t('export.copied') : t('export.copy')}
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleDownload}
+              disabled={!file}
+            >
+              {t('export.download')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
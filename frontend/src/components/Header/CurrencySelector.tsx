@@ -0,0 +1,33 @@
+import { useTranslation } from 'react-i18next';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { Currency, CURRENCIES } from '../../types/currency';
+import './LanguageSelector.css';
+
+export default function CurrencySelector() {
+  const { t } = useTranslation();
+  const { currency, hasRate, setCurrency } = useCurrency();
+
+  const changeCurrency = (next: Currency) => {
+    setCurrency(next).catch((error) => console.error('Failed to change currency:', error));
+  };
+
+  return (
+    <div className="language-selector">
+      <label htmlFor="currency-select" className="language-label">
+        {t('currency.select')}:
+      </label>
+      <select
+        id="currency-select"
+        value={currency}
+        onChange={(e) => changeCurrency(e.target.value as Currency)}
+        className="language-select"
+      >
+        {CURRENCIES.map((option) => (
+          <option key={option} value={option} disabled={!hasRate(option)}>
+            {hasRate(option) ? option : t('currency.noRate', { currency: option })}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
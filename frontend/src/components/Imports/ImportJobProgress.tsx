@@ -0,0 +1,81 @@
+import { useTranslation } from 'react-i18next';
+import { ImportJob, isImportJobActive } from '../../types/importJob';
+import './ImportJobProgress.css';
+
+interface ImportJobProgressProps {
+  job: ImportJob;
+  isCancelling: boolean;
+  onCancel: () => void;
+}
+
+/**
+ * Progress bar, counts and failed lines of a background import
+ */
+export default function ImportJobProgress({ job, isCancelling, onCancel }: ImportJobProgressProps) {
+  const { t } = useTranslation();
+  const isActive = isImportJobActive(job);
+  const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <div className="ijp">
+      <div className="ijp-header">
+        <span className={`ijp-status ijp-status--${job.status}`}>{t(`imports.status.${job.status}`)}</span>
+        <span className="ijp-count">
+          {t('imports.progress', { processed: job.processed, total: job.total })}
+        </span>
+      </div>
+
+      <div
+        className="ijp-bar"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={job.total}
+        aria-valuenow={job.processed}
+      >
+        <div className={`ijp-bar-fill${isActive ? ' ijp-bar-fill--active' : ''}`} style={{ width: `${percent}%` }} />
+      </div>
+
+      <div className="ijp-summary">
+        <span className="ijp-badge ijp-badge--success">
+          {t('cards.importedCount', { count: job.imported })}
+        </span>
+        {job.failed > 0 && (
+          <span className="ijp-badge ijp-badge--error">
+            {t('cards.failedCount', { count: job.failed })}
+          </span>
+        )}
+        <span className="ijp-badge ijp-badge--format">{t(`imports.modes.${job.mode}`)}</span>
+        {job.format && (
+          <span className="ijp-badge ijp-badge--format">{t(`cards.csvFormats.${job.format}`)}</span>
+        )}
+        {isActive && (
+          <button type="button" className="ijp-cancel-btn" onClick={onCancel} disabled={isCancelling}>
+            {isCancelling ? t('imports.cancelling') : t('imports.cancel')}
+          </button>
+        )}
+      </div>
+
+      {job.error && <p className="ijp-error">{job.error}</p>}
+      {(job.status === 'cancelled' || job.status === 'failed') && (
+        <p className="ijp-note">{job.mode === 'batched' ? t('imports.keptOnCancel') : t('imports.rolledBack')}</p>
+      )}
+
+      {job.failures.length > 0 && (
+        <>
+          <p className="ijp-label">{t('cards.failedCards')}</p>
+          <div className="ijp-failed-list">
+            {job.failures.map((f, i) => (
+              <div key={i} className="ijp-failed-item">
+                <span className="ijp-failed-name">
+                  {f.line !== undefined && `${t('cards.csvLine', { line: f.line })} · `}
+                  {f.name}
+                </span>
+                <span className="ijp-failed-reason">{f.reason}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
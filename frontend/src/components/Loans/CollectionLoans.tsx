@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { loansApi } from '../../services/loansApi';
+import { useNotification } from '../../contexts/NotificationContext';
+import { CardLoanWithCard, LoanStatusFilter } from '../../types/loan';
+import './CollectionLoans.css';
+
+interface CollectionLoansProps {
+  collectionId: string;
+  /** Called after a loan is returned (a card's borrowed status may change) */
+  onChange: () => void;
+}
+
+const STATUS_FILTERS: LoanStatusFilter[] = ['open', 'returned', 'all'];
+
+/**
+ * Loans of a collection's cards, overdue first, with their due dates and
+ * actions to change the due date or mark them returned
+ */
+export default function CollectionLoans({ collectionId, onChange }: CollectionLoansProps) {
+  const { t } = useTranslation();
+  const { addToast } = useNotification();
+  const [status, setStatus] = useState<LoanStatusFilter>('open');
+  const [loans, setLoans] = useState<CardLoanWithCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [extendingId, setExtendingId] = useState<string | null>(null);
+  const [newDueDate, setNewDueDate] = useState('');
+
+  const loadLoans = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setLoans(await loansApi.getForCollection(collectionId, status));
+    } catch (err: any) {
+      setError(err.message || t('loans.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLoans();
+  }, [collectionId, status]);
+
+  /** Run a change to one loan, then reload the list */
+  const updateLoan = async (loanId: string, change: () => Promise<unknown>, successTitle: string) => {
+    setBusyIds((prev) => [...prev, loanId]);
+    try {
+      await change();
+      addToast({ type: 'success', title: successTitle });
+      await loadLoans();
+    } catch (err: any) {
+      addToast({ type: 'error', title: t('loans.failedToSave'), message: err.message });
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => id !== loanId));
+    }
+  };
+
+  const handleReturn = async (loan: CardLoanWithCard) => {
+    await updateLoan(loan.id, () => loansApi.markReturned(loan.id), t('loans.returned'));
+    if (loan.direction === 'borrowed') onChange();
+  };
+
+  const handleExtend = async (loan: CardLoanWithCard) => {
+    setExtendingId(null);
+    await updateLoan(loan.id, () => loansApi.extend(loan.id, newDueDate || null), t('loans.extended'));
+  };
+
+  const startExtending = (loan: CardLoanWithCard) => {
+    setExtendingId(loan.id);
+    setNewDueDate(loan.due_date ?? '');
+  };
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+  return (
+    <section className="cl-panel">
+      <div className="cl-header">
+        <h2 className="cl-title">{t('loans.title')}</h2>
+        <div className="cl-segmented">
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`cl-segment ${status === option ? 'active' : ''}`}
+              onClick={() => setStatus(option)}
+            >
+              {t(`loans.status.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="cl-error">{error}</div>}
+
+      {isLoading ? (
+        <p className="cl-empty">{t('common.loading')}</p>
+      ) : loans.length === 0 ? (
+        <p className="cl-empty">{t('loans.noLoans')}</p>
+      ) : (
+        <ul className="cl-list">
+          {loans.map((loan) => {
+            const isBusy = busyIds.includes(loan.id);
+
+            return (
+              <li key={loan.id} className={`cl-item${loan.is_overdue ? ' cl-item--overdue' : ''}`}>
+                <div className="cl-info">
+                  <div className="cl-card">
+                    {loan.quantity}x {loan.card_name ?? loan.scryfall_id}
+                    {loan.set_code && <span className="cl-set">{loan.set_code.toUpperCase()}</span>}
+                  </div>
+                  <div className="cl-sub">
+                    <span className={`cl-direction cl-direction--${loan.direction}`}>
+                      {t(`loans.directions.${loan.direction}`)}
+                    </span>{' '}
+                    <strong>{loan.counterparty}</strong>
+                    {' · '}{t('loans.since', { date: formatDate(loan.start_date) })}
+                    {loan.notes && ` · ${loan.notes}`}
+                  </div>
+                </div>
+
+                <div className="cl-dates">
+                  {loan.returned_date ? (
+                    <span className="cl-returned">{t('loans.returnedOn', { date: formatDate(loan.returned_date) })}</span>
+                  ) : loan.due_date ? (
+                    <span className={loan.is_overdue ? 'cl-overdue' : 'cl-due'}>
+                      {loan.is_overdue && `${t('loans.overdue')} · `}
+                      {t('loans.dueOn', { date: formatDate(loan.due_date) })}
+                    </span>
+                  ) : (
+                    <span className="cl-due">{t('loans.noDueDate')}</span>
+                  )}
+                </div>
+
+                {!loan.returned_date && (
+                  <div className="cl-actions">
+                    {extendingId === loan.id ? (
+                      <>
+                        <input
+                          type="date"
+                          className="cl-date-input"
+                          value={newDueDate}
+                          min={loan.start_date}
+                          onChange={(e) => setNewDueDate(e.target.value)}
+                        />
+                        <button type="button" className="cl-btn" onClick={() => handleExtend(loan)} disabled={isBusy}>
+                          {t('loans.save')}
+                        </button>
+                        <button type="button" className="cl-btn cl-btn--ghost" onClick={() => setExtendingId(null)}>
+                          {t('common.cancel')}
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button type="button" className="cl-btn cl-btn--ghost" onClick={() => startExtending(loan)} disabled={isBusy}>
+                          {t('loans.extend')}
+                        </button>
+                        <button type="button" className="cl-btn" onClick={() => handleReturn(loan)} disabled={isBusy}>
+                          {t('loans.markReturned')}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
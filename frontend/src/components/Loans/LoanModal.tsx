@@ -0,0 +1,267 @@
+import { useState, useEffect, FormEvent, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CardWithDetails } from '../../types/card';
+import { LoanDirection, OpenLoanRequest } from '../../types/loan';
+import '../Cards/CardEditModal.css';
+
+interface LoanModalProps {
+  card: CardWithDetails;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: OpenLoanRequest) => Promise<void>;
+}
+
+function IconClose() {
+  return (
+    <svg viewBox="0 0 20 20" fill="currentColor">
+      <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+    </svg>
+  );
+}
+
+function IconSwap() {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="17 1 21 5 17 9" />
+      <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+      <polyline points="7 23 3 19 7 15" />
+      <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+    </svg>
+  );
+}
+
+/**
+ * Today's date as YYYY-MM-DD (the value format of date inputs)
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Lend copies of a card to someone, or record copies borrowed from someone
+ */
+export default function LoanModal({ card, isOpen, onClose, onSubmit }: LoanModalProps) {
+  const { t } = useTranslation();
+  const [direction, setDirection] = useState<LoanDirection>('lent');
+  const [counterparty, setCounterparty] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [startDate, setStartDate] = useState(today());
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDirection('lent');
+      setCounterparty('');
+      setQuantity(1);
+      setStartDate(today());
+      setDueDate('');
+      setNotes('');
+      setError('');
+    }
+  }, [isOpen, card]);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    },
+    [onClose],
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!counterparty.trim()) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      await onSubmit({
+        direction,
+        counterparty: counterparty.trim(),
+        quantity,
+        start_date: startDate,
+        due_date: dueDate || null,
+        notes: notes.trim() || null,
+      });
+    } catch (err: any) {
+      setError(err.message || t('loans.failedToSave'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="cem-overlay" onClick={onClose}>
+      <div className="cem-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="cem-header">
+          <div className="cem-header-icon">
+            <IconSwap />
+          </div>
+          <h2 className="cem-header-title">{t('loans.lend')}</h2>
+          <button className="cem-close-btn" onClick={onClose} type="button">
+            <IconClose />
+          </button>
+        </div>
+
+        <div className="cem-body">
+          <div className="cem-card-preview">
+            {card.scryfall_data?.image_uris?.normal && (
+              <img
+                src={card.scryfall_data.image_uris.normal}
+                alt={card.scryfall_data.name}
+                className="cem-preview-img"
+              />
+            )}
+            <div className="cem-preview-info">
+              <h3 className="cem-preview-name">
+                {card.scryfall_data?.name || 'Unknown Card'}
+              </h3>
+              <p className="cem-preview-set">{card.scryfall_data?.set_name}</p>
+            </div>
+          </div>
+
+          {error && <div className="cem-error">{error}</div>}
+
+          <form id="loan-form" onSubmit={handleSubmit} className="cem-form">
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-direction">
+                {t('loans.directionLabel')}
+              </label>
+              <select
+                id="loan-direction"
+                className="cem-form-input"
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as LoanDirection)}
+                disabled={isSubmitting}
+              >
+                <option value="lent">{t('loans.directions.lent')}</option>
+                <option value="borrowed">{t('loans.directions.borrowed')}</option>
+              </select>
+              {direction === 'borrowed' && (
+                <span className="cem-form-hint">{t('loans.borrowedHint')}</span>
+              )}
+            </div>
+
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-counterparty">
+                {t('loans.counterparty')} *
+              </label>
+              <input
+                id="loan-counterparty"
+                className="cem-form-input"
+                type="text"
+                value={counterparty}
+                onChange={(e) => setCounterparty(e.target.value)}
+                required
+                placeholder={t('loans.counterpartyPlaceholder')}
+                disabled={isSubmitting}
+                maxLength={255}
+              />
+            </div>
+
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-quantity">
+                {t('cards.quantityLabel')} *
+              </label>
+              <input
+                id="loan-quantity"
+                className="cem-form-input"
+                type="number"
+                value={quantity}
+                onChange={(e) =>
+                  setQuantity(Math.min(card.quantity, Math.max(1, parseInt(e.target.value) || 1)))
+                }
+                required
+                min="1"
+                max={card.quantity}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-start">
+                {t('loans.startDate')}
+              </label>
+              <input
+                id="loan-start"
+                className="cem-form-input"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-due">
+                {t('loans.dueDate')}
+              </label>
+              <input
+                id="loan-due"
+                className="cem-form-input"
+                type="date"
+                value={dueDate}
+                min={startDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="cem-form-group">
+              <label className="cem-form-label" htmlFor="loan-notes">
+                {t('loans.notes')}
+              </label>
+              <input
+                id="loan-notes"
+                className="cem-form-input"
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </form>
+        </div>
+
+        <div className="cem-footer">
+          <button
+            type="button"
+            className="cem-btn-cancel"
+            onClick={onClose}
+            disabled={isSubmitting}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            form="loan-form"
+            className="cem-btn-save"
+            disabled={isSubmitting || !counterparty.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <span className="cem-spinner" />
+                {t('cards.saving')}
+              </>
+            ) : (
+              t('loans.save')
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { collectionsApi } from '../../services/api';
+import { decksApi } from '../../services/decksApi';
+import { handoversApi } from '../../services/handoversApi';
+import { Owner } from '../../types/owner';
+import { Deck } from '../../types/deck';
+import { Collection } from '../../types/collection';
+import { HandoverAction, HandoverPreview, HandoverWithItems } from '../../types/handover';
+import '../Collections/CollectionModal.css';
+import './HandoverModal.css';
+
+interface HandoverModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDone: (handover: HandoverWithItems) => void;
+  owner: Owner | null;
+}
+
+const ACTIONS: HandoverAction[] = ['clear_deck', 'return', 'move'];
+
+export default function HandoverModal({
+  isOpen,
+  onClose,
+  onDone,
+  owner
+}: HandoverModalProps) {
+  const { t } = useTranslation();
+  const [action, setAction] = useState<HandoverAction>('clear_deck');
+  const [deckId, setDeckId] = useState('');
+  const [collectionId, setCollectionId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [preview, setPreview] = useState<HandoverPreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAction('clear_deck');
+    setDeckId('');
+    setCollectionId('');
+    setNotes('');
+    setError('');
+    decksApi.getAll().then(setDecks).catch(() => setDecks([]));
+    collectionsApi.getAll().then(setCollections).catch(() => setCollections([]));
+  }, [isOpen, owner]);
+
+  useEffect(() => {
+    if (!isOpen || !owner) return;
+    loadPreview(owner.id);
+  }, [isOpen, owner, action, deckId]);
+
+  const loadPreview = async (ownerId: string) => {
+    try {
+      setIsPreviewLoading(true);
+      setError('');
+      setPreview(await handoversApi.preview(ownerId, action, deckId || undefined));
+    } catch (err: any) {
+      setPreview(null);
+      setError(err.message || t('handovers.failedToPreview'));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  // Cards can only move to a collection of their own game
+  const games = new Set(preview?.items.map((item) => item.tcg_type) ?? []);
+  const targets = collections.filter((c) => games.size === 0 || (games.size === 1 && games.has(c.tcg_type)));
+  const openLoans = preview?.items.filter((item) => item.open_loans > 0) ?? [];
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!owner) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const handover = await handoversApi.create({
+        owner_id: owner.id,
+        action,
+        deck_id: deckId || null,
+        collection_id: action === 'move' ? collectionId : null,
+        notes: notes.trim() || null,
+      });
+      onDone(handover);
+    } catch (err: any) {
+      setError(err.message || t('handovers.failedToSave'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !owner) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content handover-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{t('handovers.title', { name: owner.name })}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <form onSubmit={handleSubmit} className="collection-form">
+          <div className="form-group">
+            <label>{t('handovers.actionLabel')}</label>
+            <div className="handover-actions">
+              {ACTIONS.map((a) => (
+                <label key={a} className={`handover-action${action === a ? ' handover-action--selected' : ''}`}>
+                  <input
+                    type="radio"
+                    name="handoverAction"
+                    value={a}
+                    checked={action === a}
+                    onChange={() => setAction(a)}
+                    disabled={isSubmitting}
+                  />
+                  <span className="handover-action-name">{t(`handovers.actions.${a}`)}</span>
+                  <span className="handover-action-hint">{t(`handovers.actionHints.${a}`)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="handoverDeck">{t('handovers.deckLabel')}</label>
+            <select
+              id="handoverDeck"
+              value={deckId}
+              onChange={(e) => setDeckId(e.target.value)}
+              disabled={isSubmitting}
+            >
+              <option value="">{action === 'clear_deck' ? t('handovers.allDecks') : t('handovers.allCards')}</option>
+              {decks.map((deck) => (
+                <option key={deck.id} value={deck.id}>{deck.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {action === 'move' && (
+            <div className="form-group">
+              <label htmlFor="handoverCollection">{t('handovers.collectionLabel')}</label>
+              <select
+                id="handoverCollection"
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                required
+                disabled={isSubmitting}
+              >
+                <option value="">{t('handovers.selectCollection')}</option>
+                {targets.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="handoverNotes">{t('handovers.notes')}</label>
+            <input
+              id="handoverNotes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={t('handovers.notesPlaceholder')}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="handover-preview">
+            {isPreviewLoading ? (
+              <p className="handover-preview-empty">{t('common.loading')}</p>
+            ) : !preview || preview.items.length === 0 ? (
+              <p className="handover-preview-empty">{t('handovers.noCards')}</p>
+            ) : (
+              <>
+                <p className="handover-preview-count">
+                  {t('handovers.previewCount', { count: preview.card_count })}
+                </p>
+                {action === 'return' && openLoans.length > 0 && (
+                  <p className="handover-preview-warning">
+                    {t('handovers.openLoans', { count: openLoans.length })}
+                  </p>
+                )}
+                <ul className="handover-preview-list">
+                  {preview.items.map((item) => (
+                    <li key={item.card_id} className={item.open_loans > 0 ? 'handover-preview-item--loaned' : undefined}>
+                      <span>{item.quantity}× {item.card_name ?? item.scryfall_id}</span>
+                      <span className="handover-preview-where">
+                        {item.deck_name ? `${item.collection_name} · ${item.deck_name}` : item.collection_name}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={
+                isSubmitting || isPreviewLoading || !preview?.items.length ||
+                (action === 'move' && !collectionId)
+              }
+            >
+              {isSubmitting ? t('handovers.saving') : t('handovers.confirm')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CreateOwnerRequest, Owner, OWNER_COLORS } from '../../types/owner';
+import '../Collections/CollectionModal.css';
+import './OwnerModal.css';
+
+interface OwnerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateOwnerRequest) => Promise<void>;
+  owner?: Owner | null;
+  title: string;
+}
+
+export default function OwnerModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  owner,
+  title
+}: OwnerModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [contact, setContact] = useState('');
+  const [color, setColor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setName(owner?.name ?? '');
+    setContact(owner?.contact ?? '');
+    setColor(owner?.color ?? null);
+    setError('');
+  }, [owner, isOpen]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await onSubmit({ name, contact: contact || null, color });
+      // Parent component handles closing the modal after successful submission
+    } catch (err: any) {
+      setError(err.message || t('owners.failedToSave'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{title}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <form onSubmit={handleSubmit} className="collection-form">
+          <div className="form-group">
+            <label htmlFor="ownerName">{t('owners.name')}</label>
+            <input
+              id="ownerName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder={t('owners.namePlaceholder')}
+              disabled={isLoading}
+              maxLength={255}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="ownerContact">{t('owners.contact')}</label>
+            <input
+              id="ownerContact"
+              type="text"
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+              placeholder={t('owners.contactPlaceholder')}
+              disabled={isLoading}
+              maxLength={255}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>{t('owners.color')}</label>
+            <div className="owner-modal-colors">
+              <button
+                type="button"
+                className={`owner-modal-color owner-modal-color--none${color === null ? ' owner-modal-color--selected' : ''}`}
+                onClick={() => setColor(null)}
+                disabled={isLoading}
+                title={t('cards.none')}
+              />
+              {OWNER_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className={`owner-modal-color${color === c ? ' owner-modal-color--selected' : ''}`}
+                  style={{ background: c }}
+                  onClick={() => setColor(c)}
+                  disabled={isLoading}
+                  title={c}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={isLoading}
+            >
+              {isLoading ? t('owners.saving') : t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ownersApi } from '../../services/ownersApi';
+import { Owner } from '../../types/owner';
+import './OwnerPicker.css';
+
+interface OwnerPickerProps {
+  id?: string;
+  /** Selected owner ID ('' for none) */
+  value: string;
+  onChange: (ownerId: string, owner: Owner) => void;
+  disabled?: boolean;
+  /** Input class of the form the picker sits in, so it matches its fields */
+  inputClassName: string;
+}
+
+const NEW_OWNER = '__new__';
+
+/**
+ * Owner select for card forms, with an option to create an owner inline
+ */
+export default function OwnerPicker({ id, value, onChange, disabled, inputClassName }: OwnerPickerProps) {
+  const { t } = useTranslation();
+  const [owners, setOwners] = useState<Owner[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    ownersApi.getAll()
+      .then((loaded) => {
+        setOwners(loaded);
+        // Nothing to pick from: go straight to creating the first owner
+        if (loaded.length === 0) setIsCreating(true);
+      })
+      .catch((err) => setError(err.message || t('owners.failedToLoad')));
+  }, []);
+
+  const handleSelect = (selected: string) => {
+    if (selected === NEW_OWNER) {
+      setIsCreating(true);
+      return;
+    }
+    const owner = owners.find((o) => o.id === selected);
+    if (owner) onChange(owner.id, owner);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const owner = await ownersApi.create({ name: newName.trim() });
+      setOwners((prev) => [...prev, owner].sort((a, b) => a.name.localeCompare(b.name)));
+      onChange(owner.id, owner);
+      setNewName('');
+      setIsCreating(false);
+    } catch (err: any) {
+      setError(err.message || t('owners.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selected = owners.find((owner) => owner.id === value);
+
+  return (
+    <div className="op-picker">
+      {isCreating ? (
+        <div className="op-create">
+          <input
+            id={id}
+            className={inputClassName}
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep Enter from submitting the card form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            placeholder={t('owners.namePlaceholder')}
+            disabled={disabled || isSaving}
+            maxLength={255}
+            autoFocus
+          />
+          <button
+            type="button"
+            className="op-btn op-btn--primary"
+            onClick={handleCreate}
+            disabled={disabled || isSaving || !newName.trim()}
+          >
+            {isSaving ? t('owners.saving') : t('owners.create')}
+          </button>
+          {owners.length > 0 && (
+            <button
+              type="button"
+              className="op-btn"
+              onClick={() => {
+                setIsCreating(false);
+                setError('');
+              }}
+              disabled={isSaving}
+            >
+              {t('common.cancel')}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="op-select-row">
+          {selected?.color && <span className="op-swatch" style={{ background: selected.color }} />}
+          <select
+            id={id}
+            className={inputClassName}
+            value={value}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={disabled}
+            required
+          >
+            <option value="" disabled>{t('owners.select')}</option>
+            {owners.map((owner) => (
+              <option key={owner.id} value={owner.id}>{owner.name}</option>
+            ))}
+            <option value={NEW_OWNER}>{t('owners.newOwnerOption')}</option>
+          </select>
+        </div>
+      )}
+      {error && <span className="op-error">{error}</span>}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
 import LanguageSelector from '../Header/LanguageSelector';
+import CurrencySelector from '../Header/CurrencySelector';
 import './Sidebar.css';
 
 interface SidebarProps {
@@ -17,6 +18,28 @@ const IconCollections = () => (
   </svg>
 );
 
+const IconDecks = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="7" y="3" width="12" height="16" rx="2" />
+    <path d="M5 7v12a2 2 0 0 0 2 2h10" />
+  </svg>
+);
+
+const IconOwners = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="9" cy="8" r="4" />
+    <path d="M2 21v-1a6 6 0 0 1 12 0v1" />
+    <path d="M16 4a4 4 0 0 1 0 8" />
+    <path d="M22 21v-1a6 6 0 0 0-4-5.66" />
+  </svg>
+);
+
+const IconWishlist = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
+  </svg>
+);
+
 
 export default function Sidebar({ onLogout }: SidebarProps) {
   const { t } = useTranslation();
@@ -29,6 +52,9 @@ export default function Sidebar({ onLogout }: SidebarProps) {
 
   const navItems = [
     { key: 'collections', icon: IconCollections, label: t('sidebar.collections'), path: '/collections' },
+    { key: 'decks', icon: IconDecks, label: t('sidebar.decks'), path: '/decks' },
+    { key: 'owners', icon: IconOwners, label: t('sidebar.owners'), path: '/owners' },
+    { key: 'wishlist', icon: IconWishlist, label: t('sidebar.wishlist'), path: '/wishlist' },
   ];
 
   const isActive = (path: string | null) => {
@@ -65,6 +91,7 @@ export default function Sidebar({ onLogout }: SidebarProps) {
       <div className="sidebar-bottom">
         <div className="sidebar-lang">
           <LanguageSelector />
+          <CurrencySelector />
         </div>
 
         <div className="sidebar-user" onClick={onLogout} title={t('common.logout')}>
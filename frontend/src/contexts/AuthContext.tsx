@@ -1,8 +1,15 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Currency } from '../types/currency';
 
 interface User {
   id: string;
   email: string;
+  display_currency?: Currency;
+  is_admin?: boolean;
+}
+
+interface UserSettings {
+  display_currency?: Currency;
 }
 
 interface AuthContextType {
@@ -11,6 +18,7 @@ interface AuthContextType {
   login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
   register: (email: string, password: string) => Promise<void>;
   logout: () => void;
+  updateSettings: (settings: UserSettings) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -98,6 +106,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateSettings = async (settings: UserSettings) => {
+    const response = await fetch('/api/auth/me', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(settings),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to update settings');
+    }
+
+    const updatedUser = result.data;
+    setUser(updatedUser);
+
+    // Keep the stored user in whichever storage the session was saved to
+    const storage = localStorage.getItem('user') ? localStorage : sessionStorage;
+    storage.setItem('user', JSON.stringify(updatedUser));
+  };
+
   const logout = () => {
     setToken(null);
     setUser(null);
@@ -108,7 +140,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, register, logout, updateSettings, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,116 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  ReactNode,
+} from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from './AuthContext';
+import { exchangeRatesApi } from '../services/exchangeRatesApi';
+import { getCardPrice } from '../utils/pricing';
+import { CardWithDetails } from '../types/card';
+import { Collection } from '../types/collection';
+import { Currency, ExchangeRate } from '../types/currency';
+
+interface CurrencyContextType {
+  /** Currency values are shown in (USD until the chosen currency has a rate) */
+  currency: Currency;
+  rates: ExchangeRate[];
+  hasRate: (currency: Currency) => boolean;
+  setCurrency: (currency: Currency) => Promise<void>;
+  /** USD amount in the display currency; a native EUR amount wins in EUR */
+  convert: (usd: number | null, eur?: number | null) => number | null;
+  cardPrice: (card: CardWithDetails) => number | null;
+  collectionValue: (collection: Collection) => number;
+  formatPrice: (value: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { i18n } = useTranslation();
+  const { user, token, updateSettings } = useAuth();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+
+  useEffect(() => {
+    if (!token) {
+      setRates([]);
+      return;
+    }
+
+    exchangeRatesApi
+      .getAll()
+      .then(setRates)
+      .catch((error) => console.error('Failed to load exchange rates:', error));
+  }, [token]);
+
+  const ratePerUsd = useMemo(
+    () => new Map(rates.map((rate) => [rate.currency, Number(rate.rate_per_usd)])),
+    [rates]
+  );
+
+  const hasRate = useCallback(
+    (target: Currency) => target === 'USD' || ratePerUsd.has(target),
+    [ratePerUsd]
+  );
+
+  const preferred = user?.display_currency ?? 'USD';
+  const currency: Currency = hasRate(preferred) ? preferred : 'USD';
+
+  const convert = useCallback(
+    (usd: number | null, eur?: number | null) => {
+      if (currency === 'EUR' && eur != null) return eur;
+      if (usd === null) return null;
+      return usd * (ratePerUsd.get(currency) ?? 1);
+    },
+    [currency, ratePerUsd]
+  );
+
+  const cardPrice = useCallback(
+    (card: CardWithDetails) => convert(getCardPrice(card), getCardPrice(card, 'eur')),
+    [convert]
+  );
+
+  const collectionValue = useCallback(
+    (collection: Collection) => {
+      const usd = parseFloat(String(collection.total_value || 0));
+      const eur = collection.total_value_eur != null ? parseFloat(String(collection.total_value_eur)) : null;
+      return convert(usd, eur) ?? 0;
+    },
+    [convert]
+  );
+
+  const formatter = useMemo(
+    () => new Intl.NumberFormat(i18n.language, { style: 'currency', currency }),
+    [i18n.language, currency]
+  );
+
+  const formatPrice = useCallback((value: number) => formatter.format(value), [formatter]);
+
+  const setCurrency = useCallback(
+    (next: Currency) => updateSettings({ display_currency: next }),
+    [updateSettings]
+  );
+
+  const value = useMemo<CurrencyContextType>(
+    () => ({ currency, rates, hasRate, setCurrency, convert, cardPrice, collectionValue, formatPrice }),
+    [currency, rates, hasRate, setCurrency, convert, cardPrice, collectionValue, formatPrice]
+  );
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
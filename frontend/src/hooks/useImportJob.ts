@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { importJobsApi } from '../services/importJobsApi';
+import { ImportJob, isImportJobActive } from '../types/importJob';
+
+const POLL_INTERVAL = 1000; // 1s while the job is pending or running
+
+/**
+ * Follow an import job until it finishes
+ *
+ * @param jobId - Job to follow (null while there is none)
+ * @param initialJob - Job already loaded, e.g. the one returned when it was created
+ */
+export function useImportJob(jobId: string | null, initialJob: ImportJob | null = null): {
+  job: ImportJob | null;
+  error: string;
+  isCancelling: boolean;
+  cancel: () => Promise<void>;
+} {
+  const [job, setJob] = useState<ImportJob | null>(initialJob);
+  const [error, setError] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const isActive = job ? isImportJobActive(job) : true;
+
+  useEffect(() => {
+    setJob((current) => (current?.id === jobId ? current : initialJob));
+    setError('');
+  }, [jobId]);
+
+  useEffect(() => {
+    if (!jobId || !isActive) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const latest = await importJobsApi.getById(jobId);
+        if (stopped) return;
+        setJob(latest);
+        setError('');
+        if (!isImportJobActive(latest)) return;
+      } catch (err: any) {
+        if (stopped) return;
+        setError(err.message || 'Failed to load import');
+      }
+      timer = setTimeout(poll, POLL_INTERVAL);
+    };
+
+    timer = setTimeout(poll, job ? POLL_INTERVAL : 0);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, isActive]);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return;
+
+    try {
+      setIsCancelling(true);
+      setJob(await importJobsApi.cancel(jobId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel import');
+    } finally {
+      setIsCancelling(false);
+    }
+  }, [jobId]);
+
+  return { job, error, isCancelling, cancel };
+}
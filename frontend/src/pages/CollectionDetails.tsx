@@ -3,11 +3,22 @@ import { useParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { collectionsApi } from '../services/api';
 import { cardsApi } from '../services/cardsApi';
-import { Collection } from '../types/collection';
+import { decksApi } from '../services/decksApi';
+import { importJobsApi } from '../services/importJobsApi';
+import { loansApi } from '../services/loansApi';
+import { Collection, TcgType } from '../types/collection';
 import { CardWithDetails, AddCardRequest } from '../types/card';
+import { Deck, EXPORT_FORMATS, ExportFormat } from '../types/deck';
+import { ImportJob } from '../types/importJob';
+import { OpenLoanRequest } from '../types/loan';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNotification } from '../contexts/NotificationContext';
 import CardsTable from '../components/Cards/CardsTable';
 import CardSearchModal from '../components/Cards/CardSearchModal';
 import DeckImportModal from '../components/Cards/DeckImportModal';
+import CollectionAnalytics from '../components/Collections/CollectionAnalytics';
+import CollectionLoans from '../components/Loans/CollectionLoans';
+import ExportModal from '../components/Decks/ExportModal';
 import './CollectionDetails.css';
 
 const IconSearch = () => (
@@ -37,32 +48,59 @@ const IconShield = () => (
   </svg>
 );
 
+/**
+ * Where card data and prices come from, per TCG
+ */
+const CARD_DATA_SOURCES: Record<TcgType, string> = {
+  [TcgType.MAGIC]: 'Scryfall API',
+  [TcgType.POKEMON]: 'Pokémon TCG API',
+  [TcgType.YUGIOH]: 'YGOPRODeck',
+};
+
+/**
+ * Export formats per TCG (Arena and MTGO lists are Magic only)
+ */
+const EXPORT_FORMATS_BY_TCG: Record<TcgType, ExportFormat[]> = {
+  [TcgType.MAGIC]: EXPORT_FORMATS,
+  [TcgType.POKEMON]: ['moxfield', 'json'],
+  [TcgType.YUGIOH]: ['moxfield', 'json'],
+};
+
 export default function CollectionDetails() {
   const { collectionId } = useParams<{ collectionId: string }>();
   const { t } = useTranslation();
+  const { cardPrice, formatPrice } = useCurrency();
+  const { addToast } = useNotification();
   const [collection, setCollection] = useState<Collection | null>(null);
   const [cards, setCards] = useState<CardWithDetails[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [activeImports, setActiveImports] = useState<ImportJob[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [activeTab, setActiveTab] = useState<'cards' | 'analytics' | 'loans'>('cards');
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [ownerFilter, setOwnerFilter] = useState('');
+  const [deckFilter, setDeckFilter] = useState('');
   const [setFilter, setSetFilter] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'owned' | 'borrowed'>('all');
 
   // Get unique owners, decks, and sets for filter dropdowns
   const filterOptions = useMemo(() => {
     const owners = Array.from(new Set(cards.map(c => c.owner_name).filter(Boolean)));
-    const decks = Array.from(new Set(cards.map(c => c.current_deck).filter(Boolean))) as string[];
+    const deckIds = new Set(cards.map(c => c.deck_id).filter(Boolean));
+    const decksInUse = decks.filter(d => deckIds.has(d.id));
     const sets = Array.from(new Set(
       cards.map(c => c.set_name ?? c.scryfall_data?.set_name ?? null).filter(Boolean)
     )) as string[];
-    return { owners, decks, sets };
-  }, [cards]);
+    return { owners, decks: decksInUse, sets };
+  }, [cards, decks]);
 
   // Filter and search cards
   const filteredCards = useMemo(() => {
@@ -70,6 +108,7 @@ export default function CollectionDetails() {
       const matchesSearch = !searchQuery ||
         card.scryfall_data?.name.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesOwner = !ownerFilter || card.owner_name === ownerFilter;
+      const matchesDeck = !deckFilter || card.deck_id === deckFilter;
       const matchesSet = !setFilter ||
         (card.set_name ?? card.scryfall_data?.set_name) === setFilter;
       const matchesStatus =
@@ -77,28 +116,40 @@ export default function CollectionDetails() {
         (statusFilter === 'borrowed' && card.is_borrowed) ||
         (statusFilter === 'owned' && !card.is_borrowed);
 
-      return matchesSearch && matchesOwner && matchesSet && matchesStatus;
+      return matchesSearch && matchesOwner && matchesDeck && matchesSet && matchesStatus;
     });
-  }, [cards, searchQuery, ownerFilter, setFilter, statusFilter]);
+  }, [cards, searchQuery, ownerFilter, deckFilter, setFilter, statusFilter]);
 
   // Calculate total cards and total value based on filtered cards
   const collectionStats = useMemo(() => {
     const totalCards = filteredCards.reduce((sum, card) => sum + (card.quantity || 1), 0);
     const totalValue = filteredCards.reduce((sum, card) => {
-      const price = parseFloat(card.scryfall_data?.prices?.usd || card.scryfall_data?.prices?.usd_foil || '0');
+      const price = cardPrice(card) ?? 0;
       const quantity = card.quantity || 1;
       return sum + (price * quantity);
     }, 0);
 
     return { totalCards, totalValue };
-  }, [filteredCards]);
+  }, [filteredCards, cardPrice]);
 
   useEffect(() => {
     if (collectionId) {
       loadCollectionData();
+      loadActiveImports();
     }
   }, [collectionId]);
 
+  // Imports keep running after the modal is closed or the page reloaded
+  const loadActiveImports = async () => {
+    if (!collectionId) return;
+
+    try {
+      setActiveImports(await importJobsApi.getAll({ collectionId, active: true }));
+    } catch {
+      setActiveImports([]);
+    }
+  };
+
   const loadCollectionData = async () => {
     if (!collectionId) return;
 
@@ -106,13 +157,15 @@ export default function CollectionDetails() {
       setIsLoading(true);
       setError('');
 
-      const [collectionData, cardsData] = await Promise.all([
+      const [collectionData, cardsData, decksData] = await Promise.all([
         collectionsApi.getById(collectionId),
         cardsApi.getCollectionCards(collectionId),
+        decksApi.getAll(),
       ]);
 
       setCollection(collectionData);
       setCards(cardsData);
+      setDecks(decksData);
       setLastSyncedAt(new Date());
     } catch (err: any) {
       setError(err.message || 'Failed to load collection');
@@ -143,6 +196,34 @@ export default function CollectionDetails() {
     }
   };
 
+  const handleLend = async (cardId: string, data: OpenLoanRequest) => {
+    await loansApi.open(cardId, data);
+    addToast({ type: 'success', title: t('loans.opened'), message: data.counterparty });
+    // Borrowed copies flip the card's borrowed status
+    if (data.direction === 'borrowed') await loadCollectionData();
+  };
+
+  const handleConsolidate = async () => {
+    if (!collectionId || !confirm(t('cards.confirmConsolidate'))) return;
+
+    try {
+      setIsConsolidating(true);
+      const report = await cardsApi.consolidateDuplicates(collectionId);
+      addToast(report.merged_rows > 0
+        ? {
+            type: 'success',
+            title: t('cards.consolidated', { rows: report.merged_rows, cards: report.cards.length }),
+            message: report.cards.map((card) => `${card.quantity}x ${card.name ?? card.scryfall_id}`).join(', '),
+          }
+        : { type: 'info', title: t('cards.noDuplicates') });
+      if (report.merged_rows > 0) await loadCollectionData();
+    } catch (err: any) {
+      setError(err.message || t('cards.failedToConsolidate'));
+    } finally {
+      setIsConsolidating(false);
+    }
+  };
+
   const handleDeleteCard = async (cardId: string) => {
     if (!confirm(t('cards.confirmDelete') || 'Are you sure you want to delete this card?')) return;
 
@@ -204,7 +285,7 @@ export default function CollectionDetails() {
         <div className="cd-stats">
           <div className="cd-stat-card">
             <div className="cd-stat-label">{t('cards.totalValue')}</div>
-            <div className="cd-stat-value cd-stat-green">${collectionStats.totalValue.toFixed(2)}</div>
+            <div className="cd-stat-value cd-stat-green">{formatPrice(collectionStats.totalValue)}</div>
           </div>
           <div className="cd-stat-card">
             <div className="cd-stat-label">{t('cards.totalCards')}</div>
@@ -218,6 +299,42 @@ export default function CollectionDetails() {
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="cd-tabs">
+          <button
+            type="button"
+            className={`cd-tab ${activeTab === 'cards' ? 'active' : ''}`}
+            onClick={() => setActiveTab('cards')}
+          >
+            {t('analytics.tabCards')}
+          </button>
+          <button
+            type="button"
+            className={`cd-tab ${activeTab === 'analytics' ? 'active' : ''}`}
+            onClick={() => setActiveTab('analytics')}
+          >
+            {t('analytics.tabAnalytics')}
+          </button>
+          <button
+            type="button"
+            className={`cd-tab ${activeTab === 'loans' ? 'active' : ''}`}
+            onClick={() => setActiveTab('loans')}
+          >
+            {t('loans.tab')}
+          </button>
+        </div>
+
+        {activeImports.length > 0 && (
+          <div className="cd-import-banner">
+            <span>{t('imports.activeBanner', { count: activeImports.length })}</span>
+            {activeImports.map((job) => (
+              <Link key={job.id} to={`/imports/${job.id}`} className="cd-import-link">
+                {t(`imports.kinds.${job.kind}`)} · {t('imports.progress', { processed: job.processed, total: job.total })}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {error && (
           <div className="cd-error">
             {error}
@@ -227,7 +344,11 @@ export default function CollectionDetails() {
           </div>
         )}
 
-        {cards.length === 0 ? (
+        {activeTab === 'analytics' ? (
+          <CollectionAnalytics collectionId={collection.id} />
+        ) : activeTab === 'loans' ? (
+          <CollectionLoans collectionId={collection.id} onChange={loadCollectionData} />
+        ) : cards.length === 0 ? (
           <div className="cd-empty-state">
             <div className="cd-empty-illustration">
               <div className="cd-empty-float cd-empty-float--top-left">
@@ -288,6 +409,17 @@ export default function CollectionDetails() {
                 ))}
               </select>
 
+              <select
+                value={deckFilter}
+                onChange={(e) => setDeckFilter(e.target.value)}
+                className="cd-select"
+              >
+                <option value="">{t('cards.allDecks')}</option>
+                {filterOptions.decks.map(d => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+
               <select
                 value={statusFilter}
                 onChange={(e) => setStatusFilter(e.target.value as 'all' | 'owned' | 'borrowed')}
@@ -298,6 +430,12 @@ export default function CollectionDetails() {
                 <option value="borrowed">{t('cards.borrowed')}</option>
               </select>
 
+              <button onClick={handleConsolidate} className="cd-btn-import" disabled={isConsolidating}>
+                {t('cards.consolidate')}
+              </button>
+              <button onClick={() => setIsExportModalOpen(true)} className="cd-btn-import">
+                {t('export.export')}
+              </button>
               <button onClick={() => setIsImportModalOpen(true)} className="cd-btn-import">
                 {t('cards.importDeck')}
               </button>
@@ -313,8 +451,10 @@ export default function CollectionDetails() {
 
             <CardsTable
               cards={filteredCards}
+              decks={decks}
               onUpdate={handleUpdateCard}
               onDelete={handleDeleteCard}
+              onLend={handleLend}
             />
           </>
         )}
@@ -326,7 +466,10 @@ export default function CollectionDetails() {
           <span className="cd-live-sep">|</span>
           <span>
             {lastSyncedAt
-              ? t('common.lastSynced', { time: lastSyncedAt.toLocaleTimeString() })
+              ? t('common.lastSynced', {
+                  time: lastSyncedAt.toLocaleTimeString(),
+                  source: CARD_DATA_SOURCES[collection.tcg_type],
+                })
               : t('common.notSynced')}
           </span>
         </div>
@@ -334,15 +477,30 @@ export default function CollectionDetails() {
 
       <CardSearchModal
         isOpen={isSearchModalOpen}
+        tcgType={collection.tcg_type}
+        decks={decks}
         onClose={() => setIsSearchModalOpen(false)}
         onAddCard={handleAddCard}
       />
 
+      <ExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        onExport={(format) => collectionsApi.export(collection.id, format)}
+        formats={EXPORT_FORMATS_BY_TCG[collection.tcg_type]}
+        title={t('export.exportCollection')}
+      />
+
       {collectionId && (
         <DeckImportModal
           isOpen={isImportModalOpen}
           collectionId={collectionId}
-          onClose={() => setIsImportModalOpen(false)}
+          tcgType={collection.tcg_type}
+          decks={decks}
+          onClose={() => {
+            setIsImportModalOpen(false);
+            loadActiveImports();
+          }}
           onImportComplete={loadCollectionData}
         />
       )}
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { collectionsApi } from '../services/api';
 import { Collection, CreateCollectionRequest } from '../types/collection';
+import { useCurrency } from '../contexts/CurrencyContext';
 import CollectionCard from '../components/Collections/CollectionCard';
 import CollectionModal from '../components/Collections/CollectionModal';
 import './Collections.css';
@@ -32,6 +33,7 @@ const IconSort = () => (
 
 export default function Collections() {
   const { t } = useTranslation();
+  const { collectionValue, formatPrice } = useCurrency();
   const navigate = useNavigate();
 
   const [collections, setCollections] = useState<Collection[]>([]);
@@ -46,8 +48,8 @@ export default function Collections() {
   }, []);
 
   const portfolioValue = useMemo(() => {
-    return collections.reduce((sum, c) => sum + parseFloat(String(c.total_value || 0)), 0);
-  }, [collections]);
+    return collections.reduce((sum, c) => sum + collectionValue(c), 0);
+  }, [collections, collectionValue]);
 
   const filteredCollections = useMemo(() => {
     if (!searchQuery) return collections;
@@ -126,7 +128,7 @@ export default function Collections() {
           <h1 className="collections-heading">{t('collections.myCollections')}</h1>
           <div className="collections-portfolio-value">
             <span className="portfolio-label">{t('collections.totalPortfolioValue')}</span>
-            <span className="portfolio-amount">${portfolioValue.toFixed(2)}</span>
+            <span className="portfolio-amount">{formatPrice(portfolioValue)}</span>
           </div>
         </div>
         <button onClick={openCreateModal} className="btn-new-collection">
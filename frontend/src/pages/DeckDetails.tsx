@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { decksApi } from '../services/decksApi';
+import { cardsApi } from '../services/cardsApi';
+import { Deck, DeckStats, EXPORT_FORMATS } from '../types/deck';
+import { CardWithDetails, UpdateCardRequest } from '../types/card';
+import { useCurrency } from '../contexts/CurrencyContext';
+import CardsTable from '../components/Cards/CardsTable';
+import DeckLegalityReport from '../components/Decks/DeckLegalityReport';
+import DeckStatsPanel from '../components/Decks/DeckStatsPanel';
+import ExportModal from '../components/Decks/ExportModal';
+import './CollectionDetails.css';
+
+export default function DeckDetails() {
+  const { deckId } = useParams<{ deckId: string }>();
+  const { t } = useTranslation();
+  const { cardPrice, formatPrice } = useCurrency();
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [cards, setCards] = useState<CardWithDetails[]>([]);
+  const [stats, setStats] = useState<DeckStats | null>(null);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const deckStats = useMemo(() => {
+    const totalCards = cards.reduce((sum, card) => sum + (card.quantity || 1), 0);
+    const totalValue = cards.reduce((sum, card) => sum + (cardPrice(card) ?? 0) * (card.quantity || 1), 0);
+    return { totalCards, totalValue };
+  }, [cards, cardPrice]);
+
+  useEffect(() => {
+    if (deckId) {
+      loadDeckData();
+    }
+  }, [deckId]);
+
+  const loadDeckData = async () => {
+    if (!deckId) return;
+
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const [deckData, cardsData, decksData, statsData] = await Promise.all([
+        decksApi.getById(deckId),
+        decksApi.getCards(deckId),
+        decksApi.getAll(),
+        decksApi.getStats(deckId),
+      ]);
+
+      setDeck(deckData);
+      setCards(cardsData);
+      setStats(statsData);
+      setDecks(decksData);
+    } catch (err: any) {
+      setError(err.message || t('decks.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdateCard = async (cardId: string, updates: UpdateCardRequest) => {
+    try {
+      await cardsApi.update(cardId, updates);
+      await loadDeckData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update card');
+    }
+  };
+
+  const handleDeleteCard = async (cardId: string) => {
+    if (!confirm(t('cards.confirmDelete'))) return;
+
+    try {
+      await cardsApi.delete(cardId);
+      await loadDeckData();
+    } catch (err: any) {
+      setError(err.message || t('cards.failedToDelete'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="cd-page">
+        <div className="cd-body">
+          <div className="cd-loading">
+            <p>{t('common.loading')}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!deck) {
+    return (
+      <div className="cd-page">
+        <div className="cd-body">
+          <div className="cd-empty-state">
+            <h2>{error || t('decks.notFound')}</h2>
+            <Link to="/decks" className="cd-btn-add" style={{ textDecoration: 'none', display: 'inline-block', marginTop: '1rem' }}>
+              {t('decks.backToDecks')}
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="cd-page">
+      <div className="cd-body">
+        <Link to="/decks" className="cd-back-link">
+          ← {t('decks.backToDecks')}
+        </Link>
+
+        <div className="cd-heading">
+          <div>
+            <h1 className="cd-title">{deck.name}</h1>
+            <p className="cd-subtitle">{deck.description || t('decks.subtitle')}</p>
+          </div>
+          <div className="cd-heading-actions">
+            {deck.format && <span className="cd-tcg-badge">{t(`decks.formats.${deck.format}`).toUpperCase()}</span>}
+            <button onClick={() => setIsExportModalOpen(true)} className="cd-btn-import">
+              {t('export.exportDeck')}
+            </button>
+          </div>
+        </div>
+
+        <div className="cd-stats">
+          <div className="cd-stat-card">
+            <div className="cd-stat-label">{t('cards.totalValue')}</div>
+            <div className="cd-stat-value cd-stat-green">{formatPrice(deckStats.totalValue)}</div>
+          </div>
+          <div className="cd-stat-card">
+            <div className="cd-stat-label">{t('cards.totalCards')}</div>
+            <div className="cd-stat-value">{deckStats.totalCards.toLocaleString()}</div>
+          </div>
+          <div className="cd-stat-card">
+            <div className="cd-stat-label">{t('cards.uniquePrints')}</div>
+            <div className="cd-stat-value">{cards.length.toLocaleString()}</div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="cd-error">
+            {error}
+            <button onClick={loadDeckData} className="cd-retry-btn">
+              {t('common.retry')}
+            </button>
+          </div>
+        )}
+
+        {stats && stats.card_count > 0 && <DeckStatsPanel stats={stats} />}
+
+        <DeckLegalityReport key={deck.id} deck={deck} cards={cards} />
+
+        {cards.length === 0 ? (
+          <div className="cd-empty-state">
+            <h3>{t('decks.noCards')}</h3>
+            <p>{t('decks.noCardsDescription')}</p>
+          </div>
+        ) : (
+          <CardsTable
+            cards={cards}
+            decks={decks}
+            onUpdate={handleUpdateCard}
+            onDelete={handleDeleteCard}
+          />
+        )}
+      </div>
+
+      <ExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        onExport={(format) => decksApi.export(deck.id, format)}
+        formats={EXPORT_FORMATS}
+        title={t('export.exportDeck')}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { decksApi } from '../services/decksApi';
+import { CreateDeckRequest, Deck } from '../types/deck';
+import DeckModal from '../components/Decks/DeckModal';
+import './Collections.css';
+import './Decks.css';
+
+export default function Decks() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
+
+  useEffect(() => {
+    loadDecks();
+  }, []);
+
+  const loadDecks = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setDecks(await decksApi.getAll());
+    } catch (err: any) {
+      setError(err.message || t('decks.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (data: CreateDeckRequest) => {
+    if (editingDeck) {
+      await decksApi.update(editingDeck.id, data);
+    } else {
+      await decksApi.create(data);
+    }
+    await loadDecks();
+    closeModal();
+  };
+
+  const handleDelete = async (deck: Deck) => {
+    if (!confirm(t('decks.confirmDelete'))) return;
+
+    try {
+      await decksApi.delete(deck.id);
+      await loadDecks();
+    } catch (err: any) {
+      alert(err.message || t('decks.failedToDelete'));
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingDeck(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (deck: Deck) => {
+    setEditingDeck(deck);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingDeck(null);
+  };
+
+  return (
+    <div className="collections-page">
+      <div className="collections-header">
+        <div className="collections-header-left">
+          <h1 className="collections-heading">{t('decks.myDecks')}</h1>
+          <span className="portfolio-label">{t('decks.subtitle')}</span>
+        </div>
+        <button onClick={openCreateModal} className="btn-new-collection">
+          {t('decks.newDeck')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="collections-error">
+          {error}
+          <button onClick={loadDecks} className="collections-retry-btn">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="collections-loading">
+          <div className="collections-spinner" />
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : decks.length === 0 ? (
+        <div className="collections-empty">
+          <div className="collections-empty-icon">🃏</div>
+          <h3>{t('decks.noDecks')}</h3>
+          <p>{t('decks.noDecksDescription')}</p>
+          <button onClick={openCreateModal} className="btn-new-collection" style={{ marginTop: '1rem' }}>
+            {t('decks.createDeck')}
+          </button>
+        </div>
+      ) : (
+        <div className="decks-list">
+          {decks.map((deck) => (
+            <div key={deck.id} className="deck-row" onClick={() => navigate(`/decks/${deck.id}`)}>
+              <div className="deck-row-main">
+                <span className="deck-row-name">{deck.name}</span>
+                {deck.description && <span className="deck-row-description">{deck.description}</span>}
+              </div>
+              {deck.format && <span className="deck-row-format">{t(`decks.formats.${deck.format}`)}</span>}
+              <span className="deck-row-count">{t('decks.cardCount', { count: deck.card_count ?? 0 })}</span>
+              <div className="deck-row-actions" onClick={(e) => e.stopPropagation()}>
+                <button type="button" className="deck-row-btn" onClick={() => openEditModal(deck)}>
+                  {t('common.edit')}
+                </button>
+                <button type="button" className="deck-row-btn deck-row-btn--danger" onClick={() => handleDelete(deck)}>
+                  {t('common.delete')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DeckModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        onSubmit={handleSubmit}
+        deck={editingDeck}
+        title={editingDeck ? t('decks.editDeck') : t('decks.createDeck')}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useParams } from 'react-router-dom';
+import { handoversApi } from '../services/handoversApi';
+import { HandoverWithItems } from '../types/handover';
+import './Collections.css';
+import './Owners.css';
+
+export default function HandoverChecklist() {
+  const { handoverId } = useParams<{ handoverId: string }>();
+  const { t, i18n } = useTranslation();
+
+  const [handover, setHandover] = useState<HandoverWithItems | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadHandover();
+  }, [handoverId]);
+
+  const loadHandover = async () => {
+    if (!handoverId) return;
+
+    try {
+      setIsLoading(true);
+      setError('');
+      setHandover(await handoversApi.getById(handoverId));
+    } catch (err: any) {
+      setError(err.message || t('handovers.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="collections-page handover-checklist">
+      <div className="collections-header">
+        <div className="collections-header-left">
+          <Link to="/owners" className="owners-back-link">← {t('owners.title')}</Link>
+          <h1 className="collections-heading">
+            {handover ? t('handovers.checklistTitle', { name: handover.owner_name }) : t('handovers.checklist')}
+          </h1>
+          {handover && (
+            <span className="portfolio-label">
+              {new Date(handover.created_at).toLocaleString(i18n.language)}
+              {' · '}
+              {t(`handovers.actions.${handover.action}`)}
+              {handover.deck_name && ` · ${handover.deck_name}`}
+              {handover.target_collection_name && ` → ${handover.target_collection_name}`}
+            </span>
+          )}
+        </div>
+        {handover && (
+          <button onClick={() => window.print()} className="btn-new-collection handover-print-btn">
+            {t('handovers.print')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="collections-error">
+          {error}
+          <button onClick={loadHandover} className="collections-retry-btn">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="collections-loading">
+          <div className="collections-spinner" />
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : handover && (
+        <div className="owners-report">
+          {handover.notes && <p className="handover-checklist-notes">{handover.notes}</p>}
+          <table className="owners-report-table">
+            <thead>
+              <tr>
+                <th className="handover-checklist-check" aria-label={t('handovers.checked')} />
+                <th>{t('owners.report.quantity')}</th>
+                <th>{t('owners.report.card')}</th>
+                <th>{t('owners.report.collection')}</th>
+                <th>{t('owners.report.deck')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {handover.items.map((item) => (
+                <tr key={item.card_id}>
+                  <td className="handover-checklist-check">
+                    <input type="checkbox" aria-label={item.card_name ?? item.scryfall_id} />
+                  </td>
+                  <td>{item.quantity}</td>
+                  <td>
+                    {item.card_name ?? item.scryfall_id}
+                    {item.set_code && <span className="owners-report-muted"> ({item.set_code.toUpperCase()})</span>}
+                    {item.finish !== 'nonfoil' && <span className="owners-report-muted"> · {item.finish}</span>}
+                  </td>
+                  <td>{item.collection_name}</td>
+                  <td>
+                    {item.deck_name ?? '—'}
+                    {item.deck_name && item.board !== 'main' && (
+                      <span className="owners-report-muted"> · {t(`cards.boards.${item.board}`)}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="owners-report-total handover-checklist-total">
+            {t('handovers.previewCount', { count: handover.card_count })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
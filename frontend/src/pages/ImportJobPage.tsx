@@ -0,0 +1,61 @@
+import { useParams, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useImportJob } from '../hooks/useImportJob';
+import ImportJobProgress from '../components/Imports/ImportJobProgress';
+import './CollectionDetails.css';
+
+/**
+ * Progress of a background import, reachable again after a reload
+ */
+export default function ImportJobPage() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const { t } = useTranslation();
+  const { job, error, isCancelling, cancel } = useImportJob(jobId ?? null);
+
+  if (!job) {
+    return (
+      <div className="cd-page">
+        <div className="cd-body">
+          {error ? (
+            <div className="cd-empty-state">
+              <h2>{t('imports.notFound')}</h2>
+              <p>{error}</p>
+              <Link to="/collections" className="cd-btn-add" style={{ textDecoration: 'none', display: 'inline-block', marginTop: '1rem' }}>
+                {t('collections.backToCollections')}
+              </Link>
+            </div>
+          ) : (
+            <div className="cd-loading">
+              <p>{t('common.loading')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="cd-page">
+      <div className="cd-body">
+        <Link to={`/collections/${job.collection_id}`} className="cd-back-link">
+          ← {t('imports.backToCollection')}
+        </Link>
+
+        <div className="cd-heading">
+          <div>
+            <h1 className="cd-title">{t(`imports.kinds.${job.kind}`)}</h1>
+            <p className="cd-subtitle">
+              {t('imports.startedAt', { date: new Date(job.created_at).toLocaleString() })}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="cd-error">{t('imports.failedToLoad')}: {error}</div>
+        )}
+
+        <ImportJobProgress job={job} isCancelling={isCancelling} onCancel={cancel} />
+      </div>
+    </div>
+  );
+}
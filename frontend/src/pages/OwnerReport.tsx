@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { ownersApi } from '../services/ownersApi';
+import { Owner, OwnerReport as OwnerReportData } from '../types/owner';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNotification } from '../contexts/NotificationContext';
+import './Collections.css';
+import './Owners.css';
+
+export default function OwnerReport() {
+  const { t } = useTranslation();
+  const { convert, formatPrice } = useCurrency();
+  const { addToast } = useNotification();
+
+  const [owners, setOwners] = useState<Owner[]>([]);
+  const [ownerId, setOwnerId] = useState('');
+  const [reports, setReports] = useState<OwnerReportData[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    ownersApi.getAll().then(setOwners).catch(() => setOwners([]));
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [ownerId]);
+
+  const loadReport = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const loaded = await ownersApi.getReport(ownerId || undefined);
+      setReports(loaded);
+      // A single owner's list is what the user came for: show it open
+      setExpanded(new Set(ownerId ? [ownerId] : []));
+    } catch (err: any) {
+      setError(err.message || t('owners.report.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const file = await ownersApi.exportReport(ownerId || undefined);
+      const url = URL.createObjectURL(new Blob([file.content], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      addToast({ type: 'error', title: t('owners.report.failedToExport'), message: err.message });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const money = (usd: number | null, eur: number | null) => {
+    const value = convert(usd, eur);
+    return value === null ? '—' : formatPrice(value);
+  };
+
+  const totalValue = reports.reduce((sum, report) => sum + (convert(report.total_value, report.total_value_eur) ?? 0), 0);
+
+  return (
+    <div className="collections-page">
+      <div className="collections-header">
+        <div className="collections-header-left">
+          <Link to="/owners" className="owners-back-link">← {t('owners.title')}</Link>
+          <h1 className="collections-heading">{t('owners.report.title')}</h1>
+          <span className="portfolio-label">{t('owners.report.subtitle')}</span>
+        </div>
+        <div className="owners-report-controls">
+          <select
+            className="owners-report-select"
+            value={ownerId}
+            onChange={(e) => setOwnerId(e.target.value)}
+          >
+            <option value="">{t('cards.allOwners')}</option>
+            {owners.map((owner) => (
+              <option key={owner.id} value={owner.id}>{owner.name}</option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="btn-new-collection" disabled={isExporting || isLoading}>
+            {isExporting ? t('owners.report.exporting') : t('owners.report.exportCsv')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="collections-error">
+          {error}
+          <button onClick={loadReport} className="collections-retry-btn">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="collections-loading">
+          <div className="collections-spinner" />
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="collections-empty">
+          <div className="collections-empty-icon">👥</div>
+          <h3>{t('owners.noOwners')}</h3>
+          <p>{t('owners.noOwnersDescription')}</p>
+        </div>
+      ) : (
+        <>
+          {!ownerId && (
+            <p className="owners-report-total">
+              {t('owners.report.total', { count: reports.length, value: formatPrice(totalValue) })}
+            </p>
+          )}
+
+          <div className="owners-report-list">
+            {reports.map((report) => {
+              const isOpen = expanded.has(report.owner.id);
+              return (
+                <div key={report.owner.id} className="owners-report">
+                  <button
+                    type="button"
+                    className="owners-report-summary"
+                    onClick={() => toggle(report.owner.id)}
+                    aria-expanded={isOpen}
+                  >
+                    <span
+                      className="owners-row-color"
+                      style={report.owner.color ? { background: report.owner.color } : undefined}
+                    />
+                    <span className="owners-report-name">
+                      {report.owner.name}
+                      {report.owner.contact && <span className="owners-report-contact">{report.owner.contact}</span>}
+                    </span>
+                    <span className="owners-report-stat">{t('decks.cardCount', { count: report.card_count })}</span>
+                    <span className="owners-report-stat owners-report-value">
+                      {formatPrice(convert(report.total_value, report.total_value_eur) ?? 0)}
+                    </span>
+                    {report.lent_count > 0 && (
+                      <span className="owners-report-lent">{t('owners.report.lentCount', { count: report.lent_count })}</span>
+                    )}
+                    <span className="owners-report-chevron">{isOpen ? '▾' : '▸'}</span>
+                  </button>
+
+                  {report.decks.length > 0 && (
+                    <div className="owners-report-decks">
+                      <span className="owners-report-decks-label">{t('owners.report.inDecks')}</span>
+                      {report.decks.map((deck) => (
+                        <Link key={deck.deck_id} to={`/decks/${deck.deck_id}`} className="owners-report-deck">
+                          {deck.deck_name} · {deck.card_count}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+
+                  {isOpen && (
+                    report.cards.length === 0 ? (
+                      <p className="owners-report-empty">{t('owners.report.noCards')}</p>
+                    ) : (
+                      <table className="owners-report-table">
+                        <thead>
+                          <tr>
+                            <th>{t('owners.report.quantity')}</th>
+                            <th>{t('owners.report.card')}</th>
+                            <th>{t('owners.report.collection')}</th>
+                            <th>{t('owners.report.deck')}</th>
+                            <th>{t('owners.report.lentTo')}</th>
+                            <th className="owners-report-num">{t('owners.report.value')}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.cards.map((card) => (
+                            <tr key={card.card_id}>
+                              <td>{card.quantity}</td>
+                              <td>
+                                {card.card_name ?? card.scryfall_id}
+                                {card.set_code && <span className="owners-report-muted"> ({card.set_code.toUpperCase()})</span>}
+                                {card.finish !== 'nonfoil' && <span className="owners-report-muted"> · {card.finish}</span>}
+                              </td>
+                              <td>
+                                <Link to={`/collections/${card.collection_id}`}>{card.collection_name}</Link>
+                              </td>
+                              <td>
+                                {card.deck_name ?? '—'}
+                                {card.deck_name && card.board !== 'main' && (
+                                  <span className="owners-report-muted"> · {t(`cards.boards.${card.board}`)}</span>
+                                )}
+                              </td>
+                              <td>
+                                {card.lent_quantity > 0 ? `${card.lent_quantity} · ${card.lent_to}` : '—'}
+                              </td>
+                              <td className="owners-report-num">
+                                {money(
+                                  card.unit_price === null ? null : card.unit_price * card.quantity,
+                                  card.unit_price_eur === null ? null : card.unit_price_eur * card.quantity
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useNavigate } from 'react-router-dom';
+import { ownersApi } from '../services/ownersApi';
+import { handoversApi } from '../services/handoversApi';
+import { CreateOwnerRequest, Owner, OwnerDuplicateGroup } from '../types/owner';
+import { Handover, HandoverWithItems } from '../types/handover';
+import { useNotification } from '../contexts/NotificationContext';
+import OwnerModal from '../components/Owners/OwnerModal';
+import HandoverModal from '../components/Owners/HandoverModal';
+import './Collections.css';
+import './Decks.css';
+import './Owners.css';
+
+export default function Owners() {
+  const { t, i18n } = useTranslation();
+  const { addToast } = useNotification();
+  const navigate = useNavigate();
+
+  const [owners, setOwners] = useState<Owner[]>([]);
+  const [duplicates, setDuplicates] = useState<OwnerDuplicateGroup[]>([]);
+  const [handovers, setHandovers] = useState<Handover[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingOwner, setEditingOwner] = useState<Owner | null>(null);
+  const [mergingTargetId, setMergingTargetId] = useState<string | null>(null);
+  const [handoverOwner, setHandoverOwner] = useState<Owner | null>(null);
+
+  useEffect(() => {
+    loadOwners();
+  }, []);
+
+  const loadOwners = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const [loadedOwners, loadedDuplicates, loadedHandovers] = await Promise.all([
+        ownersApi.getAll(),
+        ownersApi.getDuplicates(),
+        handoversApi.getAll(),
+      ]);
+      setOwners(loadedOwners);
+      setDuplicates(loadedDuplicates);
+      setHandovers(loadedHandovers);
+    } catch (err: any) {
+      setError(err.message || t('owners.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (data: CreateOwnerRequest) => {
+    if (editingOwner) {
+      await ownersApi.update(editingOwner.id, data);
+    } else {
+      await ownersApi.create(data);
+    }
+    await loadOwners();
+    closeModal();
+  };
+
+  const handleDelete = async (owner: Owner) => {
+    if (!confirm(t('owners.confirmDelete'))) return;
+
+    try {
+      await ownersApi.delete(owner.id);
+      await loadOwners();
+    } catch (err: any) {
+      alert(err.message || t('owners.failedToDelete'));
+    }
+  };
+
+  const handleMerge = async (group: OwnerDuplicateGroup, targetId: string) => {
+    const target = group.owners.find((o) => o.id === targetId)!;
+    const sourceIds = group.owners.filter((o) => o.id !== targetId).map((o) => o.id);
+    if (!confirm(t('owners.confirmMerge', { name: target.name, count: sourceIds.length }))) return;
+
+    try {
+      setMergingTargetId(targetId);
+      const result = await ownersApi.merge(targetId, sourceIds);
+      addToast({
+        type: 'success',
+        title: t('owners.merged', { name: result.owner.name }),
+        message: t('owners.movedCards', { count: result.moved_cards }),
+      });
+      await loadOwners();
+    } catch (err: any) {
+      addToast({ type: 'error', title: t('owners.failedToMerge'), message: err.message });
+    } finally {
+      setMergingTargetId(null);
+    }
+  };
+
+  const handleHandoverDone = (handover: HandoverWithItems) => {
+    setHandoverOwner(null);
+    addToast({
+      type: 'success',
+      title: t('handovers.done', { name: handover.owner_name }),
+      message: t('handovers.previewCount', { count: handover.card_count }),
+    });
+    navigate(`/handovers/${handover.id}`);
+  };
+
+  const openCreateModal = () => {
+    setEditingOwner(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (owner: Owner) => {
+    setEditingOwner(owner);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingOwner(null);
+  };
+
+  return (
+    <div className="collections-page">
+      <div className="collections-header">
+        <div className="collections-header-left">
+          <h1 className="collections-heading">{t('owners.title')}</h1>
+          <span className="portfolio-label">{t('owners.subtitle')}</span>
+        </div>
+        <div className="owners-header-actions">
+          <Link to="/owners/report" className="owners-report-link">{t('owners.report.open')}</Link>
+          <button onClick={openCreateModal} className="btn-new-collection">
+            {t('owners.newOwner')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="collections-error">
+          {error}
+          <button onClick={loadOwners} className="collections-retry-btn">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {!isLoading && duplicates.length > 0 && (
+        <div className="owners-duplicates">
+          <h3 className="owners-duplicates-title">{t('owners.duplicatesTitle')}</h3>
+          <p className="owners-duplicates-hint">{t('owners.duplicatesHint')}</p>
+          {duplicates.map((group) => (
+            <div key={group.suggested_target_id} className="owners-duplicate-group">
+              <span className="owners-duplicate-names">
+                {group.owners.map((o) => t('owners.nameWithCount', { name: o.name, count: o.card_count ?? 0 })).join(' · ')}
+              </span>
+              <div className="owners-duplicate-actions">
+                {group.owners.map((o) => (
+                  <button
+                    key={o.id}
+                    type="button"
+                    className={`deck-row-btn${o.id === group.suggested_target_id ? ' owners-merge-btn--suggested' : ''}`}
+                    onClick={() => handleMerge(group, o.id)}
+                    disabled={mergingTargetId !== null}
+                  >
+                    {t('owners.mergeInto', { name: o.name })}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="collections-loading">
+          <div className="collections-spinner" />
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : owners.length === 0 ? (
+        <div className="collections-empty">
+          <div className="collections-empty-icon">👥</div>
+          <h3>{t('owners.noOwners')}</h3>
+          <p>{t('owners.noOwnersDescription')}</p>
+          <button onClick={openCreateModal} className="btn-new-collection" style={{ marginTop: '1rem' }}>
+            {t('owners.createOwner')}
+          </button>
+        </div>
+      ) : (
+        <div className="decks-list">
+          {owners.map((owner) => (
+            <div key={owner.id} className="deck-row owners-row">
+              <span
+                className="owners-row-color"
+                style={owner.color ? { background: owner.color } : undefined}
+              />
+              <div className="deck-row-main">
+                <span className="deck-row-name">{owner.name}</span>
+                {owner.contact && <span className="deck-row-description">{owner.contact}</span>}
+              </div>
+              <span className="deck-row-count">{t('decks.cardCount', { count: owner.card_count ?? 0 })}</span>
+              <div className="deck-row-actions">
+                <button
+                  type="button"
+                  className="deck-row-btn"
+                  onClick={() => setHandoverOwner(owner)}
+                  disabled={(owner.card_count ?? 0) === 0}
+                >
+                  {t('handovers.open')}
+                </button>
+                <button type="button" className="deck-row-btn" onClick={() => openEditModal(owner)}>
+                  {t('common.edit')}
+                </button>
+                <button
+                  type="button"
+                  className="deck-row-btn deck-row-btn--danger"
+                  onClick={() => handleDelete(owner)}
+                  disabled={(owner.card_count ?? 0) > 0}
+                  title={(owner.card_count ?? 0) > 0 ? t('owners.hasCards') : undefined}
+                >
+                  {t('common.delete')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && handovers.length > 0 && (
+        <div className="owners-handovers">
+          <h3 className="owners-handovers-title">{t('handovers.history')}</h3>
+          <div className="decks-list">
+            {handovers.map((handover) => (
+              <Link key={handover.id} to={`/handovers/${handover.id}`} className="deck-row">
+                <div className="deck-row-main">
+                  <span className="deck-row-name">{handover.owner_name}</span>
+                  <span className="deck-row-description">
+                    {t(`handovers.actions.${handover.action}`)}
+                    {handover.deck_name && ` · ${handover.deck_name}`}
+                    {handover.target_collection_name && ` → ${handover.target_collection_name}`}
+                  </span>
+                </div>
+                <span className="deck-row-count">{t('decks.cardCount', { count: handover.card_count })}</span>
+                <span className="deck-row-count">{new Date(handover.created_at).toLocaleDateString(i18n.language)}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <HandoverModal
+        isOpen={handoverOwner !== null}
+        onClose={() => setHandoverOwner(null)}
+        onDone={handleHandoverDone}
+        owner={handoverOwner}
+      />
+
+      <OwnerModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        onSubmit={handleSubmit}
+        owner={editingOwner}
+        title={editingOwner ? t('owners.editOwner') : t('owners.createOwner')}
+      />
+    </div>
+  );
+}
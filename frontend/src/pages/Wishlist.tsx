@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { wishlistApi } from '../services/wishlistApi';
+import { TcgType } from '../types/collection';
+import {
+  Wishlist as WishlistData,
+  WishlistItemWithDetails,
+  WishlistPriority,
+  WishlistStatusFilter,
+  WISHLIST_PRIORITIES,
+} from '../types/wishlist';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNotification } from '../contexts/NotificationContext';
+import CardSearchModal from '../components/Cards/CardSearchModal';
+import './Collections.css';
+import './Decks.css';
+import './Wishlist.css';
+
+const STATUS_FILTERS: WishlistStatusFilter[] = ['open', 'fulfilled', 'all'];
+
+export default function Wishlist() {
+  const { t, i18n } = useTranslation();
+  const { convert, formatPrice } = useCurrency();
+  const { addToast } = useNotification();
+
+  const [wishlist, setWishlist] = useState<WishlistData | null>(null);
+  const [status, setStatus] = useState<WishlistStatusFilter>('open');
+  const [tcgType, setTcgType] = useState<TcgType>(TcgType.MAGIC);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  useEffect(() => {
+    loadWishlist();
+  }, [status]);
+
+  const loadWishlist = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setWishlist(await wishlistApi.get(status));
+    } catch (err: any) {
+      setError(err.message || t('wishlist.failedToLoad'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePriorityChange = async (item: WishlistItemWithDetails, priority: WishlistPriority) => {
+    try {
+      await wishlistApi.update(item.id, { priority });
+      await loadWishlist();
+    } catch (err: any) {
+      addToast({ type: 'error', title: t('wishlist.failedToUpdate'), message: err.message });
+    }
+  };
+
+  const handleDelete = async (item: WishlistItemWithDetails) => {
+    if (!confirm(t('wishlist.confirmDelete', { name: item.card_name }))) return;
+
+    try {
+      await wishlistApi.delete(item.id);
+      await loadWishlist();
+    } catch (err: any) {
+      addToast({ type: 'error', title: t('wishlist.failedToDelete'), message: err.message });
+    }
+  };
+
+  const price = (usd: number | null, eur?: number | null) => {
+    const value = convert(usd, eur);
+    return value === null ? '—' : formatPrice(value);
+  };
+
+  return (
+    <div className="collections-page">
+      <div className="collections-header">
+        <div className="collections-header-left">
+          <h1 className="collections-heading">{t('wishlist.title')}</h1>
+          <span className="portfolio-label">{t('wishlist.subtitle')}</span>
+        </div>
+        <div className="wishlist-header-actions">
+          <select
+            className="wishlist-select"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as WishlistStatusFilter)}
+            aria-label={t('wishlist.statusLabel')}
+          >
+            {STATUS_FILTERS.map((s) => (
+              <option key={s} value={s}>{t(`wishlist.statuses.${s}`)}</option>
+            ))}
+          </select>
+          <select
+            className="wishlist-select"
+            value={tcgType}
+            onChange={(e) => setTcgType(e.target.value as TcgType)}
+            aria-label={t('wishlist.gameLabel')}
+          >
+            {Object.values(TcgType).map((tcg) => (
+              <option key={tcg} value={tcg}>{t(`collections.tcgTypes.${tcg}`)}</option>
+            ))}
+          </select>
+          <button onClick={() => setIsSearchOpen(true)} className="btn-new-collection">
+            {t('wishlist.addCard')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="collections-error">
+          {error}
+          <button onClick={loadWishlist} className="collections-retry-btn">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {!isLoading && wishlist && wishlist.open_count > 0 && (
+        <div className="wishlist-summary">
+          {t('wishlist.openCost', {
+            count: wishlist.open_count,
+            total: price(wishlist.total_cost, wishlist.total_cost_eur),
+          })}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="collections-loading">
+          <div className="collections-spinner" />
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : !wishlist || wishlist.items.length === 0 ? (
+        <div className="collections-empty">
+          <div className="collections-empty-icon">⭐</div>
+          <h3>{t('wishlist.empty')}</h3>
+          <p>{t('wishlist.emptyDescription')}</p>
+        </div>
+      ) : (
+        <div className="decks-list">
+          {wishlist.items.map((item) => (
+            <div key={item.id} className={`deck-row wishlist-row${item.fulfilled_at ? ' wishlist-row--fulfilled' : ''}`}>
+              <div className="deck-row-main">
+                <span className="deck-row-name">
+                  {item.card_name}
+                  {!item.any_printing && item.scryfall_data && (
+                    <span className="wishlist-muted"> ({item.scryfall_data.set.toUpperCase()})</span>
+                  )}
+                </span>
+                <span className="deck-row-description">
+                  {item.any_printing ? t('wishlist.anyPrintingShort') : item.scryfall_data?.set_name}
+                  {' · '}
+                  {t(`wishlist.finishes.${item.finish ?? 'any'}`)}
+                  {item.notes && ` · ${item.notes}`}
+                </span>
+              </div>
+              <span className="deck-row-count">
+                {t('wishlist.progress', { acquired: item.acquired_quantity, quantity: item.quantity })}
+              </span>
+              <span className="deck-row-count wishlist-price">
+                {price(item.unit_price, item.unit_price_eur)}
+                {item.max_price !== null && (
+                  <span className="wishlist-muted"> / {t('wishlist.maxShort', { price: price(item.max_price) })}</span>
+                )}
+                {!item.fulfilled_at && item.max_price !== null && item.unit_price !== null &&
+                  item.unit_price <= item.max_price && (
+                  <span className="wishlist-badge wishlist-badge--deal">{t('wishlist.underMax')}</span>
+                )}
+              </span>
+              {item.fulfilled_at ? (
+                <span className="wishlist-badge wishlist-badge--fulfilled">
+                  {t('wishlist.fulfilledOn', { date: new Date(item.fulfilled_at).toLocaleDateString(i18n.language) })}
+                </span>
+              ) : (
+                <select
+                  className="wishlist-select"
+                  value={item.priority}
+                  onChange={(e) => handlePriorityChange(item, e.target.value as WishlistPriority)}
+                  aria-label={t('wishlist.priority')}
+                >
+                  {WISHLIST_PRIORITIES.map((p) => (
+                    <option key={p} value={p}>{t(`wishlist.priorities.${p}`)}</option>
+                  ))}
+                </select>
+              )}
+              <div className="deck-row-actions">
+                <button
+                  type="button"
+                  className="deck-row-btn deck-row-btn--danger"
+                  onClick={() => handleDelete(item)}
+                >
+                  {t('common.delete')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CardSearchModal
+        isOpen={isSearchOpen}
+        tcgType={tcgType}
+        decks={[]}
+        onClose={() => setIsSearchOpen(false)}
+        onWishlistAdded={loadWishlist}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,14 @@
-import { Collection, CreateCollectionRequest, UpdateCollectionRequest } from '../types/collection';
-import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+import {
+  Collection,
+  CollectionMovers,
+  CollectionValuePoint,
+  CreateCollectionRequest,
+  PriceMoverSort,
+  UpdateCollectionRequest,
+  ValueHistoryInterval,
+} from '../types/collection';
+import { ExportedFile, ExportFormat } from '../types/deck';
+import { getAuthHeaders, handleFileResponse, handleResponse, fetchWithConnectionCheck } from './fetchClient';
 
 /**
  * Collections API
@@ -67,4 +76,43 @@ export const collectionsApi = {
     // We don't need the message, just verify success
     await handleResponse<{ message: string }>(response);
   },
+
+  /**
+   * Get a collection's total value over time (one point per day/week/month)
+   */
+  getValueHistory: async (
+    id: string,
+    interval: ValueHistoryInterval,
+    days: number
+  ): Promise<CollectionValuePoint[]> => {
+    const params = new URLSearchParams({ interval, days: String(days) });
+    const response = await fetchWithConnectionCheck(`/api/collections/${id}/value-history?${params}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<CollectionValuePoint[]>(response);
+  },
+
+  /**
+   * Get a collection's top price gainers and losers over a window
+   */
+  getMovers: async (id: string, days: number, sort: PriceMoverSort): Promise<CollectionMovers> => {
+    const params = new URLSearchParams({ days: String(days), sort });
+    const response = await fetchWithConnectionCheck(`/api/collections/${id}/movers?${params}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<CollectionMovers>(response);
+  },
+  /**
+   * Export a collection's cards (Arena and MTGO only for Magic collections)
+   */
+  export: async (id: string, format: ExportFormat): Promise<ExportedFile> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${id}/export?format=${format}`, {
+      headers: getAuthHeaders(),
+    });
+
+    const file = await handleFileResponse(response);
+    return { filename: file.filename ?? `collection.${format}`, content: file.content };
+  },
 };
@@ -4,7 +4,15 @@ import {
   UpdateCardRequest,
   ScryfallSearchResponse,
   ScryfallAutocompleteResponse,
+  ScryfallCard,
+  ConsolidationReport,
+  DeckImportCommitCard,
+  DeckImportPreview,
+  DeckListEntry,
+  ParsedDeckList,
 } from '../types/card';
+import { TcgType } from '../types/collection';
+import { ImportJob } from '../types/importJob';
 import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
 
 /**
@@ -47,6 +55,19 @@ export const cardsApi = {
     return handleResponse<CardWithDetails>(response);
   },
 
+  /**
+   * Merge duplicate rows of a collection (same printing, finish, owner,
+   * deck section and borrowed status) into one row per card
+   */
+  consolidateDuplicates: async (collectionId: string): Promise<ConsolidationReport> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/cards/consolidate`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ConsolidationReport>(response);
+  },
+
   /**
    * Update a card
    */
@@ -73,41 +94,121 @@ export const cardsApi = {
   },
 
   /**
-   * Import a deck list (bulk add cards by name)
+   * Parse a deck list on the server without importing it (import preview)
+   */
+  parseDeckList: async (text: string): Promise<ParsedDeckList> => {
+    const response = await fetchWithConnectionCheck('/api/cards/parse-deck-list', {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ text }),
+    });
+
+    return handleResponse<ParsedDeckList>(response);
+  },
+
+  /**
+   * Queue a deck list import (Arena, MTGO, Moxfield or Archidekt text),
+   * optionally into a deck by section. Atomic imports are rejected whole
+   * if any card is not found.
    */
   importDeckList: async (
     collectionId: string,
-    entries: { name: string; quantity: number }[],
-    ownerName: string
-  ): Promise<{ imported: CardWithDetails[]; failed: { name: string; reason: string }[] }> => {
+    text: string,
+    ownerId: string,
+    deckId?: string | null,
+    atomic = false
+  ): Promise<ImportJob> => {
     const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/cards/import`, {
       method: 'POST',
       headers: getAuthHeaders(),
-      body: JSON.stringify({ entries, owner_name: ownerName }),
+      body: JSON.stringify({ text, owner_id: ownerId, deck_id: deckId || null, atomic }),
     });
 
-    return handleResponse<{ imported: CardWithDetails[]; failed: { name: string; reason: string }[] }>(response);
+    return handleResponse<ImportJob>(response);
   },
 
   /**
-   * Search cards via Scryfall
+   * Resolve a deck list without importing it: printing, price and name
+   * suggestions per entry. Pass entries to re-check corrected rows.
    */
-  searchCards: async (query: string): Promise<ScryfallSearchResponse> => {
-    const response = await fetchWithConnectionCheck(`/api/cards/search?q=${encodeURIComponent(query)}`, {
+  previewDeckImport: async (
+    collectionId: string,
+    source: string | Partial<DeckListEntry>[]
+  ): Promise<DeckImportPreview> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/cards/import/preview`, {
+      method: 'POST',
       headers: getAuthHeaders(),
+      body: JSON.stringify(typeof source === 'string' ? { text: source } : { entries: source }),
     });
 
-    return handleResponse<ScryfallSearchResponse>(response);
+    return handleResponse<DeckImportPreview>(response);
   },
 
   /**
-   * Get autocomplete suggestions from Scryfall
+   * Queue the reviewed rows of an import preview (imported in one transaction)
    */
-  autocomplete: async (query: string): Promise<ScryfallAutocompleteResponse> => {
-    const response = await fetchWithConnectionCheck(`/api/cards/autocomplete?q=${encodeURIComponent(query)}`, {
+  commitDeckImport: async (
+    collectionId: string,
+    cards: DeckImportCommitCard[],
+    ownerId: string,
+    deckId?: string | null
+  ): Promise<ImportJob> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/cards/import/commit`, {
+      method: 'POST',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ cards, owner_id: ownerId, deck_id: deckId || null }),
     });
 
+    return handleResponse<ImportJob>(response);
+  },
+
+  /**
+   * Queue a collection CSV import from Moxfield, Deckbox, TCGplayer, Delver
+   * Lens or ManaBox (format detected by the server)
+   */
+  importCsv: async (collectionId: string, csv: string, ownerId: string): Promise<ImportJob> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/cards/import-csv`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ csv, owner_id: ownerId }),
+    });
+
+    return handleResponse<ImportJob>(response);
+  },
+
+  /**
+   * Search cards with the card data provider for a TCG
+   */
+  searchCards: async (query: string, tcgType: TcgType = TcgType.MAGIC): Promise<ScryfallSearchResponse> => {
+    const response = await fetchWithConnectionCheck(
+      `/api/cards/search?q=${encodeURIComponent(query)}&tcg_type=${tcgType}`,
+      { headers: getAuthHeaders() }
+    );
+
+    return handleResponse<ScryfallSearchResponse>(response);
+  },
+
+  /**
+   * Get autocomplete suggestions for a TCG
+   */
+  autocomplete: async (query: string, tcgType: TcgType = TcgType.MAGIC): Promise<ScryfallAutocompleteResponse> => {
+    const response = await fetchWithConnectionCheck(
+      `/api/cards/autocomplete?q=${encodeURIComponent(query)}&tcg_type=${tcgType}`,
+      { headers: getAuthHeaders() }
+    );
+
     return handleResponse<ScryfallAutocompleteResponse>(response);
   },
+
+  /**
+   * Get every printing of a card
+   */
+  getPrintings: async (name: string, tcgType: TcgType = TcgType.MAGIC): Promise<ScryfallCard[]> => {
+    const response = await fetchWithConnectionCheck(
+      `/api/cards/printings?name=${encodeURIComponent(name)}&tcg_type=${tcgType}`,
+      { headers: getAuthHeaders() }
+    );
+
+    return handleResponse<ScryfallCard[]>(response);
+  },
 };
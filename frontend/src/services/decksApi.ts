@@ -0,0 +1,126 @@
+import { CardWithDetails } from '../types/card';
+import {
+  CreateDeckRequest,
+  Deck,
+  DeckFormat,
+  DeckLegalityReport,
+  DeckStats,
+  ExportedFile,
+  ExportFormat,
+  UpdateDeckRequest,
+} from '../types/deck';
+import { getAuthHeaders, handleFileResponse, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Decks API
+ * All methods require authentication via JWT token
+ */
+export const decksApi = {
+  /**
+   * Get all decks for the current user
+   */
+  getAll: async (): Promise<Deck[]> => {
+    const response = await fetchWithConnectionCheck('/api/decks', {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<Deck[]>(response);
+  },
+
+  /**
+   * Get a single deck by ID
+   */
+  getById: async (id: string): Promise<Deck> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<Deck>(response);
+  },
+
+  /**
+   * Create a new deck
+   */
+  create: async (deck: CreateDeckRequest): Promise<Deck> => {
+    const response = await fetchWithConnectionCheck('/api/decks', {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(deck),
+    });
+
+    return handleResponse<Deck>(response);
+  },
+
+  /**
+   * Update a deck
+   */
+  update: async (id: string, updates: UpdateDeckRequest): Promise<Deck> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    return handleResponse<Deck>(response);
+  },
+
+  /**
+   * Delete a deck (its cards stay in their collections)
+   */
+  delete: async (id: string): Promise<void> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    await handleResponse<void>(response);
+  },
+
+  /**
+   * Get the cards in a deck, from all collections
+   */
+  getCards: async (id: string): Promise<CardWithDetails[]> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}/cards`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<CardWithDetails[]>(response);
+  },
+
+  /**
+   * Get a deck's mana curve, color pips and type breakdown
+   */
+  getStats: async (id: string): Promise<DeckStats> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}/stats`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<DeckStats>(response);
+  },
+
+  /**
+   * Check a deck against a format (defaults to the deck's format)
+   */
+  getLegality: async (id: string, format?: DeckFormat, commanders: string[] = []): Promise<DeckLegalityReport> => {
+    const params = new URLSearchParams();
+    if (format) params.append('format', format);
+    commanders.forEach((name) => params.append('commander', name));
+
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}/legality?${params}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<DeckLegalityReport>(response);
+  },
+  /**
+   * Export a deck as an Arena list, MTGO .dek, Moxfield CSV or JSON
+   */
+  export: async (id: string, format: ExportFormat): Promise<ExportedFile> => {
+    const response = await fetchWithConnectionCheck(`/api/decks/${id}/export?format=${format}`, {
+      headers: getAuthHeaders(),
+    });
+
+    const file = await handleFileResponse(response);
+    return { filename: file.filename ?? `deck.${format}`, content: file.content };
+  },
+};
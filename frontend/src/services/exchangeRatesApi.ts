@@ -0,0 +1,32 @@
+import { Currency, ExchangeRate } from '../types/currency';
+import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Exchange Rates API
+ * All methods require authentication via JWT token
+ */
+export const exchangeRatesApi = {
+  /**
+   * Get all exchange rates (units of each currency per 1 USD)
+   */
+  getAll: async (): Promise<ExchangeRate[]> => {
+    const response = await fetchWithConnectionCheck('/api/exchange-rates', {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ExchangeRate[]>(response);
+  },
+
+  /**
+   * Set exchange rates (admin only)
+   */
+  update: async (rates: Partial<Record<Currency, number>>): Promise<ExchangeRate[]> => {
+    const response = await fetchWithConnectionCheck('/api/exchange-rates', {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ rates }),
+    });
+
+    return handleResponse<ExchangeRate[]>(response);
+  },
+};
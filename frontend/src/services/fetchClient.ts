@@ -22,6 +22,22 @@ export async function handleResponse<T>(response: Response): Promise<T> {
   return result.data;
 }
 
+/**
+ * Read a file download (e.g. an export): its text and the file name from
+ * Content-Disposition. Errors still arrive as JSON.
+ */
+export async function handleFileResponse(response: Response): Promise<{ filename: string | null; content: string }> {
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const match = disposition.match(/filename="?([^";]+)"?/);
+
+  return { filename: match ? match[1] : null, content: await response.text() };
+}
+
 export async function fetchWithConnectionCheck(
   url: string,
   options?: RequestInit,
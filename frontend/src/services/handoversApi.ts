@@ -0,0 +1,63 @@
+import {
+  CreateHandoverRequest,
+  Handover,
+  HandoverAction,
+  HandoverPreview,
+  HandoverWithItems,
+} from '../types/handover';
+import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Handovers API
+ * All methods require authentication via JWT token
+ */
+export const handoversApi = {
+  /**
+   * Get the user's handovers (or only ownerId's), newest first
+   */
+  getAll: async (ownerId?: string): Promise<Handover[]> => {
+    const query = ownerId ? `?owner_id=${ownerId}` : '';
+    const response = await fetchWithConnectionCheck(`/api/handovers${query}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<Handover[]>(response);
+  },
+
+  /**
+   * Get a handover with the cards it affected
+   */
+  getById: async (id: string): Promise<HandoverWithItems> => {
+    const response = await fetchWithConnectionCheck(`/api/handovers/${id}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<HandoverWithItems>(response);
+  },
+
+  /**
+   * List the owner's cards a handover would affect, without changing anything
+   */
+  preview: async (ownerId: string, action: HandoverAction, deckId?: string): Promise<HandoverPreview> => {
+    const params = new URLSearchParams({ owner_id: ownerId, action });
+    if (deckId) params.set('deck_id', deckId);
+    const response = await fetchWithConnectionCheck(`/api/handovers/preview?${params}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<HandoverPreview>(response);
+  },
+
+  /**
+   * Hand an owner's cards over and record it
+   */
+  create: async (data: CreateHandoverRequest): Promise<HandoverWithItems> => {
+    const response = await fetchWithConnectionCheck('/api/handovers', {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    return handleResponse<HandoverWithItems>(response);
+  },
+};
@@ -0,0 +1,47 @@
+import { ImportJob } from '../types/importJob';
+import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Import Jobs API
+ * Imports run in the background; these follow and cancel them.
+ * All methods require authentication via JWT token
+ */
+export const importJobsApi = {
+  /**
+   * List the user's import jobs, newest first
+   */
+  getAll: async (filters: { collectionId?: string; active?: boolean } = {}): Promise<ImportJob[]> => {
+    const params = new URLSearchParams();
+    if (filters.collectionId) params.append('collection_id', filters.collectionId);
+    if (filters.active) params.append('active', 'true');
+
+    const response = await fetchWithConnectionCheck(`/api/import-jobs?${params}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ImportJob[]>(response);
+  },
+
+  /**
+   * Get an import job and its progress
+   */
+  getById: async (id: string): Promise<ImportJob> => {
+    const response = await fetchWithConnectionCheck(`/api/import-jobs/${id}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ImportJob>(response);
+  },
+
+  /**
+   * Cancel a pending or running import job
+   */
+  cancel: async (id: string): Promise<ImportJob> => {
+    const response = await fetchWithConnectionCheck(`/api/import-jobs/${id}/cancel`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ImportJob>(response);
+  },
+};
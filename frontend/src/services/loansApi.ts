@@ -0,0 +1,70 @@
+import { CardLoan, CardLoanWithCard, LoanStatusFilter, OpenLoanRequest } from '../types/loan';
+import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Loans API
+ * Ledger of the cards lent to and borrowed from other people.
+ * All methods require authentication via JWT token
+ */
+export const loansApi = {
+  /**
+   * List a collection's loans, overdue first
+   */
+  getForCollection: async (collectionId: string, status: LoanStatusFilter = 'all'): Promise<CardLoanWithCard[]> => {
+    const response = await fetchWithConnectionCheck(`/api/collections/${collectionId}/loans?status=${status}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<CardLoanWithCard[]>(response);
+  },
+
+  /**
+   * List a card's loans, newest first
+   */
+  getForCard: async (cardId: string): Promise<CardLoan[]> => {
+    const response = await fetchWithConnectionCheck(`/api/cards/${cardId}/loans`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<CardLoan[]>(response);
+  },
+
+  /**
+   * Lend copies of a card, or record copies borrowed (which marks the card borrowed)
+   */
+  open: async (cardId: string, data: OpenLoanRequest): Promise<CardLoan> => {
+    const response = await fetchWithConnectionCheck(`/api/cards/${cardId}/loans`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    return handleResponse<CardLoan>(response);
+  },
+
+  /**
+   * Change the due date of an open loan (null for no due date)
+   */
+  extend: async (id: string, dueDate: string | null): Promise<CardLoan> => {
+    const response = await fetchWithConnectionCheck(`/api/loans/${id}/extend`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ due_date: dueDate }),
+    });
+
+    return handleResponse<CardLoan>(response);
+  },
+
+  /**
+   * Close a loan (returned today unless a date is given)
+   */
+  markReturned: async (id: string, returnedDate?: string): Promise<CardLoan> => {
+    const response = await fetchWithConnectionCheck(`/api/loans/${id}/return`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(returnedDate ? { returned_date: returnedDate } : {}),
+    });
+
+    return handleResponse<CardLoan>(response);
+  },
+};
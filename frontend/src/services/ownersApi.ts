@@ -0,0 +1,114 @@
+import {
+  CreateOwnerRequest,
+  Owner,
+  OwnerDuplicateGroup,
+  OwnerMergeResult,
+  OwnerReport,
+  UpdateOwnerRequest,
+} from '../types/owner';
+import { ExportedFile } from '../types/deck';
+import { getAuthHeaders, handleResponse, handleFileResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Owners API
+ * All methods require authentication via JWT token
+ */
+export const ownersApi = {
+  /**
+   * Get all owners for the current user, with their card counts
+   */
+  getAll: async (): Promise<Owner[]> => {
+    const response = await fetchWithConnectionCheck('/api/owners', {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<Owner[]>(response);
+  },
+
+  /**
+   * Get owners whose names differ only in case, accents or spacing
+   */
+  getDuplicates: async (): Promise<OwnerDuplicateGroup[]> => {
+    const response = await fetchWithConnectionCheck('/api/owners/duplicates', {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<OwnerDuplicateGroup[]>(response);
+  },
+
+  /**
+   * Get what each owner (or only ownerId) has across all collections
+   */
+  getReport: async (ownerId?: string): Promise<OwnerReport[]> => {
+    const query = ownerId ? `?owner_id=${ownerId}` : '';
+    const response = await fetchWithConnectionCheck(`/api/owners/report${query}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<OwnerReport[]>(response);
+  },
+
+  /**
+   * Export the owner report (or only ownerId's list) as CSV
+   */
+  exportReport: async (ownerId?: string): Promise<ExportedFile> => {
+    const query = ownerId ? `?owner_id=${ownerId}` : '';
+    const response = await fetchWithConnectionCheck(`/api/owners/report/export${query}`, {
+      headers: getAuthHeaders(),
+    });
+
+    const file = await handleFileResponse(response);
+    return { filename: file.filename ?? 'owners-report.csv', content: file.content };
+  },
+
+  /**
+   * Create a new owner
+   */
+  create: async (owner: CreateOwnerRequest): Promise<Owner> => {
+    const response = await fetchWithConnectionCheck('/api/owners', {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(owner),
+    });
+
+    return handleResponse<Owner>(response);
+  },
+
+  /**
+   * Update an owner
+   */
+  update: async (id: string, updates: UpdateOwnerRequest): Promise<Owner> => {
+    const response = await fetchWithConnectionCheck(`/api/owners/${id}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    return handleResponse<Owner>(response);
+  },
+
+  /**
+   * Delete an owner without cards
+   */
+  delete: async (id: string): Promise<void> => {
+    const response = await fetchWithConnectionCheck(`/api/owners/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    await handleResponse<void>(response);
+  },
+
+  /**
+   * Merge other owners into one (their cards move to it)
+   */
+  merge: async (id: string, sourceIds: string[]): Promise<OwnerMergeResult> => {
+    const response = await fetchWithConnectionCheck(`/api/owners/${id}/merge`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ source_ids: sourceIds }),
+    });
+
+    return handleResponse<OwnerMergeResult>(response);
+  },
+};
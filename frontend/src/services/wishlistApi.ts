@@ -0,0 +1,63 @@
+import {
+  AddWishlistItemRequest,
+  UpdateWishlistItemRequest,
+  Wishlist,
+  WishlistItem,
+  WishlistStatusFilter,
+} from '../types/wishlist';
+import { getAuthHeaders, handleResponse, fetchWithConnectionCheck } from './fetchClient';
+
+/**
+ * Wishlist API
+ * All methods require authentication via JWT token
+ */
+export const wishlistApi = {
+  /**
+   * Get the wishlist with current prices (open items unless status says otherwise)
+   */
+  get: async (status: WishlistStatusFilter = 'open'): Promise<Wishlist> => {
+    const response = await fetchWithConnectionCheck(`/api/wishlist?status=${status}`, {
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<Wishlist>(response);
+  },
+
+  /**
+   * Add a card to the wishlist (an identical open item gets the quantity added)
+   */
+  add: async (item: AddWishlistItemRequest): Promise<WishlistItem> => {
+    const response = await fetchWithConnectionCheck('/api/wishlist', {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(item),
+    });
+
+    return handleResponse<WishlistItem>(response);
+  },
+
+  /**
+   * Update a wishlist item
+   */
+  update: async (id: string, updates: UpdateWishlistItemRequest): Promise<WishlistItem> => {
+    const response = await fetchWithConnectionCheck(`/api/wishlist/${id}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    return handleResponse<WishlistItem>(response);
+  },
+
+  /**
+   * Remove an item from the wishlist
+   */
+  delete: async (id: string): Promise<void> => {
+    const response = await fetchWithConnectionCheck(`/api/wishlist/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    await handleResponse<void>(response);
+  },
+};
@@ -26,19 +26,39 @@ export interface ScryfallCard {
   color_identity?: string[];
   set: string;
   set_name: string;
+  collector_number?: string;
   rarity: string;
   image_uris?: ScryfallImageUris;
+  finishes?: string[];
   prices?: {
     usd?: string | null;
     usd_foil?: string | null;
+    usd_etched?: string | null;
     eur?: string | null;
     eur_foil?: string | null;
   };
   legalities?: {
     [format: string]: 'legal' | 'not_legal' | 'restricted' | 'banned';
   };
+  // Yu-Gi-Oh! monster stats (null for spells, traps and missing values)
+  atk?: number | null;
+  def?: number | null;
+  level?: number | null;
+  attribute?: string | null;
 }
 
+/**
+ * Physical finish of a card copy
+ */
+export type CardFinish = 'nonfoil' | 'foil' | 'etched';
+
+/**
+ * Section of a deck a card is in
+ */
+export type DeckBoard = 'main' | 'sideboard' | 'commander';
+
+export const DECK_BOARDS: DeckBoard[] = ['main', 'sideboard', 'commander'];
+
 /**
  * Card Model
  */
@@ -46,14 +66,20 @@ export interface Card {
   id: string;
   collection_id: string;
   scryfall_id: string;
-  owner_name: string;
-  current_deck: string | null;
+  owner_id: string;
+  deck_id: string | null;
+  board: DeckBoard;
   is_borrowed: boolean;
-  is_foil: boolean;
+  finish: CardFinish;
   quantity: number;
   set_code: string | null;
   set_name: string | null;
-  price_usd: number;
+  // Prices stored when the card was added (NUMERIC columns arrive as strings)
+  price_usd: number | string | null;
+  price_usd_foil: number | string | null;
+  price_usd_etched: number | string | null;
+  price_eur: number | string | null;
+  price_eur_foil: number | string | null;
   added_at: string;
 }
 
@@ -61,6 +87,8 @@ export interface Card {
  * Card with Scryfall Details
  */
 export interface CardWithDetails extends Card {
+  owner_name: string;
+  deck_name: string | null;
   scryfall_data: ScryfallCard | null;
 }
 
@@ -69,8 +97,9 @@ export interface CardWithDetails extends Card {
  */
 export interface AddCardRequest {
   scryfall_id: string;
-  owner_name: string;
-  current_deck?: string;
+  owner_id: string;
+  deck_id?: string | null;
+  board?: DeckBoard;
   is_borrowed?: boolean;
   quantity?: number;
   set_code?: string;
@@ -81,15 +110,106 @@ export interface AddCardRequest {
  * Update Card Request
  */
 export interface UpdateCardRequest {
-  owner_name?: string;
-  current_deck?: string;
+  owner_id?: string;
+  deck_id?: string | null;
+  board?: DeckBoard;
   is_borrowed?: boolean;
-  is_foil?: boolean;
+  finish?: CardFinish;
   quantity?: number;
   set_code?: string;
   set_name?: string;
 }
 
+/**
+ * Collection CSV exports the importer recognizes
+ */
+export type CsvImportFormat = 'moxfield' | 'deckbox' | 'tcgplayer' | 'delver_lens' | 'manabox';
+
+/**
+ * One card line read from a deck list by the server
+ */
+export interface DeckListEntry {
+  line: number;
+  name: string;
+  quantity: number;
+  set_code: string | null;
+  collector_number: string | null;
+  finish: CardFinish | null;
+  board: DeckBoard;
+}
+
+/**
+ * Parsed deck list: card entries and lines that were skipped
+ */
+export interface ParsedDeckList {
+  entries: DeckListEntry[];
+  errors: ImportFailure[];
+}
+
+/**
+ * Deck list entry resolved without importing it (import preview); prices
+ * are for the entry's finish
+ */
+export interface DeckImportPreviewEntry extends DeckListEntry {
+  card: ScryfallCard | null;
+  price_usd: number | null;
+  price_eur: number | null;
+  reason: string | null;
+  suggestions: string[];
+}
+
+/**
+ * Import preview of a deck list
+ */
+export interface DeckImportPreview {
+  entries: DeckImportPreviewEntry[];
+  errors: ImportFailure[];
+}
+
+/**
+ * Card row committed after an import preview
+ */
+export interface DeckImportCommitCard {
+  scryfall_id: string;
+  quantity: number;
+  finish?: CardFinish | null;
+  board?: DeckBoard;
+}
+
+/**
+ * Entry that could not be imported (line is set for deck list lines and CSV rows)
+ */
+export interface ImportFailure {
+  name: string;
+  reason: string;
+  line?: number;
+}
+
+/**
+ * Duplicate rows of one card merged into its oldest row
+ */
+export interface ConsolidatedCard {
+  card_id: string;
+  merged_card_ids: string[];
+  scryfall_id: string;
+  name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  owner_id: string;
+  deck_id: string | null;
+  board: DeckBoard;
+  is_borrowed: boolean;
+  quantity: number;
+}
+
+/**
+ * Result of merging a collection's duplicate rows
+ */
+export interface ConsolidationReport {
+  merged_rows: number;
+  cards: ConsolidatedCard[];
+}
+
 /**
  * Scryfall Search Response
  */
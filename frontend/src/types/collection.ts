@@ -12,6 +12,7 @@ export interface Collection {
   created_at: string;
   card_count?: number;
   total_value?: number;
+  total_value_eur?: number;
   cover_card_id?: string | null;
 }
 
@@ -24,3 +25,34 @@ export interface UpdateCollectionRequest {
   name?: string;
   tcg_type?: TcgType;
 }
+
+export type ValueHistoryInterval = 'day' | 'week' | 'month';
+
+export interface CollectionValuePoint {
+  date: string;
+  total_value: number;
+  card_count: number;
+}
+
+export type PriceMoverSort = 'absolute' | 'percent';
+
+export interface PriceMover {
+  card_id: string;
+  scryfall_id: string;
+  name: string | null;
+  set_code: string | null;
+  finish: 'nonfoil' | 'foil' | 'etched';
+  quantity: number;
+  start_price: number;
+  end_price: number;
+  change: number;
+  change_pct: number | null;
+  value_change: number;
+}
+
+export interface CollectionMovers {
+  days: number;
+  sort: PriceMoverSort;
+  gainers: PriceMover[];
+  losers: PriceMover[];
+}
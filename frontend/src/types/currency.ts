@@ -0,0 +1,9 @@
+export type Currency = 'USD' | 'BRL' | 'EUR';
+
+export const CURRENCIES: Currency[] = ['USD', 'BRL', 'EUR'];
+
+export interface ExchangeRate {
+  currency: Currency;
+  rate_per_usd: number;
+  updated_at: string;
+}
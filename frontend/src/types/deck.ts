@@ -0,0 +1,104 @@
+export type DeckFormat =
+  | 'standard'
+  | 'pioneer'
+  | 'modern'
+  | 'legacy'
+  | 'vintage'
+  | 'pauper'
+  | 'commander';
+
+export const DECK_FORMATS: DeckFormat[] = [
+  'standard',
+  'pioneer',
+  'modern',
+  'legacy',
+  'vintage',
+  'pauper',
+  'commander',
+];
+
+export interface Deck {
+  id: string;
+  user_id: string;
+  name: string;
+  format: DeckFormat | null;
+  description: string | null;
+  created_at: string;
+  card_count?: number;
+}
+
+export interface CreateDeckRequest {
+  name: string;
+  format?: DeckFormat | null;
+  description?: string | null;
+}
+
+export interface UpdateDeckRequest {
+  name?: string;
+  format?: DeckFormat | null;
+  description?: string | null;
+}
+
+export type LegalityViolationCode =
+  | 'deck_size'
+  | 'banned'
+  | 'not_legal'
+  | 'restricted'
+  | 'too_many_copies'
+  | 'missing_card_data'
+  | 'commander_missing'
+  | 'commander_not_in_deck'
+  | 'invalid_commander'
+  | 'color_identity';
+
+export interface LegalityViolation {
+  code: LegalityViolationCode;
+  message: string;
+  card_name?: string;
+  count?: number;
+  limit?: number;
+  colors?: string[];
+}
+
+export interface DeckLegalityReport {
+  format: DeckFormat;
+  legal: boolean;
+  card_count: number;
+  commanders: string[];
+  violations: LegalityViolation[];
+}
+
+export type DeckCardType =
+  | 'land'
+  | 'creature'
+  | 'planeswalker'
+  | 'battle'
+  | 'instant'
+  | 'sorcery'
+  | 'artifact'
+  | 'enchantment'
+  | 'other';
+
+export type ManaColor = 'W' | 'U' | 'B' | 'R' | 'G' | 'C';
+
+export interface DeckStats {
+  card_count: number;
+  land_count: number;
+  spell_count: number;
+  unknown_count: number;
+  average_cmc: number | null;
+  land_to_spell_ratio: number | null;
+  /** Non-land cards per mana value; the last bucket (7) is 7 and above */
+  mana_curve: { cmc: number; count: number }[];
+  color_pips: Record<ManaColor, number>;
+  types: Record<DeckCardType, number>;
+}
+
+export type ExportFormat = 'arena' | 'mtgo' | 'moxfield' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['arena', 'mtgo', 'moxfield', 'json'];
+
+export interface ExportedFile {
+  filename: string;
+  content: string;
+}
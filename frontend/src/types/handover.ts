@@ -0,0 +1,73 @@
+import { CardFinish, DeckBoard } from './card';
+import { TcgType } from './collection';
+import { Owner } from './owner';
+
+/**
+ * What a handover does with the owner's cards: take them out of their decks,
+ * remove them from the collections, or move them to another collection
+ */
+export type HandoverAction = 'clear_deck' | 'return' | 'move';
+
+/**
+ * A card a handover affected, as it was at the time
+ */
+export interface HandoverItem {
+  card_id: string;
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  collection_name: string;
+  deck_name: string | null;
+  board: DeckBoard;
+}
+
+/**
+ * A card a handover would affect
+ */
+export interface HandoverPreviewItem extends HandoverItem {
+  collection_id: string;
+  tcg_type: TcgType;
+  /** Copies on open loans; returning them is refused until those are closed */
+  open_loans: number;
+}
+
+export interface HandoverPreview {
+  owner: Owner;
+  action: HandoverAction;
+  deck: { id: string; name: string } | null;
+  items: HandoverPreviewItem[];
+  card_count: number;
+}
+
+/**
+ * A recorded handover (names are kept in case the owner, deck or
+ * collection is later renamed or deleted)
+ */
+export interface Handover {
+  id: string;
+  user_id: string;
+  owner_id: string | null;
+  owner_name: string;
+  action: HandoverAction;
+  deck_id: string | null;
+  deck_name: string | null;
+  target_collection_id: string | null;
+  target_collection_name: string | null;
+  notes: string | null;
+  created_at: string;
+  card_count: number;
+}
+
+export interface HandoverWithItems extends Handover {
+  items: HandoverItem[];
+}
+
+export interface CreateHandoverRequest {
+  owner_id: string;
+  action: HandoverAction;
+  deck_id?: string | null;
+  collection_id?: string | null;
+  notes?: string | null;
+}
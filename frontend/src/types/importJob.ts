@@ -0,0 +1,42 @@
+import { CsvImportFormat, ImportFailure } from './card';
+
+export type ImportJobKind = 'deck_list' | 'csv' | 'commit';
+
+/**
+ * How the cards are written: batch by batch, in one transaction skipping
+ * cards not found, or in one transaction that any card not found rejects
+ */
+export type ImportJobMode = 'batched' | 'transaction' | 'atomic';
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Background import (deck list, collection CSV or reviewed rows); the
+ * counts grow as the server works through the batches
+ */
+export interface ImportJob {
+  id: string;
+  user_id: string;
+  collection_id: string;
+  kind: ImportJobKind;
+  mode: ImportJobMode;
+  status: ImportJobStatus;
+  format: CsvImportFormat | null;
+  total: number;
+  processed: number;
+  imported: number;
+  failed: number;
+  failures: ImportFailure[];
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * Whether the job is still queued or being imported
+ */
+export function isImportJobActive(job: ImportJob): boolean {
+  return job.status === 'pending' || job.status === 'running';
+}
@@ -0,0 +1,49 @@
+import { CardFinish } from './card';
+
+export type LoanDirection = 'lent' | 'borrowed';
+
+/**
+ * Which loans to list: still open, already returned, or both
+ */
+export type LoanStatusFilter = 'open' | 'returned' | 'all';
+
+/**
+ * Copies of a card lent to or borrowed from someone (dates are YYYY-MM-DD;
+ * returned_date is null while the loan is open). card_id is null once the
+ * card was removed from the collection.
+ */
+export interface CardLoan {
+  id: string;
+  card_id: string | null;
+  collection_id: string;
+  quantity: number;
+  direction: LoanDirection;
+  counterparty: string;
+  start_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  is_overdue: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Loan listed with the card it is for
+ */
+export interface CardLoanWithCard extends CardLoan {
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  owner_name: string;
+}
+
+export interface OpenLoanRequest {
+  direction: LoanDirection;
+  counterparty: string;
+  quantity?: number;
+  start_date?: string;
+  due_date?: string | null;
+  notes?: string | null;
+}
@@ -0,0 +1,92 @@
+import { CardFinish, DeckBoard } from './card';
+
+/**
+ * Owner (a person the physical cards belong to)
+ */
+export interface Owner {
+  id: string;
+  user_id: string;
+  name: string;
+  contact: string | null;
+  /** Color tag, #RRGGBB */
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  card_count?: number;
+}
+
+export interface CreateOwnerRequest {
+  name: string;
+  contact?: string | null;
+  color?: string | null;
+}
+
+export interface UpdateOwnerRequest {
+  name?: string;
+  contact?: string | null;
+  color?: string | null;
+}
+
+/**
+ * Owners whose names differ only in case, accents or spacing, suggested
+ * for merging
+ */
+export interface OwnerDuplicateGroup {
+  owners: Owner[];
+  /** The owner with the most cards, to merge the others into */
+  suggested_target_id: string;
+}
+
+export interface OwnerMergeResult {
+  owner: Owner;
+  merged_owner_ids: string[];
+  moved_cards: number;
+}
+
+/**
+ * One card row in an owner's report
+ */
+export interface OwnerReportCard {
+  card_id: string;
+  scryfall_id: string;
+  card_name: string | null;
+  set_code: string | null;
+  finish: CardFinish;
+  quantity: number;
+  collection_id: string;
+  collection_name: string;
+  deck_id: string | null;
+  deck_name: string | null;
+  board: DeckBoard;
+  /** USD price of one copy */
+  unit_price: number | null;
+  unit_price_eur: number | null;
+  /** Copies out on open lent loans */
+  lent_quantity: number;
+  /** Who those copies are lent to, comma-separated */
+  lent_to: string | null;
+}
+
+export interface OwnerReportDeck {
+  deck_id: string;
+  deck_name: string;
+  card_count: number;
+}
+
+/**
+ * Everything one owner has across all collections (total_value in USD)
+ */
+export interface OwnerReport {
+  owner: Owner;
+  card_count: number;
+  total_value: number;
+  total_value_eur: number;
+  lent_count: number;
+  decks: OwnerReportDeck[];
+  cards: OwnerReportCard[];
+}
+
+/**
+ * Color tags offered when creating or editing an owner
+ */
+export const OWNER_COLORS = ['#4f6ef7', '#22c55e', '#f59e0b', '#f87171', '#a855f7', '#06b6d4', '#ec4899', '#94a3b8'];
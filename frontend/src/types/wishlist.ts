@@ -0,0 +1,74 @@
+import { CardFinish, ScryfallCard } from './card';
+import { TcgType } from './collection';
+
+export type WishlistPriority = 'low' | 'medium' | 'high';
+
+export const WISHLIST_PRIORITIES: WishlistPriority[] = ['high', 'medium', 'low'];
+
+/**
+ * Which wishlist items to list: open, fulfilled, or both
+ */
+export type WishlistStatusFilter = 'open' | 'fulfilled' | 'all';
+
+/**
+ * A card the user wants: this printing, or any printing of the card
+ * (any_printing). finish is null for any finish and max_price is in USD.
+ * Copies added to a collection count towards acquired_quantity, and the
+ * item is fulfilled once that reaches quantity.
+ */
+export interface WishlistItem {
+  id: string;
+  user_id: string;
+  tcg_type: TcgType;
+  scryfall_id: string;
+  card_name: string;
+  any_printing: boolean;
+  finish: CardFinish | null;
+  quantity: number;
+  acquired_quantity: number;
+  max_price: number | null;
+  priority: WishlistPriority;
+  notes: string | null;
+  fulfilled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Wishlist item with its card and the current price of one copy
+ */
+export interface WishlistItemWithDetails extends WishlistItem {
+  scryfall_data: ScryfallCard | null;
+  unit_price: number | null;
+  unit_price_eur: number | null;
+}
+
+/**
+ * The wishlist and what the copies still missing would cost (in USD)
+ */
+export interface Wishlist {
+  items: WishlistItemWithDetails[];
+  open_count: number;
+  total_cost: number;
+  total_cost_eur: number;
+}
+
+export interface AddWishlistItemRequest {
+  scryfall_id: string;
+  tcg_type?: TcgType;
+  any_printing?: boolean;
+  finish?: CardFinish | null;
+  quantity?: number;
+  max_price?: number | null;
+  priority?: WishlistPriority;
+  notes?: string | null;
+}
+
+export interface UpdateWishlistItemRequest {
+  any_printing?: boolean;
+  finish?: CardFinish | null;
+  quantity?: number;
+  max_price?: number | null;
+  priority?: WishlistPriority;
+  notes?: string | null;
+}
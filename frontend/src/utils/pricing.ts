@@ -0,0 +1,42 @@
+import { CardFinish, CardWithDetails } from '../types/card';
+
+/**
+ * Parse a price from card data or a stored column, null when missing
+ */
+export function parsePrice(value: number | string | null | undefined): number | null {
+  const price = parseFloat(String(value ?? ''));
+  return Number.isFinite(price) ? price : null;
+}
+
+/**
+ * Price of a card copy for its finish, in USD or native EUR
+ *
+ * Uses the live price from the card data when it is available and falls
+ * back to the price stored when the card was added. There is no fallback
+ * between finishes: a foil copy never takes the non-foil price. Etched
+ * copies have no EUR price.
+ */
+export function getCardPrice(card: CardWithDetails, priceCurrency: 'usd' | 'eur' = 'usd'): number | null {
+  const prices = card.scryfall_data?.prices;
+  const [live, stored] =
+    priceCurrency === 'eur'
+      ? card.finish === 'foil' ? [prices?.eur_foil, card.price_eur_foil]
+      : card.finish === 'etched' ? [null, null]
+      : [prices?.eur, card.price_eur]
+    : card.finish === 'foil' ? [prices?.usd_foil, card.price_usd_foil]
+    : card.finish === 'etched' ? [prices?.usd_etched, card.price_usd_etched]
+    : [prices?.usd, card.price_usd];
+
+  return parsePrice(live ?? stored);
+}
+
+/**
+ * Finishes a card can be toggled between (non-foil and foil when unknown)
+ */
+export function getAvailableFinishes(card: CardWithDetails): CardFinish[] {
+  const finishes = (card.scryfall_data?.finishes ?? []).filter(
+    (finish): finish is CardFinish => finish === 'nonfoil' || finish === 'foil' || finish === 'etched'
+  );
+  if (finishes.length === 0) return ['nonfoil', 'foil'];
+  return finishes.includes(card.finish) ? finishes : [card.finish, ...finishes];
+}